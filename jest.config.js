@@ -35,7 +35,7 @@ module.exports = {
   },
 
   // Module name mapping for TypeScript path aliases
-  moduleNameMapping: {
+  moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
   },
 
@@ -52,7 +52,8 @@ export async function GET(_request: NextRequest) {
       );
     }
 
-    // Fetch all businesses with key metrics for the switcher
+    // Fetch all businesses with key metrics for the developer overview; the business
+    // switcher lists only the user's own memberships via GET /api/businesses
     const businesses = await prisma.business.findMany({
       select: {
         id: true,
@@ -1,10 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getBusinessContext } from '@/lib/auth-context';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
 import { z } from 'zod';
 
 const analyticsQuerySchema = z.object({
-  days: z.string().optional().default('30').transform(val => parseInt(val, 10)),
+  days: z
+    .string()
+    .optional()
+    .default('30')
+    .transform(val => parseInt(val, 10)),
   channel: z.enum(['EMAIL', 'SMS']).optional(),
 });
 
@@ -12,6 +20,7 @@ export async function GET(request: NextRequest) {
   try {
     // Get business from auth
     const businessContext = await getBusinessContext();
+    requirePermission(businessContext, 'analytics:read');
     const businessId = businessContext.businessId;
 
     // Parse and validate query parameters
@@ -23,16 +32,20 @@ export async function GET(request: NextRequest) {
 
     if (!queryResult.success) {
       return NextResponse.json(
-        { 
-          success: false, 
-          error: { code: 'VALIDATION_ERROR', message: 'Invalid query parameters', details: queryResult.error.flatten() } 
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details: queryResult.error.flatten(),
+          },
         },
         { status: 400 }
       );
     }
 
     const { days, channel } = queryResult.data;
-    
+
     // Calculate date range
     const endDate = new Date();
     const startDate = new Date();
@@ -67,12 +80,21 @@ export async function GET(request: NextRequest) {
       },
     });
 
+    // Get requests that turned into a Google review
+    const totalCompleted = await prisma.reviewRequest.count({
+      where: {
+        ...whereClause,
+        completedAt: { not: null },
+      },
+    });
+
     // Get daily breakdown
-    const dailyStats = await prisma.$queryRaw`
+    const dailyStats = (await prisma.$queryRaw`
       SELECT 
         DATE(created_at AT TIME ZONE 'UTC') as date,
         COUNT(CASE WHEN status IN ('SENT', 'DELIVERED', 'CLICKED', 'COMPLETED') THEN 1 END)::int as sent,
-        COUNT(CASE WHEN clicked_at IS NOT NULL THEN 1 END)::int as clicked
+        COUNT(CASE WHEN clicked_at IS NOT NULL THEN 1 END)::int as clicked,
+        COUNT(CASE WHEN completed_at IS NOT NULL THEN 1 END)::int as completed
       FROM review_requests 
       WHERE business_id = ${businessId}
         AND created_at >= ${startDate}
@@ -81,10 +103,11 @@ export async function GET(request: NextRequest) {
       GROUP BY DATE(created_at AT TIME ZONE 'UTC')
       ORDER BY date DESC
       LIMIT 30
-    ` as Array<{ date: Date; sent: number; clicked: number }>;
+    `) as Array<{ date: Date; sent: number; clicked: number; completed: number }>;
 
     // Calculate click-through rate
-    const clickThroughRate = totalSent > 0 ? ((totalClicked / totalSent) * 100) : 0;
+    const clickThroughRate = totalSent > 0 ? (totalClicked / totalSent) * 100 : 0;
+    const completionRate = totalSent > 0 ? (totalCompleted / totalSent) * 100 : 0;
 
     // Get channel breakdown
     const channelStats = await prisma.reviewRequest.groupBy({
@@ -108,15 +131,58 @@ export async function GET(request: NextRequest) {
       channel: stat.channel,
       totalSent: stat._count.id,
       totalClicked: stat._sum.clickedAt || 0,
-      clickThroughRate: stat._count.id > 0 ? ((stat._sum.clickedAt || 0) / stat._count.id * 100) : 0,
+      clickThroughRate:
+        stat._count.id > 0 ? ((stat._sum.clickedAt || 0) / stat._count.id) * 100 : 0,
     }));
 
+    // Get review destination breakdown; requests without one went to the Google review URL
+    const [destinationSent, destinationClicked, destinations] = await Promise.all([
+      prisma.reviewRequest.groupBy({
+        by: ['destinationId'],
+        where: {
+          ...whereClause,
+          status: { in: ['SENT', 'DELIVERED', 'CLICKED', 'COMPLETED'] },
+        },
+        _count: { id: true },
+      }),
+      prisma.reviewRequest.groupBy({
+        by: ['destinationId'],
+        where: {
+          ...whereClause,
+          clickedAt: { not: null },
+        },
+        _count: { id: true },
+      }),
+      prisma.reviewDestination.findMany({
+        where: { businessId },
+        select: { id: true, platform: true, label: true },
+      }),
+    ]);
+
+    const clickedByDestination = new Map(
+      destinationClicked.map(stat => [stat.destinationId, stat._count.id])
+    );
+    const destinationBreakdown = destinationSent.map(stat => {
+      const destination = destinations.find(d => d.id === stat.destinationId);
+      const clicked = clickedByDestination.get(stat.destinationId) || 0;
+      return {
+        destinationId: stat.destinationId,
+        platform: destination?.platform ?? 'GOOGLE',
+        label: destination?.label ?? null,
+        totalSent: stat._count.id,
+        totalClicked: clicked,
+        clickThroughRate: stat._count.id > 0 ? (clicked / stat._count.id) * 100 : 0,
+      };
+    });
+
     // Format daily stats with click-through rates
     const formattedDailyStats = dailyStats.map(day => ({
       date: day.date.toISOString().split('T')[0],
       sent: day.sent,
       clicked: day.clicked,
-      clickThroughRate: day.sent > 0 ? ((day.clicked / day.sent) * 100) : 0,
+      completed: day.completed,
+      clickThroughRate: day.sent > 0 ? (day.clicked / day.sent) * 100 : 0,
+      completionRate: day.sent > 0 ? (day.completed / day.sent) * 100 : 0,
     }));
 
     return NextResponse.json({
@@ -126,9 +192,12 @@ export async function GET(request: NextRequest) {
           totalSent,
           totalClicked,
           clickThroughRate: Math.round(clickThroughRate * 100) / 100, // Round to 2 decimal places
+          totalCompleted,
+          completionRate: Math.round(completionRate * 100) / 100,
         },
         dailyStats: formattedDailyStats,
         channelBreakdown,
+        destinationBreakdown,
         dateRange: {
           startDate: startDate.toISOString(),
           endDate: endDate.toISOString(),
@@ -136,18 +205,20 @@ export async function GET(request: NextRequest) {
         },
       },
     });
-
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     console.error('Analytics error:', error);
     return NextResponse.json(
-      { 
-        success: false, 
-        error: { 
-          code: 'INTERNAL_ERROR', 
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
           message: 'Failed to fetch click-through rate analytics',
-        } 
+        },
       },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
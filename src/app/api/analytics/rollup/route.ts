@@ -0,0 +1,74 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getBusinessContext, permissionDeniedResponse } from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { getAgencyRollup, type AgencyRollup } from '@/services/agency';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+const rollupQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+// GET /api/analytics/rollup - Funnel for every business the user belongs to, with agency totals
+export async function GET(request: NextRequest) {
+  try {
+    // Permissions are checked per business inside the rollup, not against the active one
+    const context = await getBusinessContext();
+
+    const url = new URL(request.url);
+    const { days } = rollupQuerySchema.parse(Object.fromEntries(url.searchParams));
+
+    const result = await getAgencyRollup(context.userId, { days });
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'FETCH_FAILED', message: result.error },
+        } satisfies ApiErrorResponse,
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<AgencyRollup>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof Error && error.message.includes('BUSINESS_NOT_FOUND')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'BUSINESS_NOT_FOUND',
+            message: 'No business found for this user. Please complete onboarding.',
+          },
+        } satisfies ApiErrorResponse,
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid query', details: error.errors },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    logger.error('Error loading agency rollup', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to load agency analytics' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
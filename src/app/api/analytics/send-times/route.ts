@@ -0,0 +1,109 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import {
+  getOptimalSendTimes,
+  type OptimalSendTime,
+  type SendTimeModel,
+} from '@/services/send-time';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+const sendTimesQuerySchema = z.object({
+  customerIds: z
+    .string()
+    .optional()
+    .transform(value => (value ? value.split(',').filter(Boolean) : []))
+    .pipe(z.array(z.string().uuid()).max(1000)),
+});
+
+// GET /api/analytics/send-times - OPTIMAL send slots per customer with the reasoning behind them
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'analytics:read');
+    const { businessId } = context;
+
+    const url = new URL(request.url);
+    const query = sendTimesQuerySchema.parse(Object.fromEntries(url.searchParams));
+
+    const [business, customers] = await Promise.all([
+      prisma.business.findUnique({
+        where: { id: businessId },
+        select: { id: true, timezone: true, googleTypes: true, sendingHours: true },
+      }),
+      prisma.customer.findMany({
+        where: { id: { in: query.customerIds }, businessId, isActive: true },
+        select: { id: true, firstName: true },
+      }),
+    ]);
+
+    if (!business) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'BUSINESS_NOT_FOUND', message: 'Business not found' },
+        } satisfies ApiErrorResponse,
+        { status: 404 }
+      );
+    }
+
+    const result = await getOptimalSendTimes(business, customers);
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'FETCH_FAILED', message: result.error },
+        } satisfies ApiErrorResponse,
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<{ model: SendTimeModel; sendTimes: OptimalSendTime[] }>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof Error && error.message.includes('BUSINESS_NOT_FOUND')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'BUSINESS_NOT_FOUND',
+            message: 'No business found for this user. Please complete onboarding.',
+          },
+        } satisfies ApiErrorResponse,
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid query', details: error.errors },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    logger.error('Error calculating send times', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to calculate send times' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { analyticsTrendsQuerySchema } from '@/lib/validators/analytics';
+import { getAnalyticsTrends, type AnalyticsTrends } from '@/services/analytics';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+// GET /api/analytics/trends - Funnel time series, period-over-period deltas and time to click
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'analytics:read');
+
+    const url = new URL(request.url);
+    const query = analyticsTrendsQuerySchema.parse(Object.fromEntries(url.searchParams));
+
+    const result = await getAnalyticsTrends(context.businessId, query);
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'FETCH_FAILED', message: result.error },
+        } satisfies ApiErrorResponse,
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<AnalyticsTrends>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof Error && error.message.includes('BUSINESS_NOT_FOUND')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'BUSINESS_NOT_FOUND',
+            message: 'No business found for this user. Please complete onboarding.',
+          },
+        } satisfies ApiErrorResponse,
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid query', details: error.errors },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    logger.error('Error loading analytics trends', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to load analytics trends' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
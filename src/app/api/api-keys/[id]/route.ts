@@ -0,0 +1,48 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { parseApiKeyError, revokeApiKey, type ApiKeySummary } from '@/services/api-keys';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// DELETE /api/api-keys/[id] - Revoke a key; it stops working straight away
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'business:manage');
+    const { id } = await params;
+
+    const result = await revokeApiKey(context.businessId, id);
+    if (!result.success) {
+      const { code, status, message } = parseApiKeyError(result.error);
+      return NextResponse.json(
+        { success: false, error: { code, message } } satisfies ApiErrorResponse,
+        { status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<ApiKeySummary>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    logger.error('Error revoking API key', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to revoke API key' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { createApiKeySchema } from '@/lib/validators/apiKey';
+import {
+  createApiKey,
+  listApiKeys,
+  type ApiKeySummary,
+  type CreatedApiKey,
+} from '@/services/api-keys';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+// GET /api/api-keys - This business's API keys, without their secrets
+export async function GET(_request: NextRequest) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'business:manage');
+
+    const result = await listApiKeys(context.businessId);
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'INTERNAL_ERROR', message: result.error },
+        } satisfies ApiErrorResponse,
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<ApiKeySummary[]>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    logger.error('Error fetching API keys', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch API keys' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/api-keys - Issue a key; the response is the only time the secret is shown
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'business:manage');
+    const input = createApiKeySchema.parse(await request.json());
+
+    const result = await createApiKey(context.businessId, context.userId, input);
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'INTERNAL_ERROR', message: result.error },
+        } satisfies ApiErrorResponse,
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.data } satisfies ApiSuccessResponse<CreatedApiKey>,
+      { status: 201 }
+    );
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid API key',
+            details: error instanceof z.ZodError ? error.errors : undefined,
+          },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    logger.error('Error creating API key', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to create API key' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
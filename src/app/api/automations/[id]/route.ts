@@ -0,0 +1,107 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { AutomationRule } from '@prisma/client';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { updateAutomationRuleSchema } from '@/lib/validators/automation';
+import {
+  deleteAutomationRule,
+  parseAutomationError,
+  updateAutomationRule,
+} from '@/services/automations';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+function automationErrorResponse(error: string) {
+  const { code, status, message } = parseAutomationError(error);
+  return NextResponse.json(
+    { success: false, error: { code, message } } satisfies ApiErrorResponse,
+    { status }
+  );
+}
+
+// PATCH /api/automations/[id] - Change a rule, or pause it with isActive
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'campaigns:manage');
+    const { id } = await params;
+    const input = updateAutomationRuleSchema.parse(await request.json());
+
+    const result = await updateAutomationRule(context.businessId, id, input);
+    if (!result.success) {
+      return automationErrorResponse(result.error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<AutomationRule>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid automation',
+            details: error instanceof z.ZodError ? error.errors : undefined,
+          },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    logger.error('Error updating automation', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to update automation' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/automations/[id] - Remove a rule; requests it already scheduled still send
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'campaigns:manage');
+    const { id } = await params;
+
+    const result = await deleteAutomationRule(context.businessId, id);
+    if (!result.success) {
+      return automationErrorResponse(result.error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id },
+    } satisfies ApiSuccessResponse<{ id: string }>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    logger.error('Error deleting automation', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to delete automation' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
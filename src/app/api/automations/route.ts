@@ -0,0 +1,106 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { AutomationRule } from '@prisma/client';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { createAutomationRuleSchema } from '@/lib/validators/automation';
+import {
+  createAutomationRule,
+  listAutomationRules,
+  parseAutomationError,
+  type AutomationRuleWithUsage,
+} from '@/services/automations';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+// GET /api/automations - Rules that schedule review requests on their own
+export async function GET(_request: NextRequest) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'campaigns:read');
+
+    const result = await listAutomationRules(context.businessId);
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'INTERNAL_ERROR', message: result.error },
+        } satisfies ApiErrorResponse,
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<AutomationRuleWithUsage[]>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    logger.error('Error fetching automations', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch automations' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/automations - Add a rule
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'campaigns:manage');
+    const input = createAutomationRuleSchema.parse(await request.json());
+
+    const result = await createAutomationRule(context.businessId, input);
+    if (!result.success) {
+      const { code, status, message } = parseAutomationError(result.error);
+      return NextResponse.json(
+        { success: false, error: { code, message } } satisfies ApiErrorResponse,
+        { status }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.data } satisfies ApiSuccessResponse<AutomationRule>,
+      { status: 201 }
+    );
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid automation',
+            details: error instanceof z.ZodError ? error.errors : undefined,
+          },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    logger.error('Error creating automation', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to create automation' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  ACTIVE_BUSINESS_COOKIE,
+  getBusinessContext,
+  permissionDeniedResponse,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { switchBusinessSchema } from '@/lib/validators/business';
+import { setDefaultBusiness, type UserBusiness } from '@/services/agency';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+// PUT /api/businesses/active - Switch the business every other request acts on
+export async function PUT(request: NextRequest) {
+  try {
+    const context = await getBusinessContext();
+    const { businessId } = switchBusinessSchema.parse(await request.json());
+
+    const result = await setDefaultBusiness(context.userId, businessId);
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'FORBIDDEN', message: result.error },
+        } satisfies ApiErrorResponse,
+        { status: 403 }
+      );
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<UserBusiness>);
+    response.cookies.set(ACTIVE_BUSINESS_COOKIE, businessId, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: 60 * 60 * 24 * 365,
+    });
+    return response;
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof Error && error.message.includes('BUSINESS_NOT_FOUND')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'BUSINESS_NOT_FOUND',
+            message: 'No business found for this user. Please complete onboarding.',
+          },
+        } satisfies ApiErrorResponse,
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'A valid businessId is required' },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    logger.error('Error switching business', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to switch business' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import type { CreditLedgerEntry } from '@prisma/client';
+import { z } from 'zod';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { getCreditLedger, getCreditUsage, type CreditUsage } from '@/services/credits';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+const creditsQuerySchema = z.object({
+  ledgerLimit: z.coerce.number().int().min(0).max(200).default(20),
+});
+
+// GET /api/businesses/current/credits - This month's credit usage and recent ledger entries
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'business:read');
+    const { businessId } = context;
+
+    const url = new URL(request.url);
+    const query = creditsQuerySchema.parse(Object.fromEntries(url.searchParams));
+
+    const [usage, ledger] = await Promise.all([
+      getCreditUsage(businessId),
+      query.ledgerLimit > 0
+        ? getCreditLedger(businessId, { limit: query.ledgerLimit })
+        : Promise.resolve({ success: true as const, data: [] }),
+    ]);
+
+    if (!usage.success || !ledger.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FETCH_FAILED',
+            message: !usage.success ? usage.error : 'Failed to load credit ledger',
+          },
+        } satisfies ApiErrorResponse,
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...usage.data, ledger: ledger.data },
+    } satisfies ApiSuccessResponse<CreditUsage & { ledger: CreditLedgerEntry[] }>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof Error && error.message.includes('BUSINESS_NOT_FOUND')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'BUSINESS_NOT_FOUND',
+            message: 'No business found for this user. Please complete onboarding.',
+          },
+        } satisfies ApiErrorResponse,
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid query', details: error.errors },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    logger.error('Error loading credit usage', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to load credit usage' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
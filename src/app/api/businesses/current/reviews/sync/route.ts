@@ -0,0 +1,67 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import {
+  NO_PLACE_CONNECTED_ERROR,
+  syncBusinessReviews,
+  type ReviewSyncResult,
+} from '@/services/review-monitoring';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+// POST /api/businesses/current/reviews/sync - Poll Google now and mark matched requests COMPLETED
+export async function POST(_request: NextRequest) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'analytics:read');
+    const { businessId } = context;
+
+    const result = await syncBusinessReviews(businessId);
+
+    if (!result.success) {
+      const noPlace = result.error === NO_PLACE_CONNECTED_ERROR;
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: noPlace ? 'PLACE_NOT_CONNECTED' : 'SYNC_FAILED', message: result.error },
+        } satisfies ApiErrorResponse,
+        { status: noPlace ? 400 : 502 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<ReviewSyncResult>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof Error && error.message.includes('BUSINESS_NOT_FOUND')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'BUSINESS_NOT_FOUND',
+            message: 'No business found for this user. Please complete onboarding.',
+          },
+        } satisfies ApiErrorResponse,
+        { status: 404 }
+      );
+    }
+
+    logger.error('Error syncing Google reviews', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to sync Google reviews' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,28 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getBusinessContext } from '@/lib/auth-context';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { Prisma } from '@prisma/client';
+import {
+  contactPolicySchema,
+  landingPageSchema,
+  messagingProvidersSchema,
+  sendingHoursSchema,
+  type ContactPolicyInput,
+  type LandingPageInput,
+  type MessagingProvidersInput,
+  type SendingHoursInput,
+} from '@/lib/validators/business';
 import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
 
 export async function GET(_request: NextRequest) {
   try {
     // Get business context from authenticated user
     const context = await getBusinessContext();
+    requirePermission(context, 'business:read');
     const businessId = context.businessId;
 
     // Get business data from database with all onboarding fields
@@ -20,6 +36,10 @@ export async function GET(_request: NextRequest) {
         address: true,
         website: true,
         timezone: true,
+        sendingHours: true,
+        messagingProviders: true,
+        landingPage: true,
+        contactPolicy: true,
         googlePlaceId: true,
         googlePlaceName: true,
         googleReviewUrl: true,
@@ -58,6 +78,9 @@ export async function GET(_request: NextRequest) {
 
     return NextResponse.json(response);
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     console.error('Get business API error:', error);
 
     if (error instanceof Error && error.message.includes('UNAUTHORIZED')) {
@@ -84,10 +107,90 @@ export async function PUT(request: NextRequest) {
   try {
     // Get business context from authenticated user
     const context = await getBusinessContext();
+    requirePermission(context, 'business:manage');
     const businessId = context.businessId;
 
     const body = await request.json();
 
+    let sendingHours: SendingHoursInput | undefined;
+    if (body.sendingHours !== undefined) {
+      const parsed = sendingHoursSchema.safeParse(body.sendingHours);
+      if (!parsed.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Invalid sending hours',
+              details: parsed.error.errors,
+            },
+          } satisfies ApiErrorResponse,
+          { status: 400 }
+        );
+      }
+      sendingHours = parsed.data;
+    }
+
+    // null clears the override so the environment's providers apply again
+    let messagingProviders: MessagingProvidersInput | typeof Prisma.DbNull | undefined;
+    if (body.messagingProviders === null) {
+      messagingProviders = Prisma.DbNull;
+    } else if (body.messagingProviders !== undefined) {
+      const parsed = messagingProvidersSchema.safeParse(body.messagingProviders);
+      if (!parsed.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Invalid messaging providers',
+              details: parsed.error.errors,
+            },
+          } satisfies ApiErrorResponse,
+          { status: 400 }
+        );
+      }
+      messagingProviders = parsed.data;
+    }
+
+    let landingPage: LandingPageInput | undefined;
+    if (body.landingPage !== undefined) {
+      const parsed = landingPageSchema.safeParse(body.landingPage);
+      if (!parsed.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Invalid landing page settings',
+              details: parsed.error.errors,
+            },
+          } satisfies ApiErrorResponse,
+          { status: 400 }
+        );
+      }
+      landingPage = parsed.data;
+    }
+
+    let contactPolicy: ContactPolicyInput | undefined;
+    if (body.contactPolicy !== undefined) {
+      const parsed = contactPolicySchema.safeParse(body.contactPolicy);
+      if (!parsed.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Invalid contact policy',
+              details: parsed.error.errors,
+            },
+          } satisfies ApiErrorResponse,
+          { status: 400 }
+        );
+      }
+      contactPolicy = parsed.data;
+    }
+
     // Update business data in database
     const updatedBusiness = await prisma.business.update({
       where: { id: businessId },
@@ -98,6 +201,10 @@ export async function PUT(request: NextRequest) {
         address: body.address,
         website: body.website,
         timezone: body.timezone,
+        sendingHours,
+        messagingProviders,
+        landingPage,
+        contactPolicy,
         googleReviewUrl: body.googleReviewUrl,
         googleMapsUrl: body.googleMapsUrl,
         updatedAt: new Date(),
@@ -110,6 +217,10 @@ export async function PUT(request: NextRequest) {
         address: true,
         website: true,
         timezone: true,
+        sendingHours: true,
+        messagingProviders: true,
+        landingPage: true,
+        contactPolicy: true,
         googlePlaceId: true,
         googlePlaceName: true,
         googleReviewUrl: true,
@@ -138,6 +249,9 @@ export async function PUT(request: NextRequest) {
 
     return NextResponse.json(response);
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     console.error('Update business API error:', error);
 
     if (error instanceof Error && error.message.includes('UNAUTHORIZED')) {
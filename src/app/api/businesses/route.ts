@@ -0,0 +1,60 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { listUserBusinesses, type UserBusiness } from '@/services/agency';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+// GET /api/businesses - Businesses the signed-in user belongs to, for the business switcher
+export async function GET(_request: NextRequest) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'business:read');
+
+    const result = await listUserBusinesses(context.userId);
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'FETCH_FAILED', message: result.error },
+        } satisfies ApiErrorResponse,
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { businesses: result.data, activeBusinessId: context.businessId },
+    } satisfies ApiSuccessResponse<{ businesses: UserBusiness[]; activeBusinessId: string }>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof Error && error.message.includes('BUSINESS_NOT_FOUND')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'BUSINESS_NOT_FOUND',
+            message: 'No business found for this user. Please complete onboarding.',
+          },
+        } satisfies ApiErrorResponse,
+        { status: 404 }
+      );
+    }
+
+    logger.error('Error listing businesses', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to load businesses' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,158 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { updateCampaignSchema } from '@/lib/validators/campaign';
+import {
+  deleteCampaign,
+  getCampaign,
+  updateCampaign,
+  type CampaignWithStats,
+} from '@/services/campaigns';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+function businessNotFoundResponse() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: 'BUSINESS_NOT_FOUND',
+        message: 'No business found for this user. Please complete onboarding.',
+      },
+    } satisfies ApiErrorResponse,
+    { status: 404 }
+  );
+}
+
+function campaignErrorResponse(message: string) {
+  const notFound = message === 'Campaign not found';
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: { code: notFound ? 'NOT_FOUND' : 'CAMPAIGN_ERROR', message },
+    } satisfies ApiErrorResponse,
+    { status: notFound ? 404 : 400 }
+  );
+}
+
+function internalErrorResponse(action: string, error: unknown) {
+  logger.error(`Error trying to ${action} campaign`, {
+    error: error instanceof Error ? error.message : 'Unknown error',
+  });
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: `Failed to ${action} campaign` },
+    } satisfies ApiErrorResponse,
+    { status: 500 }
+  );
+}
+
+// GET /api/campaigns/[id] - Get a campaign with funnel stats
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'campaigns:read');
+    const { businessId } = context;
+    const { id } = await params;
+
+    const result = await getCampaign(businessId, id);
+    if (!result.success) {
+      return campaignErrorResponse(result.error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<CampaignWithStats>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof Error && error.message.includes('BUSINESS_NOT_FOUND')) {
+      return businessNotFoundResponse();
+    }
+    return internalErrorResponse('fetch', error);
+  }
+}
+
+// PUT /api/campaigns/[id] - Edit a draft campaign
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'campaigns:manage');
+    const { businessId } = context;
+    const { id } = await params;
+    const input = updateCampaignSchema.parse(await request.json());
+
+    const result = await updateCampaign(businessId, id, input);
+    if (!result.success) {
+      return campaignErrorResponse(result.error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<CampaignWithStats>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof Error && error.message.includes('BUSINESS_NOT_FOUND')) {
+      return businessNotFoundResponse();
+    }
+
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid campaign data',
+            details: error instanceof z.ZodError ? error.errors : undefined,
+          },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    return internalErrorResponse('update', error);
+  }
+}
+
+// DELETE /api/campaigns/[id] - Soft delete a draft or finished campaign
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'campaigns:manage');
+    const { businessId } = context;
+    const { id } = await params;
+
+    const result = await deleteCampaign(businessId, id);
+    if (!result.success) {
+      return campaignErrorResponse(result.error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<{ id: string }>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof Error && error.message.includes('BUSINESS_NOT_FOUND')) {
+      return businessNotFoundResponse();
+    }
+    return internalErrorResponse('delete', error);
+  }
+}
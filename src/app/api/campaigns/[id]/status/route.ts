@@ -0,0 +1,91 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { campaignStatusActionSchema } from '@/lib/validators/campaign';
+import { changeCampaignStatus, type CampaignWithStats } from '@/services/campaigns';
+import { INSUFFICIENT_CREDITS_ERROR } from '@/services/credits';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+// POST /api/campaigns/[id]/status - Launch, pause, resume or cancel a campaign
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'campaigns:manage');
+    const { businessId } = context;
+    const { id } = await params;
+    const { action } = campaignStatusActionSchema.parse(await request.json());
+
+    const result = await changeCampaignStatus(businessId, id, action);
+    if (!result.success) {
+      const notFound = result.error === 'Campaign not found';
+      if (result.error.startsWith(INSUFFICIENT_CREDITS_ERROR)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: { code: 'INSUFFICIENT_CREDITS', message: result.error },
+          } satisfies ApiErrorResponse,
+          { status: 402 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: notFound ? 'NOT_FOUND' : 'INVALID_TRANSITION', message: result.error },
+        } satisfies ApiErrorResponse,
+        { status: notFound ? 404 : 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<CampaignWithStats>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof Error && error.message.includes('BUSINESS_NOT_FOUND')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'BUSINESS_NOT_FOUND',
+            message: 'No business found for this user. Please complete onboarding.',
+          },
+        } satisfies ApiErrorResponse,
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Action must be one of launch, pause, resume or cancel',
+            details: error instanceof z.ZodError ? error.errors : undefined,
+          },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    logger.error('Error changing campaign status', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to change campaign status' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { campaignQuerySchema, createCampaignSchema } from '@/lib/validators/campaign';
+import { createCampaign, listCampaigns, type CampaignWithStats } from '@/services/campaigns';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+function businessNotFoundResponse() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: 'BUSINESS_NOT_FOUND',
+        message: 'No business found for this user. Please complete onboarding.',
+      },
+    } satisfies ApiErrorResponse,
+    { status: 404 }
+  );
+}
+
+// GET /api/campaigns - List campaigns with funnel stats
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'campaigns:read');
+    const { businessId } = context;
+
+    const url = new URL(request.url);
+    const query = campaignQuerySchema.parse(Object.fromEntries(url.searchParams));
+
+    const result = await listCampaigns(businessId, query);
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'FETCH_FAILED', message: result.error },
+        } satisfies ApiErrorResponse,
+        { status: 500 }
+      );
+    }
+
+    const totalPages = Math.ceil(result.data.totalCount / query.limit);
+
+    return NextResponse.json({
+      success: true,
+      data: result.data.campaigns,
+      meta: {
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          totalCount: result.data.totalCount,
+          totalPages,
+          hasNextPage: query.page < totalPages,
+          hasPrevPage: query.page > 1,
+        },
+      },
+    } satisfies ApiSuccessResponse<CampaignWithStats[]>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof Error && error.message.includes('BUSINESS_NOT_FOUND')) {
+      return businessNotFoundResponse();
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid query', details: error.errors },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    logger.error('Error listing campaigns', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch campaigns' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/campaigns - Create a draft campaign
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'campaigns:manage');
+    const { businessId } = context;
+    const input = createCampaignSchema.parse(await request.json());
+
+    const result = await createCampaign(businessId, input);
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'CAMPAIGN_CREATION_FAILED', message: result.error },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.data } satisfies ApiSuccessResponse<CampaignWithStats>,
+      { status: 201 }
+    );
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof Error && error.message.includes('BUSINESS_NOT_FOUND')) {
+      return businessNotFoundResponse();
+    }
+
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid campaign data',
+            details: error instanceof z.ZodError ? error.errors : undefined,
+          },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    logger.error('Error creating campaign', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to create campaign' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
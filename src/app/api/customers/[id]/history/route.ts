@@ -1,6 +1,10 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getBusinessContext } from '@/lib/auth-context';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
 
 interface HistoryEvent {
   id: string;
@@ -33,8 +37,12 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
     let businessId: string;
     try {
       const context = await getBusinessContext();
+      requirePermission(context, 'customers:read');
       businessId = context.businessId;
     } catch (error: unknown) {
+      const denied = permissionDeniedResponse(error);
+      if (denied) return denied;
+
       // Handle specific business context errors
       if (error.message?.includes('BUSINESS_NOT_FOUND')) {
         return NextResponse.json(
@@ -335,6 +343,9 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       },
     });
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     console.error('Failed to fetch customer history:', error);
     return NextResponse.json(
       {
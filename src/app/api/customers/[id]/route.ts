@@ -1,7 +1,12 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { getBusinessContext } from '@/lib/auth-context';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { queueCustomerTaggedAutomations } from '@/services/automations';
 import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
 import type { Customer } from '@/components/dashboard/customers/types';
 
@@ -127,6 +132,7 @@ function transformCustomerForFrontend(customer: {
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
     const context = await getBusinessContext();
+    requirePermission(context, 'customers:read');
     const businessId = context.businessId;
     const { id: customerId } = await params;
 
@@ -181,6 +187,9 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       data: transformedCustomer,
     } satisfies ApiSuccessResponse<Customer>);
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     console.error('Error fetching customer:', error);
     return NextResponse.json(
       {
@@ -196,6 +205,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
 export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
     const context = await getBusinessContext();
+    requirePermission(context, 'customers:write');
     const businessId = context.businessId;
     const { id: customerId } = await params;
 
@@ -209,7 +219,7 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
         businessId: businessId,
         isActive: true,
       },
-      select: { id: true },
+      select: { id: true, tags: true },
     });
 
     if (!existingCustomer) {
@@ -278,6 +288,13 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       },
     });
 
+    await queueCustomerTaggedAutomations(
+      businessId,
+      customerId,
+      existingCustomer.tags,
+      updatedCustomer.tags
+    );
+
     const transformedCustomer = transformCustomerForFrontend(updatedCustomer);
 
     return NextResponse.json({
@@ -285,6 +302,9 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       data: transformedCustomer,
     } satisfies ApiSuccessResponse<Customer>);
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         {
@@ -325,6 +345,7 @@ export async function DELETE(
 ) {
   try {
     const context = await getBusinessContext();
+    requirePermission(context, 'customers:write');
     const businessId = context.businessId;
     const { id: customerId } = await params;
 
@@ -365,6 +386,9 @@ export async function DELETE(
 
     return NextResponse.json(response);
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     console.error('Error deleting customer:', error);
     return NextResponse.json(
       {
@@ -0,0 +1,226 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { parseSpreadsheet } from '@/lib/spreadsheet';
+import { getRateLimiter } from '@/lib/business-rate-limiter';
+import { getBusinessRulesValidator } from '@/lib/business-rules-validation';
+import {
+  importCustomers,
+  suggestColumnMapping,
+  type ColumnMapping,
+  type CustomerImportReport,
+} from '@/services/customer-import';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+const ALLOWED_EXTENSIONS = ['.csv', '.xlsx'];
+
+const columnMappingSchema = z
+  .object({
+    firstName: z.string().optional(),
+    lastName: z.string().optional(),
+    email: z.string().optional(),
+    phone: z.string().optional(),
+    address: z.string().optional(),
+    notes: z.string().optional(),
+    tags: z.string().optional(),
+  })
+  .strict() satisfies z.ZodType<ColumnMapping>;
+
+const importOptionsSchema = z.object({
+  dryRun: z.enum(['true', 'false']).default('true'),
+  updateExisting: z.enum(['true', 'false']).default('true'),
+});
+
+// POST /api/customers/import - Preview (dryRun=true, default) or run a CSV/XLSX customer import
+export async function POST(request: NextRequest) {
+  try {
+    let businessId: string;
+    try {
+      const context = await getBusinessContext();
+      requirePermission(context, 'customers:write');
+      businessId = context.businessId;
+    } catch (error: unknown) {
+      if (error instanceof Error && error.message.includes('BUSINESS_NOT_FOUND')) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'BUSINESS_NOT_FOUND',
+              message: 'No business found for this user. Please complete onboarding.',
+            },
+          } satisfies ApiErrorResponse,
+          { status: 404 }
+        );
+      }
+      throw error;
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'A CSV or XLSX file is required' },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+    if (!ALLOWED_EXTENSIONS.includes(extension) || file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'File must be a .csv or .xlsx file no larger than 5MB',
+          },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    const options = importOptionsSchema.parse({
+      dryRun: formData.get('dryRun') ?? undefined,
+      updateExisting: formData.get('updateExisting') ?? undefined,
+    });
+    const dryRun = options.dryRun === 'true';
+
+    let sheet;
+    try {
+      sheet = parseSpreadsheet(file.name, Buffer.from(await file.arrayBuffer()));
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_FILE',
+            message: error instanceof Error ? error.message : 'Could not read file',
+          },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    if (sheet.headers.length === 0 || sheet.rows.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_FILE',
+            message: 'File needs a header row and at least one customer',
+          },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    // Without an explicit mapping, preview using the columns we can recognise
+    const rawMapping = formData.get('mapping');
+    const mapping =
+      typeof rawMapping === 'string' && rawMapping
+        ? columnMappingSchema.parse(JSON.parse(rawMapping))
+        : suggestColumnMapping(sheet.headers);
+
+    const validator = getBusinessRulesValidator();
+    const businessContext = await validator.getBusinessContext(businessId);
+    if (businessContext) {
+      const limits = await validator.validateBulkOperationLimits(
+        'customer_import',
+        sheet.rows.length,
+        businessContext
+      );
+
+      if (!limits.isValid) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'IMPORT_LIMIT_EXCEEDED',
+              message: limits.errors.join('; '),
+              details: limits.metadata,
+            },
+          } satisfies ApiErrorResponse,
+          { status: 400 }
+        );
+      }
+    }
+
+    if (!dryRun) {
+      const rateLimit = await getRateLimiter().checkRateLimit(businessId, 'customer.import', {
+        tier: businessContext?.tier,
+      });
+
+      if (!rateLimit.allowed) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'RATE_LIMIT_EXCEEDED',
+              message: 'Too many imports. Please try again later.',
+              details: { retryAfter: rateLimit.retryAfter },
+            },
+          } satisfies ApiErrorResponse,
+          { status: 429 }
+        );
+      }
+    }
+
+    const result = await importCustomers(businessId, sheet, mapping, {
+      dryRun,
+      updateExisting: options.updateExisting === 'true',
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'IMPORT_FAILED', message: result.error },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.data } satisfies ApiSuccessResponse<CustomerImportReport>,
+      { status: dryRun ? 200 : 201 }
+    );
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    logger.error('Error importing customers', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid import options',
+            details: error instanceof z.ZodError ? error.errors : undefined,
+          },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to import customers' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -2,8 +2,13 @@ import { type NextRequest, NextResponse } from 'next/server';
 import { auth, currentUser } from '@clerk/nextjs/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { getBusinessContext } from '@/lib/auth-context';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
 import { getOrCreateUser } from '@/services/users';
+import { queueCustomerCreatedAutomations } from '@/services/automations';
 import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
 import type { Customer } from '@/components/dashboard/customers/types';
 
@@ -143,6 +148,7 @@ export async function GET(request: NextRequest) {
     let businessId: string;
     try {
       const context = await getBusinessContext();
+      requirePermission(context, 'customers:read');
       businessId = context.businessId;
     } catch (error: unknown) {
       // Handle specific business context errors
@@ -302,6 +308,9 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json(response);
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     console.error('Error fetching customers:', error);
     return NextResponse.json(
       {
@@ -319,6 +328,7 @@ export async function POST(request: NextRequest) {
     let businessId: string;
     try {
       const context = await getBusinessContext();
+      requirePermission(context, 'customers:write');
       businessId = context.businessId;
     } catch (error: unknown) {
       // Handle specific business context errors
@@ -361,6 +371,8 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await queueCustomerCreatedAutomations(businessId, customer);
+
     const transformedCustomer = transformCustomerForFrontend(customer);
 
     const response: ApiSuccessResponse<Customer> = {
@@ -370,6 +382,9 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(response, { status: 201 });
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     console.error('Error creating customer:', error);
 
     if (error instanceof z.ZodError) {
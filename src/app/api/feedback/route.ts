@@ -0,0 +1,52 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { listFeedback, type FeedbackEntry } from '@/services/feedback';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+// GET /api/feedback - Private feedback customers left on the review landing page
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'requests:read');
+
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '50');
+    const result = await listFeedback(
+      context.businessId,
+      Math.min(Math.max(Number.isNaN(limit) ? 50 : limit, 1), 100)
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'INTERNAL_ERROR', message: result.error },
+        } satisfies ApiErrorResponse,
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<FeedbackEntry[]>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    logger.error('Error fetching feedback', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch feedback' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { currentUser } from '@clerk/nextjs/server';
+import type { BusinessRole } from '@prisma/client';
+import { ACTIVE_BUSINESS_COOKIE } from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { acceptInvitation, parseTeamError } from '@/services/team';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+// POST /api/invitations/[token]/accept - Join the inviting business as the signed-in user
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const clerkUser = await currentUser();
+    if (!clerkUser) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Sign in to accept this invitation' },
+        } satisfies ApiErrorResponse,
+        { status: 401 }
+      );
+    }
+
+    const primaryEmail = clerkUser.emailAddresses.find(
+      e => e.id === clerkUser.primaryEmailAddressId
+    );
+    if (!primaryEmail) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Your account has no primary email address' },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    const { token } = await params;
+    const result = await acceptInvitation(token, {
+      clerkUserId: clerkUser.id,
+      email: primaryEmail.emailAddress,
+      verifiedEmails: clerkUser.emailAddresses
+        .filter(e => e.verification?.status === 'verified')
+        .map(e => e.emailAddress),
+      firstName: clerkUser.firstName,
+      lastName: clerkUser.lastName,
+      imageUrl: clerkUser.imageUrl,
+    });
+
+    if (!result.success) {
+      const { code, status, message } = parseTeamError(result.error);
+      return NextResponse.json(
+        { success: false, error: { code, message } } satisfies ApiErrorResponse,
+        { status }
+      );
+    }
+
+    // Land the new teammate in the business they just joined
+    const response = NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<{ businessId: string; role: BusinessRole }>);
+    response.cookies.set(ACTIVE_BUSINESS_COOKIE, result.data.businessId, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: 60 * 60 * 24 * 365,
+    });
+    return response;
+  } catch (error) {
+    logger.error('Error accepting invitation', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to accept invitation' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { getInvitationByToken, parseTeamError, type InvitationDetails } from '@/services/team';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+// GET /api/invitations/[token] - Public invitation details for the accept page
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const result = await getInvitationByToken(token);
+    if (!result.success) {
+      const { code, status, message } = parseTeamError(result.error);
+      return NextResponse.json(
+        { success: false, error: { code, message } } satisfies ApiErrorResponse,
+        { status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<InvitationDetails>);
+  } catch (error) {
+    logger.error('Error loading invitation', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to load invitation' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
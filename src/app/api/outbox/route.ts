@@ -0,0 +1,81 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import type { OutboxMessage } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+const outboxQuerySchema = z.object({
+  channel: z.enum(['SMS', 'EMAIL']).optional(),
+  requestId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// GET /api/outbox - Messages the capture provider recorded instead of sending
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'requests:read');
+    const { businessId } = context;
+
+    const url = new URL(request.url);
+    const query = outboxQuerySchema.parse(Object.fromEntries(url.searchParams));
+
+    const messages = await prisma.outboxMessage.findMany({
+      where: {
+        businessId,
+        channel: query.channel,
+        reviewRequestId: query.requestId,
+      },
+      orderBy: { createdAt: 'desc' },
+      take: query.limit,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: messages,
+    } satisfies ApiSuccessResponse<OutboxMessage[]>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof Error && error.message.includes('BUSINESS_NOT_FOUND')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'BUSINESS_NOT_FOUND',
+            message: 'No business found for this user. Please complete onboarding.',
+          },
+        } satisfies ApiErrorResponse,
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid query', details: error.errors },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    logger.error('Error loading outbox messages', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to load outbox messages' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
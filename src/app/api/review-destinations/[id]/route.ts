@@ -0,0 +1,107 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ReviewDestination } from '@prisma/client';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { updateReviewDestinationSchema } from '@/lib/validators/business';
+import {
+  deleteReviewDestination,
+  parseReviewDestinationError,
+  updateReviewDestination,
+} from '@/services/review-destinations';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+function destinationErrorResponse(error: string) {
+  const { code, status, message } = parseReviewDestinationError(error);
+  return NextResponse.json(
+    { success: false, error: { code, message } } satisfies ApiErrorResponse,
+    { status }
+  );
+}
+
+// PUT /api/review-destinations/[id] - Change a destination's link, weight or status
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'business:manage');
+    const { id } = await params;
+    const input = updateReviewDestinationSchema.parse(await request.json());
+
+    const result = await updateReviewDestination(context.businessId, id, input);
+    if (!result.success) {
+      return destinationErrorResponse(result.error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<ReviewDestination>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid review destination',
+            details: error instanceof z.ZodError ? error.errors : undefined,
+          },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    logger.error('Error updating review destination', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to update review destination' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/review-destinations/[id] - Remove a destination
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'business:manage');
+    const { id } = await params;
+
+    const result = await deleteReviewDestination(context.businessId, id);
+    if (!result.success) {
+      return destinationErrorResponse(result.error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id },
+    } satisfies ApiSuccessResponse<{ id: string }>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    logger.error('Error deleting review destination', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to delete review destination' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
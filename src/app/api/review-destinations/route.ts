@@ -0,0 +1,107 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ReviewDestination } from '@prisma/client';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { createReviewDestinationSchema } from '@/lib/validators/business';
+import {
+  createReviewDestination,
+  listReviewDestinations,
+  type ReviewDestinationWithUsage,
+} from '@/services/review-destinations';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+// GET /api/review-destinations - Review sites this business sends customers to
+export async function GET(_request: NextRequest) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'business:read');
+
+    const result = await listReviewDestinations(context.businessId);
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'INTERNAL_ERROR', message: result.error },
+        } satisfies ApiErrorResponse,
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<ReviewDestinationWithUsage[]>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    logger.error('Error fetching review destinations', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch review destinations' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/review-destinations - Add a review site
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'business:manage');
+    const input = createReviewDestinationSchema.parse(await request.json());
+
+    const result = await createReviewDestination(context.businessId, input);
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'INTERNAL_ERROR', message: result.error },
+        } satisfies ApiErrorResponse,
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.data } satisfies ApiSuccessResponse<ReviewDestination>,
+      { status: 201 }
+    );
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid review destination',
+            details: error instanceof z.ZodError ? error.errors : undefined,
+          },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    logger.error('Error creating review destination', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to create review destination' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,10 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { getBusinessContext } from '@/lib/auth-context';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
 import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
 import { createBusinessScope } from '@/lib/db/businessScoped';
 import { updateReviewRequestSchema } from '@/lib/validators/reviewRequest';
@@ -14,6 +18,7 @@ export async function GET(request: NextRequest, { params }: RouteContext) {
   try {
     // Get business context from authenticated user
     const context = await getBusinessContext();
+    requirePermission(context, 'requests:read');
     const businessId = context.businessId;
 
     // Validate UUID format
@@ -41,6 +46,9 @@ export async function GET(request: NextRequest, { params }: RouteContext) {
 
     return NextResponse.json(response);
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     console.error('Error fetching review request:', error);
 
     if (error instanceof z.ZodError) {
@@ -82,6 +90,7 @@ export async function PUT(request: NextRequest, { params }: RouteContext) {
   try {
     // Get business context from authenticated user
     const context = await getBusinessContext();
+    requirePermission(context, 'requests:send');
     const businessId = context.businessId;
 
     // Validate UUID format
@@ -132,6 +141,9 @@ export async function PUT(request: NextRequest, { params }: RouteContext) {
 
     return NextResponse.json(response);
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     console.error('Error updating review request:', error);
 
     if (error instanceof z.ZodError) {
@@ -173,6 +185,7 @@ export async function DELETE(request: NextRequest, { params }: RouteContext) {
   try {
     // Get business context from authenticated user
     const context = await getBusinessContext();
+    requirePermission(context, 'requests:send');
     const businessId = context.businessId;
 
     // Validate UUID format
@@ -201,6 +214,9 @@ export async function DELETE(request: NextRequest, { params }: RouteContext) {
 
     return NextResponse.json(response);
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     console.error('Error deleting review request:', error);
 
     if (error instanceof z.ZodError) {
@@ -1,10 +1,15 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getBusinessContext } from '@/lib/auth-context';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
 import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
 import { createBusinessScope } from '@/lib/db/businessScoped';
 import { logger } from '@/lib/logger';
 import { getQueue } from '@/services/job-queue';
+import type { SendRequestJobData } from '@/types/external';
 
 interface RouteParams {
   id: string;
@@ -13,7 +18,9 @@ interface RouteParams {
 // POST /api/review-requests/[id]/send-now - Send a scheduled request immediately
 export async function POST(request: NextRequest, { params }: { params: RouteParams }) {
   try {
-    const { businessId } = await getBusinessContext();
+    const context = await getBusinessContext();
+    requirePermission(context, 'requests:send');
+    const { businessId } = context;
     const scope = createBusinessScope(businessId);
     const { id: requestId } = params;
 
@@ -116,7 +123,7 @@ export async function POST(request: NextRequest, { params }: { params: RoutePara
 
     // Update the job in the queue to send immediately
     try {
-      const queue = getQueue('email-queue');
+      const queue = getQueue<SendRequestJobData>('send-request');
       if (queue) {
         // Remove old scheduled job
         const jobs = await queue.getJobs(['delayed'], 0, 1000);
@@ -180,6 +187,9 @@ export async function POST(request: NextRequest, { params }: { params: RoutePara
       },
     } satisfies ApiSuccessResponse<{ message: string; sent: boolean; jobId?: string }>);
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     logger.error('Failed to send request immediately', {
       requestId: params.id,
       error: error instanceof Error ? error.message : 'Unknown error',
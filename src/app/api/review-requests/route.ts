@@ -1,7 +1,11 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { getBusinessContext } from '@/lib/auth-context';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
 import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
 import { createBusinessScope, withBusinessScopedTransaction } from '@/lib/db/businessScoped';
 import {
@@ -9,13 +13,34 @@ import {
   bulkCreateReviewRequestSchema,
   reviewRequestQuerySchema,
 } from '@/lib/validators/reviewRequest';
-import { sendGridService, renderMessage, createPersonalizationData } from '@/services/messaging';
-// MVP: Skip worker initialization - using direct API calls
-// import { ensureWorkersInitialized } from '@/lib/initialize-workers';
+import {
+  renderMessage,
+  createPersonalizationData,
+  templateValuesFor,
+  type PersonalizationBusiness,
+  type PersonalizationCustomer,
+} from '@/services/messaging';
+import { renderTemplate } from '@/lib/template-engine';
+import { getCurrentTemplateVersionId } from '@/services/template-versions';
+import { sendReviewRequestMessage } from '@/services/providers';
 import { addJobToQueue } from '@/services/job-queue';
-
-// MVP: Initialize workers on first API request
-// ensureWorkersInitialized();
+import { resolveCampaignSchedule } from '@/services/campaigns';
+import { resolveSendTime } from '@/lib/sending-window';
+import { getOptimalSendTimes } from '@/services/send-time';
+import { scheduleFollowUpSequence } from '@/services/follow-ups';
+import { parseReviewDestinationError } from '@/services/review-destinations';
+import type { FailedRecipient } from '@/services/review-requests';
+import {
+  dedupeCustomerIds,
+  DUPLICATE_RECIPIENT_BLOCK,
+  type ContactBlock,
+} from '@/lib/contact-policy';
+import {
+  debitRequestCredits,
+  getInsufficientCreditsMessage,
+  refundRequestCredits,
+  reserveRequestCredits,
+} from '@/services/credits';
 
 // Business Logic Helper Functions
 
@@ -27,51 +52,64 @@ function generateTrackingData(): { trackingUuid: string; trackingUrl: string } {
   return { trackingUuid, trackingUrl };
 }
 
-// Template processing with customer data
-function replaceVariables(template: string, customer: any, business: any): string {
-  const variables: Record<string, string> = {
-    // Customer variables - support both old and new format
-    'customer.firstName': customer.firstName || '',
-    'customer.lastName': customer.lastName || '',
-    'customer.fullName': `${customer.firstName || ''} ${customer.lastName || ''}`.trim(),
-    'customer.email': customer.email || '',
-    'customer.phone': customer.phone || '',
-
-    // New template variable format
-    firstName: customer.firstName || '',
-    lastName: customer.lastName || '',
-    customerName: `${customer.firstName || ''} ${customer.lastName || ''}`.trim(),
-    email: customer.email || '',
-    phone: customer.phone || '',
-
-    // Business variables - support both formats
-    'business.name': business.name || '',
-    'business.phone': business.phone || '',
-    'business.email': business.email || '',
-    'business.website': business.website || '',
-
-    // New business variable format
-    businessName: business.name || '',
-    website: business.website || '',
-
-    // System variables
-    'review.url': business.googleReviewUrl || '',
-    reviewUrl: business.googleReviewUrl || '',
-    'unsubscribe.url': `${process.env.NEXT_PUBLIC_APP_URL}/unsubscribe`,
-  };
-
-  let processedTemplate = template;
-  for (const [key, value] of Object.entries(variables)) {
-    const regex = new RegExp(`{{\\s*${key}\\s*}}`, 'g');
-    processedTemplate = processedTemplate.replace(regex, value);
-  }
+// Personalize a message for one recipient with the shared template engine
+function personalizeMessage(
+  template: string,
+  customer: PersonalizationCustomer,
+  business: PersonalizationBusiness,
+  tracking: { trackingUuid: string; trackingUrl: string; reviewUrl: string },
+  escape: 'html' | 'none' = 'none'
+): string {
+  const data = createPersonalizationData(
+    customer,
+    business,
+    tracking.reviewUrl,
+    tracking.trackingUrl,
+    tracking.trackingUuid
+  );
+
+  return renderTemplate(template, templateValuesFor(data), { escape });
+}
 
-  // Variable replacement processing
+function destinationErrorResponse(error: string) {
+  const { code, status, message } = parseReviewDestinationError(error);
+  return NextResponse.json(
+    { success: false, error: { code, message } } satisfies ApiErrorResponse,
+    { status }
+  );
+}
 
-  return processedTemplate;
+// Recipients the contact policy holds back, and repeats of a customer already in the send
+function heldBackRecipients(
+  customers: Array<{ id: string; firstName: string; lastName: string | null }>,
+  duplicates: string[],
+  blocks: Map<string, ContactBlock>
+): { failed: FailedRecipient[]; errors: string[] } {
+  const held = [
+    ...customers.flatMap(customer => {
+      const block = blocks.get(customer.id);
+      return block ? [{ customer, block }] : [];
+    }),
+    ...duplicates.flatMap(customerId => {
+      const customer = customers.find(candidate => candidate.id === customerId);
+      return customer ? [{ customer, block: DUPLICATE_RECIPIENT_BLOCK }] : [];
+    }),
+  ];
+
+  return {
+    failed: held.map(({ customer, block }) => ({
+      customerId: customer.id,
+      code: block.code,
+      error: block.message,
+    })),
+    errors: held.map(
+      ({ customer, block }) =>
+        `Skipped ${customer.firstName} ${customer.lastName}: ${block.message}`
+    ),
+  };
 }
 
-// Send email via SendGrid (async helper function)
+// Send email via the configured message provider (async helper function)
 async function sendEmailViaProvider(
   reviewRequest: any,
   customer: any,
@@ -106,20 +144,20 @@ async function sendEmailViaProvider(
       return { success: false, error: renderResult.error };
     }
 
-    // Send via SendGrid
-    const emailResult = await sendGridService.sendReviewRequestEmail(
-      customer.email,
-      `${customer.firstName} ${customer.lastName}`.trim(),
-      renderResult.data,
-      business.id,
-      reviewRequest.id
-    );
+    // Send via the email provider configured for this business
+    const emailResult = await sendReviewRequestMessage({
+      channel: 'EMAIL',
+      to: customer.email,
+      toName: `${customer.firstName} ${customer.lastName || ''}`.trim(),
+      rendered: renderResult.data,
+      businessId: business.id,
+      requestId: reviewRequest.id,
+    });
 
     if (emailResult.success) {
-      // Email sent successfully
       return {
         success: true,
-        messageId: emailResult.messageId,
+        messageId: emailResult.data.messageId,
       };
     } else {
       console.error('❌ Email sending failed:', emailResult.error);
@@ -145,6 +183,7 @@ const createCampaignSchema = z.object({
 
   // Message content
   templateId: z.string().optional(),
+  destinationId: z.string().uuid().optional(),
   customMessage: z.string().min(1).max(1600).optional(),
   customSubject: z.string().max(200).optional(),
   channel: z.enum(['SMS', 'EMAIL']),
@@ -177,6 +216,7 @@ export async function GET(request: NextRequest) {
     let businessId: string;
     try {
       const context = await getBusinessContext();
+      requirePermission(context, 'requests:read');
       businessId = context.businessId;
     } catch (error: any) {
       // Handle specific business context errors
@@ -299,6 +339,9 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json(response);
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     console.error('Error fetching review requests:', error);
 
     if (error instanceof z.ZodError) {
@@ -332,6 +375,7 @@ export async function POST(request: NextRequest) {
 
     // Get business context from authenticated user
     const context = await getBusinessContext();
+    requirePermission(context, 'requests:send');
     const businessId = context.businessId;
     console.log('🏢 Business context:', { businessId });
 
@@ -345,6 +389,9 @@ export async function POST(request: NextRequest) {
         phone: true,
         website: true,
         googleReviewUrl: true,
+        googleTypes: true,
+        timezone: true,
+        sendingHours: true,
       },
     });
 
@@ -461,6 +508,7 @@ export async function POST(request: NextRequest) {
 async function createCampaign(business: any, body: any) {
   const campaignData = createCampaignSchema.parse(body);
   const businessScope = createBusinessScope(business.id);
+  const { unique: customerIds, duplicates } = dedupeCustomerIds(campaignData.customerIds);
 
   // Validate customers exist and belong to this business
   console.log('🔍 Validating campaign customers:', {
@@ -471,7 +519,7 @@ async function createCampaign(business: any, body: any) {
 
   const customers = await businessScope.findManyCustomers({
     where: {
-      id: { in: campaignData.customerIds },
+      id: { in: customerIds },
     },
     select: {
       id: true,
@@ -491,8 +539,8 @@ async function createCampaign(business: any, body: any) {
     businessId: business.id,
   });
 
-  if (customers.length !== campaignData.customerIds.length) {
-    const missingIds = campaignData.customerIds.filter(id => !customers.some(c => c.id === id));
+  if (customers.length !== customerIds.length) {
+    const missingIds = customerIds.filter(id => !customers.some(c => c.id === id));
     console.error('❌ Campaign customer validation failed:', {
       requestedCustomerIds: campaignData.customerIds,
       foundCustomerIds: customers.map(c => c.id),
@@ -544,8 +592,38 @@ async function createCampaign(business: any, body: any) {
     );
   }
 
+  // Skip customers asked too recently or who already engaged, so overlapping campaigns
+  // don't pile requests onto the same people
+  const blocks = await businessScope.getContactPolicyBlocks(customerIds);
+  const recipients = customers.filter(customer => !blocks.has(customer.id));
+  const heldBack = heldBackRecipients(customers, duplicates, blocks);
+
+  // OPTIMAL campaigns pick a send slot per recipient from the business's click history
+  const optimalSendTimes =
+    campaignData.schedulingType === 'OPTIMAL'
+      ? await getOptimalSendTimes(business, recipients, {
+          respectBusinessHours: campaignData.respectBusinessHours,
+        })
+      : null;
+  const optimalByCustomer = new Map(
+    optimalSendTimes?.success
+      ? optimalSendTimes.data.sendTimes.map(time => [time.customerId, time])
+      : []
+  );
+
+  // Send to the campaign's or template's review destination, or rotate across them
+  const pinnedDestination = await businessScope.resolvePinnedDestination({
+    destinationId: campaignData.destinationId,
+    templateId: campaignData.templateId,
+  });
+  if (!pinnedDestination.success) {
+    return destinationErrorResponse(pinnedDestination.error);
+  }
+  const pickDestination = await businessScope.createDestinationPicker(business.googleReviewUrl);
+
   // Create campaign and requests in transaction
   let result;
+  const sentRequestIds: string[] = [];
   try {
     result = await withBusinessScopedTransaction(business.id, async scope => {
       // Get template if specified (inside transaction)
@@ -587,6 +665,9 @@ async function createCampaign(business: any, body: any) {
         }
       }
 
+      // Requests record the template version they were created from
+      const templateVersionId = await scope.getCurrentTemplateVersionId(template?.id);
+
       // Determine final message content
       const finalMessage = campaignData.customMessage || template?.content || '';
       const finalSubject = campaignData.customSubject || template?.subject || undefined;
@@ -595,69 +676,101 @@ async function createCampaign(business: any, body: any) {
         throw new Error('Message content is required');
       }
 
-      // Determine scheduling
-      let scheduledDateTime: Date | null = null;
-      if (campaignData.schedulingType === 'SCHEDULED' && campaignData.scheduledFor) {
-        scheduledDateTime = new Date(campaignData.scheduledFor);
-      } else if (campaignData.schedulingType === 'OPTIMAL') {
-        // Simple optimal timing: next Tuesday at 2 PM
-        const optimalTime = new Date();
-        const daysUntilTuesday = (2 - optimalTime.getDay() + 7) % 7;
-        optimalTime.setDate(
-          optimalTime.getDate() + (daysUntilTuesday === 0 ? 7 : daysUntilTuesday)
-        );
-        optimalTime.setHours(14, 0, 0, 0);
-        scheduledDateTime = optimalTime;
-      }
+      // Determine scheduling, moving sends out of closed hours and holidays
+      const { scheduledFor: scheduledDateTime, rescheduleReason } = resolveSendTime(
+        business,
+        resolveCampaignSchedule(
+          campaignData.schedulingType,
+          campaignData.scheduledFor ? new Date(campaignData.scheduledFor) : null
+        ),
+        { respectBusinessHours: campaignData.respectBusinessHours }
+      );
       // Create campaign
       const campaign = await scope.createCampaign({
         name: campaignData.name,
         description: campaignData.description,
         channel: campaignData.channel,
+        subject: finalSubject,
+        messageContent: finalMessage,
         schedulingType: campaignData.schedulingType,
         scheduledFor: scheduledDateTime,
         followUpEnabled: campaignData.followUpEnabled,
         followUpSettings: campaignData.followUpSettings,
-        targetCustomerIds: campaignData.customerIds,
+        settings: {
+          respectBusinessHours: campaignData.respectBusinessHours,
+          suppressionListCheck: campaignData.suppressionListCheck,
+        },
+        targetCustomerIds: customerIds,
         totalCustomers: customers.length,
         template: template ? { connect: { id: template.id } } : undefined,
+        destination: campaignData.destinationId
+          ? { connect: { id: campaignData.destinationId } }
+          : undefined,
       });
 
       // Create review requests
       const reviewRequests = [];
-      const errors: string[] = [];
+      const errors: string[] = [...heldBack.errors];
+      const failed: FailedRecipient[] = [...heldBack.failed];
 
-      for (const customer of customers) {
+      for (const customer of recipients) {
         try {
+          // Generate tracking data
+          const destination = pickDestination(pinnedDestination.data);
+          const tracking = { ...generateTrackingData(), reviewUrl: destination.url };
+          const { trackingUuid, trackingUrl } = tracking;
+
           // Personalize message for this customer
-          const personalizedMessage = replaceVariables(finalMessage, customer, business);
+          const personalizedMessage = personalizeMessage(
+            finalMessage,
+            customer,
+            business,
+            tracking,
+            campaignData.channel === 'EMAIL' ? 'html' : 'none'
+          );
           const personalizedSubject = finalSubject
-            ? replaceVariables(finalSubject, customer, business)
+            ? personalizeMessage(finalSubject, customer, business, tracking)
             : undefined;
-
-          // Generate tracking data
-          const { trackingUuid, trackingUrl } = generateTrackingData();
+          const optimal = optimalByCustomer.get(customer.id);
+          const sendAt = optimal?.sendAt ?? scheduledDateTime;
 
           const reviewRequest = await scope.createReviewRequest({
             customer: { connect: { id: customer.id } },
             campaign: { connect: { id: campaign.id } },
             template: template ? { connect: { id: template.id } } : undefined,
+            templateVersion: templateVersionId ? { connect: { id: templateVersionId } } : undefined,
+            destination: destination.destinationId
+              ? { connect: { id: destination.destinationId } }
+              : undefined,
             channel: campaignData.channel,
             subject: personalizedSubject,
             messageContent: finalMessage,
             personalizedMessage,
-            reviewUrl: business.googleReviewUrl || 'https://g.page/your-business/review',
+            reviewUrl: destination.url,
             trackingUrl,
             trackingUuid,
-            scheduledFor: scheduledDateTime,
-            status: scheduledDateTime ? 'QUEUED' : 'QUEUED',
+            scheduledFor: sendAt,
+            rescheduleReason: optimal ? null : rescheduleReason,
+            metadata: optimal
+              ? { sendTime: { source: optimal.source, rationale: optimal.rationale } }
+              : undefined,
+            status: 'QUEUED',
           });
 
+          const credits = await scope.reserveRequestCredits(reviewRequest.id);
+          if (!credits.reserved) {
+            await scope.updateReviewRequest(reviewRequest.id, {
+              status: 'FAILED',
+              errorMessage: 'Insufficient credits',
+            });
+            throw new Error(getInsufficientCreditsMessage(campaignData.channel, credits));
+          }
+
           reviewRequests.push(reviewRequest);
 
           // Handle email sending based on scheduling
           if (campaignData.channel === 'EMAIL') {
-            if (!scheduledDateTime) {
+            if (!sendAt) {
               // Send immediately
               try {
                 const emailResult = await sendEmailViaProvider(reviewRequest, customer, business);
@@ -674,12 +787,18 @@ async function createCampaign(business: any, body: any) {
                     sentAt: new Date(),
                     externalId: emailResult.messageId,
                   });
+                  await scope.debitRequestCredits(reviewRequest.id);
+                  sentRequestIds.push(reviewRequest.id);
                 } else {
                   console.error('❌ Campaign email failed:', emailResult.error);
                   await scope.updateReviewRequest(reviewRequest.id, {
                     status: 'FAILED',
                     errorMessage: emailResult.error,
                   });
+                  await scope.refundRequestCredits(
+                    [reviewRequest.id],
+                    `Send failed: ${emailResult.error}`
+                  );
                 }
               } catch (emailError) {
                 console.error('❌ Campaign email exception:', emailError);
@@ -694,14 +813,14 @@ async function createCampaign(business: any, body: any) {
                     retryCount: 0,
                   },
                   {
-                    delay: scheduledDateTime.getTime() - Date.now(),
+                    delay: sendAt.getTime() - Date.now(),
                     priority: 5,
                   }
                 );
 
                 console.log('✅ Campaign email queued for scheduled delivery:', {
                   requestId: reviewRequest.id,
-                  scheduledFor: scheduledDateTime.toISOString(),
+                  scheduledFor: sendAt.toISOString(),
                   customerEmail: customer.email,
                 });
               } catch (queueError) {
@@ -718,14 +837,16 @@ async function createCampaign(business: any, body: any) {
             reviewRequest: { connect: { id: reviewRequest.id } },
             metadata: {
               channel: campaignData.channel,
-              scheduledFor: scheduledDateTime,
+              scheduledFor: sendAt,
               campaignId: campaign.id,
             },
           });
         } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
           errors.push(
-            `Failed to create request for ${customer.firstName} ${customer.lastName}: ${error instanceof Error ? error.message : 'Unknown error'}`
+            `Failed to create request for ${customer.firstName} ${customer.lastName}: ${message}`
           );
+          failed.push({ customerId: customer.id, error: message });
         }
       }
 
@@ -733,7 +854,8 @@ async function createCampaign(business: any, body: any) {
       await scope.updateCampaign(campaign.id, {
         successfulRequests: reviewRequests.length,
         failedRequests: errors.length,
-        status: reviewRequests.length > 0 ? 'active' : 'failed',
+        status:
+          reviewRequests.length === 0 ? 'CANCELLED' : scheduledDateTime ? 'SCHEDULED' : 'RUNNING',
         launchedAt: new Date(),
       });
 
@@ -753,10 +875,11 @@ async function createCampaign(business: any, body: any) {
       return {
         campaign,
         requests: reviewRequests,
-        totalRequests: customers.length,
+        totalRequests: campaignData.customerIds.length,
         successfulRequests: reviewRequests.length,
         failedRequests: errors.length,
         errors,
+        failed,
       };
     });
   } catch (error) {
@@ -781,6 +904,11 @@ async function createCampaign(business: any, body: any) {
     );
   }
 
+  // Follow-up sequences read the committed requests, so start them after the transaction
+  for (const requestId of sentRequestIds) {
+    await scheduleFollowUpSequence(requestId);
+  }
+
   const response: ApiSuccessResponse<typeof result> = {
     success: true,
     data: result,
@@ -838,6 +966,7 @@ async function createBulkReviewRequests(business: any, body: any) {
   }
 
   const businessScope = createBusinessScope(business.id);
+  const { unique: customerIds, duplicates } = dedupeCustomerIds(requestData.customerIds);
 
   // Validate customers exist and belong to this business
   console.log('🔍 Validating bulk customers:', {
@@ -848,7 +977,7 @@ async function createBulkReviewRequests(business: any, body: any) {
 
   const customers = await businessScope.findManyCustomers({
     where: {
-      id: { in: requestData.customerIds },
+      id: { in: customerIds },
     },
     select: {
       id: true,
@@ -868,8 +997,8 @@ async function createBulkReviewRequests(business: any, body: any) {
     businessId: business.id,
   });
 
-  if (customers.length !== requestData.customerIds.length) {
-    const missingIds = requestData.customerIds.filter(id => !customers.some(c => c.id === id));
+  if (customers.length !== customerIds.length) {
+    const missingIds = customerIds.filter(id => !customers.some(c => c.id === id));
     console.error('❌ Bulk customer validation failed:', {
       requestedCustomerIds: requestData.customerIds,
       foundCustomerIds: customers.map(c => c.id),
@@ -890,24 +1019,56 @@ async function createBulkReviewRequests(business: any, body: any) {
     );
   }
 
+  // Skip customers the contact policy holds back
+  const blocks = await businessScope.getContactPolicyBlocks(customerIds);
+  const recipients = customers.filter(customer => !blocks.has(customer.id));
+  const heldBack = heldBackRecipients(customers, duplicates, blocks);
+
+  // OPTIMAL scheduling picks a send slot per recipient from the business's click history
+  const optimalSendTimes =
+    requestData.schedulingType === 'OPTIMAL'
+      ? await getOptimalSendTimes(business, recipients)
+      : null;
+  const optimalByCustomer = new Map(
+    optimalSendTimes?.success
+      ? optimalSendTimes.data.sendTimes.map(time => [time.customerId, time])
+      : []
+  );
+
+  // Send to the chosen or template's review destination, or rotate across them
+  const pinnedDestination = await businessScope.resolvePinnedDestination({
+    destinationId: requestData.destinationId,
+    templateId: requestData.templateId,
+  });
+  if (!pinnedDestination.success) {
+    return destinationErrorResponse(pinnedDestination.error);
+  }
+  const pickDestination = await businessScope.createDestinationPicker(requestData.reviewUrl);
+
   // Process all review requests
   const reviewRequests = [];
-  const errors: string[] = [];
-
-  console.log('📋 Processing review requests for', customers.length, 'customers');
+  const errors: string[] = [...heldBack.errors];
+  const failed: FailedRecipient[] = [...heldBack.failed];
 
   try {
     const result = await withBusinessScopedTransaction(business.id, async scope => {
-      for (const customer of customers) {
+      for (const customer of recipients) {
         try {
+          // Generate tracking data
+          const destination = pickDestination(pinnedDestination.data);
+          const tracking = { ...generateTrackingData(), reviewUrl: destination.url };
+          const { trackingUuid, trackingUrl } = tracking;
+
           // Personalize message for this customer
-          const personalizedMessage = replaceVariables(
+          const personalizedMessage = personalizeMessage(
             requestData.messageContent,
             customer,
-            business
+            business,
+            tracking,
+            requestData.channel === 'EMAIL' ? 'html' : 'none'
           );
           const personalizedSubject = requestData.subject
-            ? replaceVariables(requestData.subject, customer, business)
+            ? personalizeMessage(requestData.subject, customer, business, tracking)
             : undefined;
 
           console.log('📝 Processing request for customer:', {
@@ -916,9 +1077,6 @@ async function createBulkReviewRequests(business: any, body: any) {
             personalizedLength: personalizedMessage.length,
           });
 
-          // Generate tracking data
-          const { trackingUuid, trackingUrl } = generateTrackingData();
-
           // Determine scheduling with detailed logging
           let scheduledDateTime: Date | null = null;
           if (requestData.scheduledFor) {
@@ -949,6 +1107,13 @@ async function createBulkReviewRequests(business: any, body: any) {
             console.log('📅 No scheduling requested (scheduledFor is falsy)');
           }
 
+          // Move sends that fall outside business hours, quiet hours or holidays
+          const optimal = optimalByCustomer.get(customer.id);
+          const sendTime = optimal
+            ? { scheduledFor: optimal.sendAt, rescheduleReason: null }
+            : resolveSendTime(business, scheduledDateTime);
+          scheduledDateTime = sendTime.scheduledFor;
+
           // Build the review request data
           const reviewRequestData: any = {
             customer: { connect: { id: customer.id } },
@@ -956,10 +1121,17 @@ async function createBulkReviewRequests(business: any, body: any) {
             subject: personalizedSubject,
             messageContent: requestData.messageContent,
             personalizedMessage,
-            reviewUrl: requestData.reviewUrl,
+            reviewUrl: destination.url,
+            destination: destination.destinationId
+              ? { connect: { id: destination.destinationId } }
+              : undefined,
             trackingUrl,
             trackingUuid,
             scheduledFor: scheduledDateTime,
+            rescheduleReason: sendTime.rescheduleReason,
+            metadata: optimal
+              ? { sendTime: { source: optimal.source, rationale: optimal.rationale } }
+              : undefined,
             status: 'QUEUED',
           };
 
@@ -1004,10 +1176,26 @@ async function createBulkReviewRequests(business: any, body: any) {
             }
 
             reviewRequestData.template = { connect: { id: requestData.templateId } };
+
+            const templateVersionId = await scope.getCurrentTemplateVersionId(
+              requestData.templateId
+            );
+            if (templateVersionId) {
+              reviewRequestData.templateVersion = { connect: { id: templateVersionId } };
+            }
           }
 
           const reviewRequest = await scope.createReviewRequest(reviewRequestData);
 
+          const credits = await scope.reserveRequestCredits(reviewRequest.id);
+          if (!credits.reserved) {
+            await scope.updateReviewRequest(reviewRequest.id, {
+              status: 'FAILED',
+              errorMessage: 'Insufficient credits',
+            });
+            throw new Error(getInsufficientCreditsMessage(requestData.channel, credits));
+          }
+
           reviewRequests.push({
             id: reviewRequest.id,
             channel: reviewRequest.channel,
@@ -1051,6 +1239,7 @@ async function createBulkReviewRequests(business: any, body: any) {
                     sentAt: new Date(),
                     externalId: emailResult.messageId,
                   });
+                  await scope.debitRequestCredits(reviewRequest.id);
 
                   // Update the status in the returned data
                   const requestIndex = reviewRequests.findIndex(r => r.id === reviewRequest.id);
@@ -1063,6 +1252,10 @@ async function createBulkReviewRequests(business: any, body: any) {
                     status: 'FAILED',
                     errorMessage: emailResult.error,
                   });
+                  await scope.refundRequestCredits(
+                    [reviewRequest.id],
+                    `Send failed: ${emailResult.error}`
+                  );
 
                   // Update the status in the returned data
                   const requestIndex = reviewRequests.findIndex(r => r.id === reviewRequest.id);
@@ -1112,18 +1305,21 @@ async function createBulkReviewRequests(business: any, body: any) {
             },
           });
         } catch (error) {
-          const errorMessage = `Failed to create request for ${customer.firstName} ${customer.lastName}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          const errorMessage = `Failed to create request for ${customer.firstName} ${customer.lastName}: ${message}`;
           console.error('❌ Individual request creation failed:', errorMessage);
           errors.push(errorMessage);
+          failed.push({ customerId: customer.id, error: message });
         }
       }
 
       return {
         requests: reviewRequests,
-        totalRequests: customers.length,
+        totalRequests: requestData.customerIds.length,
         successfulRequests: reviewRequests.length,
         failedRequests: errors.length,
         errors,
+        failed,
       };
     });
 
@@ -1180,7 +1376,9 @@ async function createSingleRequest(business: any, body: any) {
         subject: body.subject,
         messageContent: body.messageContent,
         reviewUrl: body.reviewUrl,
+        destinationId: body.destinationId,
         scheduledFor: body.scheduledFor,
+        schedulingType: body.schedulingType,
         metadata: body.metadata,
       };
     } else {
@@ -1280,6 +1478,25 @@ async function createSingleRequest(business: any, body: any) {
       );
     }
 
+    // Hold back customers asked too recently or who already engaged
+    const businessScope = createBusinessScope(business.id);
+    const block = (await businessScope.getContactPolicyBlocks([customerExists.id])).get(
+      customerExists.id
+    );
+    if (block) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: block.code,
+            message: block.message,
+            details: { customerId: customerExists.id },
+          },
+        } satisfies ApiErrorResponse,
+        { status: 409 }
+      );
+    }
+
     // Validate template if provided
     let templateData = null;
     if (validatedData.templateId) {
@@ -1332,6 +1549,40 @@ async function createSingleRequest(business: any, body: any) {
       }
     }
 
+    // Send to the chosen or template's review destination, or rotate across them
+    const pinnedDestination = await businessScope.resolvePinnedDestination({
+      destinationId: validatedData.destinationId,
+      templateId: validatedData.templateId,
+    });
+    if (!pinnedDestination.success) {
+      return destinationErrorResponse(pinnedDestination.error);
+    }
+    const destination = (await businessScope.createDestinationPicker(validatedData.reviewUrl))(
+      pinnedDestination.data
+    );
+
+    const requestedFor = (() => {
+      if (!validatedData.scheduledFor) {
+        return null;
+      }
+
+      const scheduledDate = new Date(validatedData.scheduledFor);
+      return !isNaN(scheduledDate.getTime()) ? scheduledDate : null;
+    })();
+
+    // Move sends that fall outside business hours, quiet hours or holidays
+    let sendTime = resolveSendTime(business, requestedFor);
+    let sendTimeRationale: { source: string; rationale: string } | undefined;
+
+    if (validatedData.schedulingType === 'OPTIMAL') {
+      const optimal = await getOptimalSendTimes(business, [customerExists]);
+      const picked = optimal.success ? optimal.data.sendTimes[0] : undefined;
+      if (picked) {
+        sendTime = { scheduledFor: picked.sendAt, rescheduleReason: null };
+        sendTimeRationale = { source: picked.source, rationale: picked.rationale };
+      }
+    }
+
     // Build the create data
     const createData: any = {
       businessId: business.id,
@@ -1340,39 +1591,22 @@ async function createSingleRequest(business: any, body: any) {
       channel: validatedData.channel,
       subject: validatedData.subject,
       messageContent: validatedData.messageContent,
-      reviewUrl: validatedData.reviewUrl,
+      reviewUrl: destination.url,
+      destinationId: destination.destinationId,
       trackingUrl,
       trackingUuid,
-      scheduledFor: (() => {
-        if (!validatedData.scheduledFor) {
-          console.log('📅 No scheduling for single request');
-          return null;
-        }
-
-        console.log('📅 Processing single request scheduling:', {
-          originalValue: validatedData.scheduledFor,
-          type: typeof validatedData.scheduledFor,
-        });
-
-        try {
-          const scheduledDate = new Date(validatedData.scheduledFor);
-          console.log('📅 Single request scheduling result:', {
-            scheduledDate: scheduledDate.toISOString(),
-            isValid: !isNaN(scheduledDate.getTime()),
-          });
-          return !isNaN(scheduledDate.getTime()) ? scheduledDate : null;
-        } catch (dateError) {
-          console.error('❌ Single request date error:', dateError);
-          return null;
-        }
-      })(),
+      scheduledFor: sendTime.scheduledFor,
+      rescheduleReason: sendTime.rescheduleReason,
       status: 'QUEUED',
-      metadata: validatedData.metadata || {},
+      metadata: sendTimeRationale
+        ? { ...validatedData.metadata, sendTime: sendTimeRationale }
+        : validatedData.metadata || {},
     };
 
-    // Add template reference if provided
+    // Add template reference, and the version it is on, if provided
     if (validatedData.templateId) {
       createData.templateId = validatedData.templateId;
+      createData.templateVersionId = await getCurrentTemplateVersionId(validatedData.templateId);
     }
 
     console.log('📝 Single request create data:', {
@@ -1412,6 +1646,25 @@ async function createSingleRequest(business: any, body: any) {
       status: reviewRequest.status,
     });
 
+    const credits = await reserveRequestCredits(business.id, reviewRequest.id);
+    if (!credits.reserved) {
+      await prisma.reviewRequest.update({
+        where: { id: reviewRequest.id },
+        data: { status: 'FAILED', errorMessage: 'Insufficient credits' },
+      });
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INSUFFICIENT_CREDITS',
+            message: getInsufficientCreditsMessage(validatedData.channel, credits),
+          },
+        } satisfies ApiErrorResponse,
+        { status: 402 }
+      );
+    }
+
     // Handle email sending based on scheduling
     let finalStatus = reviewRequest.status;
     if (validatedData.channel === 'EMAIL') {
@@ -1439,6 +1692,7 @@ async function createSingleRequest(business: any, body: any) {
                 externalId: emailResult.messageId,
               },
             });
+            await debitRequestCredits(business.id, reviewRequest.id);
 
             finalStatus = 'SENT';
           } else {
@@ -1450,6 +1704,11 @@ async function createSingleRequest(business: any, body: any) {
                 errorMessage: emailResult.error,
               },
             });
+            await refundRequestCredits(
+              business.id,
+              [reviewRequest.id],
+              `Send failed: ${emailResult.error}`
+            );
 
             finalStatus = 'FAILED';
           }
@@ -1502,6 +1761,9 @@ async function createSingleRequest(business: any, body: any) {
 
     return NextResponse.json(response, { status: 201 });
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     console.error('❌ Single request creation error:', error);
 
     if (error instanceof z.ZodError) {
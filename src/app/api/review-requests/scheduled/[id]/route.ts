@@ -1,11 +1,16 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { getBusinessContext } from '@/lib/auth-context';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
 import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
 import { createBusinessScope } from '@/lib/db/businessScoped';
 import { logger } from '@/lib/logger';
 import { getQueue } from '@/services/job-queue';
+import type { SendRequestJobData } from '@/types/external';
 
 const updateScheduledRequestSchema = z.object({
   action: z.enum(['reschedule', 'cancel']),
@@ -21,7 +26,9 @@ interface RouteParams {
 // PUT /api/review-requests/scheduled/[id] - Update a scheduled review request
 export async function PUT(request: NextRequest, { params }: { params: RouteParams }) {
   try {
-    const { businessId } = await getBusinessContext();
+    const context = await getBusinessContext();
+    requirePermission(context, 'requests:send');
+    const { businessId } = context;
     const scope = createBusinessScope(businessId);
     const { id: requestId } = params;
 
@@ -132,7 +139,7 @@ export async function PUT(request: NextRequest, { params }: { params: RouteParam
 
       // Try to remove the job from the queue (best effort)
       try {
-        const queue = getQueue('email-queue');
+        const queue = getQueue<SendRequestJobData>('email-queue');
         if (queue) {
           const jobs = await queue.getJobs(['delayed'], 0, 1000);
           const jobToCancel = jobs.find(job => job.data?.requestId === requestId);
@@ -239,7 +246,7 @@ export async function PUT(request: NextRequest, { params }: { params: RouteParam
 
       // Update the job in the queue
       try {
-        const queue = getQueue('email-queue');
+        const queue = getQueue<SendRequestJobData>('email-queue');
         if (queue) {
           // Remove old job
           const jobs = await queue.getJobs(['delayed'], 0, 1000);
@@ -310,6 +317,9 @@ export async function PUT(request: NextRequest, { params }: { params: RouteParam
       },
     } satisfies ApiSuccessResponse<any>);
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     logger.error('Failed to update scheduled review request', {
       requestId: params.id,
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -346,7 +356,9 @@ export async function PUT(request: NextRequest, { params }: { params: RouteParam
 // GET /api/review-requests/scheduled/[id] - Get a specific scheduled review request
 export async function GET(request: NextRequest, { params }: { params: RouteParams }) {
   try {
-    const { businessId } = await getBusinessContext();
+    const context = await getBusinessContext();
+    requirePermission(context, 'requests:read');
+    const { businessId } = context;
     const scope = createBusinessScope(businessId);
     const { id: requestId } = params;
 
@@ -403,6 +415,9 @@ export async function GET(request: NextRequest, { params }: { params: RouteParam
       data: reviewRequest,
     } satisfies ApiSuccessResponse<any>);
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     logger.error('Failed to get scheduled review request', {
       requestId: params.id,
       error: error instanceof Error ? error.message : 'Unknown error',
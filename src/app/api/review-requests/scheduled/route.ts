@@ -1,7 +1,11 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { getBusinessContext } from '@/lib/auth-context';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
 import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
 import type { RequestChannel, RequestStatus } from '@prisma/client';
 import { createBusinessScope } from '@/lib/db/businessScoped';
@@ -26,7 +30,9 @@ type ListScheduledRequestsQuery = z.infer<typeof listScheduledRequestsSchema>;
 // GET /api/review-requests/scheduled - List all scheduled review requests
 export async function GET(request: NextRequest) {
   try {
-    const { businessId } = await getBusinessContext();
+    const context = await getBusinessContext();
+    requirePermission(context, 'requests:read');
+    const { businessId } = context;
     const scope = createBusinessScope(businessId);
 
     // Parse query parameters
@@ -96,6 +102,9 @@ export async function GET(request: NextRequest) {
       },
     } satisfies ApiSuccessResponse<any>);
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     logger.error('Failed to list scheduled review requests', {
       error: error instanceof Error ? error.message : 'Unknown error',
       stack: error instanceof Error ? error.stack : undefined,
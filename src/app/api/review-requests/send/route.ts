@@ -1,7 +1,11 @@
 import { type NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
 import { processReviewRequest } from '@/services/messaging-simple';
 import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
 
@@ -15,32 +19,9 @@ const sendBulkRequestsSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
-    const { userId } = await auth();
-    if (!userId) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: { code: 'UNAUTHORIZED', message: 'Not authenticated' },
-        } satisfies ApiErrorResponse,
-        { status: 401 }
-      );
-    }
-
-    // Get business for this user
-    const business = await prisma.business.findUnique({
-      where: { clerkUserId: userId },
-      select: { id: true },
-    });
-
-    if (!business) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: { code: 'BUSINESS_NOT_FOUND', message: 'Business not found' },
-        } satisfies ApiErrorResponse,
-        { status: 404 }
-      );
-    }
+    const context = await getBusinessContext();
+    requirePermission(context, 'requests:send');
+    const { businessId } = context;
 
     const body = await request.json();
 
@@ -55,7 +36,7 @@ export async function POST(request: NextRequest) {
           const reviewRequest = await prisma.reviewRequest.findFirst({
             where: {
               id: requestId,
-              businessId: business.id,
+              businessId,
             },
           });
 
@@ -101,7 +82,7 @@ export async function POST(request: NextRequest) {
       const reviewRequest = await prisma.reviewRequest.findFirst({
         where: {
           id: reviewRequestId,
-          businessId: business.id,
+          businessId,
         },
       });
 
@@ -137,6 +118,29 @@ export async function POST(request: NextRequest) {
       }
     }
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof Error && error.message.includes('UNAUTHORIZED')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Not authenticated' },
+        } satisfies ApiErrorResponse,
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('BUSINESS_NOT_FOUND')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'BUSINESS_NOT_FOUND', message: 'Business not found' },
+        } satisfies ApiErrorResponse,
+        { status: 404 }
+      );
+    }
+
     console.error('Error sending review request:', error);
 
     if (error instanceof z.ZodError) {
@@ -1,7 +1,11 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { getBusinessContext } from '@/lib/auth-context';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
 import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
 import { createBusinessScope } from '@/lib/db/businessScoped';
 import { logger } from '@/lib/logger';
@@ -19,7 +23,9 @@ type CreateSuppressionBody = z.infer<typeof createSuppressionSchema>;
 // POST /api/suppressions - Add a new suppression
 export async function POST(request: NextRequest) {
   try {
-    const { businessId } = await getBusinessContext();
+    const context = await getBusinessContext();
+    requirePermission(context, 'suppressions:manage');
+    const { businessId } = context;
     const scope = createBusinessScope(businessId);
 
     // Parse request body
@@ -101,6 +107,9 @@ export async function POST(request: NextRequest) {
       },
     } satisfies ApiSuccessResponse<any>);
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     logger.error('Failed to create suppression', {
       error: error instanceof Error ? error.message : 'Unknown error',
       stack: error instanceof Error ? error.stack : undefined,
@@ -136,7 +145,9 @@ export async function POST(request: NextRequest) {
 // GET /api/suppressions - Get all suppressions for the business
 export async function GET(request: NextRequest) {
   try {
-    const { businessId } = await getBusinessContext();
+    const context = await getBusinessContext();
+    requirePermission(context, 'suppressions:read');
+    const { businessId } = context;
     const scope = createBusinessScope(businessId);
 
     const { searchParams } = new URL(request.url);
@@ -183,6 +194,9 @@ export async function GET(request: NextRequest) {
       },
     } satisfies ApiSuccessResponse<any>);
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     logger.error('Failed to get suppressions', {
       error: error instanceof Error ? error.message : 'Unknown error',
     });
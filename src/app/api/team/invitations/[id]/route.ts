@@ -0,0 +1,62 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { parseTeamError, revokeInvitation, type TeamInvitation } from '@/services/team';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+// DELETE /api/team/invitations/[id] - Revoke a pending invitation
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'team:manage');
+    const { id } = await params;
+
+    const result = await revokeInvitation(context, id);
+    if (!result.success) {
+      const { code, status, message } = parseTeamError(result.error);
+      return NextResponse.json(
+        { success: false, error: { code, message } } satisfies ApiErrorResponse,
+        { status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<TeamInvitation>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof Error && error.message.includes('BUSINESS_NOT_FOUND')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'BUSINESS_NOT_FOUND',
+            message: 'No business found for this user. Please complete onboarding.',
+          },
+        } satisfies ApiErrorResponse,
+        { status: 404 }
+      );
+    }
+
+    logger.error('Error revoking invitation', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to revoke invitation' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { createInvitationSchema } from '@/lib/validators/team';
+import { createInvitation, parseTeamError, type CreatedInvitation } from '@/services/team';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+// POST /api/team/invitations - Email an invitation to join the business
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'team:manage');
+    const input = createInvitationSchema.parse(await request.json());
+
+    const result = await createInvitation(context, input);
+    if (!result.success) {
+      const { code, status, message } = parseTeamError(result.error);
+      return NextResponse.json(
+        { success: false, error: { code, message } } satisfies ApiErrorResponse,
+        { status }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.data } satisfies ApiSuccessResponse<CreatedInvitation>,
+      { status: 201 }
+    );
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof Error && error.message.includes('BUSINESS_NOT_FOUND')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'BUSINESS_NOT_FOUND',
+            message: 'No business found for this user. Please complete onboarding.',
+          },
+        } satisfies ApiErrorResponse,
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid invitation',
+            details: error instanceof z.ZodError ? error.errors : undefined,
+          },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    logger.error('Error creating invitation', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to create invitation' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { updateMemberRoleSchema } from '@/lib/validators/team';
+import { parseTeamError, removeMember, updateMemberRole, type TeamMember } from '@/services/team';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+type RouteParams = { params: Promise<{ userId: string }> };
+
+function handleRouteError(error: unknown, action: string) {
+  const denied = permissionDeniedResponse(error);
+  if (denied) return denied;
+
+  if (error instanceof Error && error.message.includes('BUSINESS_NOT_FOUND')) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'BUSINESS_NOT_FOUND',
+          message: 'No business found for this user. Please complete onboarding.',
+        },
+      } satisfies ApiErrorResponse,
+      { status: 404 }
+    );
+  }
+
+  if (error instanceof z.ZodError || error instanceof SyntaxError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Role must be one of OWNER, ADMIN or MEMBER',
+          details: error instanceof z.ZodError ? error.errors : undefined,
+        },
+      } satisfies ApiErrorResponse,
+      { status: 400 }
+    );
+  }
+
+  logger.error(`Error trying to ${action}`, {
+    error: error instanceof Error ? error.message : 'Unknown error',
+  });
+  return NextResponse.json(
+    {
+      success: false,
+      error: { code: 'INTERNAL_ERROR', message: `Failed to ${action}` },
+    } satisfies ApiErrorResponse,
+    { status: 500 }
+  );
+}
+
+// PATCH /api/team/members/[userId] - Change a teammate's role
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'team:manage');
+    const { userId } = await params;
+    const { role } = updateMemberRoleSchema.parse(await request.json());
+
+    const result = await updateMemberRole(context, userId, role);
+    if (!result.success) {
+      const { code, status, message } = parseTeamError(result.error);
+      return NextResponse.json(
+        { success: false, error: { code, message } } satisfies ApiErrorResponse,
+        { status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<TeamMember>);
+  } catch (error) {
+    return handleRouteError(error, 'update member role');
+  }
+}
+
+// DELETE /api/team/members/[userId] - Remove a teammate, or leave the team when it's yourself
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    // Anyone may leave; removing someone else is checked against team:manage in the service
+    const context = await getBusinessContext();
+    requirePermission(context, 'team:read');
+    const { userId } = await params;
+
+    const result = await removeMember(context, userId);
+    if (!result.success) {
+      const { code, status, message } = parseTeamError(result.error);
+      return NextResponse.json(
+        { success: false, error: { code, message } } satisfies ApiErrorResponse,
+        { status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<{ userId: string }>);
+  } catch (error) {
+    return handleRouteError(error, 'remove team member');
+  }
+}
@@ -0,0 +1,61 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import type { BusinessRole } from '@prisma/client';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { listTeam, type Team } from '@/services/team';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+// GET /api/team - Members and pending invitations, plus the caller's own role
+export async function GET(_request: NextRequest) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'team:read');
+
+    const result = await listTeam(context.businessId);
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'FETCH_FAILED', message: result.error },
+        } satisfies ApiErrorResponse,
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...result.data, currentUserId: context.userId, currentRole: context.role },
+    } satisfies ApiSuccessResponse<Team & { currentUserId: string; currentRole: BusinessRole }>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof Error && error.message.includes('BUSINESS_NOT_FOUND')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'BUSINESS_NOT_FOUND',
+            message: 'No business found for this user. Please complete onboarding.',
+          },
+        } satisfies ApiErrorResponse,
+        { status: 404 }
+      );
+    }
+
+    logger.error('Error loading team', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to load team' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { getTemplateExperiments, type TemplateExperimentSummary } from '@/services/campaigns';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// GET /api/templates/[id]/experiments - A/B experiments this template took part in
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'templates:read');
+    const { id } = await params;
+
+    const result = await getTemplateExperiments(context.businessId, id);
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'INTERNAL_ERROR', message: result.error },
+        } satisfies ApiErrorResponse,
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<TemplateExperimentSummary[]>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    logger.error('Error fetching template experiments', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch template experiments' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
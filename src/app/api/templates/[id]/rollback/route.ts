@@ -0,0 +1,66 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { MessageTemplate } from '@prisma/client';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { rollbackTemplateSchema } from '@/lib/validators/reviewRequest';
+import { parseTemplateVersionError, rollbackTemplate } from '@/services/template-versions';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// POST /api/templates/[id]/rollback - Restore an earlier version as a new version
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'templates:write');
+    const { id } = await params;
+    const { version } = rollbackTemplateSchema.parse(await request.json());
+
+    const result = await rollbackTemplate(context, id, version);
+    if (!result.success) {
+      const { code, status, message } = parseTemplateVersionError(result.error);
+      return NextResponse.json(
+        { success: false, error: { code, message } } satisfies ApiErrorResponse,
+        { status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<MessageTemplate>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'A version number is required',
+            details: error instanceof z.ZodError ? error.errors : undefined,
+          },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    logger.error('Error rolling back template', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to restore template version' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,10 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getBusinessContext } from '@/lib/auth-context';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
 import { createBusinessScope } from '@/lib/db/businessScoped';
 import {
   updateMessageTemplateSchema,
@@ -19,6 +23,7 @@ export async function GET(request: NextRequest, { params }: RouteContext) {
   try {
     // Get business context
     const context = await getBusinessContext();
+    requirePermission(context, 'templates:read');
     const businessId = context.businessId;
 
     const templateId = params.id;
@@ -61,6 +66,9 @@ export async function GET(request: NextRequest, { params }: RouteContext) {
       data: template,
     });
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     console.error('Template GET error:', error);
 
     return NextResponse.json(
@@ -81,6 +89,7 @@ export async function PUT(request: NextRequest, { params }: RouteContext) {
   try {
     // Get business context
     const context = await getBusinessContext();
+    requirePermission(context, 'templates:write');
     const businessId = context.businessId;
     const businessScope = createBusinessScope(businessId);
 
@@ -124,24 +133,49 @@ export async function PUT(request: NextRequest, { params }: RouteContext) {
       variables = [...new Set([...contentVariables, ...subjectVariables])];
     }
 
-    // Update the template
-    const updatedTemplate = await businessScope.updateMessageTemplate(templateId, {
-      ...validatedData,
-      variables,
-      lastUsedAt: validatedData.content || validatedData.subject ? new Date() : undefined,
-    });
+    if (
+      validatedData.destinationId &&
+      !(await businessScope.isBusinessDestination(validatedData.destinationId))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'DESTINATION_NOT_FOUND', message: 'Review destination not found' },
+        },
+        { status: 404 }
+      );
+    }
+
+    // Update the template; wording changes are recorded as a new version
+    const { changeNote, destinationId, ...changes } = validatedData;
+    const updatedTemplate = await businessScope.updateMessageTemplate(
+      templateId,
+      {
+        ...changes,
+        ...(destinationId !== undefined && {
+          destination: destinationId ? { connect: { id: destinationId } } : { disconnect: true },
+        }),
+        variables,
+        lastUsedAt: validatedData.content || validatedData.subject ? new Date() : undefined,
+      },
+      { createdById: context.userId, changeNote }
+    );
 
     return NextResponse.json({
       success: true,
       data: updatedTemplate,
     });
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     console.error('Template update error:', error);
 
     if (error instanceof Error) {
       // Handle validation errors
       if (
         error.message.includes('Invalid personalization variables') ||
+        error.message.includes('Invalid template syntax') ||
         error.message.includes('Template must include')
       ) {
         return NextResponse.json(
@@ -199,6 +233,7 @@ export async function DELETE(request: NextRequest, { params }: RouteContext) {
   try {
     // Get business context
     const context = await getBusinessContext();
+    requirePermission(context, 'templates:write');
     const businessId = context.businessId;
 
     const templateId = params.id;
@@ -268,6 +303,9 @@ export async function DELETE(request: NextRequest, { params }: RouteContext) {
       },
     });
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     console.error('Template delete error:', error);
 
     return NextResponse.json(
@@ -0,0 +1,71 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { templateVersionDiffQuerySchema } from '@/lib/validators/reviewRequest';
+import {
+  getTemplateVersionDiff,
+  parseTemplateVersionError,
+  type TemplateVersionDiff,
+} from '@/services/template-versions';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// GET /api/templates/[id]/versions/diff?from=1&to=2 - Side-by-side diff of two versions
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'templates:read');
+    const { id } = await params;
+    const { from, to } = templateVersionDiffQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    const result = await getTemplateVersionDiff(context.businessId, id, from, to);
+    if (!result.success) {
+      const { code, status, message } = parseTemplateVersionError(result.error);
+      return NextResponse.json(
+        { success: false, error: { code, message } } satisfies ApiErrorResponse,
+        { status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<TemplateVersionDiff>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'from and to must be version numbers',
+            details: error.errors,
+          },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    logger.error('Error diffing template versions', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to compare template versions' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
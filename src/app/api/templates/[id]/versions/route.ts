@@ -0,0 +1,52 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import {
+  listTemplateVersions,
+  parseTemplateVersionError,
+  type TemplateVersionSummary,
+} from '@/services/template-versions';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// GET /api/templates/[id]/versions - Version history, newest first
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'templates:read');
+    const { id } = await params;
+
+    const result = await listTemplateVersions(context.businessId, id);
+    if (!result.success) {
+      const { code, status, message } = parseTemplateVersionError(result.error);
+      return NextResponse.json(
+        { success: false, error: { code, message } } satisfies ApiErrorResponse,
+        { status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<TemplateVersionSummary[]>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    logger.error('Error fetching template versions', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch template history' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -1,46 +1,45 @@
 import { type NextRequest, NextResponse } from 'next/server';
-import { getBusinessContext } from '@/lib/auth-context';
 import {
-  templatePreviewSchema,
-  type TemplatePreview,
-  extractVariables,
-  allValidVariables,
-} from '@/lib/validators/reviewRequest';
-
-// Default sample data for template preview
-const defaultSampleData = {
-  customerName: 'John Smith',
-  firstName: 'John',
-  lastName: 'Smith',
-  email: 'john.smith@example.com',
-  phone: '+44 7700 900123',
-  businessName: 'The Great British Restaurant',
-  website: 'https://greatbritishrestaurant.co.uk',
-  reviewUrl: 'https://g.page/great-british-restaurant/review',
-};
-
-// Function to replace variables in template content
-const replaceTemplateVariables = (content: string, data: Record<string, string>): string => {
-  let result = content;
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { templatePreviewSchema } from '@/lib/validators/reviewRequest';
+import { renderTemplate } from '@/lib/template-engine';
+import { calculateSmsSegments, SMS_SEGMENT_LIMITS, toGsmSafe } from '@/lib/sms-segments';
+import {
+  sampleVariableValues,
+  templateVariableNames,
+  validateTemplateVariables,
+  variableAliases,
+  withVariableAliases,
+} from '@/components/dashboard/customers/data/personalizationVariables';
 
-  // Replace all template variables
-  Object.entries(data).forEach(([key, value]) => {
-    const regex = new RegExp(`{{\\s*${key}\\s*}}`, 'g');
-    result = result.replace(regex, value);
-  });
+const requiredVariables = ['customerName', 'businessName', 'reviewUrl'];
 
-  return result;
-};
+// Default sample data for template preview: an example for every registry variable
+const defaultSampleData = withVariableAliases(sampleVariableValues());
 
-// Function to calculate SMS segments
-const calculateSmsMetrics = (content: string) => {
-  const length = content.length;
-  const segments = Math.ceil(length / 160);
+// Function to calculate SMS segments, with a GSM-safe rewrite of the template when
+// some character forces the whole message into UCS-2
+const calculateSmsMetrics = (content: string, template: string) => {
+  const sms = calculateSmsSegments(content);
+  const gsmSafe = sms.encoding === 'UCS-2' ? toGsmSafe(template) : null;
 
   return {
-    characterCount: length,
-    segments,
-    isOverLimit: length > 160,
+    characterCount: sms.characterCount,
+    segments: sms.segmentCount,
+    isOverLimit: sms.segmentCount > 1,
+    encoding: sms.encoding,
+    unicodeCharacters: sms.unicodeCharacters,
+    remainingInSegment: sms.remainingInSegment,
+    gsmSafe: gsmSafe?.replacements
+      ? {
+          content: gsmSafe.text,
+          replacements: gsmSafe.replacements,
+          remainingUnicodeCharacters: gsmSafe.unicodeCharacters,
+        }
+      : undefined,
   };
 };
 
@@ -60,7 +59,7 @@ const calculateEmailMetrics = (content: string, subject?: string) => {
 export async function POST(request: NextRequest) {
   try {
     // Authenticate request
-    await getBusinessContext();
+    requirePermission(await getBusinessContext(), 'templates:read');
 
     // Parse and validate request body
     const body = await request.json();
@@ -68,29 +67,26 @@ export async function POST(request: NextRequest) {
 
     const { content, subject, channel, sampleData } = validatedData;
 
-    // Use provided sample data or defaults
-    const previewData = {
-      ...defaultSampleData,
-      ...sampleData,
-    };
-
-    // Extract variables from template
-    const contentVariables = extractVariables(content);
-    const subjectVariables = subject ? extractVariables(subject) : [];
-    const allTemplateVariables = [...new Set([...contentVariables, ...subjectVariables])];
+    // Use provided sample data (which may use alias names such as "email") or defaults
+    const providedData = Object.fromEntries(
+      Object.entries(sampleData ?? {}).map(([key, value]) => [variableAliases[key] ?? key, value])
+    );
+    const previewData = withVariableAliases({ ...sampleVariableValues(), ...providedData });
 
-    // Check for invalid variables
-    const invalidVariables = allTemplateVariables.filter(v => !allValidVariables.includes(v));
-    if (invalidVariables.length > 0) {
+    // Parse the template and check its variables against the registry
+    const validation = validateTemplateVariables(content, subject);
+    const allTemplateVariables = validation.variables;
+    const invalidVariables = validation.unknownVariables;
+    if (!validation.valid) {
       return NextResponse.json(
         {
           success: false,
           error: {
-            code: 'INVALID_VARIABLES',
-            message: `Invalid personalization variables: ${invalidVariables.join(', ')}`,
+            code: invalidVariables.length > 0 ? 'INVALID_VARIABLES' : 'INVALID_TEMPLATE',
+            message: validation.errors.join('; '),
             details: {
               invalidVariables,
-              validVariables: allValidVariables,
+              validVariables: templateVariableNames,
             },
           },
         },
@@ -98,28 +94,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate preview content
-    const previewContent = replaceTemplateVariables(content, previewData);
-    const previewSubject = subject ? replaceTemplateVariables(subject, previewData) : undefined;
+    // Generate preview content; email bodies are HTML, so values are escaped as when sending
+    const previewContent = renderTemplate(content, previewData, {
+      escape: channel === 'EMAIL' ? 'html' : 'none',
+    });
+    const previewSubject = subject ? renderTemplate(subject, previewData) : undefined;
 
     // Calculate metrics based on channel
     const metrics =
       channel === 'SMS'
-        ? calculateSmsMetrics(previewContent)
+        ? calculateSmsMetrics(previewContent, content)
         : calculateEmailMetrics(previewContent, previewSubject);
 
-    // Check for missing variables (variables that weren't replaced)
-    const missingVariables = allTemplateVariables.filter(
-      variable => !previewData.hasOwnProperty(variable)
-    );
+    // Check for missing variables (variables without a value to preview with)
+    const missingVariables = allTemplateVariables.filter(variable => !previewData[variable]);
 
-    // Validation status
-    const requiredVariables = ['customerName', 'businessName', 'reviewUrl'];
+    // Validation status; aliases such as {{fullName}} count as the variable they stand for
+    const usedVariables = allTemplateVariables.map(
+      variable => variableAliases[variable] ?? variable
+    );
     const hasRequiredCustomerName =
-      allTemplateVariables.includes('customerName') ||
-      (allTemplateVariables.includes('firstName') && allTemplateVariables.includes('lastName'));
-    const hasBusinessName = allTemplateVariables.includes('businessName');
-    const hasReviewUrl = allTemplateVariables.includes('reviewUrl');
+      usedVariables.includes('customerName') ||
+      (usedVariables.includes('firstName') && usedVariables.includes('lastName'));
+    const hasBusinessName = usedVariables.includes('businessName');
+    const hasReviewUrl =
+      usedVariables.includes('reviewUrl') || usedVariables.includes('trackingUrl');
 
     const validationIssues = [];
     if (!hasRequiredCustomerName) {
@@ -162,6 +161,9 @@ export async function POST(request: NextRequest) {
       data: previewResult,
     });
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     console.error('Template preview error:', error);
 
     if (error instanceof Error) {
@@ -194,19 +196,20 @@ export async function POST(request: NextRequest) {
 export async function GET(request: NextRequest) {
   try {
     // Authenticate request
-    await getBusinessContext();
+    requirePermission(await getBusinessContext(), 'templates:read');
 
     return NextResponse.json({
       success: true,
       data: {
         sampleData: defaultSampleData,
-        validVariables: allValidVariables,
-        requiredVariables: ['customerName', 'businessName', 'reviewUrl'],
-        optionalVariables: ['firstName', 'lastName', 'email', 'phone', 'website'],
+        validVariables: templateVariableNames,
+        requiredVariables,
+        optionalVariables: templateVariableNames.filter(v => !requiredVariables.includes(v)),
         channelLimits: {
           SMS: {
-            characterLimit: 160,
-            maxRecommendedLength: 160,
+            characterLimit: SMS_SEGMENT_LIMITS['GSM-7'].single,
+            maxRecommendedLength: SMS_SEGMENT_LIMITS['GSM-7'].single,
+            unicodeCharacterLimit: SMS_SEGMENT_LIMITS['UCS-2'].single,
           },
           EMAIL: {
             subjectLimit: 200,
@@ -216,6 +219,9 @@ export async function GET(request: NextRequest) {
       },
     });
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     console.error('Template preview info error:', error);
 
     return NextResponse.json(
@@ -1,6 +1,10 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getBusinessContext } from '@/lib/auth-context';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
 import { createBusinessScope } from '@/lib/db/businessScoped';
 import {
   createMessageTemplateSchema,
@@ -15,6 +19,7 @@ export async function GET(request: NextRequest) {
   try {
     // Get business context
     const context = await getBusinessContext();
+    requirePermission(context, 'templates:read');
     const businessId = context.businessId;
     const businessScope = createBusinessScope(businessId);
 
@@ -112,6 +117,7 @@ export async function GET(request: NextRequest) {
           createdAt: true,
           updatedAt: true,
           lastUsedAt: true,
+          destinationId: true,
         },
       }),
       prisma.messageTemplate.count({
@@ -139,6 +145,9 @@ export async function GET(request: NextRequest) {
       },
     });
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     console.error('Templates GET error:', error);
 
     if (error instanceof Error) {
@@ -172,6 +181,7 @@ export async function POST(request: NextRequest) {
   try {
     // Get business context
     const context = await getBusinessContext();
+    requirePermission(context, 'templates:write');
     const businessId = context.businessId;
     const businessScope = createBusinessScope(businessId);
 
@@ -193,23 +203,40 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (
+      validatedData.destinationId &&
+      !(await businessScope.isBusinessDestination(validatedData.destinationId))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'DESTINATION_NOT_FOUND', message: 'Review destination not found' },
+        },
+        { status: 404 }
+      );
+    }
+
     // Extract variables from content and subject
     const contentVariables = extractVariables(validatedData.content);
     const subjectVariables = validatedData.subject ? extractVariables(validatedData.subject) : [];
     const allVariables = [...new Set([...contentVariables, ...subjectVariables])];
 
     // Create the template
-    const template = await businessScope.createMessageTemplate({
-      name: validatedData.name,
-      description: validatedData.description,
-      category: validatedData.category,
-      channel: validatedData.channel,
-      subject: validatedData.subject,
-      content: validatedData.content,
-      variables: allVariables,
-      templateType: 'business', // Force business type for API-created templates
-      usageCount: 0,
-    });
+    const template = await businessScope.createMessageTemplate(
+      {
+        name: validatedData.name,
+        description: validatedData.description,
+        category: validatedData.category,
+        channel: validatedData.channel,
+        subject: validatedData.subject,
+        content: validatedData.content,
+        variables: allVariables,
+        destinationId: validatedData.destinationId,
+        templateType: 'business', // Force business type for API-created templates
+        usageCount: 0,
+      },
+      { createdById: context.userId }
+    );
 
     return NextResponse.json(
       {
@@ -219,12 +246,16 @@ export async function POST(request: NextRequest) {
       { status: 201 }
     );
   } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
     console.error('Template creation error:', error);
 
     if (error instanceof Error) {
       // Handle validation errors
       if (
         error.message.includes('Invalid personalization variables') ||
+        error.message.includes('Invalid template syntax') ||
         error.message.includes('Template must include')
       ) {
         return NextResponse.json(
@@ -0,0 +1,71 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  enforceRateLimit,
+  getApiKeyContext,
+  publicApiError,
+  publicApiErrorResponse,
+  requireScope,
+  toApiCustomer,
+  type ApiCustomer,
+} from '@/lib/public-api';
+import { customerParamsSchema, updateCustomerSchema } from '@/lib/validation-schemas';
+import { queueCustomerTaggedAutomations } from '@/services/automations';
+import type { ApiSuccessResponse } from '@/types/api';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+const customerNotFound = () => publicApiError('NOT_FOUND', 'Customer not found', 404);
+
+// GET /api/v1/customers/[id] - One customer
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await getApiKeyContext(request);
+    requireScope(context, 'customers:read');
+    await enforceRateLimit(context, 'data.read');
+    const { id } = customerParamsSchema.parse(await params);
+
+    const customer = await prisma.customer.findFirst({
+      where: { id, businessId: context.businessId },
+    });
+    if (!customer) {
+      return customerNotFound();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: toApiCustomer(customer),
+    } satisfies ApiSuccessResponse<ApiCustomer>);
+  } catch (error) {
+    return publicApiErrorResponse(error, 'Failed to fetch customer');
+  }
+}
+
+// PATCH /api/v1/customers/[id] - Change a customer's details
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await getApiKeyContext(request);
+    requireScope(context, 'customers:write');
+    await enforceRateLimit(context, 'data.write');
+    const { id } = customerParamsSchema.parse(await params);
+    const input = updateCustomerSchema.parse(await request.json());
+
+    const existing = await prisma.customer.findFirst({
+      where: { id, businessId: context.businessId, isActive: true },
+      select: { tags: true },
+    });
+    if (!existing) {
+      return customerNotFound();
+    }
+
+    const customer = await prisma.customer.update({ where: { id }, data: input });
+    await queueCustomerTaggedAutomations(context.businessId, id, existing.tags, customer.tags);
+
+    return NextResponse.json({
+      success: true,
+      data: toApiCustomer(customer),
+    } satisfies ApiSuccessResponse<ApiCustomer>);
+  } catch (error) {
+    return publicApiErrorResponse(error, 'Failed to update customer');
+  }
+}
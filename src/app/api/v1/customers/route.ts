@@ -0,0 +1,94 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  enforceRateLimit,
+  getApiKeyContext,
+  publicApiErrorResponse,
+  requireScope,
+  toApiCustomer,
+  type ApiCustomer,
+} from '@/lib/public-api';
+import { createCustomerSchema, customerQuerySchema } from '@/lib/validation-schemas';
+import { queueCustomerCreatedAutomations } from '@/services/automations';
+import type { ApiSuccessResponse } from '@/types/api';
+
+const SORT_FIELDS = {
+  name: 'firstName',
+  email: 'email',
+  createdAt: 'createdAt',
+  lastContact: 'lastContact',
+} as const;
+
+// GET /api/v1/customers - List the business's customers
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getApiKeyContext(request);
+    requireScope(context, 'customers:read');
+    await enforceRateLimit(context, 'data.read');
+
+    const query = customerQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams));
+
+    const where: Prisma.CustomerWhereInput = { businessId: context.businessId };
+    if (query.status !== 'all') where.isActive = query.status === 'active';
+    if (query.tags?.length) where.tags = { hasSome: query.tags };
+    if (query.search) {
+      where.OR = [
+        { firstName: { contains: query.search, mode: 'insensitive' } },
+        { lastName: { contains: query.search, mode: 'insensitive' } },
+        { email: { contains: query.search, mode: 'insensitive' } },
+        { phone: { contains: query.search } },
+      ];
+    }
+
+    const [customers, totalCount] = await Promise.all([
+      prisma.customer.findMany({
+        where,
+        orderBy: { [SORT_FIELDS[query.sortBy]]: query.sortOrder },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      prisma.customer.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(totalCount / query.limit);
+    return NextResponse.json({
+      success: true,
+      data: customers.map(toApiCustomer),
+      meta: {
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          totalCount,
+          totalPages,
+          hasNextPage: query.page < totalPages,
+          hasPrevPage: query.page > 1,
+        },
+      },
+    } satisfies ApiSuccessResponse<ApiCustomer[]>);
+  } catch (error) {
+    return publicApiErrorResponse(error, 'Failed to fetch customers');
+  }
+}
+
+// POST /api/v1/customers - Add a customer
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getApiKeyContext(request);
+    requireScope(context, 'customers:write');
+    await enforceRateLimit(context, 'data.write');
+
+    const input = createCustomerSchema.parse(await request.json());
+    const customer = await prisma.customer.create({
+      data: { ...input, businessId: context.businessId },
+    });
+    await queueCustomerCreatedAutomations(context.businessId, customer);
+
+    return NextResponse.json(
+      { success: true, data: toApiCustomer(customer) } satisfies ApiSuccessResponse<ApiCustomer>,
+      { status: 201 }
+    );
+  } catch (error) {
+    return publicApiErrorResponse(error, 'Failed to create customer');
+  }
+}
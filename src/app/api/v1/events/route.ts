@@ -0,0 +1,41 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import {
+  enforceRateLimit,
+  getApiKeyContext,
+  publicApiError,
+  publicApiErrorResponse,
+  requireScope,
+} from '@/lib/public-api';
+import { integrationEventSchema } from '@/lib/validators/automation';
+import {
+  handleIntegrationEvent,
+  parseAutomationError,
+  type AutomationRunResult,
+} from '@/services/automations';
+import type { ApiSuccessResponse } from '@/types/api';
+
+// POST /api/v1/events - Report something that happened, e.g. a job completed, to run the
+// business's automations for that event
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getApiKeyContext(request);
+    requireScope(context, 'requests:send');
+    await enforceRateLimit(context, 'data.write');
+
+    const input = integrationEventSchema.parse(await request.json());
+    const result = await handleIntegrationEvent(context.businessId, input);
+    if (!result.success) {
+      const { code, status, message } = parseAutomationError(result.error);
+      return publicApiError(code, message, status);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<
+      AutomationRunResult & { customerId: string; customerCreated: boolean }
+    >);
+  } catch (error) {
+    return publicApiErrorResponse(error, 'Failed to handle event');
+  }
+}
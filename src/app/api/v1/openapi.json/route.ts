@@ -0,0 +1,8 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+// GET /api/v1/openapi.json - Public description of the v1 API
+export async function GET(request: NextRequest) {
+  const serverUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+  return NextResponse.json(buildOpenApiDocument(serverUrl));
+}
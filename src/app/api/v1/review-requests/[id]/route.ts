@@ -0,0 +1,41 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  API_REVIEW_REQUEST_SELECT,
+  enforceRateLimit,
+  getApiKeyContext,
+  publicApiError,
+  publicApiErrorResponse,
+  requireScope,
+  toApiReviewRequest,
+  type ApiReviewRequest,
+} from '@/lib/public-api';
+import { reviewRequestParamsSchema } from '@/lib/validation-schemas';
+import type { ApiSuccessResponse } from '@/types/api';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// GET /api/v1/review-requests/[id] - One review request and where it is in its lifecycle
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await getApiKeyContext(request);
+    requireScope(context, 'requests:read');
+    await enforceRateLimit(context, 'data.read');
+    const { id } = reviewRequestParamsSchema.parse(await params);
+
+    const reviewRequest = await prisma.reviewRequest.findFirst({
+      where: { id, businessId: context.businessId, isActive: true },
+      select: API_REVIEW_REQUEST_SELECT,
+    });
+    if (!reviewRequest) {
+      return publicApiError('NOT_FOUND', 'Review request not found', 404);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: toApiReviewRequest(reviewRequest),
+    } satisfies ApiSuccessResponse<ApiReviewRequest>);
+  } catch (error) {
+    return publicApiErrorResponse(error, 'Failed to fetch review request');
+  }
+}
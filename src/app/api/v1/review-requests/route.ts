@@ -0,0 +1,156 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  API_REVIEW_REQUEST_SELECT,
+  enforceRateLimit,
+  getApiKeyContext,
+  publicApiError,
+  publicApiErrorResponse,
+  requireScope,
+  toApiReviewRequest,
+  type ApiReviewRequest,
+} from '@/lib/public-api';
+import {
+  createBulkReviewRequestsSchema,
+  createReviewRequestSchema,
+  reviewRequestQuerySchema,
+} from '@/lib/validation-schemas';
+import { parseContactBlock } from '@/lib/contact-policy';
+import {
+  createBulkReviewRequests,
+  createReviewRequest,
+  type FailedRecipient,
+} from '@/services/review-requests';
+import type { ApiSuccessResponse } from '@/types/api';
+
+// GET /api/v1/review-requests - List the business's review requests
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getApiKeyContext(request);
+    requireScope(context, 'requests:read');
+    await enforceRateLimit(context, 'data.read');
+
+    const query = reviewRequestQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams));
+
+    const where: Prisma.ReviewRequestWhereInput = {
+      businessId: context.businessId,
+      isActive: true,
+    };
+    if (query.status && query.status !== 'all') where.status = query.status;
+    if (query.channel && query.channel !== 'all') where.channel = query.channel;
+    if (query.customerId) where.customerId = query.customerId;
+    if (query.dateFrom || query.dateTo) {
+      where.createdAt = { gte: query.dateFrom, lte: query.dateTo };
+    }
+
+    const [reviewRequests, totalCount] = await Promise.all([
+      prisma.reviewRequest.findMany({
+        where,
+        select: API_REVIEW_REQUEST_SELECT,
+        orderBy: { [query.sortBy]: query.sortOrder },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      prisma.reviewRequest.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(totalCount / query.limit);
+    return NextResponse.json({
+      success: true,
+      data: reviewRequests.map(toApiReviewRequest),
+      meta: {
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          totalCount,
+          totalPages,
+          hasNextPage: query.page < totalPages,
+          hasPrevPage: query.page > 1,
+        },
+      },
+    } satisfies ApiSuccessResponse<ApiReviewRequest[]>);
+  } catch (error) {
+    return publicApiErrorResponse(error, 'Failed to fetch review requests');
+  }
+}
+
+async function loadCreated(businessId: string, ids: string[]) {
+  const reviewRequests = await prisma.reviewRequest.findMany({
+    where: { businessId, id: { in: ids } },
+    select: API_REVIEW_REQUEST_SELECT,
+  });
+  return reviewRequests.map(toApiReviewRequest);
+}
+
+// POST /api/v1/review-requests - Queue a review request, or one per customer in customerIds
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getApiKeyContext(request);
+    requireScope(context, 'requests:send');
+
+    const body = await request.json();
+    const isBulk = typeof body === 'object' && body !== null && 'customerIds' in body;
+    const input = isBulk
+      ? createBulkReviewRequestsSchema.parse(body)
+      : createReviewRequestSchema.parse(body);
+    const customerIds = 'customerIds' in input ? input.customerIds : [input.customerId];
+
+    await enforceRateLimit(
+      context,
+      input.channel === 'SMS' ? 'sms.send' : 'email.send',
+      customerIds.length
+    );
+
+    const params = {
+      businessId: context.businessId,
+      channel: input.channel,
+      subject: input.subject,
+      messageContent: input.messageContent,
+      reviewUrl: input.reviewUrl,
+      scheduledFor: input.scheduledFor,
+    };
+
+    if ('customerIds' in input) {
+      const result = await createBulkReviewRequests({ ...params, customerIds });
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      const created = await loadCreated(
+        context.businessId,
+        result.data.successful.map(summary => summary.id)
+      );
+      return NextResponse.json(
+        {
+          success: true,
+          data: { created, failed: result.data.failed },
+        } satisfies ApiSuccessResponse<{
+          created: ApiReviewRequest[];
+          failed: FailedRecipient[];
+        }>,
+        { status: 201 }
+      );
+    }
+
+    const result = await createReviewRequest({ ...params, customerId: input.customerId });
+    if (!result.success) {
+      const block = parseContactBlock(result.error);
+      return block
+        ? publicApiError(block.code, block.message, 422)
+        : publicApiError('REQUEST_NOT_CREATED', result.error, 422);
+    }
+
+    const [created] = await loadCreated(context.businessId, [result.data.id]);
+    if (!created) {
+      throw new Error('Created review request could not be loaded');
+    }
+
+    return NextResponse.json(
+      { success: true, data: created } satisfies ApiSuccessResponse<ApiReviewRequest>,
+      { status: 201 }
+    );
+  } catch (error) {
+    return publicApiErrorResponse(error, 'Failed to create review request');
+  }
+}
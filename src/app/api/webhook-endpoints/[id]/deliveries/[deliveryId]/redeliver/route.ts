@@ -0,0 +1,49 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import type { WebhookDelivery } from '@prisma/client';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { parseWebhookError, redeliverWebhook } from '@/services/webhook-endpoints';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+type RouteParams = { params: Promise<{ id: string; deliveryId: string }> };
+
+// POST /api/webhook-endpoints/[id]/deliveries/[deliveryId]/redeliver - Send an event again
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'business:manage');
+    const { id, deliveryId } = await params;
+
+    const result = await redeliverWebhook(context.businessId, id, deliveryId);
+    if (!result.success) {
+      const { code, status, message } = parseWebhookError(result.error);
+      return NextResponse.json(
+        { success: false, error: { code, message } } satisfies ApiErrorResponse,
+        { status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<WebhookDelivery>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    logger.error('Error redelivering webhook', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to redeliver webhook' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { WebhookDelivery } from '@prisma/client';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { webhookDeliveryQuerySchema } from '@/lib/validators/webhook';
+import { listWebhookDeliveries, parseWebhookError } from '@/services/webhook-endpoints';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// GET /api/webhook-endpoints/[id]/deliveries?status=&limit= - Delivery log, newest first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'business:manage');
+    const { id } = await params;
+    const query = webhookDeliveryQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    const result = await listWebhookDeliveries(context.businessId, id, query);
+    if (!result.success) {
+      const { code, status, message } = parseWebhookError(result.error);
+      return NextResponse.json(
+        { success: false, error: { code, message } } satisfies ApiErrorResponse,
+        { status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<WebhookDelivery[]>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details: error.errors,
+          },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    logger.error('Error fetching webhook deliveries', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch webhook deliveries' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
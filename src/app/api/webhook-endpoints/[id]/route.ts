@@ -0,0 +1,142 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  getBusinessContext,
+  permissionDeniedResponse,
+  requirePermission,
+} from '@/lib/auth-context';
+import { logger } from '@/lib/logger';
+import { updateWebhookEndpointSchema } from '@/lib/validators/webhook';
+import {
+  deleteWebhookEndpoint,
+  getWebhookEndpoint,
+  parseWebhookError,
+  updateWebhookEndpoint,
+  type WebhookEndpointSummary,
+  type WebhookEndpointWithSecret,
+} from '@/services/webhook-endpoints';
+import type { ApiSuccessResponse, ApiErrorResponse } from '@/types/api';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+function webhookErrorResponse(error: string) {
+  const { code, status, message } = parseWebhookError(error);
+  return NextResponse.json(
+    { success: false, error: { code, message } } satisfies ApiErrorResponse,
+    { status }
+  );
+}
+
+// GET /api/webhook-endpoints/[id] - One endpoint, with the secret its deliveries are signed with
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'business:manage');
+    const { id } = await params;
+
+    const result = await getWebhookEndpoint(context.businessId, id);
+    if (!result.success) {
+      return webhookErrorResponse(result.error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<WebhookEndpointWithSecret>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    logger.error('Error fetching webhook endpoint', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch webhook endpoint' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/webhook-endpoints/[id] - Change an endpoint's URL or events, or disable it
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'business:manage');
+    const { id } = await params;
+    const input = updateWebhookEndpointSchema.parse(await request.json());
+
+    const result = await updateWebhookEndpoint(context.businessId, id, input);
+    if (!result.success) {
+      return webhookErrorResponse(result.error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    } satisfies ApiSuccessResponse<WebhookEndpointSummary>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid webhook endpoint',
+            details: error instanceof z.ZodError ? error.errors : undefined,
+          },
+        } satisfies ApiErrorResponse,
+        { status: 400 }
+      );
+    }
+
+    logger.error('Error updating webhook endpoint', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to update webhook endpoint' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/webhook-endpoints/[id] - Remove an endpoint and its delivery log
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const context = await getBusinessContext();
+    requirePermission(context, 'business:manage');
+    const { id } = await params;
+
+    const result = await deleteWebhookEndpoint(context.businessId, id);
+    if (!result.success) {
+      return webhookErrorResponse(result.error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id },
+    } satisfies ApiSuccessResponse<{ id: string }>);
+  } catch (error) {
+    const denied = permissionDeniedResponse(error);
+    if (denied) return denied;
+
+    logger.error('Error deleting webhook endpoint', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to delete webhook endpoint' },
+      } satisfies ApiErrorResponse,
+      { status: 500 }
+    );
+  }
+}
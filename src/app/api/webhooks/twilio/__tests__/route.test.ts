@@ -0,0 +1,112 @@
+import twilio from 'twilio';
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { handleTwilioInboundMessage, handleTwilioWebhook } from '@/services/twilio';
+
+jest.mock('@/lib/logger');
+jest.mock('@/services/twilio', () => ({
+  ...jest.requireActual('@/services/twilio'),
+  handleTwilioInboundMessage: jest.fn(),
+  handleTwilioWebhook: jest.fn(),
+}));
+
+describe('POST /api/webhooks/twilio', () => {
+  const authToken = 'test-auth-token';
+  const url = 'https://app.example.com/api/webhooks/twilio';
+  const params = {
+    MessageSid: 'SM123',
+    MessageStatus: 'delivered',
+    To: '+447700900123',
+    From: '+447700900000',
+  };
+
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.TWILIO_AUTH_TOKEN = authToken;
+    process.env.NEXT_PUBLIC_APP_URL = 'https://app.example.com';
+    (handleTwilioWebhook as jest.Mock).mockResolvedValue({
+      success: true,
+      data: { messageId: 'SM123', status: 'delivered' },
+    });
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  const postWebhook = (body: Record<string, string>, signature?: string) =>
+    POST(
+      new NextRequest(url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/x-www-form-urlencoded',
+          ...(signature && { 'x-twilio-signature': signature }),
+        },
+        body: new URLSearchParams(body).toString(),
+      })
+    );
+
+  const sign = (body: Record<string, string>) =>
+    twilio.getExpectedTwilioSignature(authToken, url, body);
+
+  it('should process a callback signed by Twilio', async () => {
+    const response = await postWebhook(params, sign(params));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/xml');
+    expect(handleTwilioWebhook).toHaveBeenCalledWith(expect.objectContaining(params));
+  });
+
+  it('should return 403 for an invalid X-Twilio-Signature', async () => {
+    const response = await postWebhook(params, 'not-a-valid-signature');
+
+    expect(response.status).toBe(403);
+    expect(handleTwilioWebhook).not.toHaveBeenCalled();
+  });
+
+  it('should return 403 when a signed payload has been changed', async () => {
+    const response = await postWebhook({ ...params, MessageStatus: 'failed' }, sign(params));
+
+    expect(response.status).toBe(403);
+    expect(handleTwilioWebhook).not.toHaveBeenCalled();
+  });
+
+  it('should return 403 without a signature', async () => {
+    const response = await postWebhook(params);
+
+    expect(response.status).toBe(403);
+    expect(handleTwilioWebhook).not.toHaveBeenCalled();
+  });
+
+  it('should route inbound messages to the inbound handler', async () => {
+    const inbound = {
+      MessageSid: 'SM456',
+      SmsStatus: 'received',
+      From: '+447700900123',
+      Body: 'STOP',
+    };
+    (handleTwilioInboundMessage as jest.Mock).mockResolvedValue({
+      success: true,
+      data: { keyword: 'STOP', businessIds: [] },
+    });
+
+    const response = await postWebhook(inbound, sign(inbound));
+
+    expect(response.status).toBe(200);
+    expect(handleTwilioInboundMessage).toHaveBeenCalled();
+    expect(handleTwilioWebhook).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 so Twilio retries when processing fails', async () => {
+    (handleTwilioWebhook as jest.Mock).mockResolvedValue({
+      success: false,
+      error: 'Failed to process webhook',
+    });
+
+    const response = await postWebhook(params, sign(params));
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,63 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import {
+  handleTwilioInboundMessage,
+  handleTwilioWebhook,
+  validateTwilioSignature,
+} from '@/services/twilio';
+import type { TwilioWebhookPayload } from '@/types/external';
+
+// Empty TwiML - we never auto-reply; Twilio's Advanced Opt-Out handles keyword replies
+const EMPTY_TWIML = '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+
+// POST /api/webhooks/twilio - Status callbacks and inbound messages
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const params: Record<string, string> = {};
+    formData.forEach((value, key) => {
+      params[key] = String(value);
+    });
+
+    // Twilio signs the public URL it called, which differs from request.url behind a proxy
+    const signature = request.headers.get('x-twilio-signature') || '';
+    const { pathname, search } = request.nextUrl;
+    const publicUrl = process.env.NEXT_PUBLIC_APP_URL
+      ? `${process.env.NEXT_PUBLIC_APP_URL}${pathname}${search}`
+      : request.url;
+
+    if (!signature || !validateTwilioSignature(params, signature, publicUrl)) {
+      logger.warn('Rejected Twilio webhook with invalid signature', {
+        hasSignature: !!signature,
+        url: publicUrl,
+      });
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 403 });
+    }
+
+    const payload = params as unknown as TwilioWebhookPayload;
+    const isInbound =
+      payload.SmsStatus === 'received' ||
+      payload.MessageStatus === 'received' ||
+      (!payload.MessageStatus && payload.Body !== undefined);
+
+    const result = isInbound
+      ? await handleTwilioInboundMessage(payload)
+      : await handleTwilioWebhook(payload);
+
+    if (!result.success) {
+      // Non-2xx makes Twilio retry the callback
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+
+    return new NextResponse(EMPTY_TWIML, {
+      status: 200,
+      headers: { 'Content-Type': 'text/xml' },
+    });
+  } catch (error) {
+    logger.error('Twilio webhook processing failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json({ error: 'Webhook processing failed' }, { status: 500 });
+  }
+}
@@ -1,36 +1,17 @@
 import { NextResponse } from 'next/server';
-import { initializeWorkers } from '../../../jobs';
-import { logger } from '../../../lib/logger';
-
-let workersInitialized = false;
-
-/**
- * Initialize workers on first API request
- * This ensures workers are started when the server starts
- */
-function ensureWorkersInitialized(): void {
-  if (!workersInitialized) {
-    try {
-      // MVP: Skip worker initialization - using direct API calls
-      // initializeWorkers();
-      workersInitialized = true;
-      logger.info('MVP: Skipping worker initialization - using direct API calls');
-    } catch (error) {
-      logger.error('Failed to initialize workers', { error });
-    }
-  }
-}
+import { getQueueStats } from '../../../services/job-queue';
 
 /**
- * GET /api/workers - Check worker status
+ * GET /api/workers - Check the send queue
+ * Workers run in the separate dispatcher process (`npm run scheduler`), never in the web app
  */
 export async function GET() {
-  ensureWorkersInitialized();
+  const sendRequests = await getQueueStats('send-request');
 
   return NextResponse.json({
     success: true,
     data: {
-      initialized: workersInitialized,
+      queues: { 'send-request': sendRequests },
       timestamp: new Date().toISOString(),
     },
   });
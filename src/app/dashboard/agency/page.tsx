@@ -0,0 +1,15 @@
+import { type Metadata } from 'next';
+import { AgencyRollupTable } from '@/components/dashboard/analytics/AgencyRollupTable';
+
+export const metadata: Metadata = {
+  title: 'All Businesses | Review Runner',
+  description: 'Review request performance across every business you manage',
+};
+
+export default function AgencyPage() {
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <AgencyRollupTable />
+    </div>
+  );
+}
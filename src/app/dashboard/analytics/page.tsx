@@ -0,0 +1,17 @@
+import { type Metadata } from 'next';
+import { AnalyticsSummaryCards } from '@/components/dashboard/analytics/AnalyticsSummaryCards';
+import { AnalyticsTrends } from '@/components/dashboard/analytics/AnalyticsTrends';
+
+export const metadata: Metadata = {
+  title: 'Analytics | Review Runner',
+  description: 'Review request trends, click-through and review rates',
+};
+
+export default function AnalyticsPage() {
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-10">
+      <AnalyticsTrends />
+      <AnalyticsSummaryCards />
+    </div>
+  );
+}
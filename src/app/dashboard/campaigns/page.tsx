@@ -0,0 +1,15 @@
+import { type Metadata } from 'next';
+import CampaignsTable from '@/components/dashboard/campaigns/CampaignsTable';
+
+export const metadata: Metadata = {
+  title: 'Campaigns | Review Runner',
+  description: 'Track and manage your review request campaigns',
+};
+
+export default function CampaignsPage() {
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <CampaignsTable />
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { CustomerManagementPage } from '../../components/dashboard/customers/Cus
 import { useOnboardingContext, useOnboardingBlocker } from '@/contexts/OnboardingContext';
 import { DashboardOnboardingModal } from '@/components/dashboard/DashboardOnboardingModal';
 import { DashboardOverlay, LoadingOverlay } from '@/components/dashboard/DashboardOverlay';
+import { CreditUsageBanner } from '@/components/dashboard/CreditUsageBanner';
 import { OnboardingTestControls } from '@/components/dev/OnboardingTestControls';
 import { cn } from '@/lib/utils';
 import { addAuthHeaders } from '@/lib/auth-headers';
@@ -256,6 +257,7 @@ export default function DashboardPage() {
           shouldBlockInteractions && 'pointer-events-none select-none'
         )}
       >
+        {!shouldSkipDashboardLoad && <CreditUsageBanner />}
         <CustomerManagementPage />
       </div>
 
@@ -0,0 +1,15 @@
+import { type Metadata } from 'next';
+import TemplatesManager from '@/components/dashboard/templates/TemplatesManager';
+
+export const metadata: Metadata = {
+  title: 'Templates | Review Runner',
+  description: 'Edit message templates and review their version history',
+};
+
+export default function TemplatesPage() {
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <TemplatesManager />
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { useUser } from '@clerk/nextjs';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { ROLE_LABELS } from '@/lib/permissions';
+
+interface InvitationDetails {
+  id: string;
+  email: string;
+  role: 'OWNER' | 'ADMIN' | 'MEMBER';
+  status: 'PENDING' | 'ACCEPTED' | 'REVOKED' | 'EXPIRED';
+  expiresAt: string;
+  businessName: string;
+}
+
+export default function InvitePage() {
+  const token = useParams<{ token: string }>()?.token ?? '';
+  const router = useRouter();
+  const { isLoaded, isSignedIn } = useUser();
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchInvitation = async () => {
+      try {
+        const response = await fetch(`/api/invitations/${token}`);
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.error?.message || 'Invitation not found');
+        }
+        setInvitation(result.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Invitation not found');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInvitation();
+  }, [token]);
+
+  const handleAccept = async () => {
+    try {
+      setAccepting(true);
+      setError(null);
+
+      const response = await fetch(`/api/invitations/${token}/accept`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error?.message || 'Failed to accept invitation');
+      }
+
+      router.push('/dashboard');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept invitation');
+      setAccepting(false);
+    }
+  };
+
+  if (loading || !isLoaded) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const redirectParam = encodeURIComponent(`/invite/${token}`);
+  const pending = invitation?.status === 'PENDING';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <div className="w-full max-w-md bg-white rounded-2xl border border-gray-200 p-8 text-center">
+        {invitation ? (
+          <>
+            <h1 className="text-2xl font-bold text-charcoal">Join {invitation.businessName}</h1>
+            <p className="mt-3 text-gray-600">
+              {pending
+                ? `You've been invited to join as ${(ROLE_LABELS[invitation.role] ?? invitation.role).toLowerCase()} using ${invitation.email}.`
+                : `This invitation has been ${invitation.status.toLowerCase()}. Ask a team owner or admin for a new one.`}
+            </p>
+          </>
+        ) : (
+          <h1 className="text-2xl font-bold text-charcoal">Invitation not found</h1>
+        )}
+
+        {error && (
+          <div className="mt-6 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {pending &&
+          (isSignedIn ? (
+            <button
+              onClick={handleAccept}
+              disabled={accepting}
+              className="mt-8 w-full px-4 py-3 bg-forgedorange-600 text-white rounded-lg hover:bg-forgedorange-700 transition-colors disabled:opacity-50"
+            >
+              {accepting ? 'Joining...' : 'Accept invitation'}
+            </button>
+          ) : (
+            <div className="mt-8 space-y-3">
+              <Link
+                href={`/auth/sign-up?redirect_url=${redirectParam}`}
+                className="block w-full px-4 py-3 bg-forgedorange-600 text-white rounded-lg hover:bg-forgedorange-700 transition-colors"
+              >
+                Create an account
+              </Link>
+              <Link
+                href={`/auth/sign-in?redirect_url=${redirectParam}`}
+                className="block w-full px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                I already have an account
+              </Link>
+            </div>
+          ))}
+      </div>
+    </div>
+  );
+}
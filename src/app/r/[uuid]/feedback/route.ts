@@ -0,0 +1,57 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { renderFeedbackResultPage } from '@/lib/landing-page';
+import { feedbackSubmissionSchema } from '@/lib/validators/business';
+import { submitFeedback } from '@/services/feedback';
+
+// Feedback URLs are publicly accessible - no authentication required
+
+type RouteParams = Promise<{ uuid: string }>;
+
+// POST /r/[uuid]/feedback - Private feedback form on the review landing page
+export async function POST(request: NextRequest, { params }: { params: RouteParams }) {
+  const { uuid } = await params;
+
+  const formData = await request.formData().catch(() => null);
+  const parsed = feedbackSubmissionSchema.safeParse({ message: formData?.get('message') });
+
+  if (!parsed.success) {
+    return htmlResponse(
+      renderFeedbackResultPage(
+        'Feedback Not Sent',
+        parsed.error.errors[0]?.message ?? 'Please enter your feedback and try again.',
+        '⚠️'
+      ),
+      400
+    );
+  }
+
+  const result = await submitFeedback(uuid, parsed.data.message);
+
+  if (!result.success) {
+    const notFound = result.error === 'Review request not found';
+    return htmlResponse(
+      renderFeedbackResultPage(
+        notFound ? 'Link Not Found' : 'Something Went Wrong',
+        notFound
+          ? 'This review link is invalid or has expired.'
+          : 'We could not send your feedback. Please try again later.',
+        '⚠️'
+      ),
+      notFound ? 404 : 500
+    );
+  }
+
+  return htmlResponse(
+    renderFeedbackResultPage(
+      'Thank You',
+      `Your feedback has been sent privately to ${result.data.businessName}.`
+    )
+  );
+}
+
+function htmlResponse(html: string, status: number = 200): NextResponse {
+  return new NextResponse(html, {
+    status,
+    headers: { 'Content-Type': 'text/html' },
+  });
+}
@@ -0,0 +1,53 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+
+// Photo URLs are publicly accessible - the landing page is shown to customers who aren't
+// signed in, so this serves only the first photo of the business behind the link
+
+type RouteParams = Promise<{ uuid: string }>;
+
+// GET /r/[uuid]/photo - Business photo for the review landing page
+export async function GET(_request: NextRequest, { params }: { params: RouteParams }) {
+  const { uuid } = await params;
+
+  try {
+    const reviewRequest = await prisma.reviewRequest.findUnique({
+      where: { trackingUuid: uuid },
+      select: { business: { select: { googlePhotos: true } } },
+    });
+
+    const photos = reviewRequest?.business.googlePhotos;
+    const photoName = Array.isArray(photos)
+      ? (photos[0] as { photo_reference?: string } | null)?.photo_reference
+      : undefined;
+
+    const apiKey = process.env.GOOGLE_PLACES_API_KEY;
+    if (!photoName || !apiKey) {
+      return new NextResponse(null, { status: 404 });
+    }
+
+    const response = await fetch(
+      `https://places.googleapis.com/v1/${photoName}/media?maxWidthPx=400`,
+      { headers: { 'X-Goog-Api-Key': apiKey } }
+    );
+
+    if (!response.ok) {
+      logger.warn('Landing page photo fetch failed', { uuid, status: response.status });
+      return new NextResponse(null, { status: 404 });
+    }
+
+    return new NextResponse(await response.arrayBuffer(), {
+      headers: {
+        'Content-Type': response.headers.get('content-type') || 'image/jpeg',
+        'Cache-Control': 'public, max-age=86400',
+      },
+    });
+  } catch (error) {
+    logger.error('Error serving landing page photo', {
+      uuid,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return new NextResponse(null, { status: 500 });
+  }
+}
@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
+import {
+  getReviewPlatformLinks,
+  renderLandingPage,
+  resolveLandingPageSettings,
+} from '@/lib/landing-page';
 
 // Tracking URLs should be publicly accessible - no authentication required
 
@@ -46,6 +51,8 @@ export async function GET(
             name: true,
             googleReviewUrl: true,
             website: true,
+            landingPage: true,
+            googlePhotos: true,
           },
         },
       },
@@ -156,11 +163,38 @@ export async function GET(
       });
     }
 
-    // Determine redirect URL
-    const redirectUrl = reviewRequest.business.googleReviewUrl || 
-                       reviewRequest.reviewUrl || 
-                       reviewRequest.business.website ||
-                       'https://google.com/maps';
+    // Businesses with a landing page offer every review platform and private feedback equally
+    const landingPage = resolveLandingPageSettings(reviewRequest.business.landingPage);
+    if (landingPage.enabled) {
+      const hasPhoto =
+        Array.isArray(reviewRequest.business.googlePhotos) &&
+        reviewRequest.business.googlePhotos.length > 0;
+
+      return new NextResponse(
+        renderLandingPage({
+          businessName: reviewRequest.business.name,
+          customerFirstName: reviewRequest.customer.firstName,
+          settings: landingPage,
+          platforms: getReviewPlatformLinks(
+            reviewRequest.reviewUrl || reviewRequest.business.googleReviewUrl,
+            landingPage
+          ),
+          photoUrl: landingPage.showPhoto && hasPhoto ? `/r/${uuid}/photo` : null,
+          feedbackAction: `/r/${uuid}/feedback`,
+        }),
+        {
+          status: 200,
+          headers: { 'Content-Type': 'text/html' },
+        }
+      );
+    }
+
+    // The request's own URL is the rotated or pinned destination chosen when it was created
+    const redirectUrl =
+      reviewRequest.reviewUrl ||
+      reviewRequest.business.googleReviewUrl ||
+      reviewRequest.business.website ||
+      'https://google.com/maps';
 
     // Log the redirect
     logger.info('Redirecting to review URL', {
@@ -0,0 +1,131 @@
+import { NextRequest } from 'next/server';
+import { GET, POST } from '../route';
+import { prisma } from '@/lib/prisma';
+import { unsubscribeByTrackingUuid } from '@/services/suppressions';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: { reviewRequest: { findUnique: jest.fn() } },
+}));
+jest.mock('@/lib/logger');
+jest.mock('@/services/suppressions');
+
+describe('/r/unsubscribe/[uuid]', () => {
+  const uuid = '2f1c6a3e-8d4b-4c2a-9e57-0b6d1f3a7c90';
+  const url = `https://app.example.com/r/unsubscribe/${uuid}`;
+  const context = { params: Promise.resolve({ uuid }) };
+
+  const unsubscribed = (alreadyUnsubscribed: boolean) => ({
+    success: true,
+    data: { businessName: 'Smith & Sons', channel: 'EMAIL', alreadyUnsubscribed },
+  });
+
+  const post = (body?: string) =>
+    POST(
+      new NextRequest(url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/x-www-form-urlencoded', 'user-agent': 'Gmail' },
+        body,
+      }),
+      context
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (unsubscribeByTrackingUuid as jest.Mock).mockResolvedValue(unsubscribed(false));
+  });
+
+  describe('GET', () => {
+    it('should render a confirmation form without unsubscribing', async () => {
+      (prisma.reviewRequest.findUnique as jest.Mock).mockResolvedValue({
+        id: 'request-1',
+        business: { name: 'Smith & Sons' },
+      });
+
+      const response = await GET(new NextRequest(url), context);
+      const html = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(html).toContain(`<form method="POST" action="/r/unsubscribe/${uuid}">`);
+      expect(html).toContain('Smith &amp; Sons');
+      expect(unsubscribeByTrackingUuid).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown UUID', async () => {
+      (prisma.reviewRequest.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const response = await GET(new NextRequest(url), context);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST', () => {
+    it('should answer an RFC 8058 one-click POST with a plain 200', async () => {
+      const response = await post('List-Unsubscribe=One-Click');
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('location')).toBeNull();
+      expect(await response.json()).toEqual({ success: true });
+      expect(unsubscribeByTrackingUuid).toHaveBeenCalledWith(
+        uuid,
+        'one_click',
+        expect.objectContaining({ userAgent: 'Gmail' })
+      );
+    });
+
+    it('should render a confirmation page for the form POST', async () => {
+      const response = await post('');
+      const html = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('text/html');
+      expect(html).toContain("You've Been Unsubscribed");
+      expect(html).toContain('review request emails from Smith &amp; Sons');
+      expect(unsubscribeByTrackingUuid).toHaveBeenCalledWith(
+        uuid,
+        'unsubscribe_page',
+        expect.any(Object)
+      );
+    });
+
+    it('should return 404 for an unknown UUID', async () => {
+      (unsubscribeByTrackingUuid as jest.Mock).mockResolvedValue({
+        success: false,
+        error: 'Review request not found',
+      });
+
+      const oneClick = await post('List-Unsubscribe=One-Click');
+      expect(oneClick.status).toBe(404);
+      expect(await oneClick.json()).toEqual({
+        success: false,
+        error: 'Review request not found',
+      });
+
+      const form = await post('');
+      expect(form.status).toBe(404);
+      expect(await form.text()).toContain('Link Not Found');
+    });
+
+    it('should confirm again for a contact that is already suppressed', async () => {
+      (unsubscribeByTrackingUuid as jest.Mock).mockResolvedValue(unsubscribed(true));
+
+      const oneClick = await post('List-Unsubscribe=One-Click');
+      expect(oneClick.status).toBe(200);
+
+      const form = await post('');
+      expect(form.status).toBe(200);
+      expect(await form.text()).toContain("You've Been Unsubscribed");
+    });
+
+    it('should return 500 when the opt-out could not be saved', async () => {
+      (unsubscribeByTrackingUuid as jest.Mock).mockResolvedValue({
+        success: false,
+        error: 'Failed to process suppression',
+      });
+
+      const response = await post('List-Unsubscribe=One-Click');
+
+      expect(response.status).toBe(500);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { unsubscribeByTrackingUuid } from '@/services/suppressions';
+
+// Unsubscribe URLs are publicly accessible - no authentication required.
+// GET only renders a confirmation page so that link scanners and mail client
+// prefetching can never opt a customer out; the opt-out itself is always a POST.
+
+type RouteParams = Promise<{ uuid: string }>;
+
+// GET /r/unsubscribe/[uuid] - Show unsubscribe confirmation page
+export async function GET(request: NextRequest, { params }: { params: RouteParams }) {
+  const { uuid } = await params;
+
+  try {
+    const reviewRequest = await prisma.reviewRequest.findUnique({
+      where: { trackingUuid: uuid },
+      select: {
+        id: true,
+        business: { select: { name: true } },
+      },
+    });
+
+    if (!reviewRequest) {
+      logger.warn('Invalid unsubscribe link accessed', { uuid });
+      return htmlResponse(
+        generateMessagePage(
+          'Link Not Found',
+          'This unsubscribe link is invalid or has expired.',
+          'If you keep receiving messages, please contact the business directly.'
+        ),
+        404
+      );
+    }
+
+    return htmlResponse(
+      generateConfirmationPage(reviewRequest.business.name, request.nextUrl.pathname)
+    );
+  } catch (error) {
+    logger.error('Error rendering unsubscribe page', {
+      uuid,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return htmlResponse(
+      generateMessagePage(
+        'Something Went Wrong',
+        'We could not load this page.',
+        'Please try again later or contact the business directly.'
+      ),
+      500
+    );
+  }
+}
+
+// POST /r/unsubscribe/[uuid] - Confirm opt-out (form submit or RFC 8058 one-click)
+export async function POST(request: NextRequest, { params }: { params: RouteParams }) {
+  const { uuid } = await params;
+
+  // RFC 8058: mailbox providers POST "List-Unsubscribe=One-Click" as form data
+  const formData = await request.formData().catch(() => null);
+  const isOneClick = formData?.get('List-Unsubscribe') === 'One-Click';
+
+  const result = await unsubscribeByTrackingUuid(
+    uuid,
+    isOneClick ? 'one_click' : 'unsubscribe_page',
+    {
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      ipAddress:
+        request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+    }
+  );
+
+  if (!result.success) {
+    const status = result.error === 'Review request not found' ? 404 : 500;
+
+    if (isOneClick) {
+      return NextResponse.json({ success: false, error: result.error }, { status });
+    }
+
+    return htmlResponse(
+      generateMessagePage(
+        status === 404 ? 'Link Not Found' : 'Something Went Wrong',
+        status === 404
+          ? 'This unsubscribe link is invalid or has expired.'
+          : 'We could not process your request.',
+        'Please try again later or contact the business directly.'
+      ),
+      status
+    );
+  }
+
+  // One-click requests must get a plain 2xx without redirects
+  if (isOneClick) {
+    return NextResponse.json({ success: true });
+  }
+
+  const { businessName, channel } = result.data;
+  const channelLabel = channel === 'EMAIL' ? 'emails' : 'text messages';
+
+  return htmlResponse(
+    generateMessagePage(
+      "You've Been Unsubscribed",
+      `You will no longer receive review request ${channelLabel} from ${escapeHtml(businessName)}.`,
+      'If this was a mistake, please contact the business directly.',
+      '✅'
+    )
+  );
+}
+
+function htmlResponse(html: string, status: number = 200): NextResponse {
+  return new NextResponse(html, {
+    status,
+    headers: { 'Content-Type': 'text/html' },
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const PAGE_STYLES = `
+  * { margin: 0; padding: 0; box-sizing: border-box; }
+  body {
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+    background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+    min-height: 100vh;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    padding: 20px;
+  }
+  .container {
+    background: white;
+    border-radius: 20px;
+    box-shadow: 0 20px 60px rgba(0,0,0,0.3);
+    padding: 40px;
+    max-width: 500px;
+    width: 100%;
+    text-align: center;
+  }
+  .icon {
+    font-size: 48px;
+    margin-bottom: 20px;
+  }
+  h1 {
+    color: #2d3748;
+    font-size: 26px;
+    margin-bottom: 15px;
+    font-weight: 700;
+  }
+  p {
+    color: #718096;
+    font-size: 16px;
+    line-height: 1.6;
+    margin-bottom: 10px;
+  }
+  .submessage {
+    font-size: 14px;
+    color: #a0aec0;
+    margin-top: 20px;
+  }
+  button {
+    margin-top: 20px;
+    background: #667eea;
+    color: white;
+    border: none;
+    border-radius: 8px;
+    padding: 14px 28px;
+    font-size: 16px;
+    font-weight: 600;
+    cursor: pointer;
+  }
+  button:hover {
+    background: #764ba2;
+  }
+`;
+
+// Generate HTML confirmation page with an explicit opt-out button
+function generateConfirmationPage(businessName: string, actionPath: string): string {
+  const name = escapeHtml(businessName);
+
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1">
+      <meta name="robots" content="noindex">
+      <title>Unsubscribe - ${name}</title>
+      <style>${PAGE_STYLES}</style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="icon">✉️</div>
+        <h1>Unsubscribe</h1>
+        <p>Stop receiving review requests from <strong>${name}</strong>?</p>
+        <form method="POST" action="${escapeHtml(actionPath)}">
+          <button type="submit">Unsubscribe</button>
+        </form>
+        <p class="submessage">You can close this page if you want to keep hearing from us.</p>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+// Generate HTML result page
+function generateMessagePage(
+  title: string,
+  message: string,
+  submessage: string,
+  icon: string = '⚠️'
+): string {
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1">
+      <meta name="robots" content="noindex">
+      <title>${title} - Review Runner</title>
+      <style>${PAGE_STYLES}</style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="icon">${icon}</div>
+        <h1>${title}</h1>
+        <p>${message}</p>
+        <p class="submessage">${submessage}</p>
+      </div>
+    </body>
+    </html>
+  `;
+}
@@ -3,6 +3,7 @@
 import Link from 'next/link';
 import { Building2Icon } from '@/components/ui/icons/Building2';
 import { ChevronRightIcon } from '@/components/ui/icons/ChevronRight';
+import { UsersIcon } from '@/components/ui/icons/Users';
 
 export default function SettingsPage() {
   return (
@@ -42,22 +43,28 @@ export default function SettingsPage() {
           </div>
         </Link>
 
-        {/* Placeholder for future settings */}
-        <div className="bg-gray-50 p-6 rounded-lg border border-gray-200 opacity-60">
-          <div className="flex items-center">
-            <div className="flex-shrink-0">
-              <div className="h-6 w-6 bg-gray-300 rounded"></div>
-            </div>
-            <div className="ml-3">
-              <h3 className="text-lg font-medium text-gray-500">
-                More Settings
-              </h3>
+        {/* Team Settings Card */}
+        <Link
+          href="/settings/team"
+          className="group relative bg-white p-6 rounded-lg border border-gray-200 hover:border-gray-300 hover:shadow-md transition-all duration-200"
+        >
+          <div className="flex items-start justify-between">
+            <div className="flex-1">
+              <div className="flex items-center">
+                <div className="flex-shrink-0">
+                  <UsersIcon className="h-6 w-6 text-forgedorange-600" />
+                </div>
+                <div className="ml-3">
+                  <h3 className="text-lg font-medium text-gray-900 group-hover:text-forgedorange-600">
+                    Team
+                  </h3>
+                </div>
+              </div>
+              <p className="mt-2 text-sm text-gray-500">Invite teammates and manage their roles</p>
             </div>
+            <ChevronRightIcon className="h-5 w-5 text-gray-400 group-hover:text-forgedorange-600 transition-colors" />
           </div>
-          <p className="mt-2 text-sm text-gray-400">
-            Additional settings coming soon
-          </p>
-        </div>
+        </Link>
 
         <div className="bg-gray-50 p-6 rounded-lg border border-gray-200 opacity-60">
           <div className="flex items-center">
@@ -65,16 +72,12 @@ export default function SettingsPage() {
               <div className="h-6 w-6 bg-gray-300 rounded"></div>
             </div>
             <div className="ml-3">
-              <h3 className="text-lg font-medium text-gray-500">
-                Account Settings
-              </h3>
+              <h3 className="text-lg font-medium text-gray-500">Account Settings</h3>
             </div>
           </div>
-          <p className="mt-2 text-sm text-gray-400">
-            Coming soon
-          </p>
+          <p className="mt-2 text-sm text-gray-400">Coming soon</p>
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
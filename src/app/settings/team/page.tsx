@@ -0,0 +1,8 @@
+'use client';
+
+import React from 'react';
+import { TeamSettingsPage } from '@/components/business/settings/TeamSettingsPage';
+
+export default function TeamSettingsPageWrapper() {
+  return <TeamSettingsPage />;
+}
@@ -5,6 +5,19 @@ import { useSignIn, useSignUp, useUser } from '@clerk/nextjs';
 import { useRouter, useSearchParams, usePathname } from 'next/navigation';
 import { LoginScreen } from './LoginScreen';
 
+// Path of a redirect target on this origin, or null for anything that leaves it (including
+// browser-normalised forms like /\evil.com)
+function sameOriginPath(target: string | null | undefined): string | null {
+  if (!target || typeof window === 'undefined') return null;
+
+  try {
+    const url = new URL(target, window.location.origin);
+    return url.origin === window.location.origin ? url.pathname + url.search + url.hash : null;
+  } catch {
+    return null;
+  }
+}
+
 export function ClerkLoginWrapper() {
   const { isLoaded: signInLoaded, signIn, setActive } = useSignIn();
   const { isLoaded: signUpLoaded, signUp, setActive: setSignUpActive } = useSignUp();
@@ -18,14 +31,18 @@ export function ClerkLoginWrapper() {
   const pathname = usePathname();
 
   // Determine if this is a sign-up flow based on the URL path
-  const isSignUpPage = searchParams.get('tab') === 'signup' || pathname.includes('/sign-up');
+  const isSignUpPage = searchParams?.get('tab') === 'signup' || !!pathname?.includes('/sign-up');
+
+  // Where to go once signed in, e.g. back to an invitation; only same-site paths are honoured
+  const safeRedirect = sameOriginPath(searchParams?.get('redirect_url'));
+  const redirectUrl = safeRedirect || '/dashboard';
 
   // Redirect if already signed in
   React.useEffect(() => {
     if (isSignedIn && user) {
-      router.push('/dashboard');
+      router.push(redirectUrl);
     }
-  }, [isSignedIn, user, router]);
+  }, [isSignedIn, user, router, redirectUrl]);
 
   // Safe setActive helper to avoid "Session already exists" errors
   const safeSetActive = async (sessionId: string, isSignUp = false) => {
@@ -39,7 +56,7 @@ export function ClerkLoginWrapper() {
       // If session already exists, just redirect - don't show error to user
       if (err.message?.includes('session') && err.message?.includes('already')) {
         console.log('Session already active, redirecting...');
-        router.push('/dashboard');
+        router.push(redirectUrl);
         return;
       }
       // Re-throw other errors
@@ -61,7 +78,7 @@ export function ClerkLoginWrapper() {
 
       if (result.status === 'complete') {
         await safeSetActive(result.createdSessionId);
-        router.push('/dashboard');
+        router.push(redirectUrl);
       } else {
         setError('Sign in incomplete. Please try again.');
       }
@@ -89,7 +106,7 @@ export function ClerkLoginWrapper() {
 
       if (result.status === 'complete') {
         await safeSetActive(result.createdSessionId, true);
-        router.push('/dashboard');
+        router.push(redirectUrl);
       } else if (result.status === 'missing_requirements') {
         // Check if email verification is needed
         const needsEmailVerification = result.unverifiedFields?.includes('email_address');
@@ -138,7 +155,7 @@ export function ClerkLoginWrapper() {
       await signIn.authenticateWithRedirect({
         strategy: 'oauth_google',
         redirectUrl: '/auth/callback',
-        redirectUrlComplete: isSignUpPage ? '/onboarding' : '/dashboard',
+        redirectUrlComplete: safeRedirect || (isSignUpPage ? '/onboarding' : '/dashboard'),
       });
     } catch (err: any) {
       console.error('Google sign in error:', err);
@@ -203,7 +220,7 @@ export function ClerkLoginWrapper() {
 
       if (result.status === 'complete') {
         await safeSetActive(result.createdSessionId, true);
-        router.push('/dashboard');
+        router.push(redirectUrl);
       } else {
         setError('Verification incomplete. Please try again.');
       }
@@ -236,7 +253,7 @@ export function ClerkLoginWrapper() {
 
       if (result.status === 'complete') {
         await safeSetActive(result.createdSessionId);
-        router.push('/dashboard');
+        router.push(redirectUrl);
       } else {
         setError('Password reset incomplete. Please try again.');
       }
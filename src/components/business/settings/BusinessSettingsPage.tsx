@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react';
 import { BusinessProfileSection } from './BusinessProfileSection';
 import { ReviewRequestSettingsSection } from './ReviewRequestSettingsSection';
 import { DataSyncPanel } from './DataSyncPanel';
+import { LandingPageSection } from './LandingPageSection';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import { ErrorBoundary } from '@/components/ui/ErrorBoundary';
 
@@ -25,6 +26,7 @@ interface BusinessData {
   googlePhoneNumber?: string;
   googleWebsite?: string;
   googlePhotos?: any;
+  landingPage?: unknown;
   lastSyncedAt?: string;
   smsCreditsUsed?: number;
   smsCreditsLimit?: number;
@@ -234,6 +236,12 @@ export function BusinessSettingsPage() {
               settings={businessData.settings}
               onUpdate={handleSettingsUpdate}
             />
+
+            {/* Section 3: Review Landing Page */}
+            <LandingPageSection
+              landingPage={businessData.landingPage}
+              googleReviewUrl={businessData.googleReviewUrl}
+            />
           </div>
         </div>
       </div>
@@ -0,0 +1,192 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { resolveLandingPageSettings, type LandingPageSettings } from '@/lib/landing-page';
+import type { FeedbackEntry } from '@/services/feedback';
+
+interface LandingPageSectionProps {
+  landingPage?: unknown;
+  googleReviewUrl?: string;
+}
+
+const formatDate = (value: string | Date): string =>
+  new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+export function LandingPageSection({ landingPage, googleReviewUrl }: LandingPageSectionProps) {
+  const [form, setForm] = useState<LandingPageSettings>(() =>
+    resolveLandingPageSettings(landingPage)
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [feedback, setFeedback] = useState<FeedbackEntry[]>([]);
+
+  useEffect(() => {
+    fetch('/api/feedback?limit=10')
+      .then(response => response.json())
+      .then(result => {
+        if (result.success) setFeedback(result.data);
+      })
+      .catch(err => console.error('Error fetching feedback:', err));
+  }, []);
+
+  const update = (changes: Partial<LandingPageSettings>) => {
+    setForm(current => ({ ...current, ...changes }));
+    setSaved(false);
+  };
+
+  const save = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch('/api/businesses/current', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          landingPage: {
+            enabled: form.enabled,
+            showPhoto: form.showPhoto,
+            headline: form.headline || undefined,
+            message: form.message || undefined,
+            trustpilotUrl: form.trustpilotUrl || '',
+            facebookUrl: form.facebookUrl || '',
+          },
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error?.message || 'Failed to save landing page');
+      }
+
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save landing page');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    'mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-forgedorange-500';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-xl font-semibold text-charcoal">Review Landing Page</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Show customers a branded page listing every review site plus a private feedback form,
+          instead of sending them straight to Google. Every option is always shown to everyone.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <label className="flex items-center gap-2 text-sm font-medium text-charcoal">
+          <input
+            type="checkbox"
+            checked={form.enabled}
+            onChange={event => update({ enabled: event.target.checked })}
+          />
+          Use the landing page for review links
+        </label>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block text-sm text-gray-700">
+            Headline
+            <input
+              className={inputClass}
+              maxLength={120}
+              value={form.headline ?? ''}
+              onChange={event => update({ headline: event.target.value })}
+              placeholder="How was your experience?"
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Message
+            <input
+              className={inputClass}
+              maxLength={500}
+              value={form.message ?? ''}
+              onChange={event => update({ message: event.target.value })}
+              placeholder="Leave a review wherever suits you, or tell us directly."
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Trustpilot review link
+            <input
+              className={inputClass}
+              type="url"
+              value={form.trustpilotUrl ?? ''}
+              onChange={event => update({ trustpilotUrl: event.target.value })}
+              placeholder="https://www.trustpilot.com/evaluate/..."
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Facebook review link
+            <input
+              className={inputClass}
+              type="url"
+              value={form.facebookUrl ?? ''}
+              onChange={event => update({ facebookUrl: event.target.value })}
+              placeholder="https://www.facebook.com/.../reviews"
+            />
+          </label>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={form.showPhoto}
+            onChange={event => update({ showPhoto: event.target.checked })}
+          />
+          Show your Google Business Profile photo
+        </label>
+
+        {!googleReviewUrl && (
+          <p className="text-sm text-amber-700">
+            No Google review link is set up yet, so Google won&apos;t be listed.
+          </p>
+        )}
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={save}
+            disabled={saving}
+            className="px-4 py-2 bg-forgedorange-600 text-white text-sm rounded-lg hover:bg-forgedorange-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving…' : 'Save'}
+          </button>
+          {saved && <span className="text-sm text-green-700">Saved</span>}
+        </div>
+
+        <div className="border-t border-gray-200 pt-4">
+          <h3 className="text-sm font-medium text-charcoal mb-2">Recent private feedback</h3>
+          {feedback.length === 0 ? (
+            <p className="text-sm text-gray-500">No feedback yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {feedback.map(entry => (
+                <li key={entry.id} className="py-2">
+                  <div className="text-xs text-gray-500">
+                    {entry.customer
+                      ? `${entry.customer.firstName} ${entry.customer.lastName ?? ''}`.trim()
+                      : 'Unknown customer'}
+                    {` · ${formatDate(entry.createdAt)}`}
+                  </div>
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">{entry.message}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { ErrorBoundary } from '@/components/ui/ErrorBoundary';
+import { MailIcon } from '@/components/ui/icons/Mail';
+import { Trash2Icon } from '@/components/ui/icons/Trash2';
+import { canManageMember, hasPermission, ROLE_LABELS } from '@/lib/permissions';
+
+type Role = 'OWNER' | 'ADMIN' | 'MEMBER';
+
+interface TeamMember {
+  userId: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  imageUrl: string | null;
+  role: Role;
+  joinedAt: string;
+}
+
+interface TeamInvitation {
+  id: string;
+  email: string;
+  role: Role;
+  status: 'PENDING' | 'ACCEPTED' | 'REVOKED' | 'EXPIRED';
+  expiresAt: string;
+  createdAt: string;
+}
+
+interface TeamData {
+  members: TeamMember[];
+  invitations: TeamInvitation[];
+  currentUserId: string;
+  currentRole: Role;
+}
+
+const ROLES: Role[] = ['OWNER', 'ADMIN', 'MEMBER'];
+
+const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  OWNER: 'Full access, including managing other owners',
+  ADMIN: 'Manage settings, templates, campaigns and the team',
+  MEMBER: 'Add customers and send review requests',
+};
+
+export function TeamSettingsPage() {
+  const [team, setTeam] = useState<TeamData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<Role>('MEMBER');
+  const [inviting, setInviting] = useState(false);
+
+  useEffect(() => {
+    fetchTeam();
+  }, []);
+
+  const fetchTeam = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/team');
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error?.message || 'Failed to load team');
+      }
+
+      setTeam(result.data);
+    } catch (err) {
+      console.error('Error fetching team:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load team');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Run a team mutation, then reload so the list reflects the server's view
+  const runAction = async (request: Promise<Response>, successNotice?: string) => {
+    setActionError(null);
+    setNotice(null);
+
+    try {
+      const response = await request;
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error?.message || 'Request failed');
+      }
+
+      if (successNotice) {
+        setNotice(successNotice);
+      }
+      await fetchTeam();
+      return result.data;
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    }
+  };
+
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setInviting(true);
+
+    const data = await runAction(
+      fetch('/api/team/invitations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
+      })
+    );
+
+    if (data) {
+      setNotice(
+        data.emailSent
+          ? `Invitation sent to ${data.invitation.email}`
+          : `Invitation created, but the email could not be sent. Share this link instead: ${data.inviteUrl}`
+      );
+      setInviteEmail('');
+      setInviteRole('MEMBER');
+    }
+    setInviting(false);
+  };
+
+  const handleRoleChange = (member: TeamMember, role: Role) =>
+    runAction(
+      fetch(`/api/team/members/${member.userId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role }),
+      }),
+      `${displayName(member)} is now ${(ROLE_LABELS[role] ?? role).toLowerCase()}`
+    );
+
+  const handleRemove = async (member: TeamMember, leaving: boolean) => {
+    const prompt = leaving
+      ? 'Leave this team? You will lose access to the business.'
+      : `Remove ${displayName(member)} from the team?`;
+    if (!confirm(prompt)) return;
+
+    const data = await runAction(
+      fetch(`/api/team/members/${member.userId}`, { method: 'DELETE' }),
+      leaving ? undefined : `${displayName(member)} was removed`
+    );
+    if (data && leaving) {
+      window.location.href = '/dashboard';
+    }
+  };
+
+  const handleRevoke = (invitation: TeamInvitation) =>
+    runAction(
+      fetch(`/api/team/invitations/${invitation.id}`, { method: 'DELETE' }),
+      `Invitation to ${invitation.email} revoked`
+    );
+
+  if (loading && !team) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="flex items-center justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !team) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+            <h3 className="text-lg font-semibold text-red-800">Error Loading Team</h3>
+            <p className="text-red-600">{error || 'Team not found'}</p>
+            <button
+              onClick={fetchTeam}
+              className="mt-3 text-sm text-red-700 underline hover:text-red-800"
+            >
+              Try Again
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const canManageTeam = hasPermission(team.currentRole, 'team:manage');
+  const invitableRoles = ROLES.filter(role => canManageMember(team.currentRole, null, role));
+
+  return (
+    <ErrorBoundary>
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Page Header */}
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-charcoal">Team</h1>
+            <p className="text-gray-600 mt-2">
+              Invite teammates and choose what each of them can do
+            </p>
+          </div>
+
+          {actionError && (
+            <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+              {actionError}
+            </div>
+          )}
+          {notice && (
+            <div className="mb-6 bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-700 break-all">
+              {notice}
+            </div>
+          )}
+
+          <div className="space-y-8">
+            {/* Invite */}
+            {canManageTeam && (
+              <section className="bg-white rounded-lg border border-gray-200 p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Invite a teammate</h2>
+                <form onSubmit={handleInvite} className="flex flex-col md:flex-row gap-3">
+                  <input
+                    type="email"
+                    required
+                    value={inviteEmail}
+                    onChange={e => setInviteEmail(e.target.value)}
+                    placeholder="name@example.com"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-forgedorange-500 focus:border-forgedorange-500"
+                  />
+                  <select
+                    value={inviteRole}
+                    onChange={e => setInviteRole(e.target.value as Role)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-forgedorange-500 focus:border-forgedorange-500"
+                  >
+                    {invitableRoles.map(role => (
+                      <option key={role} value={role}>
+                        {ROLE_LABELS[role]}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="submit"
+                    disabled={inviting}
+                    className="inline-flex items-center justify-center px-4 py-2 bg-forgedorange-600 text-white text-sm rounded-lg hover:bg-forgedorange-700 transition-colors disabled:opacity-50"
+                  >
+                    <MailIcon className="w-4 h-4 mr-2" />
+                    {inviting ? 'Sending...' : 'Send invite'}
+                  </button>
+                </form>
+                <p className="mt-3 text-xs text-gray-500">{ROLE_DESCRIPTIONS[inviteRole]}</p>
+              </section>
+            )}
+
+            {/* Members */}
+            <section className="bg-white rounded-lg border border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900 px-6 pt-6 pb-4">
+                Members ({team.members.length})
+              </h2>
+              <ul className="divide-y divide-gray-200">
+                {team.members.map(member => {
+                  const isSelf = member.userId === team.currentUserId;
+                  const editableRoles = ROLES.filter(role =>
+                    canManageMember(team.currentRole, member.role, role)
+                  );
+                  const canEdit = !isSelf && editableRoles.length > 0;
+                  const canRemove = isSelf || canManageMember(team.currentRole, member.role);
+
+                  return (
+                    <li key={member.userId} className="flex items-center justify-between px-6 py-4">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">
+                          {displayName(member)}
+                          {isSelf && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                        </p>
+                        <p className="text-sm text-gray-500">{member.email}</p>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        {canEdit ? (
+                          <select
+                            value={member.role}
+                            onChange={e => handleRoleChange(member, e.target.value as Role)}
+                            className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                          >
+                            {editableRoles.map(role => (
+                              <option key={role} value={role}>
+                                {ROLE_LABELS[role]}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                            {ROLE_LABELS[member.role]}
+                          </span>
+                        )}
+                        {canRemove && (
+                          <button
+                            onClick={() => handleRemove(member, isSelf)}
+                            className="text-sm text-gray-400 hover:text-red-600"
+                            title={isSelf ? 'Leave team' : 'Remove member'}
+                          >
+                            {isSelf ? 'Leave' : <Trash2Icon className="w-4 h-4" />}
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+
+            {/* Pending invitations */}
+            {team.invitations.length > 0 && (
+              <section className="bg-white rounded-lg border border-gray-200">
+                <h2 className="text-lg font-semibold text-gray-900 px-6 pt-6 pb-4">
+                  Pending invitations
+                </h2>
+                <ul className="divide-y divide-gray-200">
+                  {team.invitations.map(invitation => (
+                    <li key={invitation.id} className="flex items-center justify-between px-6 py-4">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{invitation.email}</p>
+                        <p className="text-sm text-gray-500">
+                          {ROLE_LABELS[invitation.role]} ·{' '}
+                          {invitation.status === 'EXPIRED'
+                            ? 'Expired'
+                            : `Expires ${new Date(invitation.expiresAt).toLocaleDateString()}`}
+                        </p>
+                      </div>
+                      {canManageMember(team.currentRole, null, invitation.role) && (
+                        <button
+                          onClick={() => handleRevoke(invitation)}
+                          className="text-sm text-gray-500 hover:text-red-600"
+                        >
+                          Revoke
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </div>
+        </div>
+      </div>
+    </ErrorBoundary>
+  );
+}
+
+function displayName(member: TeamMember): string {
+  return [member.firstName, member.lastName].filter(Boolean).join(' ') || member.email;
+}
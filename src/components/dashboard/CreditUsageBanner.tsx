@@ -0,0 +1,89 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { AlertTriangle, X } from '@/components/ui/icons';
+import { addAuthHeaders } from '@/lib/auth-headers';
+import type { ChannelCreditUsage } from '@/services/credits';
+
+interface CreditUsageResponse {
+  periodEnd: string;
+  sms: ChannelCreditUsage;
+  email: ChannelCreditUsage;
+}
+
+const CHANNEL_LABELS = { sms: 'SMS', email: 'Email' } as const;
+
+// Shown on the dashboard once a channel passes the warning threshold of its monthly credits
+export function CreditUsageBanner() {
+  const [usage, setUsage] = useState<CreditUsageResponse | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/businesses/current/credits?ledgerLimit=0', { headers: addAuthHeaders() })
+      .then(response => response.json())
+      .then(result => {
+        if (result.success) setUsage(result.data);
+      })
+      .catch(error => console.error('Failed to load credit usage:', error));
+  }, []);
+
+  if (!usage) return null;
+
+  const channels = (['sms', 'email'] as const).filter(channel => usage[channel].status !== 'ok');
+  const exhausted = channels.some(channel => usage[channel].status === 'exhausted');
+
+  // Running out stays on screen; an approaching limit can be dismissed
+  if (channels.length === 0 || (dismissed && !exhausted)) return null;
+
+  const resetDate = new Date(usage.periodEnd).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'long',
+  });
+
+  return (
+    <div
+      className={`mx-4 mt-4 flex items-start gap-3 rounded-lg border px-4 py-3 text-sm ${
+        exhausted
+          ? 'border-red-200 bg-red-50 text-red-800'
+          : 'border-amber-200 bg-amber-50 text-amber-800'
+      }`}
+      role="alert"
+    >
+      <AlertTriangle className="mt-0.5 h-5 w-5 flex-shrink-0" />
+      <div className="flex-1">
+        <p className="font-medium">
+          {exhausted ? 'You have run out of message credits' : 'You are running low on credits'}
+        </p>
+        <ul className="mt-1 space-y-0.5">
+          {channels.map(channel => (
+            <li key={channel}>
+              {CHANNEL_LABELS[channel]}: {usage[channel].used + usage[channel].reserved} of{' '}
+              {usage[channel].limit} used ({usage[channel].percentUsed}%),{' '}
+              {usage[channel].remaining} remaining
+            </li>
+          ))}
+        </ul>
+        <p className="mt-1">
+          {exhausted
+            ? 'New requests on this channel will fail until credits reset'
+            : 'Credits reset'}{' '}
+          on {resetDate}.{' '}
+          <Link href="/settings" className="underline font-medium">
+            View usage
+          </Link>
+        </p>
+      </div>
+      {!exhausted && (
+        <button
+          type="button"
+          onClick={() => setDismissed(true)}
+          className="text-amber-700 hover:text-amber-900"
+          aria-label="Dismiss credit warning"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { AgencyRollup } from '@/services/agency';
+
+interface AgencyRollupTableProps {
+  className?: string;
+}
+
+const formatRate = (value: number) => `${value.toFixed(1)}%`;
+
+export function AgencyRollupTable({ className }: AgencyRollupTableProps) {
+  const [rollup, setRollup] = useState<AgencyRollup | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedPeriod, setSelectedPeriod] = useState<number>(30);
+  const [switchingTo, setSwitchingTo] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRollup();
+  }, [selectedPeriod]);
+
+  const fetchRollup = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/analytics/rollup?days=${selectedPeriod}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || `API error: ${response.status}`);
+      }
+
+      setRollup(data.data);
+    } catch (error) {
+      console.error('Failed to fetch agency rollup:', error);
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Open a business's own dashboard by making it the active business
+  const openBusiness = async (businessId: string) => {
+    try {
+      setSwitchingTo(businessId);
+      const response = await fetch('/api/businesses/active', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ businessId }),
+      });
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+      window.location.href = '/dashboard';
+    } catch (error) {
+      console.error('Failed to switch business:', error);
+      setSwitchingTo(null);
+    }
+  };
+
+  return (
+    <div className={className || ''}>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">All Businesses</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Sent → clicked → reviewed across every business you belong to
+          </p>
+        </div>
+        <select
+          value={selectedPeriod}
+          onChange={e => setSelectedPeriod(Number(e.target.value))}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-forgedorange-500 focus:border-forgedorange-500"
+        >
+          <option value={7}>Last 7 days</option>
+          <option value={30}>Last 30 days</option>
+          <option value={90}>Last 90 days</option>
+        </select>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-6">
+          <p className="text-sm text-red-600">{error}</p>
+          <button
+            onClick={fetchRollup}
+            className="mt-4 px-4 py-2 bg-red-600 text-white text-sm rounded-md hover:bg-red-700"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      {loading && !rollup && (
+        <div className="bg-white p-6 rounded-2xl border border-gray-200 animate-pulse">
+          <div className="h-4 bg-gray-200 rounded mb-4"></div>
+          <div className="h-4 bg-gray-200 rounded mb-4 w-3/4"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+        </div>
+      )}
+
+      {rollup && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-6">
+            {[
+              { label: 'Businesses', value: rollup.totals.businessCount.toString() },
+              { label: 'Messages Sent', value: rollup.totals.sent.toString() },
+              { label: 'Click-Through Rate', value: formatRate(rollup.totals.clickThroughRate) },
+              { label: 'Reviews Left', value: formatRate(rollup.totals.completionRate) },
+            ].map(card => (
+              <div key={card.label} className="bg-white p-6 rounded-2xl border border-gray-200">
+                <h3 className="text-sm font-medium text-gray-600 mb-2">{card.label}</h3>
+                <div className="text-2xl font-bold text-slate-900">{card.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-2xl border border-gray-200 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Business', 'Sent', 'Clicked', 'Reviews', 'CTR', 'Review Rate', 'Google'].map(
+                    heading => (
+                      <th
+                        key={heading}
+                        className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                      >
+                        {heading}
+                      </th>
+                    )
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rollup.businesses.map(business => (
+                  <tr key={business.businessId} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm font-medium">
+                      <button
+                        onClick={() => openBusiness(business.businessId)}
+                        disabled={switchingTo !== null}
+                        className="text-forgedorange-700 hover:underline disabled:opacity-50"
+                      >
+                        {business.name}
+                      </button>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{business.sent}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{business.clicked}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{business.completed}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {formatRate(business.clickThroughRate)}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {formatRate(business.completionRate)}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {business.googleRating
+                        ? `${business.googleRating.toFixed(1)} ★ (${business.googleReviewCount ?? 0})`
+                        : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ interface AnalyticsData {
     totalSent: number;
     totalClicked: number;
     clickThroughRate: number;
+    totalCompleted: number;
+    completionRate: number;
   };
   channelBreakdown: Array<{
     channel: string;
@@ -223,7 +225,7 @@ export function AnalyticsSummaryCards({ className }: AnalyticsSummaryCardsProps)
       {/* Additional Stats */}
       <div className="mt-6 bg-gray-50 rounded-xl p-6">
         <h3 className="text-lg font-semibold text-slate-900 mb-4">Performance Insights</h3>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <div>
             <h4 className="text-sm font-medium text-gray-700 mb-2">Total Messages Sent</h4>
             <div className="text-3xl font-bold text-slate-900">{summary.totalSent}</div>
@@ -238,6 +240,13 @@ export function AnalyticsSummaryCards({ className }: AnalyticsSummaryCardsProps)
               Across all channels
             </div>
           </div>
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Reviews Left</h4>
+            <div className="text-3xl font-bold text-slate-900">{summary.totalCompleted}</div>
+            <div className="text-sm text-gray-600 mt-1">
+              {summary.completionRate.toFixed(1)}% of messages sent, matched on Google
+            </div>
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,260 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { TrendInterval, TrendPoint, MetricDelta } from '@/lib/analytics';
+import type { AnalyticsTrends as AnalyticsTrendsData } from '@/services/analytics';
+
+interface AnalyticsTrendsProps {
+  className?: string;
+}
+
+interface TrendPeriod {
+  days: number;
+  interval: TrendInterval;
+  label: string;
+}
+
+const DEFAULT_PERIOD: TrendPeriod = { days: 30, interval: 'day', label: 'Last 30 days' };
+
+const PERIODS: TrendPeriod[] = [
+  DEFAULT_PERIOD,
+  { days: 90, interval: 'week', label: 'Last 90 days' },
+  { days: 365, interval: 'month', label: 'Last 12 months' },
+];
+
+const SERIES: Array<{ key: 'sent' | 'clicked' | 'completed'; label: string; color: string }> = [
+  { key: 'sent', label: 'Sent', color: '#64748b' },
+  { key: 'clicked', label: 'Clicked', color: '#ea580c' },
+  { key: 'completed', label: 'Reviewed', color: '#16a34a' },
+];
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 220;
+const CHART_PADDING = 24;
+
+const formatRate = (value: number) => `${value.toFixed(1)}%`;
+
+function formatChange(delta: MetricDelta): { text: string; className: string } {
+  if (delta.change === null) {
+    return { text: 'No previous data', className: 'text-gray-500' };
+  }
+  const sign = delta.change > 0 ? '+' : '';
+  return {
+    text: `${sign}${delta.change.toFixed(1)}% vs previous period`,
+    className: delta.change >= 0 ? 'text-green-600' : 'text-red-600',
+  };
+}
+
+function TrendChart({ series }: { series: TrendPoint[] }) {
+  const max = Math.max(1, ...series.map(point => point.sent));
+  const step = series.length > 1 ? (CHART_WIDTH - CHART_PADDING * 2) / (series.length - 1) : 0;
+  const x = (index: number) => CHART_PADDING + index * step;
+  const y = (value: number) =>
+    CHART_HEIGHT - CHART_PADDING - (value / max) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="w-full h-56"
+      role="img"
+      aria-label="Review requests sent, clicked and reviewed over time"
+    >
+      <line
+        x1={CHART_PADDING}
+        x2={CHART_WIDTH - CHART_PADDING}
+        y1={y(0)}
+        y2={y(0)}
+        stroke="#e5e7eb"
+      />
+      <text x={CHART_PADDING} y={CHART_PADDING - 8} className="fill-gray-400 text-[10px]">
+        {max}
+      </text>
+      {SERIES.map(line => (
+        <polyline
+          key={line.key}
+          fill="none"
+          stroke={line.color}
+          strokeWidth={2}
+          points={series.map((point, index) => `${x(index)},${y(point[line.key])}`).join(' ')}
+        />
+      ))}
+      {series.length > 0 && (
+        <>
+          <text x={CHART_PADDING} y={CHART_HEIGHT - 4} className="fill-gray-400 text-[10px]">
+            {series[0]?.period}
+          </text>
+          <text
+            x={CHART_WIDTH - CHART_PADDING}
+            y={CHART_HEIGHT - 4}
+            textAnchor="end"
+            className="fill-gray-400 text-[10px]"
+          >
+            {series[series.length - 1]?.period}
+          </text>
+        </>
+      )}
+    </svg>
+  );
+}
+
+export function AnalyticsTrends({ className }: AnalyticsTrendsProps) {
+  const [trends, setTrends] = useState<AnalyticsTrendsData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedPeriod, setSelectedPeriod] = useState(0);
+
+  useEffect(() => {
+    fetchTrends();
+  }, [selectedPeriod]);
+
+  const fetchTrends = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { days, interval } = PERIODS[selectedPeriod] ?? DEFAULT_PERIOD;
+      const response = await fetch(`/api/analytics/trends?days=${days}&interval=${interval}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || `API error: ${response.status}`);
+      }
+
+      setTrends(data.data);
+    } catch (error) {
+      console.error('Failed to fetch analytics trends:', error);
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className={className || ''}>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-900">Trends</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Requests grouped by the day they were created, compared with the period before
+          </p>
+        </div>
+        <select
+          value={selectedPeriod}
+          onChange={e => setSelectedPeriod(Number(e.target.value))}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-forgedorange-500 focus:border-forgedorange-500"
+        >
+          {PERIODS.map((period, index) => (
+            <option key={period.label} value={index}>
+              {period.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-6">
+          <p className="text-sm text-red-600">{error}</p>
+          <button
+            onClick={fetchTrends}
+            className="mt-4 px-4 py-2 bg-red-600 text-white text-sm rounded-md hover:bg-red-700"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      {loading && !trends && (
+        <div className="bg-white p-6 rounded-2xl border border-gray-200 animate-pulse">
+          <div className="h-4 bg-gray-200 rounded mb-4"></div>
+          <div className="h-4 bg-gray-200 rounded mb-4 w-3/4"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+        </div>
+      )}
+
+      {trends && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-6">
+            {[
+              {
+                label: 'Messages Sent',
+                delta: trends.deltas.sent,
+                value: String(trends.totals.sent),
+              },
+              {
+                label: 'Click-Through Rate',
+                delta: trends.deltas.clickThroughRate,
+                value: formatRate(trends.totals.clickThroughRate),
+              },
+              {
+                label: 'Reviews Left',
+                delta: trends.deltas.completed,
+                value: String(trends.totals.completed),
+              },
+              {
+                label: 'Review Rate',
+                delta: trends.deltas.completionRate,
+                value: formatRate(trends.totals.completionRate),
+              },
+            ].map(card => {
+              const change = formatChange(card.delta);
+              return (
+                <div key={card.label} className="bg-white p-6 rounded-2xl border border-gray-200">
+                  <h3 className="text-sm font-medium text-gray-600 mb-2">{card.label}</h3>
+                  <div className="text-2xl font-bold text-slate-900">{card.value}</div>
+                  <p className={`text-xs mt-1 ${change.className}`}>{change.text}</p>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="bg-white p-6 rounded-2xl border border-gray-200 mb-6">
+            <div className="flex gap-4 mb-4">
+              {SERIES.map(line => (
+                <span key={line.key} className="flex items-center text-sm text-gray-600">
+                  <span
+                    className="inline-block w-3 h-3 rounded-full mr-2"
+                    style={{ backgroundColor: line.color }}
+                  />
+                  {line.label}
+                </span>
+              ))}
+            </div>
+            <TrendChart series={trends.series} />
+          </div>
+
+          <div className="bg-white p-6 rounded-2xl border border-gray-200">
+            <h3 className="text-sm font-medium text-gray-600 mb-4">Time to Click</h3>
+            {trends.timeToClick.medianBucket ? (
+              <>
+                <div className="space-y-2">
+                  {trends.timeToClick.buckets.map(bucket => (
+                    <div key={bucket.label} className="flex items-center text-sm">
+                      <span className="w-32 text-gray-600">{bucket.label}</span>
+                      <div className="flex-1 h-3 bg-gray-100 rounded">
+                        <div
+                          className="h-3 bg-forgedorange-500 rounded"
+                          style={{ width: `${bucket.share}%` }}
+                        />
+                      </div>
+                      <span className="w-20 text-right text-gray-900">{bucket.count}</span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-4">
+                  Half of clicks came within: {trends.timeToClick.medianBucket}
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">No clicks in this period</p>
+            )}
+          </div>
+
+          {trends.rolledUpAt && (
+            <p className="text-xs text-gray-400 mt-4">
+              Updated {new Date(trends.rolledUpAt).toLocaleString()}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
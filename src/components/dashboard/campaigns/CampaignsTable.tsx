@@ -0,0 +1,341 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Mail, MessageSquare, RefreshCw, Send, Trash2, XCircle } from '@/components/ui/icons';
+import type {
+  CampaignAction,
+  CampaignExperimentResults,
+  CampaignFunnelStats,
+} from '@/services/campaigns';
+import { ExperimentResults } from './ExperimentResults';
+
+type CampaignStatus = 'DRAFT' | 'SCHEDULED' | 'RUNNING' | 'PAUSED' | 'COMPLETED' | 'CANCELLED';
+
+interface CampaignRow {
+  id: string;
+  name: string;
+  description: string | null;
+  channel: 'SMS' | 'EMAIL';
+  status: CampaignStatus;
+  scheduledFor: string | null;
+  launchedAt: string | null;
+  completedAt: string | null;
+  totalCustomers: number;
+  createdAt: string;
+  template: { id: string; name: string } | null;
+  stats: CampaignFunnelStats;
+  experiment: CampaignExperimentResults | null;
+}
+
+interface PaginationInfo {
+  page: number;
+  limit: number;
+  totalCount: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
+const STATUS_STYLES: Record<CampaignStatus, string> = {
+  DRAFT: 'bg-gray-100 text-gray-700',
+  SCHEDULED: 'bg-blue-100 text-blue-700',
+  RUNNING: 'bg-green-100 text-green-700',
+  PAUSED: 'bg-yellow-100 text-yellow-800',
+  COMPLETED: 'bg-forgedorange-50 text-forgedorange-700',
+  CANCELLED: 'bg-red-100 text-red-700',
+};
+
+// Actions offered for each status, mirroring the transitions the API allows
+const STATUS_ACTIONS: Record<CampaignStatus, CampaignAction[]> = {
+  DRAFT: ['launch', 'cancel'],
+  SCHEDULED: ['pause', 'cancel'],
+  RUNNING: ['pause', 'cancel'],
+  PAUSED: ['resume', 'cancel'],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+const ACTION_LABELS: Record<CampaignAction, string> = {
+  launch: 'Launch',
+  pause: 'Pause',
+  resume: 'Resume',
+  cancel: 'Cancel',
+};
+
+const formatDateTime = (value: string | null): string =>
+  value
+    ? new Date(value).toLocaleString('en-GB', {
+        day: 'numeric',
+        month: 'short',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      })
+    : '—';
+
+function FunnelStats({ stats }: { stats: CampaignFunnelStats }) {
+  const stages = [
+    { label: 'Queued', value: stats.queued },
+    { label: 'Sent', value: stats.sent },
+    { label: 'Delivered', value: stats.delivered },
+    { label: 'Clicked', value: stats.clicked },
+    { label: 'Completed', value: stats.completed },
+    { label: 'Failed', value: stats.failed },
+  ];
+
+  return (
+    <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 text-center">
+      {stages.map(stage => (
+        <div key={stage.label} className="bg-gray-50 rounded-md px-2 py-1.5 border border-gray-100">
+          <div className="text-base font-semibold text-charcoal">{stage.value}</div>
+          <div className="text-xs text-gray-500">{stage.label}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function CampaignsTable() {
+  const [campaigns, setCampaigns] = useState<CampaignRow[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [statusFilter, setStatusFilter] = useState<'all' | CampaignStatus>('all');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const fetchCampaigns = useCallback(
+    async (page = 1) => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const params = new URLSearchParams({ page: page.toString(), limit: '20' });
+        if (statusFilter !== 'all') {
+          params.set('status', statusFilter);
+        }
+
+        const response = await fetch(`/api/campaigns?${params}`);
+        const data = await response.json();
+
+        if (!data.success) {
+          throw new Error(data.error?.message || 'Failed to fetch campaigns');
+        }
+
+        setCampaigns(data.data);
+        setPagination(data.meta?.pagination ?? null);
+      } catch (err) {
+        console.error('Error fetching campaigns:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load campaigns');
+        setCampaigns([]);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [statusFilter]
+  );
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, [fetchCampaigns]);
+
+  const handleAction = async (campaign: CampaignRow, action: CampaignAction) => {
+    if (
+      action === 'cancel' &&
+      !confirm(`Cancel "${campaign.name}"? Messages that haven't been sent yet will be dropped.`)
+    ) {
+      return;
+    }
+
+    try {
+      setPendingId(campaign.id);
+      const response = await fetch(`/api/campaigns/${campaign.id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error?.message || `Failed to ${action} campaign`);
+      }
+
+      await fetchCampaigns(pagination?.page ?? 1);
+    } catch (err) {
+      console.error(`Error trying to ${action} campaign:`, err);
+      alert(err instanceof Error ? err.message : `Failed to ${action} campaign`);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleDelete = async (campaign: CampaignRow) => {
+    if (!confirm(`Delete "${campaign.name}"?`)) {
+      return;
+    }
+
+    try {
+      setPendingId(campaign.id);
+      const response = await fetch(`/api/campaigns/${campaign.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to delete campaign');
+      }
+
+      await fetchCampaigns(pagination?.page ?? 1);
+    } catch (err) {
+      console.error('Error deleting campaign:', err);
+      alert(err instanceof Error ? err.message : 'Failed to delete campaign');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-charcoal">Campaigns</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Track how each campaign moves customers from sent to reviewed.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={statusFilter}
+            onChange={e => setStatusFilter(e.target.value as 'all' | CampaignStatus)}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            <option value="all">All statuses</option>
+            {(Object.keys(STATUS_STYLES) as CampaignStatus[]).map(status => (
+              <option key={status} value={status}>
+                {status.charAt(0) + status.slice(1).toLowerCase()}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => fetchCampaigns(pagination?.page ?? 1)}
+            className="p-2 text-gray-600 hover:text-charcoal hover:bg-gray-50 rounded-md"
+            title="Refresh"
+          >
+            <RefreshCw className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 text-gray-500">Loading campaigns...</div>
+      ) : campaigns.length === 0 ? (
+        <div className="text-center py-12 bg-white border border-gray-200 rounded-lg">
+          <Send className="h-8 w-8 text-gray-400 mx-auto mb-3" />
+          <p className="text-charcoal font-medium">No campaigns yet</p>
+          <p className="text-sm text-gray-600 mt-1">
+            Campaigns appear here when you send review requests to a group of customers.
+          </p>
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {campaigns.map(campaign => (
+            <li key={campaign.id} className="bg-white border border-gray-200 rounded-lg p-5">
+              <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    {campaign.channel === 'EMAIL' ? (
+                      <Mail className="h-4 w-4 text-gray-500" />
+                    ) : (
+                      <MessageSquare className="h-4 w-4 text-gray-500" />
+                    )}
+                    <h2 className="font-semibold text-charcoal truncate">{campaign.name}</h2>
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[campaign.status]}`}
+                    >
+                      {campaign.status.charAt(0) + campaign.status.slice(1).toLowerCase()}
+                    </span>
+                  </div>
+                  {campaign.description && (
+                    <p className="text-sm text-gray-600 mt-1">{campaign.description}</p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-2">
+                    {campaign.totalCustomers} customers
+                    {campaign.template && ` · ${campaign.template.name}`}
+                    {campaign.scheduledFor && ` · Starts ${formatDateTime(campaign.scheduledFor)}`}
+                    {campaign.completedAt && ` · Completed ${formatDateTime(campaign.completedAt)}`}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-2 shrink-0">
+                  {STATUS_ACTIONS[campaign.status].map(action => (
+                    <button
+                      key={action}
+                      onClick={() => handleAction(campaign, action)}
+                      disabled={pendingId === campaign.id}
+                      className={
+                        action === 'cancel'
+                          ? 'inline-flex items-center gap-1 px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 rounded-md disabled:opacity-50'
+                          : 'px-3 py-1.5 text-sm font-medium text-white bg-forgedorange-600 hover:bg-forgedorange-700 rounded-md disabled:opacity-50'
+                      }
+                    >
+                      {action === 'cancel' && <XCircle className="h-4 w-4" />}
+                      {ACTION_LABELS[action]}
+                    </button>
+                  ))}
+                  {['DRAFT', 'COMPLETED', 'CANCELLED'].includes(campaign.status) && (
+                    <button
+                      onClick={() => handleDelete(campaign)}
+                      disabled={pendingId === campaign.id}
+                      className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-md disabled:opacity-50"
+                      title="Delete campaign"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {campaign.status !== 'DRAFT' && (
+                <div className="mt-4 space-y-2">
+                  <FunnelStats stats={campaign.stats} />
+                  <p className="text-xs text-gray-500">
+                    {campaign.stats.clickRate}% clicked · {campaign.stats.completionRate}% completed
+                    {campaign.stats.optedOut > 0 && ` · ${campaign.stats.optedOut} opted out`}
+                  </p>
+                  {campaign.experiment && <ExperimentResults experiment={campaign.experiment} />}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between text-sm text-gray-600">
+          <span>
+            Page {pagination.page} of {pagination.totalPages}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => fetchCampaigns(pagination.page - 1)}
+              disabled={!pagination.hasPrevPage}
+              className="px-3 py-1.5 border border-gray-300 rounded-md disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => fetchCampaigns(pagination.page + 1)}
+              disabled={!pagination.hasNextPage}
+              className="px-3 py-1.5 border border-gray-300 rounded-md disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
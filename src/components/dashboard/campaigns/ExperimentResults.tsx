@@ -0,0 +1,95 @@
+'use client';
+
+import React from 'react';
+import type { CampaignExperimentResults } from '@/services/campaigns';
+
+interface ExperimentResultsProps {
+  experiment: CampaignExperimentResults;
+  /** Highlight this template's variants (template view) */
+  templateId?: string;
+}
+
+const formatPValue = (pValue: number) => (pValue < 0.001 ? '< 0.001' : pValue.toFixed(3));
+
+function decisionSummary(experiment: CampaignExperimentResults): string {
+  const { decision, settings, variants } = experiment;
+  const label = (id: string | null) => variants.find(variant => variant.id === id)?.label;
+  const winner = variants.find(variant => variant.isWinner);
+
+  if (winner) {
+    return `Variant ${winner.label} won`;
+  }
+  if (experiment.decidedAt) {
+    return 'No clear winner, remaining sends were split evenly';
+  }
+  if (decision.status === 'collecting') {
+    return `Collecting data - each variant needs ${settings.minSamplePerVariant} sent`;
+  }
+  if (decision.status === 'significant') {
+    return `Variant ${label(decision.winnerId)} is ahead at ${settings.confidence * 100}% confidence`;
+  }
+  return `Variant ${label(decision.leaderId) ?? '-'} leads, not yet significant`;
+}
+
+export function ExperimentResults({ experiment, templateId }: ExperimentResultsProps) {
+  const metricLabel = experiment.settings.metric === 'CLICK' ? 'Click rate' : 'Review rate';
+
+  return (
+    <div className="border border-gray-200 rounded-md overflow-hidden">
+      <div className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 bg-gray-50 text-xs text-gray-600">
+        <span className="font-medium text-charcoal">A/B test · {decisionSummary(experiment)}</span>
+        <span>
+          {experiment.decision.pValue !== null && `p = ${formatPValue(experiment.decision.pValue)}`}
+          {experiment.heldBack > 0 && ` · ${experiment.heldBack} waiting for the winner`}
+        </span>
+      </div>
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-500">
+            <th className="px-3 py-1.5 text-left font-medium">Variant</th>
+            <th className="px-3 py-1.5 text-right font-medium">Sent</th>
+            <th className="px-3 py-1.5 text-right font-medium">Clicked</th>
+            <th className="px-3 py-1.5 text-right font-medium">Reviewed</th>
+            <th className="px-3 py-1.5 text-right font-medium">{metricLabel}</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {experiment.variants.map(variant => (
+            <tr
+              key={variant.id}
+              className={
+                variant.isWinner
+                  ? 'bg-green-50'
+                  : templateId && variant.template?.id === templateId
+                    ? 'bg-forgedorange-50'
+                    : ''
+              }
+            >
+              <td className="px-3 py-1.5">
+                <span className="font-medium text-charcoal">{variant.label}</span>
+                <span className="text-gray-500">
+                  {variant.template && ` · ${variant.template.name}`}
+                  {variant.subject && ` · "${variant.subject}"`}
+                </span>
+                {variant.isWinner && (
+                  <span className="ml-2 px-1.5 py-0.5 text-xs rounded-full bg-green-100 text-green-700">
+                    Winner
+                  </span>
+                )}
+              </td>
+              <td className="px-3 py-1.5 text-right">{variant.stats.sent}</td>
+              <td className="px-3 py-1.5 text-right">{variant.stats.clicked}</td>
+              <td className="px-3 py-1.5 text-right">{variant.stats.completed}</td>
+              <td className="px-3 py-1.5 text-right font-medium">
+                {experiment.settings.metric === 'CLICK'
+                  ? variant.stats.clickRate
+                  : variant.stats.completionRate}
+                %
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
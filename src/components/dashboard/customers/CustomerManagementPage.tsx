@@ -9,6 +9,7 @@ import { useCustomers } from './hooks/useCustomers';
 import { CustomerEditModal } from './components/CustomerEditModal';
 import { CreateReviewRequestModal } from './components/CreateReviewRequestModal';
 import { CustomerCreationConfirmationModal } from './components/CustomerCreationConfirmationModal';
+import { CustomerImportModal } from './components/CustomerImportModal';
 import { type ReviewRequestCreationResult } from './services/reviewRequestService';
 import { MESSAGE_TEMPLATES } from './data/messageTemplates';
 
@@ -24,6 +25,7 @@ export function CustomerManagementPage(): React.ReactElement {
     });
 
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [showConfirmationModal, setShowConfirmationModal] = useState(false);
   const [showReviewRequestModal, setShowReviewRequestModal] = useState(false);
   const [selectedCustomerForReview, setSelectedCustomerForReview] = useState<Customer | null>(null);
@@ -177,6 +179,24 @@ export function CustomerManagementPage(): React.ReactElement {
                 </h3>
               </div>
             </button>
+            <button
+              onClick={() => setShowImportModal(true)}
+              className="bg-white p-10 rounded-2xl border border-gray-200 flex-1 min-w-[250px] hover:border-forgedorange-300 hover:bg-forgedorange-50 transition-colors group text-left"
+            >
+              <div className="flex items-center justify-start space-x-5 min-h-[40px]">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="w-8 h-8 text-forgedorange-500 group-hover:text-forgedorange-600"
+                  viewBox="0 -960 960 960"
+                  fill="currentColor"
+                >
+                  <path d="M440-320v-326L336-542l-56-58 200-200 200 200-56 58-104-104v326h-80ZM240-160q-33 0-56.5-23.5T160-240v-120h80v120h480v-120h80v120q0 33-23.5 56.5T720-160H240Z" />
+                </svg>
+                <h3 className="text-lg font-semibold flex-1 leading-[120%] group-hover:text-forgedorange-700">
+                  Import customers
+                </h3>
+              </div>
+            </button>
             <div className="bg-white p-10 rounded-2xl border border-gray-200 flex-1 min-w-[250px]">
               <div className="flex items-center justify-start space-x-5 min-h-[40px]">
                 <svg
@@ -290,6 +310,13 @@ export function CustomerManagementPage(): React.ReactElement {
         onCreate={handleCustomerCreated}
       />
 
+      {/* Customer Import Modal */}
+      <CustomerImportModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onImported={refetch}
+      />
+
       {/* Customer Creation Confirmation Modal */}
       {createdCustomer && (
         <CustomerCreationConfirmationModal
@@ -26,9 +26,11 @@ import {
 } from '../services/reviewRequestService';
 import { logger } from '@/lib/logger';
 import {
+  calculateMessageMetrics,
   personalizationVariables,
   replaceVariablesWithData,
 } from '../data/personalizationVariables';
+import { toGsmSafe } from '@/lib/sms-segments';
 
 export interface CreateReviewRequestModalProps {
   isOpen: boolean;
@@ -134,6 +136,21 @@ export function CreateReviewRequestModal({
     ].filter(group => group.templates.length > 0);
   }, [filteredTemplates]);
 
+  // SMS cost is measured on the personalized text, since variables change its length
+  const smsMetrics = useMemo(() => {
+    if (selectedTemplate?.channel !== 'SMS') return null;
+
+    const personalized = replaceVariablesWithData(
+      customMessage,
+      selectedCustomers[currentCustomerIndex] || {},
+      { name: 'Your Business Name' }
+    );
+    const metrics = calculateMessageMetrics(personalized, 'sms');
+    const gsmSafe = metrics.encoding === 'UCS-2' ? toGsmSafe(customMessage) : null;
+
+    return { ...metrics, gsmSafe: gsmSafe?.replacements ? gsmSafe : null };
+  }, [selectedTemplate, customMessage, selectedCustomers, currentCustomerIndex]);
+
   const handleClose = useCallback(() => {
     setStep('template');
     setSelectedTemplate(null);
@@ -178,7 +195,8 @@ export function CreateReviewRequestModal({
         selectedTemplate,
         customMessage || selectedTemplate.content,
         selectedTemplate.subject || '',
-        schedulingConfig.type === 'scheduled' ? schedulingConfig.scheduledDateTime : undefined
+        schedulingConfig.type === 'scheduled' ? schedulingConfig.scheduledDateTime : undefined,
+        schedulingConfig.type === 'optimal' ? 'OPTIMAL' : undefined
       );
 
       const requestResult = {
@@ -679,6 +697,39 @@ export function CreateReviewRequestModal({
                       placeholder="Enter your message..."
                     />
 
+                    {smsMetrics && (
+                      <div
+                        className={`rounded-lg p-3 text-xs ${
+                          smsMetrics.encoding === 'UCS-2'
+                            ? 'bg-amber-50 border border-amber-200 text-amber-700'
+                            : 'text-gray-600'
+                        }`}
+                      >
+                        <p>
+                          {smsMetrics.characterCount} characters · {smsMetrics.segmentCount} SMS{' '}
+                          {smsMetrics.segmentCount === 1 ? 'segment' : 'segments'} ·{' '}
+                          {smsMetrics.encoding === 'UCS-2' ? 'Unicode' : 'Standard'} encoding
+                        </p>
+                        {smsMetrics.encoding === 'UCS-2' && (
+                          <div className="mt-1 flex items-center justify-between gap-3">
+                            <span>
+                              {smsMetrics.unicodeCharacters?.join(' ')} limit each segment to 70
+                              characters instead of 160.
+                            </span>
+                            {smsMetrics.gsmSafe && (
+                              <button
+                                type="button"
+                                onClick={() => setCustomMessage(smsMetrics.gsmSafe!.text)}
+                                className="shrink-0 px-2 py-1 bg-white border border-amber-300 rounded hover:bg-amber-100"
+                              >
+                                Make GSM-safe
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     {/* Message Variables Section */}
                     <h4 className="text-sm font-medium text-gray-900">Message Variables</h4>
                     <p className="text-xs text-gray-600 mb-3">
@@ -833,7 +884,11 @@ export function CreateReviewRequestModal({
 
               {/* Scheduling Options */}
               <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
-                <SchedulingOptions config={schedulingConfig} onChange={setSchedulingConfig} />
+                <SchedulingOptions
+                  config={schedulingConfig}
+                  onChange={setSchedulingConfig}
+                  customerIds={selectedCustomers.map(c => c.id)}
+                />
               </div>
 
               {/* Request Results */}
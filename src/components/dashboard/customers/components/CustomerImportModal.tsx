@@ -0,0 +1,318 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Modal } from './Modal';
+import { addAuthHeaders } from '../../../../lib/auth-headers';
+import type {
+  ColumnMapping,
+  CustomerImportField,
+  CustomerImportReport,
+  ImportRowAction,
+} from '../../../../services/customer-import';
+
+interface CustomerImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type ImportStep = 'upload' | 'mapping' | 'preview' | 'done';
+
+const FIELD_LABELS: Record<CustomerImportField, string> = {
+  firstName: 'First name',
+  lastName: 'Last name',
+  email: 'Email',
+  phone: 'Phone',
+  address: 'Address',
+  notes: 'Notes',
+  tags: 'Tags',
+};
+
+const REQUIRED_FIELDS: CustomerImportField[] = ['firstName'];
+
+const ACTION_STYLES: Record<ImportRowAction, string> = {
+  create: 'bg-green-100 text-green-700',
+  update: 'bg-blue-100 text-blue-700',
+  skip: 'bg-gray-100 text-gray-600',
+  reject: 'bg-red-100 text-red-700',
+};
+
+export function CustomerImportModal({ isOpen, onClose, onImported }: CustomerImportModalProps) {
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [file, setFile] = useState<File | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [updateExisting, setUpdateExisting] = useState(true);
+  const [report, setReport] = useState<CustomerImportReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setStep('upload');
+    setFile(null);
+    setHeaders([]);
+    setMapping({});
+    setReport(null);
+    setError(null);
+    onClose();
+  };
+
+  const submitImport = async (
+    selectedFile: File,
+    options: { dryRun: boolean; mapping?: ColumnMapping }
+  ): Promise<CustomerImportReport | null> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', selectedFile);
+      formData.append('dryRun', String(options.dryRun));
+      formData.append('updateExisting', String(updateExisting));
+      if (options.mapping) {
+        formData.append('mapping', JSON.stringify(options.mapping));
+      }
+
+      const response = await fetch('/api/customers/import', {
+        method: 'POST',
+        headers: addAuthHeaders(),
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        setError(data.error?.message || 'Import failed');
+        return null;
+      }
+
+      return data.data as CustomerImportReport;
+    } catch (err) {
+      console.error('Error importing customers:', err);
+      setError('Import failed. Please try again.');
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Upload: run a preview with suggested mapping to read the headers
+  const handleFileSelected = async (selectedFile: File) => {
+    setFile(selectedFile);
+    const preview = await submitImport(selectedFile, { dryRun: true });
+    if (preview) {
+      setHeaders(preview.headers);
+      setMapping(preview.mapping);
+      setStep('mapping');
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!file) return;
+    const preview = await submitImport(file, { dryRun: true, mapping });
+    if (preview) {
+      setReport(preview);
+      setStep('preview');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    const result = await submitImport(file, { dryRun: false, mapping });
+    if (result) {
+      setReport(result);
+      setStep('done');
+      onImported();
+    }
+  };
+
+  const canPreview = !!mapping.firstName && (!!mapping.email || !!mapping.phone);
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Import Customers" size="xl">
+      <div className="space-y-6">
+        {/* Steps */}
+        <ol className="flex items-center gap-2 text-sm">
+          {(['upload', 'mapping', 'preview', 'done'] as ImportStep[]).map((item, index) => (
+            <li
+              key={item}
+              className={`px-3 py-1 rounded-full ${
+                item === step ? 'bg-forgedorange-600 text-white' : 'bg-gray-100 text-gray-600'
+              }`}
+            >
+              {index + 1}.{' '}
+              {item === 'done' ? 'Import' : item.charAt(0).toUpperCase() + item.slice(1)}
+            </li>
+          ))}
+        </ol>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+            {error}
+          </div>
+        )}
+
+        {step === 'upload' && (
+          <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
+            <p className="text-charcoal font-medium mb-2">Upload a CSV or Excel (.xlsx) file</p>
+            <p className="text-sm text-gray-600 mb-4">
+              The first row should contain column headers such as First name, Email and Phone.
+            </p>
+            <input
+              type="file"
+              accept=".csv,.xlsx"
+              disabled={isLoading}
+              onChange={e => {
+                const selected = e.target.files?.[0];
+                if (selected) void handleFileSelected(selected);
+              }}
+              className="text-sm"
+            />
+            {isLoading && <p className="text-sm text-gray-500 mt-4">Reading file...</p>}
+          </div>
+        )}
+
+        {step === 'mapping' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Match the columns in <span className="font-medium">{file?.name}</span> to customer
+              fields. A first name and an email or phone number are required.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {(Object.keys(FIELD_LABELS) as CustomerImportField[]).map(field => (
+                <label key={field} className="block text-sm">
+                  <span className="text-gray-700 font-medium">
+                    {FIELD_LABELS[field]}
+                    {REQUIRED_FIELDS.includes(field) && ' *'}
+                  </span>
+                  <select
+                    value={mapping[field] || ''}
+                    onChange={e =>
+                      setMapping(current => ({ ...current, [field]: e.target.value || undefined }))
+                    }
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+                  >
+                    <option value="">Don&apos;t import</option>
+                    {headers.filter(Boolean).map(header => (
+                      <option key={header} value={header}>
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={updateExisting}
+                onChange={e => setUpdateExisting(e.target.checked)}
+              />
+              Update customers that already exist (matched by email or phone)
+            </label>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setStep('upload')}
+                className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+              >
+                Back
+              </button>
+              <button
+                onClick={handlePreview}
+                disabled={!canPreview || isLoading}
+                className="px-4 py-2 bg-forgedorange-600 text-white rounded-lg hover:bg-forgedorange-700 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Checking...' : 'Preview import'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {(step === 'preview' || step === 'done') && report && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 text-center">
+              {[
+                { label: step === 'done' ? 'Created' : 'To create', value: report.summary.created },
+                { label: step === 'done' ? 'Updated' : 'To update', value: report.summary.updated },
+                { label: 'Skipped', value: report.summary.skipped },
+                { label: 'Rejected', value: report.summary.rejected },
+                { label: 'Suppressed', value: report.summary.suppressed },
+              ].map(stat => (
+                <div key={stat.label} className="bg-gray-50 rounded-lg p-3 border border-gray-200">
+                  <div className="text-2xl font-semibold text-charcoal">{stat.value}</div>
+                  <div className="text-xs text-gray-600">{stat.label}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-600">
+                  <tr>
+                    <th className="px-3 py-2">Row</th>
+                    <th className="px-3 py-2">Customer</th>
+                    <th className="px-3 py-2">Action</th>
+                    <th className="px-3 py-2">Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.rows.map(row => (
+                    <tr key={row.rowNumber} className="border-t border-gray-100">
+                      <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-charcoal">
+                          {[row.customer.firstName, row.customer.lastName]
+                            .filter(Boolean)
+                            .join(' ')}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {[row.customer.email, row.customer.phone].filter(Boolean).join(' · ')}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2">
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs capitalize ${ACTION_STYLES[row.action]}`}
+                        >
+                          {row.action}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-xs text-gray-600">{row.reasons.join('. ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {step === 'preview' ? (
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={() => setStep('mapping')}
+                  className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={handleImport}
+                  disabled={isLoading || report.summary.created + report.summary.updated === 0}
+                  className="px-4 py-2 bg-forgedorange-600 text-white rounded-lg hover:bg-forgedorange-700 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isLoading
+                    ? 'Importing...'
+                    : `Import ${report.summary.created + report.summary.updated} customers`}
+                </button>
+              </div>
+            ) : (
+              <div className="flex justify-end">
+                <button
+                  onClick={handleClose}
+                  className="px-4 py-2 bg-forgedorange-600 text-white rounded-lg hover:bg-forgedorange-700 text-sm font-medium"
+                >
+                  Done
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -1,10 +1,19 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { Clock, Calendar, AlertCircle, CheckCircle, Globe } from '@/components/ui/icons';
+import {
+  Clock,
+  Calendar,
+  AlertCircle,
+  CheckCircle,
+  Globe,
+  TrendingUp,
+} from '@/components/ui/icons';
+import { addAuthHeaders } from '@/lib/auth-headers';
+import type { OptimalSendTime, SendTimeModel } from '@/services/send-time';
 
 export interface SchedulingConfig {
-  type: 'immediate' | 'scheduled';
+  type: 'immediate' | 'scheduled' | 'optimal';
   scheduledDateTime?: Date;
   timezone: string;
 }
@@ -12,16 +21,26 @@ export interface SchedulingConfig {
 interface SchedulingOptionsProps {
   config: SchedulingConfig;
   onChange: (config: SchedulingConfig) => void;
+  customerIds?: string[]; // Recipients to preview OPTIMAL send times for
   disabled?: boolean;
   className?: string;
 }
 
+interface OptimalPreview {
+  model: SendTimeModel;
+  sendTimes: Array<Omit<OptimalSendTime, 'sendAt'> & { sendAt: string }>;
+}
+
 export function SchedulingOptions({
   config,
   onChange,
+  customerIds = [],
   disabled = false,
   className = '',
 }: SchedulingOptionsProps) {
+  const [optimalPreview, setOptimalPreview] = useState<OptimalPreview | null>(null);
+  const [optimalError, setOptimalError] = useState<string | null>(null);
+  const [isLoadingOptimal, setIsLoadingOptimal] = useState(false);
   const [dateInput, setDateInput] = useState('');
   const [timeInput, setTimeInput] = useState('');
   const [validationMessage, setValidationMessage] = useState<string | null>(null);
@@ -184,11 +203,44 @@ export function SchedulingOptions({
     }
   }, [config.type, isInitialized]); // Only depend on type and initialization
 
-  const handleTypeChange = (type: 'immediate' | 'scheduled') => {
-    if (type === 'immediate') {
+  // Load the chosen OPTIMAL send times and their rationale for the selected recipients
+  const customerIdsKey = customerIds.join(',');
+  useEffect(() => {
+    if (config.type !== 'optimal') return;
+
+    let cancelled = false;
+    setIsLoadingOptimal(true);
+    setOptimalError(null);
+
+    fetch(`/api/analytics/send-times?customerIds=${encodeURIComponent(customerIdsKey)}`, {
+      headers: addAuthHeaders(),
+    })
+      .then(response => response.json())
+      .then(data => {
+        if (cancelled) return;
+        if (data.success) {
+          setOptimalPreview(data.data);
+        } else {
+          setOptimalError(data.error?.message || 'Could not calculate optimal send times');
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setOptimalError('Could not calculate optimal send times');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingOptimal(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [config.type, customerIdsKey]);
+
+  const handleTypeChange = (type: SchedulingConfig['type']) => {
+    if (type === 'immediate' || type === 'optimal') {
       onChange({
         ...config,
-        type: 'immediate',
+        type,
         scheduledDateTime: undefined,
       });
     } else {
@@ -250,7 +302,7 @@ export function SchedulingOptions({
           Send Timing
         </label>
 
-        <div className="grid grid-cols-2 gap-3">
+        <div className="grid grid-cols-3 gap-3">
           {/* Send Now Option */}
           <button
             type="button"
@@ -303,6 +355,33 @@ export function SchedulingOptions({
             </div>
             <p className="text-xs text-gray-500 mt-1">Schedule for specific date and time</p>
           </button>
+
+          {/* Optimal Option */}
+          <button
+            type="button"
+            onClick={() => handleTypeChange('optimal')}
+            disabled={disabled}
+            className={`
+              relative p-3 border-2 rounded-lg transition-all duration-200 text-left
+              ${
+                config.type === 'optimal'
+                  ? 'border-blue-500 bg-blue-50 ring-1 ring-blue-500'
+                  : 'border-gray-200 bg-white hover:border-gray-300 hover:bg-gray-50'
+              }
+              ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+            `}
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <div
+                  className={`w-2 h-2 rounded-full ${config.type === 'optimal' ? 'bg-blue-500' : 'bg-gray-300'}`}
+                />
+                <span className="font-medium text-gray-900">Optimal Time</span>
+              </div>
+              <TrendingUp className="w-4 h-4 text-gray-400" />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Send when customers usually click</p>
+          </button>
         </div>
       </div>
 
@@ -361,6 +440,62 @@ export function SchedulingOptions({
           )}
         </div>
       )}
+
+      {/* Optimal Send Time Preview */}
+      {config.type === 'optimal' && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+          <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+            <TrendingUp className="w-4 h-4" />
+            Optimal Send Time
+          </div>
+
+          {isLoadingOptimal && <p className="text-sm text-gray-500">Analysing click history...</p>}
+
+          {optimalError && (
+            <div className="flex items-start gap-2 text-sm p-3 border rounded-md text-red-600 bg-red-50 border-red-200">
+              <AlertCircle className="w-4 h-4 text-red-500" />
+              <span className="flex-1">{optimalError}</span>
+            </div>
+          )}
+
+          {!isLoadingOptimal && optimalPreview && (
+            <>
+              <p className="text-xs text-gray-500">
+                {optimalPreview.model.source === 'history'
+                  ? `Based on ${optimalPreview.model.sampleSize} sent requests and ${optimalPreview.model.clicks} clicks in the last 6 months`
+                  : `Using recommended times for ${optimalPreview.model.businessType.replace('-', ' ')} businesses until there is enough click history`}
+              </p>
+
+              <ul className="space-y-2 max-h-48 overflow-y-auto">
+                {optimalPreview.sendTimes.slice(0, 5).map(time => (
+                  <li
+                    key={time.customerId}
+                    className="bg-white border border-gray-200 rounded-md px-3 py-2 text-sm"
+                  >
+                    <div className="font-medium text-gray-900">
+                      {new Date(time.sendAt).toLocaleString('en-GB', {
+                        weekday: 'short',
+                        day: 'numeric',
+                        month: 'short',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                        timeZone: config.timezone,
+                      })}
+                    </div>
+                    <div className="text-xs text-gray-600">{time.rationale}</div>
+                  </li>
+                ))}
+              </ul>
+
+              {optimalPreview.sendTimes.length > 5 && (
+                <p className="text-xs text-gray-500">
+                  +{optimalPreview.sendTimes.length - 5} more recipients scheduled individually
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -303,55 +303,105 @@ export const FOLLOW_UP_TEMPLATES = {
   },
 };
 
-// Business type optimal timing recommendations
+// Business type optimal timing recommendations, used until a business has its own click history
 export const OPTIMAL_TIMING_BY_BUSINESS: Record<BusinessType, OptimalTimingConfig> = {
   restaurant: {
     businessType: 'restaurant',
+    customerBehaviorData: {
+      bestDayOfWeek: ['tuesday', 'wednesday', 'thursday'],
+      bestTimeOfDay: ['14:00'],
+      responseRateByHour: {},
+    },
     seasonalAdjustments: true,
     avoidHolidays: true,
   },
   retail: {
     businessType: 'retail',
+    customerBehaviorData: {
+      bestDayOfWeek: ['saturday', 'sunday'],
+      bestTimeOfDay: ['10:00'],
+      responseRateByHour: {},
+    },
     seasonalAdjustments: true,
     avoidHolidays: true,
   },
   healthcare: {
     businessType: 'healthcare',
+    customerBehaviorData: {
+      bestDayOfWeek: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+      bestTimeOfDay: ['10:00'],
+      responseRateByHour: {},
+    },
     seasonalAdjustments: false,
     avoidHolidays: false,
   },
   beauty: {
     businessType: 'beauty',
+    customerBehaviorData: {
+      bestDayOfWeek: ['tuesday', 'wednesday', 'thursday', 'friday'],
+      bestTimeOfDay: ['12:00'],
+      responseRateByHour: {},
+    },
     seasonalAdjustments: false,
     avoidHolidays: true,
   },
   automotive: {
     businessType: 'automotive',
+    customerBehaviorData: {
+      bestDayOfWeek: ['tuesday', 'wednesday', 'thursday'],
+      bestTimeOfDay: ['11:00'],
+      responseRateByHour: {},
+    },
     seasonalAdjustments: false,
     avoidHolidays: true,
   },
   'professional-services': {
     businessType: 'professional-services',
+    customerBehaviorData: {
+      bestDayOfWeek: ['tuesday', 'wednesday', 'thursday'],
+      bestTimeOfDay: ['11:00'],
+      responseRateByHour: {},
+    },
     seasonalAdjustments: false,
     avoidHolidays: true,
   },
   'home-services': {
     businessType: 'home-services',
+    customerBehaviorData: {
+      bestDayOfWeek: ['tuesday', 'wednesday', 'thursday'],
+      bestTimeOfDay: ['11:00'],
+      responseRateByHour: {},
+    },
     seasonalAdjustments: true,
     avoidHolidays: true,
   },
   fitness: {
     businessType: 'fitness',
+    customerBehaviorData: {
+      bestDayOfWeek: ['tuesday', 'wednesday', 'thursday'],
+      bestTimeOfDay: ['11:00'],
+      responseRateByHour: {},
+    },
     seasonalAdjustments: true,
     avoidHolidays: false,
   },
   education: {
     businessType: 'education',
+    customerBehaviorData: {
+      bestDayOfWeek: ['tuesday', 'wednesday', 'thursday'],
+      bestTimeOfDay: ['11:00'],
+      responseRateByHour: {},
+    },
     seasonalAdjustments: true,
     avoidHolidays: true,
   },
   other: {
     businessType: 'other',
+    customerBehaviorData: {
+      bestDayOfWeek: ['tuesday', 'wednesday', 'thursday'],
+      bestTimeOfDay: ['11:00'],
+      responseRateByHour: {},
+    },
     seasonalAdjustments: false,
     avoidHolidays: true,
   },
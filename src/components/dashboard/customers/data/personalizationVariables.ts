@@ -1,3 +1,16 @@
+import {
+  extractTemplateVariables,
+  renderTemplate,
+  validateTemplate,
+  type TemplateValidation,
+  type TemplateValues,
+} from '../../../../lib/template-engine';
+import {
+  calculateSmsSegments,
+  SMS_SEGMENT_LIMITS,
+  type SmsEncoding,
+} from '../../../../lib/sms-segments';
+
 // Personalization variables for message composition
 export interface PersonalizationVariable {
   id: string;
@@ -17,9 +30,10 @@ export interface VariableCategory {
 }
 
 // Message limits and validation constants
+// GSM-7 limits; a single Unicode character drops these to 70/67 (see sms-segments)
 export const SMS_LIMITS = {
-  CHARACTER_LIMIT_SINGLE: 160,
-  CHARACTER_LIMIT_MULTI: 153, // Reduced limit for multi-part SMS due to headers
+  CHARACTER_LIMIT_SINGLE: SMS_SEGMENT_LIMITS['GSM-7'].single,
+  CHARACTER_LIMIT_MULTI: SMS_SEGMENT_LIMITS['GSM-7'].multipart, // Reduced limit for multi-part SMS due to headers
 } as const;
 
 export const EMAIL_LIMITS = {
@@ -149,6 +163,14 @@ export const personalizationVariables: PersonalizationVariable[] = [
     category: 'system',
     required: true,
   },
+  {
+    id: 'trackingUrl',
+    name: '{{trackingUrl}}',
+    description: 'Tracked link that records the click before opening the review page',
+    example: 'https://reviews.example.com/r/abc123',
+    category: 'system',
+    required: false,
+  },
   {
     id: 'currentDate',
     name: '{{currentDate}}',
@@ -197,17 +219,12 @@ export const variableCategories: VariableCategory[] = [
 
 // Helper functions for variable manipulation
 export function extractVariablesFromTemplate(template: string): string[] {
-  const variableRegex = /\{\{([^}]+)\}\}/g;
-  const matches: string[] = [];
-  let match;
-
-  while ((match = variableRegex.exec(template)) !== null) {
-    if (!matches.includes(match[1])) {
-      matches.push(match[1]);
-    }
+  try {
+    return extractTemplateVariables(template);
+  } catch {
+    // Not yet valid (e.g. an unclosed {{#if}} while typing)
+    return [];
   }
-
-  return matches;
 }
 
 export function validateRequiredVariables(template: string): {
@@ -225,46 +242,94 @@ export function validateRequiredVariables(template: string): {
   };
 }
 
+// Older templates use these names; each renders the same value as its registry variable
+export const variableAliases: Record<string, string> = {
+  fullName: 'customerName',
+  email: 'customerEmail',
+  phone: 'customerPhone',
+  website: 'businessWebsite',
+  'customer.firstName': 'firstName',
+  'customer.lastName': 'lastName',
+  'customer.fullName': 'customerName',
+  'customer.email': 'customerEmail',
+  'customer.phone': 'customerPhone',
+  'business.name': 'businessName',
+  'business.phone': 'businessPhone',
+  'business.website': 'businessWebsite',
+  'review.url': 'reviewUrl',
+  'unsubscribe.url': 'unsubscribeUrl',
+};
+
+// Every name a template may reference
+export const templateVariableNames: string[] = [
+  ...personalizationVariables.map(v => v.id),
+  ...Object.keys(variableAliases),
+];
+
+/**
+ * Check message content (and subject) against the variable registry, for use at save time
+ */
+export function validateTemplateVariables(...sources: (string | undefined)[]): TemplateValidation {
+  return validateTemplate(
+    sources.filter((source): source is string => !!source),
+    templateVariableNames
+  );
+}
+
+/**
+ * Add alias names to a map of registry variable values
+ */
+export function withVariableAliases(values: TemplateValues): TemplateValues {
+  const aliased: TemplateValues = { ...values };
+  for (const [alias, id] of Object.entries(variableAliases)) {
+    if (!(alias in aliased)) {
+      aliased[alias] = values[id];
+    }
+  }
+  return aliased;
+}
+
+/**
+ * Example value for every registry variable, used to preview templates
+ */
+export function sampleVariableValues(): TemplateValues {
+  return Object.fromEntries(personalizationVariables.map(v => [v.id, v.example]));
+}
+
 export function replaceVariablesWithData(
   template: string,
   customerData: any,
   businessData?: any,
   serviceData?: any
 ): string {
-  let result = template;
+  const sample = sampleVariableValues();
 
-  // Sample data for preview (fallback when real data isn't available)
-  const sampleData = {
+  // Real data where we have it, registry examples as the preview fallback
+  const values = withVariableAliases({
+    ...sample,
     customerName:
-      `${customerData?.firstName || 'John'} ${customerData?.lastName || 'Smith'}`.trim(),
-    firstName: customerData?.firstName || 'John',
-    lastName: customerData?.lastName || 'Smith',
-    customerEmail: customerData?.email || 'john@example.com',
-    customerPhone: customerData?.phone || '07823 337 419',
-    businessName: businessData?.name || 'Amazing Plumbing Services',
-    businessOwner: businessData?.owner || 'Sarah Johnson',
-    businessPhone: businessData?.phone || '020 7123 4567',
-    businessWebsite: businessData?.website || 'www.amazingplumbing.co.uk',
-    serviceDate: serviceData?.date || '15th March 2024',
-    serviceType: serviceData?.type || 'Boiler repair',
-    serviceValue: serviceData?.value || '£150',
-    projectDescription: serviceData?.description || 'Kitchen sink installation',
-    reviewUrl: 'https://reviews.example.com/r/abc123',
-    currentDate: new Date().toLocaleDateString('en-GB', {
-      day: 'numeric',
-      month: 'long',
-      year: 'numeric',
-    }),
-    unsubscribeUrl: 'https://reviews.example.com/unsubscribe/abc123',
-  };
-
-  // Replace all variables
-  Object.entries(sampleData).forEach(([key, value]) => {
-    const regex = new RegExp(`\\{\\{${key}\\}\\}`, 'g');
-    result = result.replace(regex, value);
+      `${customerData?.firstName || sample.firstName} ${customerData?.lastName || sample.lastName}`.trim(),
+    firstName: customerData?.firstName || sample.firstName,
+    lastName: customerData?.lastName || sample.lastName,
+    customerEmail: customerData?.email || sample.customerEmail,
+    customerPhone: customerData?.phone || sample.customerPhone,
+    businessName: businessData?.name || sample.businessName,
+    businessOwner: businessData?.owner || sample.businessOwner,
+    businessPhone: businessData?.phone || sample.businessPhone,
+    businessWebsite: businessData?.website || sample.businessWebsite,
+    serviceDate: serviceData?.date || sample.serviceDate,
+    serviceType: serviceData?.type || sample.serviceType,
+    serviceValue: serviceData?.value || sample.serviceValue,
+    projectDescription: serviceData?.description || sample.projectDescription,
+    currentDate: new Date(),
   });
 
-  return result;
+  try {
+    return renderTemplate(template, values);
+  } catch {
+    // Half-typed templates are common while composing; show them unrendered
+    return template;
+  }
 }
 
 export function calculateMessageMetrics(
@@ -273,29 +338,37 @@ export function calculateMessageMetrics(
 ): {
   characterCount: number;
   segmentCount: number;
+  encoding?: SmsEncoding;
+  unicodeCharacters?: string[];
   warnings: string[];
 } {
   const warnings: string[] = [];
   const characterCount = message.length;
 
   if (channel === 'sms') {
-    let segmentCount = 1;
+    const sms = calculateSmsSegments(message);
 
-    if (characterCount > SMS_LIMITS.CHARACTER_LIMIT_SINGLE) {
-      segmentCount = Math.ceil(characterCount / SMS_LIMITS.CHARACTER_LIMIT_MULTI);
+    if (sms.encoding === 'UCS-2') {
+      warnings.push(
+        `${sms.unicodeCharacters.join(' ')} ${sms.unicodeCharacters.length === 1 ? 'is' : 'are'} not in the standard SMS alphabet, so each segment only holds ${SMS_SEGMENT_LIMITS['UCS-2'].single} characters.`
+      );
+    }
 
-      warnings.push(`This message will be sent as ${segmentCount} SMS segments.`);
+    if (sms.segmentCount > 1) {
+      warnings.push(`This message will be sent as ${sms.segmentCount} SMS segments.`);
     }
 
-    if (characterCount > SMS_LIMITS.CHARACTER_LIMIT_SINGLE * 3) {
+    if (sms.segmentCount > 3) {
       warnings.push(
         'Very long SMS messages may have poor delivery rates. Consider shortening or switching to email.'
       );
     }
 
     return {
-      characterCount,
-      segmentCount,
+      characterCount: sms.characterCount,
+      segmentCount: sms.segmentCount,
+      encoding: sms.encoding,
+      unicodeCharacters: sms.unicodeCharacters,
       warnings,
     };
   } else {
@@ -19,6 +19,7 @@ export interface CreateBulkReviewRequestData {
   messageContent: string;
   reviewUrl: string;
   scheduledFor?: string;
+  schedulingType?: 'IMMEDIATE' | 'SCHEDULED' | 'OPTIMAL';
 }
 
 export interface ReviewRequest {
@@ -141,7 +142,8 @@ class ReviewRequestService {
     template: MessageTemplate,
     customMessage: string,
     customSubject: string,
-    scheduledFor?: Date
+    scheduledFor?: Date,
+    schedulingType?: CreateBulkReviewRequestData['schedulingType']
   ): Promise<ReviewRequestCreationResult> {
     try {
       // Get business data for review URL generation
@@ -156,6 +158,7 @@ class ReviewRequestService {
         messageContent: customMessage || template.content,
         reviewUrl,
         scheduledFor: scheduledFor?.toISOString(),
+        schedulingType,
       };
 
       // Call the bulk review request creation API
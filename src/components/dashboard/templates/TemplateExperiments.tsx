@@ -0,0 +1,52 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { templateService } from '@/services/templateService';
+import type { TemplateExperimentSummary } from '@/services/campaigns';
+import { ExperimentResults } from '@/components/dashboard/campaigns/ExperimentResults';
+
+interface TemplateExperimentsProps {
+  templateId: string;
+}
+
+export function TemplateExperiments({ templateId }: TemplateExperimentsProps) {
+  const [experiments, setExperiments] = useState<TemplateExperimentSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    templateService
+      .getExperiments(templateId)
+      .then(setExperiments)
+      .catch(err => {
+        setExperiments([]);
+        setError(err instanceof Error ? err.message : 'Failed to load experiments');
+      });
+  }, [templateId]);
+
+  if (experiments.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold text-slate-900 mb-4">A/B Tests</h3>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="space-y-4">
+        {experiments.map(summary => (
+          <div key={summary.campaignId}>
+            <div className="text-sm font-medium text-slate-900 mb-2">
+              {summary.campaignName}
+              <span className="ml-2 text-xs text-gray-500">
+                {summary.status.charAt(0) + summary.status.slice(1).toLowerCase()}
+              </span>
+            </div>
+            <ExperimentResults experiment={summary.experiment} templateId={templateId} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  templateService,
+  type TemplateDiffRow,
+  type TemplateVersion,
+  type TemplateVersionDiff,
+} from '@/services/templateService';
+
+interface TemplateVersionHistoryProps {
+  templateId: string;
+  /** System templates can't be edited, so they can't be rolled back either */
+  canRollback: boolean;
+  /** Bumped by the parent after a save so the history reloads */
+  refreshKey?: number;
+  onRestored?: () => void;
+}
+
+const ROW_STYLES: Record<TemplateDiffRow['type'], { before: string; after: string }> = {
+  unchanged: { before: '', after: '' },
+  added: { before: 'bg-gray-50', after: 'bg-green-50' },
+  removed: { before: 'bg-red-50', after: 'bg-gray-50' },
+  changed: { before: 'bg-red-50', after: 'bg-green-50' },
+};
+
+const formatDateTime = (value: string): string =>
+  new Date(value).toLocaleString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+function DiffSection({ title, rows }: { title: string; rows: TemplateDiffRow[] }) {
+  if (rows.every(row => row.type === 'unchanged')) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4">
+      <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">{title}</h4>
+      <div className="grid grid-cols-2 border border-gray-200 rounded-md overflow-hidden text-sm font-mono">
+        {rows.map((row, index) => (
+          <React.Fragment key={index}>
+            <div
+              className={`px-3 py-1 whitespace-pre-wrap break-words border-r border-gray-200 ${ROW_STYLES[row.type].before}`}
+            >
+              {row.before ?? ''}
+            </div>
+            <div
+              className={`px-3 py-1 whitespace-pre-wrap break-words ${ROW_STYLES[row.type].after}`}
+            >
+              {row.after ?? ''}
+            </div>
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function TemplateVersionHistory({
+  templateId,
+  canRollback,
+  refreshKey,
+  onRestored,
+}: TemplateVersionHistoryProps) {
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [diff, setDiff] = useState<TemplateVersionDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setDiff(null);
+      setVersions(await templateService.getVersions(templateId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load template history');
+    } finally {
+      setLoading(false);
+    }
+  }, [templateId]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions, refreshKey]);
+
+  // Compare a version with the one before it
+  const showChanges = async (version: TemplateVersion) => {
+    try {
+      setError(null);
+      setDiff(
+        await templateService.getVersionDiff(templateId, version.version - 1, version.version)
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare versions');
+    }
+  };
+
+  const restore = async (version: TemplateVersion) => {
+    if (!confirm(`Restore version ${version.version}? It will be saved as a new version.`)) {
+      return;
+    }
+
+    try {
+      setRestoring(version.version);
+      await templateService.rollback(templateId, version.version);
+      await fetchVersions();
+      onRestored?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore version');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold text-slate-900 mb-4">Version History</h3>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-4 bg-gray-200 rounded"></div>
+          <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {versions.map(version => (
+            <li key={version.id} className="py-3 flex items-start justify-between gap-4">
+              <div>
+                <div className="text-sm font-medium text-slate-900">
+                  Version {version.version}
+                  {version.isCurrent && (
+                    <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-700">
+                      Current
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500 mt-0.5">
+                  {formatDateTime(version.createdAt)}
+                  {version.createdBy && ` · ${version.createdBy.name}`}
+                  {` · ${version.requestCount} request${version.requestCount === 1 ? '' : 's'} sent`}
+                </div>
+                {version.changeNote && (
+                  <div className="text-sm text-gray-700 mt-1">{version.changeNote}</div>
+                )}
+              </div>
+              <div className="flex gap-2 shrink-0">
+                {version.version > 1 && (
+                  <button
+                    onClick={() => showChanges(version)}
+                    className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    Changes
+                  </button>
+                )}
+                {canRollback && !version.isCurrent && (
+                  <button
+                    onClick={() => restore(version)}
+                    disabled={restoring !== null}
+                    className="px-3 py-1 text-sm bg-forgedorange-600 text-white rounded-md hover:bg-forgedorange-700 disabled:opacity-50"
+                  >
+                    {restoring === version.version ? 'Restoring…' : 'Restore'}
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {diff && (
+        <div className="mt-6 border-t border-gray-200 pt-4">
+          <div className="flex justify-between items-center mb-3">
+            <div className="grid grid-cols-2 flex-1 text-sm font-medium text-gray-700">
+              <span>Version {diff.from.version}</span>
+              <span>Version {diff.to.version}</span>
+            </div>
+            <button onClick={() => setDiff(null)} className="text-sm text-gray-500 hover:underline">
+              Close
+            </button>
+          </div>
+          <DiffSection title="Name" rows={diff.name} />
+          <DiffSection title="Subject" rows={diff.subject} />
+          <DiffSection title="Message" rows={diff.content} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { templateService, type MessageTemplate } from '@/services/templateService';
+import { TemplateExperiments } from './TemplateExperiments';
+import { TemplateVersionHistory } from './TemplateVersionHistory';
+
+interface TemplateDraft {
+  name: string;
+  subject: string;
+  content: string;
+  changeNote: string;
+}
+
+const toDraft = (template: MessageTemplate): TemplateDraft => ({
+  name: template.name,
+  subject: template.subject ?? '',
+  content: template.content,
+  changeNote: '',
+});
+
+export default function TemplatesManager() {
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [selected, setSelected] = useState<MessageTemplate | null>(null);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [historyKey, setHistoryKey] = useState(0);
+
+  const fetchTemplates = useCallback(async (selectId?: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { templates } = await templateService.getTemplates({
+        limit: 100,
+        sortBy: 'name',
+        sortOrder: 'asc',
+      });
+      setTemplates(templates);
+
+      const current = templates.find(template => template.id === selectId) ?? null;
+      setSelected(current);
+      setDraft(current ? toDraft(current) : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load templates');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const select = (template: MessageTemplate) => {
+    setSelected(template);
+    setDraft(toDraft(template));
+    setError(null);
+  };
+
+  const save = async () => {
+    if (!selected || !draft) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      await templateService.updateTemplate(selected.id, {
+        name: draft.name,
+        subject: selected.channel === 'EMAIL' ? draft.subject : undefined,
+        content: draft.content,
+        changeNote: draft.changeNote.trim() || undefined,
+      });
+      await fetchTemplates(selected.id);
+      setHistoryKey(key => key + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const editable = selected?.templateType === 'business';
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-slate-900">Message Templates</h1>
+        <p className="text-sm text-gray-600 mt-1">
+          Every saved change is kept as a version, so you can see what each customer received and
+          restore earlier wording
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+          {loading && templates.length === 0 ? (
+            <div className="p-6 animate-pulse space-y-3">
+              <div className="h-4 bg-gray-200 rounded"></div>
+              <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {templates.map(template => (
+                <li key={template.id}>
+                  <button
+                    onClick={() => select(template)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${
+                      selected?.id === template.id ? 'bg-forgedorange-50' : ''
+                    }`}
+                  >
+                    <div className="text-sm font-medium text-slate-900">{template.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {template.channel} ·{' '}
+                      {template.templateType === 'system' ? 'System' : 'Custom'} · v
+                      {template.currentVersion}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          {selected && draft ? (
+            <>
+              <div className="bg-white rounded-2xl border border-gray-200 p-6 space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    value={draft.name}
+                    onChange={e => setDraft({ ...draft, name: e.target.value })}
+                    disabled={!editable}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                  />
+                </div>
+                {selected.channel === 'EMAIL' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
+                    <input
+                      value={draft.subject}
+                      onChange={e => setDraft({ ...draft, subject: e.target.value })}
+                      disabled={!editable}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                    />
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Message</label>
+                  <textarea
+                    value={draft.content}
+                    onChange={e => setDraft({ ...draft, content: e.target.value })}
+                    disabled={!editable}
+                    rows={8}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono disabled:bg-gray-50"
+                  />
+                </div>
+                {editable ? (
+                  <div className="flex gap-3 items-end">
+                    <div className="flex-1">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Change note (optional)
+                      </label>
+                      <input
+                        value={draft.changeNote}
+                        onChange={e => setDraft({ ...draft, changeNote: e.target.value })}
+                        maxLength={200}
+                        placeholder="What changed and why"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      />
+                    </div>
+                    <button
+                      onClick={save}
+                      disabled={saving}
+                      className="px-4 py-2 bg-forgedorange-600 text-white text-sm rounded-lg hover:bg-forgedorange-700 disabled:opacity-50"
+                    >
+                      {saving ? 'Saving…' : 'Save'}
+                    </button>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">System templates can&apos;t be edited.</p>
+                )}
+              </div>
+
+              <TemplateVersionHistory
+                templateId={selected.id}
+                canRollback={editable}
+                refreshKey={historyKey}
+                onRestored={() => fetchTemplates(selected.id)}
+              />
+
+              <TemplateExperiments templateId={selected.id} />
+            </>
+          ) : (
+            <div className="bg-white rounded-2xl border border-gray-200 p-6 text-sm text-gray-500">
+              Select a template to edit it and see its history.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
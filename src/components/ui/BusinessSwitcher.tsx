@@ -0,0 +1,114 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ChevronDown } from '@/components/ui/icons';
+import { ROLE_LABELS } from '@/lib/permissions';
+import type { UserBusiness } from '@/services/agency';
+
+/**
+ * Active-business selector for users who belong to more than one business. Switching sets
+ * the active business server-side and reloads so every view refetches for it.
+ */
+export function BusinessSwitcher() {
+  const [businesses, setBusinesses] = useState<UserBusiness[]>([]);
+  const [activeBusinessId, setActiveBusinessId] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+  const [switching, setSwitching] = useState(false);
+
+  useEffect(() => {
+    const fetchBusinesses = async () => {
+      try {
+        const response = await fetch('/api/businesses');
+        const result = await response.json();
+        if (response.ok && result.success) {
+          setBusinesses(result.data.businesses);
+          setActiveBusinessId(result.data.activeBusinessId);
+        }
+      } catch (error) {
+        console.error('Failed to load businesses:', error);
+      }
+    };
+
+    fetchBusinesses();
+  }, []);
+
+  const handleSwitch = async (businessId: string) => {
+    setOpen(false);
+    if (businessId === activeBusinessId) return;
+
+    try {
+      setSwitching(true);
+      const response = await fetch('/api/businesses/active', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ businessId }),
+      });
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+      window.location.reload();
+    } catch (error) {
+      console.error('Failed to switch business:', error);
+      setSwitching(false);
+    }
+  };
+
+  // Single-business users have nothing to switch between
+  if (businesses.length < 2) {
+    return null;
+  }
+
+  const active = businesses.find(business => business.id === activeBusinessId);
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        disabled={switching}
+        className="inline-flex items-center max-w-[12rem] px-3 py-2 border border-gray-200 rounded-lg text-sm font-medium text-charcoal hover:bg-gray-50 disabled:opacity-50"
+        aria-haspopup="listbox"
+        aria-expanded={open}
+      >
+        <span className="truncate">{active?.name || 'Select business'}</span>
+        <ChevronDown className="w-4 h-4 ml-2 flex-shrink-0 text-gray-400" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-50">
+          <ul role="listbox" className="max-h-80 overflow-y-auto">
+            {businesses.map(business => (
+              <li key={business.id}>
+                <button
+                  type="button"
+                  role="option"
+                  aria-selected={business.id === activeBusinessId}
+                  disabled={!business.isActive}
+                  onClick={() => handleSwitch(business.id)}
+                  className={`w-full flex items-center justify-between px-4 py-2 text-left text-sm hover:bg-gray-50 disabled:opacity-50 ${
+                    business.id === activeBusinessId
+                      ? 'text-forgedorange-700 font-medium'
+                      : 'text-charcoal'
+                  }`}
+                >
+                  <span className="truncate">{business.name}</span>
+                  <span className="ml-3 text-xs text-gray-400">{ROLE_LABELS[business.role]}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="border-t border-gray-100 mt-1 pt-1">
+            <Link
+              href="/dashboard/agency"
+              onClick={() => setOpen(false)}
+              className="block px-4 py-2 text-sm text-gray-600 hover:bg-gray-50"
+            >
+              All businesses overview
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
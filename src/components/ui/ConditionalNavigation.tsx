@@ -6,11 +6,12 @@ import { TopNavigation } from './TopNavigation';
 export function ConditionalNavigation() {
   const pathname = usePathname();
 
-  // Hide navigation on auth pages and tracking URLs
+  // Hide navigation on auth pages, tracking URLs and invitation links
   const isAuthPage = pathname.startsWith('/auth/');
   const isTrackingUrl = pathname.startsWith('/r/');
+  const isInvitePage = pathname?.startsWith('/invite/');
 
-  if (isAuthPage || isTrackingUrl) {
+  if (isAuthPage || isTrackingUrl || isInvitePage) {
     return null;
   }
 
@@ -5,9 +5,13 @@ import Image from 'next/image';
 import { usePathname } from 'next/navigation';
 import { UserButton, useUser } from '@clerk/nextjs';
 import { cn } from '@/lib/utils';
+import { BusinessSwitcher } from './BusinessSwitcher';
 
 const navigation = [
   { name: 'Dashboard', href: '/dashboard' },
+  { name: 'Campaigns', href: '/dashboard/campaigns' },
+  { name: 'Analytics', href: '/dashboard/analytics' },
+  { name: 'Templates', href: '/dashboard/templates' },
   { name: 'Scheduled Messages', href: '/dashboard/scheduled-emails' },
   { name: 'Settings', href: '/settings' },
 ];
@@ -58,6 +62,7 @@ export function TopNavigation() {
 
           {/* Business Switcher and User menu */}
           <div className="flex items-center space-x-4">
+            <BusinessSwitcher />
             <UserButton
               afterSignOutUrl="/"
               appearance={{
@@ -0,0 +1,39 @@
+import { CLAIM_TIMEOUT_MS, planReconciliation } from '../dispatcher';
+
+describe('Dispatcher', () => {
+  describe('planReconciliation', () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+    const request = (id: string, claimedAt: Date | null = null) => ({
+      id,
+      businessId: 'business-1',
+      retryCount: 0,
+      claimedAt,
+    });
+
+    it('should requeue overdue requests that have no job', () => {
+      const plan = planReconciliation(
+        [request('lost'), request('waiting')],
+        new Set(['waiting']),
+        now
+      );
+
+      expect(plan.requeue.map(r => r.id)).toEqual(['lost']);
+      expect(plan.interrupted).toEqual([]);
+    });
+
+    it('should leave requests another worker is sending', () => {
+      const claimedAt = new Date(now.getTime() - 60 * 1000);
+      const plan = planReconciliation([request('sending', claimedAt)], new Set(), now);
+
+      expect(plan).toEqual({ requeue: [], interrupted: [] });
+    });
+
+    it('should fail requests whose worker stopped mid-send instead of sending them again', () => {
+      const claimedAt = new Date(now.getTime() - CLAIM_TIMEOUT_MS - 1);
+      const plan = planReconciliation([request('stuck', claimedAt)], new Set(), now);
+
+      expect(plan.requeue).toEqual([]);
+      expect(plan.interrupted.map(r => r.id)).toEqual(['stuck']);
+    });
+  });
+});
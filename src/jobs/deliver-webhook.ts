@@ -0,0 +1,39 @@
+import { nextRetryDelay, type QueuedJob } from '../services/job-queue';
+import { logger } from '../lib/logger';
+import { deliverWebhook } from '../services/webhook-endpoints';
+import type { DeliverWebhookJobData } from '../types/external';
+
+/**
+ * Process deliver-webhook job: POST one event to one endpoint. Throwing on a failed
+ * delivery hands the retry and its backoff to the queue.
+ */
+export async function processDeliverWebhookJob(job: QueuedJob<DeliverWebhookJobData>): Promise<{
+  success: boolean;
+  delivered?: boolean;
+  error?: string;
+}> {
+  const { deliveryId } = job.data;
+  const retryDelayMs = nextRetryDelay(job);
+
+  const result = await deliverWebhook(deliveryId, retryDelayMs);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+
+  if (!result.data.delivered && !result.data.skipped) {
+    if (retryDelayMs !== null) {
+      throw new Error(`Webhook delivery ${deliveryId} failed; retrying`);
+    }
+
+    logger.error('Webhook delivery gave up', {
+      jobId: job.id,
+      deliveryId,
+      attempts: job.attemptsMade + 1,
+    });
+  }
+
+  return {
+    success: true,
+    delivered: result.data.delivered,
+  };
+}
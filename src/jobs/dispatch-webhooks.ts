@@ -0,0 +1,44 @@
+import type { QueuedJob } from '../services/job-queue';
+import { logger } from '../lib/logger';
+import { dispatchWebhookEvents, scheduleWebhookDispatch } from '../services/webhook-endpoints';
+import type { DispatchWebhooksJobData } from '../types/external';
+
+/**
+ * Process dispatch-webhooks job: queue deliveries for newly recorded events, then queue the
+ * next sweep
+ */
+export async function processDispatchWebhooksJob(job: QueuedJob<DispatchWebhooksJobData>): Promise<{
+  success: boolean;
+  queued?: number;
+  error?: string;
+}> {
+  const result = await dispatchWebhookEvents();
+
+  // Keep sweeping through transient failures
+  await scheduleWebhookDispatch();
+
+  if (!result.success) {
+    logger.error('Dispatch webhooks job failed', {
+      jobId: job.id,
+      error: result.error,
+    });
+
+    return {
+      success: false,
+      error: result.error,
+    };
+  }
+
+  if (result.data.queued > 0) {
+    logger.info('Webhook deliveries queued', {
+      jobId: job.id,
+      endpoints: result.data.endpoints,
+      queued: result.data.queued,
+    });
+  }
+
+  return {
+    success: true,
+    queued: result.data.queued,
+  };
+}
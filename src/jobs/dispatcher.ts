@@ -0,0 +1,142 @@
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { addJobToQueue, closeAllQueuesAndWorkers, getPendingJobs } from '../services/job-queue';
+import { refundRequestCredits } from '../services/credits';
+import { initializeWorkers } from './index';
+import { WORKER_ID } from './send-request';
+import type { SendRequestJobData } from '../types/external';
+
+/** How long a claim can stay open before its worker is assumed to have died mid-send */
+export const CLAIM_TIMEOUT_MS = 15 * 60 * 1000;
+
+/** Most overdue requests looked at in one reconciliation pass */
+const RECONCILE_BATCH_SIZE = 1000;
+
+const INTERRUPTED_SEND_ERROR = 'Sending was interrupted; check delivery before sending again';
+
+export interface OverdueRequest {
+  id: string;
+  businessId: string;
+  retryCount: number;
+  claimedAt: Date | null;
+}
+
+export interface ReconciliationPlan {
+  /** Unclaimed requests with no job waiting for them */
+  requeue: OverdueRequest[];
+  /** Requests whose worker stopped after claiming them */
+  interrupted: OverdueRequest[];
+}
+
+/**
+ * Decide what to do with overdue queued requests. A request with a job already waiting is
+ * left to it. One claimed long ago may or may not have reached the provider, so it is
+ * failed rather than sent again.
+ */
+export function planReconciliation(
+  overdue: OverdueRequest[],
+  pendingRequestIds: Set<string>,
+  now: Date = new Date()
+): ReconciliationPlan {
+  const staleBefore = now.getTime() - CLAIM_TIMEOUT_MS;
+
+  return {
+    requeue: overdue.filter(request => !request.claimedAt && !pendingRequestIds.has(request.id)),
+    interrupted: overdue.filter(
+      request => request.claimedAt && request.claimedAt.getTime() < staleBefore
+    ),
+  };
+}
+
+/**
+ * Queue any QUEUED request whose send time has passed but that has no job, e.g. because
+ * Redis was flushed or the request was created while the queue was down
+ */
+export async function reconcileScheduledRequests(
+  now: Date = new Date()
+): Promise<{ requeued: number; interrupted: number }> {
+  const overdue = await prisma.reviewRequest.findMany({
+    where: {
+      status: 'QUEUED',
+      isActive: true,
+      // Immediate sends inside business hours are stored without a send time
+      OR: [{ scheduledFor: null }, { scheduledFor: { lte: now } }],
+    },
+    select: { id: true, businessId: true, retryCount: true, claimedAt: true },
+    orderBy: { scheduledFor: { sort: 'asc', nulls: 'first' } },
+    take: RECONCILE_BATCH_SIZE,
+  });
+  if (overdue.length === 0) {
+    return { requeued: 0, interrupted: 0 };
+  }
+
+  const pendingJobs = await getPendingJobs<SendRequestJobData>('send-request');
+  const plan = planReconciliation(
+    overdue,
+    new Set(pendingJobs.map(job => job.data.requestId)),
+    now
+  );
+
+  for (const request of plan.interrupted) {
+    const { count } = await prisma.reviewRequest.updateMany({
+      where: { id: request.id, status: 'QUEUED', claimedAt: request.claimedAt },
+      data: {
+        status: 'FAILED',
+        errorMessage: INTERRUPTED_SEND_ERROR,
+        claimedAt: null,
+        claimedBy: null,
+      },
+    });
+    if (count > 0) {
+      await refundRequestCredits(request.businessId, [request.id], INTERRUPTED_SEND_ERROR);
+    }
+  }
+
+  for (const request of plan.requeue) {
+    await addJobToQueue<SendRequestJobData>(
+      'send-request',
+      { requestId: request.id, retryCount: request.retryCount },
+      { priority: 5 }
+    );
+  }
+
+  logger.info('Scheduled requests reconciled', {
+    overdue: overdue.length,
+    requeued: plan.requeue.length,
+    interrupted: plan.interrupted.length,
+  });
+
+  return { requeued: plan.requeue.length, interrupted: plan.interrupted.length };
+}
+
+let running = false;
+
+/**
+ * Start every job worker, then pick up scheduled requests that lost their job
+ */
+export async function startDispatcher(): Promise<void> {
+  if (running) {
+    return;
+  }
+  running = true;
+
+  initializeWorkers();
+  await reconcileScheduledRequests();
+
+  logger.info('Dispatcher started', { workerId: WORKER_ID });
+}
+
+/**
+ * Stop taking new jobs, wait for the ones in progress to finish, then disconnect
+ */
+export async function stopDispatcher(): Promise<void> {
+  if (!running) {
+    return;
+  }
+  running = false;
+
+  logger.info('Stopping dispatcher', { workerId: WORKER_ID });
+  await closeAllQueuesAndWorkers();
+  await prisma.$disconnect();
+  logger.info('Dispatcher stopped', { workerId: WORKER_ID });
+}
@@ -0,0 +1,48 @@
+import type { QueuedJob } from '../services/job-queue';
+import { logger } from '../lib/logger';
+import { evaluateCampaignExperiment, scheduleExperimentEvaluation } from '../services/campaigns';
+import type { EvaluateExperimentJobData } from '../types/external';
+
+/**
+ * Process evaluate-experiment job: check a campaign experiment for a winner, then queue the
+ * next check while it is still undecided
+ */
+export async function processEvaluateExperimentJob(
+  job: QueuedJob<EvaluateExperimentJobData>
+): Promise<{
+  success: boolean;
+  winnerId?: string | null;
+  error?: string;
+}> {
+  const { campaignId } = job.data;
+
+  logger.info('Processing evaluate experiment job', {
+    jobId: job.id,
+    campaignId,
+  });
+
+  const result = await evaluateCampaignExperiment(campaignId);
+
+  // Keep checking through transient failures; stop once the experiment is decided
+  if (!result.success || result.data.pending) {
+    await scheduleExperimentEvaluation(campaignId);
+  }
+
+  if (!result.success) {
+    logger.error('Evaluate experiment job failed', {
+      jobId: job.id,
+      campaignId,
+      error: result.error,
+    });
+
+    return {
+      success: false,
+      error: result.error,
+    };
+  }
+
+  return {
+    success: true,
+    winnerId: result.data.winnerId,
+  };
+}
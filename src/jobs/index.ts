@@ -1,5 +1,15 @@
 import { createWorker } from '../services/job-queue';
 import { processSendRequestJob } from './send-request';
+import { processSendFollowupJob } from './send-followup';
+import { processMonitorReviewsJob } from './monitor-reviews';
+import { processEvaluateExperimentJob } from './evaluate-experiment';
+import { processDispatchWebhooksJob } from './dispatch-webhooks';
+import { processDeliverWebhookJob } from './deliver-webhook';
+import { processRollupAnalyticsJob } from './rollup-analytics';
+import { processRunAutomationsJob } from './run-automations';
+import { startReviewMonitoring } from '../services/review-monitoring';
+import { scheduleWebhookDispatch } from '../services/webhook-endpoints';
+import { scheduleAnalyticsRollup } from '../services/analytics';
 import { logger } from '../lib/logger';
 
 /**
@@ -17,6 +27,44 @@ export function initializeWorkers(): void {
     },
   });
 
+  // Create worker for follow-up sequence steps
+  createWorker('send-followup', processSendFollowupJob, {
+    concurrency: 5,
+  });
+
+  // Create worker for Google review polling, one job per business
+  createWorker('monitor-reviews', processMonitorReviewsJob, {
+    concurrency: 2,
+  });
+  void startReviewMonitoring();
+
+  // Create worker for A/B experiment checks, one job per campaign
+  createWorker('evaluate-experiment', processEvaluateExperimentJob, {
+    concurrency: 2,
+  });
+
+  // Create workers for outbound webhooks: one sweep chain fanning events out to endpoints,
+  // and the deliveries themselves
+  createWorker('dispatch-webhooks', processDispatchWebhooksJob, {
+    concurrency: 1,
+  });
+  createWorker('deliver-webhook', processDeliverWebhookJob, {
+    concurrency: 10,
+  });
+  void scheduleWebhookDispatch(0);
+
+  // Create worker for automation rules triggered by customers being created or tagged
+  createWorker('run-automations', processRunAutomationsJob, {
+    concurrency: 5,
+  });
+
+  // Create worker for the daily analytics rollups; one chain rebuilds days whose requests
+  // changed since the last run
+  createWorker('rollup-analytics', processRollupAnalyticsJob, {
+    concurrency: 1,
+  });
+  void scheduleAnalyticsRollup(0);
+
   logger.info('Job workers initialized successfully');
 }
 
@@ -24,3 +72,10 @@ export function initializeWorkers(): void {
  * Export job processors for testing
  */
 export { processSendRequestJob } from './send-request';
+export { processSendFollowupJob } from './send-followup';
+export { processMonitorReviewsJob } from './monitor-reviews';
+export { processEvaluateExperimentJob } from './evaluate-experiment';
+export { processDispatchWebhooksJob } from './dispatch-webhooks';
+export { processDeliverWebhookJob } from './deliver-webhook';
+export { processRollupAnalyticsJob } from './rollup-analytics';
+export { processRunAutomationsJob } from './run-automations';
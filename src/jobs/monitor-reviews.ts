@@ -0,0 +1,54 @@
+import type { QueuedJob } from '../services/job-queue';
+import { logger } from '../lib/logger';
+import {
+  BUSINESS_INACTIVE_ERROR,
+  NO_PLACE_CONNECTED_ERROR,
+  scheduleReviewMonitoring,
+  syncBusinessReviews,
+} from '../services/review-monitoring';
+import type { MonitorReviewsJobData } from '../types/external';
+
+/**
+ * Process monitor-reviews job: sync one business's Google reviews, then queue its next poll
+ */
+export async function processMonitorReviewsJob(job: QueuedJob<MonitorReviewsJobData>): Promise<{
+  success: boolean;
+  reviewsCompleted?: number;
+  error?: string;
+}> {
+  const { businessId } = job.data;
+
+  logger.info('Processing monitor reviews job', {
+    jobId: job.id,
+    businessId,
+  });
+
+  const result = await syncBusinessReviews(businessId);
+  const stopped =
+    !result.success &&
+    (result.error === NO_PLACE_CONNECTED_ERROR || result.error === BUSINESS_INACTIVE_ERROR);
+
+  // Keep polling through transient failures; stop once the place or business is gone
+  if (!stopped) {
+    await scheduleReviewMonitoring(businessId);
+  }
+
+  if (!result.success) {
+    logger.error('Monitor reviews job failed', {
+      jobId: job.id,
+      businessId,
+      error: result.error,
+      stopped,
+    });
+
+    return {
+      success: false,
+      error: result.error,
+    };
+  }
+
+  return {
+    success: true,
+    reviewsCompleted: result.data.completedRequestIds.length,
+  };
+}
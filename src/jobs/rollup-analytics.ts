@@ -0,0 +1,44 @@
+import type { QueuedJob } from '../services/job-queue';
+import { logger } from '../lib/logger';
+import { rollUpAnalytics, scheduleAnalyticsRollup } from '../services/analytics';
+import type { RollupAnalyticsJobData } from '../types/external';
+
+/**
+ * Process rollup-analytics job: rebuild the daily rollups for days whose requests changed,
+ * then queue the next run
+ */
+export async function processRollupAnalyticsJob(job: QueuedJob<RollupAnalyticsJobData>): Promise<{
+  success: boolean;
+  days?: number;
+  error?: string;
+}> {
+  const result = await rollUpAnalytics();
+
+  // Keep rolling up through transient failures
+  await scheduleAnalyticsRollup();
+
+  if (!result.success) {
+    logger.error('Rollup analytics job failed', {
+      jobId: job.id,
+      error: result.error,
+    });
+
+    return {
+      success: false,
+      error: result.error,
+    };
+  }
+
+  if (result.data.days > 0) {
+    logger.info('Analytics rolled up', {
+      jobId: job.id,
+      businesses: result.data.businesses,
+      days: result.data.days,
+    });
+  }
+
+  return {
+    success: true,
+    days: result.data.days,
+  };
+}
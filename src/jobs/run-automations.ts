@@ -0,0 +1,38 @@
+import type { QueuedJob } from '../services/job-queue';
+import { logger } from '../lib/logger';
+import { runAutomations } from '../services/automations';
+import type { RunAutomationsJobData } from '../types/external';
+
+/**
+ * Process run-automations job: run a customer's rules for each trigger in order, e.g.
+ * "customer created" before the tags the customer came with
+ */
+export async function processRunAutomationsJob(job: QueuedJob<RunAutomationsJobData>): Promise<{
+  success: boolean;
+  requestIds: string[];
+  error?: string;
+}> {
+  const { businessId, customerId, triggers } = job.data;
+  const requestIds: string[] = [];
+
+  for (const trigger of triggers) {
+    const result = await runAutomations(businessId, customerId, trigger);
+    if (!result.success) {
+      logger.error('Run automations job failed', {
+        jobId: job.id,
+        businessId,
+        customerId,
+        trigger: trigger.type,
+        error: result.error,
+      });
+      throw new Error(result.error);
+    }
+
+    requestIds.push(...result.data.requestIds);
+  }
+
+  return {
+    success: true,
+    requestIds,
+  };
+}
@@ -0,0 +1,46 @@
+import type { QueuedJob } from '../services/job-queue';
+import { logger } from '../lib/logger';
+import { processFollowUpStep } from '../services/follow-ups';
+import type { SendFollowupJobData } from '../types/external';
+
+/**
+ * Process send-followup job for one step of a follow-up sequence
+ */
+export async function processSendFollowupJob(job: QueuedJob<SendFollowupJobData>): Promise<{
+  success: boolean;
+  followUpRequestId?: string;
+  status?: string;
+  error?: string;
+}> {
+  const { requestId, stepIndex } = job.data;
+
+  logger.info('Processing send followup job', {
+    jobId: job.id,
+    requestId,
+    stepIndex,
+  });
+
+  const result = await processFollowUpStep(requestId, stepIndex);
+
+  if (!result.success) {
+    logger.error('Send followup job failed', {
+      jobId: job.id,
+      requestId,
+      stepIndex,
+      error: result.error,
+    });
+
+    return {
+      success: false,
+      error: result.error,
+    };
+  }
+
+  const { decision, followUpRequestId } = result.data;
+
+  return {
+    success: true,
+    followUpRequestId,
+    status: decision.action === 'send' ? 'sent' : `${decision.action}:${decision.reason}`,
+  };
+}
@@ -1,22 +1,58 @@
-import type { Job } from 'bullmq';
+import { hostname } from 'os';
 import { prisma } from '../lib/prisma';
 import { logger, loggers } from '../lib/logger';
 import { getReviewRequestById, updateReviewRequest } from '../services/review-requests';
 import { checkSuppressions } from '../services/suppressions';
-import { renderMessage, createPersonalizationData, sendGridService } from '../services/messaging';
+import { scheduleFollowUpSequence } from '../services/follow-ups';
+import { addJobToQueue, nextRetryDelay, type QueuedJob } from '../services/job-queue';
+import { resolveSendTime } from '../lib/sending-window';
+import {
+  debitRequestCredits,
+  getInsufficientCreditsMessage,
+  refundRequestCredits,
+  reserveRequestCredits,
+} from '../services/credits';
+import { renderMessage, createPersonalizationData } from '../services/messaging';
+import { sendReviewRequestMessage } from '../services/providers';
 import { getContactForChannel } from '../lib/utils';
 import type { SendRequestJobData } from '../types/external';
 
+/** Identifies this process on the requests it claims */
+export const WORKER_ID = `${hostname()}:${process.pid}`;
+
+const RELEASE_CLAIM = { claimedAt: null, claimedBy: null };
+
+// A failure another attempt can't fix, so the request fails without waiting for retries
+class PermanentSendError extends Error {}
+
+/**
+ * Claim a queued request for sending. Only one worker can hold a claim, so a request that
+ * was queued twice, or picked up by two workers at once, is still sent only once.
+ */
+export async function claimReviewRequest(requestId: string): Promise<boolean> {
+  const { count } = await prisma.reviewRequest.updateMany({
+    where: { id: requestId, status: 'QUEUED', isActive: true, claimedAt: null },
+    data: { claimedAt: new Date(), claimedBy: WORKER_ID },
+  });
+  return count === 1;
+}
+
 /**
- * Process send-request job for email review requests
+ * Process send-request job for email and SMS review requests. Throwing on a failed send
+ * hands the retry and its backoff to the queue; the request is only marked FAILED once
+ * the last attempt fails or the failure is permanent. Once the provider has accepted the
+ * message the job succeeds, whatever happens to the bookkeeping after it.
  */
-export async function processSendRequestJob(job: Job<SendRequestJobData>): Promise<{
+export async function processSendRequestJob(job: QueuedJob<SendRequestJobData>): Promise<{
   success: boolean;
   messageId?: string;
   status?: string;
   error?: string;
 }> {
-  const { requestId, retryCount = 0 } = job.data;
+  const { requestId } = job.data;
+  const retryCount = (job.data.retryCount ?? 0) + job.attemptsMade;
+  let businessId: string | undefined;
+  let claimed = false;
 
   try {
     logger.info('Processing send request job', {
@@ -29,10 +65,11 @@ export async function processSendRequestJob(job: Job<SendRequestJobData>): Promi
     const requestResult = await getReviewRequestById(requestId);
 
     if (!requestResult.success || !requestResult.data) {
-      throw new Error('Review request not found');
+      throw new PermanentSendError('Review request not found');
     }
 
     const reviewRequest = requestResult.data;
+    businessId = reviewRequest.businessId;
 
     // Skip if already processed
     if (reviewRequest.status !== 'QUEUED') {
@@ -46,6 +83,16 @@ export async function processSendRequestJob(job: Job<SendRequestJobData>): Promi
       };
     }
 
+    // Another worker is already sending this request
+    claimed = await claimReviewRequest(requestId);
+    if (!claimed) {
+      logger.warn('Review request already claimed by another worker', { requestId });
+      return {
+        success: true,
+        status: 'CLAIMED',
+      };
+    }
+
     // Validate scheduled time for scheduled emails
     if (reviewRequest.scheduledFor) {
       const scheduledTime = new Date(reviewRequest.scheduledFor);
@@ -64,10 +111,15 @@ export async function processSendRequestJob(job: Job<SendRequestJobData>): Promi
           timeDifference: `${Math.round(timeDifference / (1000 * 60))} minutes`,
         });
 
-        // Don't throw error, just log and return - let the job queue handle rescheduling
+        // Hand the request back and queue it again for its scheduled time
+        await updateReviewRequest(requestId, RELEASE_CLAIM);
+        await addJobToQueue(
+          'send-request',
+          { requestId, retryCount },
+          { delay: timeDifference, priority: 5 }
+        );
         return {
-          success: false,
-          error: 'Email scheduled for future delivery',
+          success: true,
           status: 'QUEUED',
         };
       }
@@ -87,27 +139,65 @@ export async function processSendRequestJob(job: Job<SendRequestJobData>): Promi
       select: {
         name: true,
         isActive: true,
-        emailCreditsUsed: true,
-        emailCreditsLimit: true,
+        timezone: true,
+        sendingHours: true,
       },
     });
 
     if (!business || !business.isActive) {
-      throw new Error('Business not found or inactive');
+      throw new PermanentSendError('Business not found or inactive');
     }
 
-    // Check credit limits for email
-    if (reviewRequest.channel === 'EMAIL') {
-      if (business.emailCreditsUsed >= business.emailCreditsLimit) {
-        throw new Error('Email credit limit exceeded');
-      }
+    // Hold the send if it would land outside business hours, in quiet hours or on a holiday
+    const campaignSettings = reviewRequest.campaignId
+      ? await prisma.campaign.findUnique({
+          where: { id: reviewRequest.campaignId },
+          select: { settings: true },
+        })
+      : null;
+    const sendTime = resolveSendTime(business, null, {
+      respectBusinessHours: (
+        campaignSettings?.settings as { respectBusinessHours?: boolean } | null
+      )?.respectBusinessHours,
+    });
+
+    if (sendTime.scheduledFor) {
+      await updateReviewRequest(requestId, {
+        scheduledFor: sendTime.scheduledFor,
+        rescheduleReason: sendTime.rescheduleReason,
+        ...RELEASE_CLAIM,
+      });
+      await addJobToQueue(
+        'send-request',
+        { requestId, retryCount },
+        { delay: sendTime.scheduledFor.getTime() - Date.now(), priority: 5 }
+      );
+
+      logger.info('Review request rescheduled to next sending slot', {
+        requestId,
+        scheduledFor: sendTime.scheduledFor.toISOString(),
+        reason: sendTime.rescheduleReason,
+      });
+
+      return {
+        success: true,
+        status: 'RESCHEDULED',
+      };
+    }
+
+    // Requests queued before credits were metered reserve theirs now
+    const credits = await reserveRequestCredits(reviewRequest.businessId, requestId);
+    if (!credits.reserved) {
+      throw new PermanentSendError(getInsufficientCreditsMessage(reviewRequest.channel, credits));
     }
 
     // Get contact info
     const contact = getContactForChannel(reviewRequest.customer, reviewRequest.channel);
 
     if (!contact) {
-      throw new Error(`Customer does not have ${reviewRequest.channel.toLowerCase()} contact`);
+      throw new PermanentSendError(
+        `Customer does not have ${reviewRequest.channel.toLowerCase()} contact`
+      );
     }
 
     // Final suppression check
@@ -122,7 +212,9 @@ export async function processSendRequestJob(job: Job<SendRequestJobData>): Promi
       await updateReviewRequest(requestId, {
         status: 'OPTED_OUT',
         errorMessage: `Contact suppressed: ${suppressionResult.data.reason}`,
+        ...RELEASE_CLAIM,
       });
+      await refundRequestCredits(reviewRequest.businessId, [requestId], 'Contact suppressed');
 
       await prisma.event.create({
         data: {
@@ -154,7 +246,7 @@ export async function processSendRequestJob(job: Job<SendRequestJobData>): Promi
     });
 
     if (!fullReviewRequest) {
-      throw new Error('Review request details not found');
+      throw new PermanentSendError('Review request details not found');
     }
 
     const template = {
@@ -175,118 +267,151 @@ export async function processSendRequestJob(job: Job<SendRequestJobData>): Promi
     const messageResult = await renderMessage(template, personalizationData, reviewRequest.channel);
 
     if (!messageResult.success) {
-      throw new Error(`Message rendering failed: ${messageResult.error}`);
+      throw new PermanentSendError(`Message rendering failed: ${messageResult.error}`);
     }
 
     const renderedMessage = messageResult.data;
 
-    // Send email via SendGrid service
-    if (reviewRequest.channel === 'EMAIL') {
-      const customerName =
-        `${reviewRequest.customer.firstName} ${reviewRequest.customer.lastName || ''}`.trim();
-
-      const sendResult = await sendGridService.sendReviewRequestEmail(
-        contact,
-        customerName,
-        renderedMessage,
-        reviewRequest.businessId,
-        requestId
-      );
-
-      if (sendResult.success) {
-        // Update request status
-        await updateReviewRequest(requestId, {
-          status: 'SENT',
-          sentAt: new Date(),
-          externalId: sendResult.messageId,
-          retryCount,
-        });
+    const channelLabel = reviewRequest.channel === 'EMAIL' ? 'Email' : 'SMS';
+    const customerName =
+      `${reviewRequest.customer.firstName} ${reviewRequest.customer.lastName || ''}`.trim();
+
+    // Send through the provider selected for this channel and business
+    const sendResult = await sendReviewRequestMessage({
+      channel: reviewRequest.channel,
+      to: contact,
+      toName: customerName,
+      rendered: renderedMessage,
+      businessId: reviewRequest.businessId,
+      requestId,
+    });
 
-        // Update business credit usage
-        await prisma.business.update({
-          where: { id: reviewRequest.businessId },
-          data: { emailCreditsUsed: { increment: 1 } },
-        });
+    if (!sendResult.success) {
+      throw new Error(sendResult.error || `${channelLabel} sending failed`);
+    }
 
-        // Log success event
-        await prisma.event.create({
+    // The message is out, so nothing from here on may retry the send or fail the request
+    const { messageId, provider } = sendResult.data;
+    try {
+      // Record the send and charge for it together; if this fails the claim stays held,
+      // so the request is never sent again and is later flagged as interrupted
+      await prisma.$transaction(async tx => {
+        await tx.reviewRequest.update({
+          where: { id: requestId },
           data: {
-            businessId: reviewRequest.businessId,
-            reviewRequestId: requestId,
-            type: 'REQUEST_SENT',
-            source: 'system',
-            description: 'Email message sent successfully',
-            metadata: {
-              externalId: sendResult.messageId,
-              channel: 'EMAIL',
-              deliveryTime: sendResult.deliveryTime,
-              retryCount: sendResult.retryCount,
-            },
+            status: 'SENT',
+            sentAt: new Date(),
+            externalId: messageId,
+            retryCount,
+            ...RELEASE_CLAIM,
           },
         });
-
-        loggers.business.reviewRequestSent({
+        await debitRequestCredits(
+          reviewRequest.businessId,
           requestId,
+          { content: renderedMessage.content },
+          tx
+        );
+      });
+    } catch (error) {
+      logger.error('Failed to record sent review request', {
+        jobId: job.id,
+        requestId,
+        externalId: messageId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return { success: true, messageId, status: 'SENT' };
+    }
+
+    try {
+      // Log success event
+      await prisma.event.create({
+        data: {
           businessId: reviewRequest.businessId,
-          channel: 'EMAIL',
-          externalId: sendResult.messageId || '',
-        });
+          reviewRequestId: requestId,
+          type: 'REQUEST_SENT',
+          source: 'system',
+          description: `${channelLabel} message sent successfully`,
+          metadata: {
+            externalId: messageId,
+            channel: reviewRequest.channel,
+            provider,
+            retryCount,
+          },
+        },
+      });
 
-        return {
-          success: true,
-          messageId: sendResult.messageId,
-          status: 'SENT',
-        };
-      } else {
-        // Handle send failure
-        const errorMessage = sendResult.error || 'Email sending failed';
+      loggers.business.reviewRequestSent({
+        requestId,
+        businessId: reviewRequest.businessId,
+        channel: reviewRequest.channel,
+        externalId: messageId,
+      });
+
+      await scheduleFollowUpSequence(requestId);
+    } catch (error) {
+      logger.error('Failed to finish bookkeeping for sent review request', {
+        jobId: job.id,
+        requestId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return {
+      success: true,
+      messageId,
+      status: 'SENT',
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const retryDelayMs = error instanceof PermanentSendError ? null : nextRetryDelay(job);
 
+    if (retryDelayMs !== null) {
+      logger.warn('Send request job failed; retrying', {
+        jobId: job.id,
+        requestId,
+        retryCount,
+        retryDelayMs,
+        error: errorMessage,
+      });
+
+      // Hand the request back for the next attempt; its credits stay reserved. A request
+      // this worker never claimed belongs to whichever worker did, so it is left alone.
+      if (claimed) {
+        await updateReviewRequest(requestId, { errorMessage, retryCount, ...RELEASE_CLAIM });
+      }
+      throw error;
+    }
+
+    logger.error('Send request job failed', {
+      jobId: job.id,
+      requestId,
+      retryCount,
+      error: errorMessage,
+    });
+
+    // Last attempt or permanent failure: mark the request failed and release its credits
+    try {
+      if (claimed && businessId) {
         await updateReviewRequest(requestId, {
           status: 'FAILED',
           errorMessage,
           retryCount,
+          ...RELEASE_CLAIM,
         });
+        await refundRequestCredits(businessId, [requestId], `Send failed: ${errorMessage}`);
 
-        // Log failure event
         await prisma.event.create({
           data: {
-            businessId: reviewRequest.businessId,
+            businessId,
             reviewRequestId: requestId,
             type: 'ERROR_OCCURRED',
             source: 'system',
-            description: `Email sending failed: ${errorMessage}`,
-            metadata: {
-              error: errorMessage,
-              channel: 'EMAIL',
-              statusCode: sendResult.statusCode,
-              retryCount,
-            },
+            description: `Review request sending failed: ${errorMessage}`,
+            metadata: { error: errorMessage, retryCount },
           },
         });
-
-        throw new Error(errorMessage);
       }
-    } else {
-      // Handle SMS (not implemented in this version)
-      throw new Error('SMS sending not implemented yet');
-    }
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-
-    logger.error('Send request job failed', {
-      jobId: job.id,
-      requestId,
-      retryCount,
-      error: errorMessage,
-    });
-
-    // Update request status on failure
-    try {
-      await updateReviewRequest(requestId, {
-        status: 'FAILED',
-        errorMessage,
-        retryCount,
-      });
     } catch (updateError) {
       logger.error('Failed to update request status after error', {
         requestId,
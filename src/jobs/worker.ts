@@ -0,0 +1,43 @@
+/**
+ * Dispatcher process
+ *
+ * Runs every job worker (scheduled sends, follow-ups, review monitoring, experiments) until
+ * it receives SIGINT or SIGTERM. Start it with `npm run scheduler`; several can run at once.
+ */
+
+import { config } from 'dotenv';
+
+if (process.env.NODE_ENV !== 'production') {
+  config({ path: '.env.local' });
+}
+
+async function main(): Promise<void> {
+  // Loaded after the environment so the queues pick up the Redis settings
+  const { startDispatcher, stopDispatcher } = await import('./dispatcher');
+  const { logger } = await import('../lib/logger');
+
+  let stopping = false;
+  const shutdown = async (signal: string) => {
+    if (stopping) return;
+    stopping = true;
+
+    logger.info('Shutting down dispatcher', { signal });
+    try {
+      await stopDispatcher();
+      process.exit(0);
+    } catch (error) {
+      logger.error('Dispatcher did not shut down cleanly', { error });
+      process.exit(1);
+    }
+  };
+
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+
+  await startDispatcher();
+}
+
+main().catch(error => {
+  console.error('Dispatcher failed to start:', error);
+  process.exit(1);
+});
@@ -0,0 +1,116 @@
+import {
+  addDaysToIsoDate,
+  buildTimeSeries,
+  compareFunnels,
+  emptyFunnel,
+  listPeriods,
+  percentChange,
+  periodStart,
+  summariseClickDelays,
+  type FunnelCounts,
+} from '../analytics';
+
+const funnel = (counts: Partial<FunnelCounts>): FunnelCounts => ({ ...emptyFunnel(), ...counts });
+
+describe('Analytics', () => {
+  describe('addDaysToIsoDate', () => {
+    it('should shift across month and year boundaries', () => {
+      expect(addDaysToIsoDate('2026-01-31', 1)).toBe('2026-02-01');
+      expect(addDaysToIsoDate('2026-01-01', -1)).toBe('2025-12-31');
+    });
+  });
+
+  describe('periodStart', () => {
+    it('should start weeks on Monday', () => {
+      expect(periodStart('2026-06-03', 'week')).toBe('2026-06-01'); // Wednesday
+      expect(periodStart('2026-06-07', 'week')).toBe('2026-06-01'); // Sunday
+      expect(periodStart('2026-06-08', 'week')).toBe('2026-06-08'); // Monday
+    });
+
+    it('should start months on the first', () => {
+      expect(periodStart('2026-06-17', 'month')).toBe('2026-06-01');
+    });
+
+    it('should leave days unchanged', () => {
+      expect(periodStart('2026-06-17', 'day')).toBe('2026-06-17');
+    });
+  });
+
+  describe('listPeriods', () => {
+    it('should list every period touching the range', () => {
+      expect(listPeriods('2026-06-01', '2026-06-03', 'day')).toEqual([
+        '2026-06-01',
+        '2026-06-02',
+        '2026-06-03',
+      ]);
+      expect(listPeriods('2026-06-03', '2026-06-15', 'week')).toEqual([
+        '2026-06-01',
+        '2026-06-08',
+        '2026-06-15',
+      ]);
+      expect(listPeriods('2026-05-20', '2026-07-02', 'month')).toEqual([
+        '2026-05-01',
+        '2026-06-01',
+        '2026-07-01',
+      ]);
+    });
+  });
+
+  describe('buildTimeSeries', () => {
+    it('should sum rows into periods and fill empty ones', () => {
+      const series = buildTimeSeries(
+        [
+          { date: '2026-06-01', ...funnel({ sent: 4, clicked: 1 }) },
+          { date: '2026-06-03', ...funnel({ sent: 6, clicked: 4 }) },
+          { date: '2026-05-01', ...funnel({ sent: 100 }) },
+        ],
+        { from: '2026-06-01', to: '2026-06-14', interval: 'week' }
+      );
+
+      expect(series.map(point => point.period)).toEqual(['2026-06-01', '2026-06-08']);
+      expect(series[0]).toMatchObject({ sent: 10, clicked: 5, clickThroughRate: 50 });
+      expect(series[1]).toMatchObject({ sent: 0, clickThroughRate: 0 });
+    });
+  });
+
+  describe('percentChange', () => {
+    it('should return null when there is nothing to compare with', () => {
+      expect(percentChange(5, 0)).toBeNull();
+      expect(percentChange(15, 10)).toBe(50);
+      expect(percentChange(5, 10)).toBe(-50);
+    });
+  });
+
+  describe('compareFunnels', () => {
+    it('should compare counts and rates with the previous period', () => {
+      const deltas = compareFunnels(
+        funnel({ sent: 20, clicked: 10, completed: 4 }),
+        funnel({ sent: 10, clicked: 2, completed: 0 })
+      );
+
+      expect(deltas.sent).toEqual({ current: 20, previous: 10, change: 100 });
+      expect(deltas.clickThroughRate).toEqual({ current: 50, previous: 20, change: 150 });
+      expect(deltas.completed.change).toBeNull();
+    });
+  });
+
+  describe('summariseClickDelays', () => {
+    it('should report shares, the average and the median bucket', () => {
+      const summary = summariseClickDelays(
+        funnel({ clickDelayBuckets: [1, 0, 2, 1, 0, 0, 0], clickDelayTotalSeconds: 4000 })
+      );
+
+      expect(summary.buckets[0]).toMatchObject({ count: 1, share: 25 });
+      expect(summary.buckets[2]).toMatchObject({ count: 2, share: 50 });
+      expect(summary.averageSeconds).toBe(1000);
+      expect(summary.medianBucket).toBe('1–6 hours');
+    });
+
+    it('should have no average or median without clicks', () => {
+      const summary = summariseClickDelays(emptyFunnel());
+
+      expect(summary.averageSeconds).toBeNull();
+      expect(summary.medianBucket).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  dedupeCustomerIds,
+  DEFAULT_CONTACT_POLICY,
+  getContactBlock,
+  getContactPolicy,
+  parseContactBlock,
+} from '../contact-policy';
+
+const now = new Date('2026-06-01T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+describe('Contact Policy', () => {
+  describe('getContactPolicy', () => {
+    it('should leave the policy off for businesses that never set one', () => {
+      expect(getContactPolicy(null).enabled).toBe(false);
+      expect(getContactPolicy({ enabled: true }).enabled).toBe(true);
+    });
+
+    it('should fill missing settings from the defaults', () => {
+      expect(getContactPolicy(null)).toEqual(DEFAULT_CONTACT_POLICY);
+      expect(getContactPolicy({ maxRequests: 3 })).toEqual({
+        ...DEFAULT_CONTACT_POLICY,
+        maxRequests: 3,
+      });
+    });
+  });
+
+  describe('getContactBlock', () => {
+    const policy = { enabled: true, maxRequests: 2, windowDays: 7, skipIfEngaged: true };
+
+    it('should cap requests within the rolling window', () => {
+      const previous = [
+        { status: 'SENT' as const, createdAt: daysAgo(1) },
+        { status: 'QUEUED' as const, createdAt: daysAgo(3) },
+      ];
+
+      expect(getContactBlock(policy, previous, now)?.code).toBe('FREQUENCY_CAPPED');
+      expect(getContactBlock(policy, previous.slice(0, 1), now)).toBeNull();
+    });
+
+    it('should ignore requests outside the window or that never reached the customer', () => {
+      const previous = [
+        { status: 'SENT' as const, createdAt: daysAgo(10) },
+        { status: 'FAILED' as const, createdAt: daysAgo(1) },
+        { status: 'BOUNCED' as const, createdAt: daysAgo(2) },
+      ];
+
+      expect(getContactBlock(policy, previous, now)).toBeNull();
+    });
+
+    it('should skip customers who already engaged, however long ago', () => {
+      const previous = [{ status: 'COMPLETED' as const, createdAt: daysAgo(200) }];
+
+      expect(getContactBlock(policy, previous, now)?.code).toBe('ALREADY_ENGAGED');
+      expect(getContactBlock({ ...policy, skipIfEngaged: false }, previous, now)).toBeNull();
+    });
+
+    it('should allow everything when the policy is off', () => {
+      const previous = [{ status: 'CLICKED' as const, createdAt: daysAgo(1) }];
+
+      expect(getContactBlock({ ...policy, enabled: false }, previous, now)).toBeNull();
+    });
+  });
+
+  describe('dedupeCustomerIds', () => {
+    it('should keep the first occurrence and report repeats', () => {
+      expect(dedupeCustomerIds(['a', 'b', 'a', 'c', 'a'])).toEqual({
+        unique: ['a', 'b', 'c'],
+        duplicates: ['a', 'a'],
+      });
+    });
+  });
+
+  describe('parseContactBlock', () => {
+    it('should recognise contact policy errors only', () => {
+      expect(parseContactBlock('FREQUENCY_CAPPED: Customer already has 1 review request')).toEqual({
+        code: 'FREQUENCY_CAPPED',
+        message: 'Customer already has 1 review request',
+      });
+      expect(parseContactBlock('Contact is suppressed: opted out')).toBeNull();
+    });
+  });
+});
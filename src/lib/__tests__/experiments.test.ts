@@ -0,0 +1,105 @@
+import {
+  decideExperiment,
+  resolveExperimentSettings,
+  splitExperimentRecipients,
+  twoProportionPValue,
+} from '../experiments';
+
+describe('Experiments', () => {
+  describe('twoProportionPValue', () => {
+    it('should match the textbook z-test', () => {
+      // 20% vs 10% on 200 each: z ≈ 2.80, p ≈ 0.005
+      const p = twoProportionPValue(
+        { id: 'a', sent: 200, conversions: 40 },
+        { id: 'b', sent: 200, conversions: 20 }
+      );
+
+      expect(p).toBeGreaterThan(0.004);
+      expect(p).toBeLessThan(0.006);
+    });
+
+    it('should return 1 when there is nothing to compare', () => {
+      expect(
+        twoProportionPValue(
+          { id: 'a', sent: 0, conversions: 0 },
+          { id: 'b', sent: 10, conversions: 1 }
+        )
+      ).toBe(1);
+      expect(
+        twoProportionPValue(
+          { id: 'a', sent: 10, conversions: 0 },
+          { id: 'b', sent: 10, conversions: 0 }
+        )
+      ).toBe(1);
+    });
+  });
+
+  describe('decideExperiment', () => {
+    const settings = { minSamplePerVariant: 100, confidence: 0.95 };
+
+    it('should keep collecting until every variant has the minimum sample', () => {
+      expect(
+        decideExperiment(
+          [
+            { id: 'a', sent: 150, conversions: 60 },
+            { id: 'b', sent: 99, conversions: 5 },
+          ],
+          settings
+        ).status
+      ).toBe('collecting');
+    });
+
+    it('should pick a clear leader', () => {
+      const decision = decideExperiment(
+        [
+          { id: 'a', sent: 200, conversions: 20 },
+          { id: 'b', sent: 200, conversions: 40 },
+        ],
+        settings
+      );
+
+      expect(decision.status).toBe('significant');
+      expect(decision.winnerId).toBe('b');
+    });
+
+    it('should correct for comparing several variants', () => {
+      // Significant at 0.05 for one comparison, but not at 0.025 for two
+      const decision = decideExperiment(
+        [
+          { id: 'a', sent: 400, conversions: 60 },
+          { id: 'b', sent: 400, conversions: 82 },
+          { id: 'c', sent: 400, conversions: 20 },
+        ],
+        settings
+      );
+
+      expect(decision.pValue).toBeGreaterThan(0.025);
+      expect(decision.pValue).toBeLessThan(0.05);
+      expect(decision.status).toBe('inconclusive');
+      expect(decision.leaderId).toBe('b');
+    });
+  });
+
+  describe('splitExperimentRecipients', () => {
+    const recipients = Array.from({ length: 1000 }, (_, i) => i);
+
+    it('should deal everyone evenly when not picking a winner', () => {
+      const { assignments, holdout } = splitExperimentRecipients(recipients, 2, {
+        ...resolveExperimentSettings(null),
+        autoSelectWinner: false,
+      });
+
+      expect(holdout).toHaveLength(0);
+      expect(assignments.filter(a => a.variantIndex === 0)).toHaveLength(500);
+      expect(new Set(assignments.map(a => a.recipient)).size).toBe(1000);
+    });
+
+    it('should hold back everyone outside the test share', () => {
+      const settings = { autoSelectWinner: true, testPercent: 20, minSamplePerVariant: 50 };
+
+      expect(splitExperimentRecipients(recipients, 2, settings).holdout).toHaveLength(800);
+      // The minimum sample wins over a small test share
+      expect(splitExperimentRecipients(recipients, 5, settings).holdout).toHaveLength(750);
+    });
+  });
+});
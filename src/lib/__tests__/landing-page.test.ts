@@ -0,0 +1,51 @@
+import {
+  getReviewPlatformLinks,
+  renderLandingPage,
+  resolveLandingPageSettings,
+} from '../landing-page';
+
+describe('Landing Page', () => {
+  describe('getReviewPlatformLinks', () => {
+    it('should list only the platforms the business has a link for', () => {
+      expect(
+        getReviewPlatformLinks('https://g.page/r/abc/review', {
+          facebookUrl: 'https://facebook.com/acme/reviews',
+          trustpilotUrl: '',
+        })
+      ).toEqual([
+        { platform: 'google', label: 'Google', url: 'https://g.page/r/abc/review' },
+        { platform: 'facebook', label: 'Facebook', url: 'https://facebook.com/acme/reviews' },
+      ]);
+    });
+  });
+
+  describe('renderLandingPage', () => {
+    const settings = resolveLandingPageSettings({ enabled: true });
+    const content = {
+      businessName: 'Acme <Plumbing>',
+      customerFirstName: 'Jo',
+      settings,
+      platforms: getReviewPlatformLinks('https://g.page/r/abc/review', {
+        trustpilotUrl: 'https://www.trustpilot.com/evaluate/acme.com',
+      }),
+      photoUrl: null,
+      feedbackAction: '/r/abc/feedback',
+    };
+
+    it('should offer every platform and the feedback form with the same style', () => {
+      const html = renderLandingPage(content);
+
+      expect(html.match(/class="option"/g)).toHaveLength(3);
+      expect(html).toContain('Review us on Google');
+      expect(html).toContain('Review us on Trustpilot');
+      expect(html).toContain('action="/r/abc/feedback"');
+    });
+
+    it('should escape business-provided text', () => {
+      const html = renderLandingPage(content);
+
+      expect(html).toContain('Acme &lt;Plumbing&gt;');
+      expect(html).not.toContain('<Plumbing>');
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { buildOpenApiDocument, zodToJsonSchema, zodToQueryParameters } from '../openapi';
+
+describe('OpenAPI', () => {
+  describe('zodToJsonSchema', () => {
+    it('should describe objects with required and optional fields', () => {
+      const schema = z.object({
+        name: z.string().min(1).max(60),
+        email: z.string().email().optional(),
+        count: z.number().int().min(0),
+        channel: z.enum(['SMS', 'EMAIL']),
+      });
+
+      expect(zodToJsonSchema(schema)).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1, maxLength: 60 },
+          email: { type: 'string', format: 'email' },
+          count: { type: 'integer', minimum: 0 },
+          channel: { type: 'string', enum: ['SMS', 'EMAIL'] },
+        },
+        required: ['name', 'count', 'channel'],
+      });
+    });
+
+    it('should describe the input of refined and defaulted schemas', () => {
+      const schema = z
+        .object({ tags: z.array(z.string()).max(5).default([]) })
+        .refine(data => data.tags.length > 0);
+
+      expect(zodToJsonSchema(schema)).toEqual({
+        type: 'object',
+        properties: {
+          tags: { type: 'array', items: { type: 'string' }, maxItems: 5, default: [] },
+        },
+      });
+    });
+  });
+
+  describe('zodToQueryParameters', () => {
+    it('should list each field as a query parameter', () => {
+      const parameters = zodToQueryParameters(
+        z.object({ page: z.number().default(1), search: z.string() })
+      );
+
+      expect(parameters).toEqual([
+        { name: 'page', in: 'query', required: false, schema: { type: 'number', default: 1 } },
+        { name: 'search', in: 'query', required: true, schema: { type: 'string' } },
+      ]);
+    });
+  });
+
+  describe('buildOpenApiDocument', () => {
+    it('should serve the v1 paths from the given origin', () => {
+      const document = buildOpenApiDocument('https://app.example.com');
+
+      expect(document.servers).toEqual([{ url: 'https://app.example.com/api/v1' }]);
+      expect(Object.keys(document.paths as object)).toEqual([
+        '/customers',
+        '/customers/{id}',
+        '/review-requests',
+        '/review-requests/{id}',
+        '/events',
+      ]);
+    });
+  });
+});
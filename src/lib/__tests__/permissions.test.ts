@@ -0,0 +1,38 @@
+import { canManageMember, hasPermission } from '../permissions';
+
+describe('Permissions', () => {
+  describe('hasPermission', () => {
+    it('should let members send requests but not change settings or the team', () => {
+      expect(hasPermission('MEMBER', 'requests:send')).toBe(true);
+      expect(hasPermission('MEMBER', 'customers:write')).toBe(true);
+      expect(hasPermission('MEMBER', 'business:manage')).toBe(false);
+      expect(hasPermission('MEMBER', 'templates:write')).toBe(false);
+      expect(hasPermission('MEMBER', 'team:manage')).toBe(false);
+    });
+
+    it('should give admins and owners every permission', () => {
+      expect(hasPermission('ADMIN', 'business:manage')).toBe(true);
+      expect(hasPermission('ADMIN', 'team:manage')).toBe(true);
+      expect(hasPermission('OWNER', 'campaigns:manage')).toBe(true);
+    });
+  });
+
+  describe('canManageMember', () => {
+    it('should not let members manage anyone', () => {
+      expect(canManageMember('MEMBER', null, 'MEMBER')).toBe(false);
+      expect(canManageMember('MEMBER', 'MEMBER')).toBe(false);
+    });
+
+    it('should let admins manage admins and members but never owners', () => {
+      expect(canManageMember('ADMIN', 'MEMBER', 'ADMIN')).toBe(true);
+      expect(canManageMember('ADMIN', null, 'ADMIN')).toBe(true);
+      expect(canManageMember('ADMIN', 'OWNER')).toBe(false);
+      expect(canManageMember('ADMIN', 'MEMBER', 'OWNER')).toBe(false);
+    });
+
+    it('should let owners manage everyone', () => {
+      expect(canManageMember('OWNER', 'OWNER', 'ADMIN')).toBe(true);
+      expect(canManageMember('OWNER', null, 'OWNER')).toBe(true);
+    });
+  });
+});
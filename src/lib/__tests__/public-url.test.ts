@@ -0,0 +1,44 @@
+import { isPrivateAddress, isPublicHostname } from '../public-url';
+
+describe('Public URLs', () => {
+  describe('isPrivateAddress', () => {
+    it('should flag private, loopback and link-local addresses', () => {
+      expect(isPrivateAddress('10.1.2.3')).toBe(true);
+      expect(isPrivateAddress('127.0.0.1')).toBe(true);
+      expect(isPrivateAddress('169.254.169.254')).toBe(true);
+      expect(isPrivateAddress('172.31.255.255')).toBe(true);
+      expect(isPrivateAddress('192.168.0.10')).toBe(true);
+      expect(isPrivateAddress('::1')).toBe(true);
+      expect(isPrivateAddress('fd00::1')).toBe(true);
+      expect(isPrivateAddress('fe80::1')).toBe(true);
+    });
+
+    it('should see through IPv4-mapped IPv6 addresses', () => {
+      expect(isPrivateAddress('::ffff:127.0.0.1')).toBe(true);
+      expect(isPrivateAddress('::ffff:93.184.216.34')).toBe(false);
+    });
+
+    it('should allow public addresses', () => {
+      expect(isPrivateAddress('93.184.216.34')).toBe(false);
+      expect(isPrivateAddress('172.32.0.1')).toBe(false);
+      expect(isPrivateAddress('2606:2800:220:1:248:1893:25c8:1946')).toBe(false);
+    });
+  });
+
+  describe('isPublicHostname', () => {
+    it('should reject local names and private address literals', () => {
+      expect(isPublicHostname('localhost')).toBe(false);
+      expect(isPublicHostname('api.localhost')).toBe(false);
+      expect(isPublicHostname('db.internal')).toBe(false);
+      expect(isPublicHostname('printer.local')).toBe(false);
+      expect(isPublicHostname('redis')).toBe(false);
+      expect(isPublicHostname('10.0.0.5')).toBe(false);
+      expect(isPublicHostname('[::1]')).toBe(false);
+    });
+
+    it('should accept public names and addresses', () => {
+      expect(isPublicHostname('hooks.example.com')).toBe(true);
+      expect(isPublicHostname('93.184.216.34')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import {
+  chooseReviewDestination,
+  FALLBACK_REVIEW_URL,
+  pickWeightedDestination,
+} from '../review-destinations';
+
+const destinations = [
+  { id: 'google', url: 'https://g.page/r/abc/review', weight: 3 },
+  { id: 'trustpilot', url: 'https://uk.trustpilot.com/evaluate/acme.co.uk', weight: 1 },
+  { id: 'yell', url: 'https://www.yell.com/biz/acme/reviews', weight: 0 },
+];
+
+describe('Review Destinations', () => {
+  describe('pickWeightedDestination', () => {
+    it('should pick destinations in proportion to their weight', () => {
+      expect(pickWeightedDestination(destinations, () => 0)?.id).toBe('google');
+      expect(pickWeightedDestination(destinations, () => 0.74)?.id).toBe('google');
+      expect(pickWeightedDestination(destinations, () => 0.75)?.id).toBe('trustpilot');
+      expect(pickWeightedDestination(destinations, () => 0.99)?.id).toBe('trustpilot');
+    });
+
+    it('should never pick a destination weighted zero', () => {
+      expect(pickWeightedDestination([destinations[2]!], () => 0)).toBeNull();
+    });
+  });
+
+  describe('chooseReviewDestination', () => {
+    it('should use a pinned destination even when it is out of rotation', () => {
+      expect(
+        chooseReviewDestination(destinations, { pinnedDestinationId: 'yell' }, () => 0)
+      ).toEqual({ destinationId: 'yell', url: 'https://www.yell.com/biz/acme/reviews' });
+    });
+
+    it('should rotate when the pinned destination is no longer active', () => {
+      expect(
+        chooseReviewDestination(destinations, { pinnedDestinationId: 'deleted' }, () => 0.9)
+      ).toEqual({
+        destinationId: 'trustpilot',
+        url: 'https://uk.trustpilot.com/evaluate/acme.co.uk',
+      });
+    });
+
+    it('should fall back to the Google review URL without destinations', () => {
+      expect(chooseReviewDestination([], { fallbackUrl: 'https://g.page/r/xyz/review' })).toEqual({
+        destinationId: null,
+        url: 'https://g.page/r/xyz/review',
+      });
+      expect(chooseReviewDestination([], {})).toEqual({
+        destinationId: null,
+        url: FALLBACK_REVIEW_URL,
+      });
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { getSendingHours, getUkBankHolidays, resolveSendTime } from '../sending-window';
+
+describe('Sending Window', () => {
+  const business = { timezone: 'Europe/London', sendingHours: null };
+
+  describe('getUkBankHolidays', () => {
+    it('should calculate Easter and substitute days', () => {
+      expect(getUkBankHolidays(2026).map(holiday => holiday.date)).toEqual([
+        '2026-01-01',
+        '2026-04-03',
+        '2026-04-06',
+        '2026-05-04',
+        '2026-05-25',
+        '2026-08-31',
+        '2026-12-25',
+        '2026-12-28',
+      ]);
+    });
+
+    it('should apply one-off moved and extra bank holidays', () => {
+      const dates = getUkBankHolidays(2022).map(holiday => holiday.date);
+
+      expect(dates).toContain('2022-01-03');
+      expect(dates).toContain('2022-06-02');
+      expect(dates).toContain('2022-06-03');
+      expect(dates).toContain('2022-09-19');
+      expect(dates).toContain('2022-12-27');
+      expect(dates).not.toContain('2022-05-30');
+    });
+  });
+
+  describe('getSendingHours', () => {
+    it('should merge stored settings with the defaults', () => {
+      const settings = getSendingHours({ avoidWeekends: true, quietHours: { enabled: false } });
+
+      expect(settings.avoidWeekends).toBe(true);
+      expect(settings.quietHours).toEqual({ start: '21:00', end: '08:00', enabled: false });
+      expect(settings.businessHours.monday).toEqual({
+        start: '09:00',
+        end: '17:00',
+        enabled: true,
+      });
+    });
+  });
+
+  describe('resolveSendTime', () => {
+    it('should send immediately inside business hours', () => {
+      const result = resolveSendTime(business, null, { now: new Date('2026-03-03T10:00:00Z') });
+
+      expect(result).toEqual({ scheduledFor: null, rescheduleReason: null });
+    });
+
+    it('should keep a scheduled time that is already allowed', () => {
+      const requestedAt = new Date('2026-03-05T11:30:00Z');
+
+      expect(resolveSendTime(business, requestedAt).scheduledFor).toEqual(requestedAt);
+    });
+
+    it('should move evening sends to the next opening time', () => {
+      const result = resolveSendTime(business, null, { now: new Date('2026-03-03T19:00:00Z') });
+
+      expect(result.scheduledFor).toEqual(new Date('2026-03-04T09:00:00Z'));
+      expect(result.rescheduleReason).toBe('Outside business hours - moved to 2026-03-04 09:00');
+    });
+
+    it('should skip bank holidays and closed weekends in local time', () => {
+      // Good Friday, then a closed weekend and Easter Monday; BST is UTC+1
+      const result = resolveSendTime(business, new Date('2026-04-03T09:00:00Z'));
+
+      expect(result.scheduledFor).toEqual(new Date('2026-04-07T08:00:00Z'));
+      expect(result.rescheduleReason).toMatch(/^Bank holiday \(Good Friday\)/);
+    });
+
+    it('should apply quiet hours when business hours are ignored', () => {
+      const result = resolveSendTime(business, new Date('2026-03-03T22:00:00Z'), {
+        respectBusinessHours: false,
+      });
+
+      expect(result.scheduledFor).toEqual(new Date('2026-03-04T08:00:00Z'));
+      expect(result.rescheduleReason).toMatch(/^Quiet hours \(21:00-08:00\)/);
+    });
+
+    it('should use the business time zone', () => {
+      const result = resolveSendTime(
+        { timezone: 'America/New_York', sendingHours: null },
+        new Date('2026-03-03T10:00:00Z')
+      );
+
+      expect(result.scheduledFor).toEqual(new Date('2026-03-03T14:00:00Z'));
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { calculateSmsSegments, toGsmSafe } from '../sms-segments';
+
+describe('SMS Segments', () => {
+  describe('calculateSmsSegments', () => {
+    it('should fit 160 GSM-7 characters in one segment and 153 per part after that', () => {
+      expect(calculateSmsSegments('a'.repeat(160))).toMatchObject({
+        encoding: 'GSM-7',
+        segmentCount: 1,
+        remainingInSegment: 0,
+      });
+      expect(calculateSmsSegments('a'.repeat(161)).segmentCount).toBe(2);
+      expect(calculateSmsSegments('a'.repeat(306)).segmentCount).toBe(2);
+      expect(calculateSmsSegments('a'.repeat(307)).segmentCount).toBe(3);
+    });
+
+    it('should count GSM extension characters as two septets', () => {
+      const result = calculateSmsSegments('€'.repeat(80));
+
+      expect(result).toMatchObject({ encoding: 'GSM-7', characterCount: 80, units: 160 });
+      expect(calculateSmsSegments('€'.repeat(81)).segmentCount).toBe(2);
+    });
+
+    it('should not split an escape pair across segments', () => {
+      // 152 septets then a two-septet euro sign: the euro starts the second part
+      const result = calculateSmsSegments('a'.repeat(152) + '€' + 'a'.repeat(10));
+
+      expect(result.segmentCount).toBe(2);
+      expect(result.remainingInSegment).toBe(153 - 12);
+    });
+
+    it('should switch to UCS-2 and report the characters that caused it', () => {
+      const result = calculateSmsSegments(
+        `Thanks for visiting – we’d love a review! 😀 ${'a'.repeat(30)}`
+      );
+
+      expect(result.encoding).toBe('UCS-2');
+      expect(result.unicodeCharacters).toEqual(['–', '’', '😀']);
+      expect(result.segmentCount).toBe(2);
+    });
+
+    it('should count emoji as two UCS-2 units', () => {
+      expect(calculateSmsSegments('😀'.repeat(35))).toMatchObject({ units: 70, segmentCount: 1 });
+      expect(calculateSmsSegments('😀'.repeat(36)).segmentCount).toBe(2);
+    });
+  });
+
+  describe('toGsmSafe', () => {
+    it('should transliterate punctuation and accents but keep GSM letters', () => {
+      const result = toGsmSafe('“Zoë” – it’s… Café? Ça va? Olá');
+
+      expect(result.text).toBe('"Zoe" - it\'s... Café? Ça va? Ola');
+      expect(result.replacements).toBe(7);
+      expect(result.unicodeCharacters).toEqual([]);
+      expect(calculateSmsSegments(result.text).encoding).toBe('GSM-7');
+    });
+
+    it('should leave characters without a GSM equivalent and report them', () => {
+      const result = toGsmSafe('Thanks {{firstName}} 🙏');
+
+      expect(result.text).toBe('Thanks {{firstName}} 🙏');
+      expect(result.replacements).toBe(0);
+      expect(result.unicodeCharacters).toEqual(['🙏']);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { deflateRawSync } from 'zlib';
+import { MAX_SPREADSHEET_ROWS, parseSpreadsheet } from '../spreadsheet';
+
+// Minimal deflate zip writer - just enough structure for the reader under test
+function buildXlsx(files: Record<string, string | Buffer>): Buffer {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuffer = Buffer.from(name);
+    const data = deflateRawSync(Buffer.isBuffer(content) ? content : Buffer.from(content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    locals.push(local, nameBuffer, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt16LE(nameBuffer.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, nameBuffer);
+
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+const sheet = (rows: string) =>
+  buildXlsx({
+    'xl/worksheets/sheet1.xml': `<worksheet><sheetData>${rows}</sheetData></worksheet>`,
+  });
+
+describe('Spreadsheet Parser', () => {
+  describe('parseSpreadsheet (CSV)', () => {
+    it('should read quoted fields and drop blank lines', () => {
+      expect(
+        parseSpreadsheet(
+          'customers.csv',
+          Buffer.from('Name,Notes\n"Smith, Jane","Said ""hi"""\n\n')
+        )
+      ).toEqual({
+        headers: ['Name', 'Notes'],
+        rows: [['Smith, Jane', 'Said "hi"']],
+      });
+    });
+  });
+
+  describe('parseSpreadsheet (XLSX)', () => {
+    it('should read inline strings and decode decimal and hex entities', () => {
+      const file = sheet(
+        '<row r="1"><c r="A1" t="inlineStr"><is><t>Name</t></is></c></row>' +
+          '<row r="2"><c r="A2" t="inlineStr"><is><t>Caf&#233; &#x1F600; &amp; Co</t></is></c></row>'
+      );
+
+      expect(parseSpreadsheet('customers.xlsx', file)).toEqual({
+        headers: ['Name'],
+        rows: [['Café 😀 & Co']],
+      });
+    });
+
+    it('should keep rows in document order regardless of their row numbers', () => {
+      const file = sheet(
+        '<row r="1"><c r="A1" t="inlineStr"><is><t>Name</t></is></c></row>' +
+          '<row r="5000000"><c r="A5000000" t="inlineStr"><is><t>Jane</t></is></c></row>'
+      );
+
+      expect(parseSpreadsheet('customers.xlsx', file).rows).toEqual([['Jane']]);
+    });
+
+    it('should refuse sheets with too many rows or columns', () => {
+      const rows = '<row><c t="inlineStr"><is><t>x</t></is></c></row>'.repeat(
+        MAX_SPREADSHEET_ROWS + 1
+      );
+      expect(() => parseSpreadsheet('customers.xlsx', sheet(rows))).toThrow(/more than/);
+
+      const wide = sheet('<row r="1"><c r="ZZZZ1" t="inlineStr"><is><t>x</t></is></c></row>');
+      expect(() => parseSpreadsheet('customers.xlsx', wide)).toThrow(/columns/);
+    });
+
+    it('should refuse parts that inflate past the size limit', () => {
+      const bomb = buildXlsx({
+        'xl/worksheets/sheet1.xml': Buffer.alloc(60 * 1024 * 1024, ' '),
+      });
+
+      expect(() => parseSpreadsheet('customers.xlsx', bomb)).toThrow(
+        'Workbook is too large to import'
+      );
+    });
+
+    it('should not inflate parts the parser does not need', () => {
+      const file = buildXlsx({
+        'xl/media/image1.png': Buffer.alloc(60 * 1024 * 1024),
+        'xl/worksheets/sheet1.xml':
+          '<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>Name</t></is></c></row></sheetData></worksheet>',
+      });
+
+      expect(parseSpreadsheet('customers.xlsx', file).headers).toEqual(['Name']);
+    });
+  });
+});
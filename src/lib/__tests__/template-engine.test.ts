@@ -0,0 +1,127 @@
+import {
+  extractTemplateVariables,
+  renderTemplate,
+  TemplateSyntaxError,
+  validateTemplate,
+} from '../template-engine';
+
+describe('Template Engine', () => {
+  describe('renderTemplate', () => {
+    it('should substitute variables and tolerate whitespace inside tags', () => {
+      expect(
+        renderTemplate('Hi {{ firstName }}, from {{businessName}}', {
+          firstName: 'Sarah',
+          businessName: 'Acme Plumbing',
+        })
+      ).toBe('Hi Sarah, from Acme Plumbing');
+    });
+
+    it('should fall back to defaults for missing or blank values', () => {
+      const template = 'Hi {{firstName | default: "there"}}!';
+
+      expect(renderTemplate(template, {})).toBe('Hi there!');
+      expect(renderTemplate(template, { firstName: '  ' })).toBe('Hi there!');
+      expect(renderTemplate(template, { firstName: 'Sam' })).toBe('Hi Sam!');
+    });
+
+    it('should render if/else blocks, including nested ones', () => {
+      const template =
+        '{{#if lastName}}Dear {{firstName}} {{lastName}}{{else}}Hi {{firstName}}{{/if}}' +
+        '{{#if serviceType}} - {{#if serviceDate}}{{serviceDate}}{{/if}}{{/if}}';
+
+      expect(renderTemplate(template, { firstName: 'Sam', lastName: 'Lee' })).toBe('Dear Sam Lee');
+      expect(
+        renderTemplate(template, { firstName: 'Sam', serviceType: 'Repair', serviceDate: 'today' })
+      ).toBe('Hi Sam - today');
+    });
+
+    it('should chain case filters', () => {
+      const values = { name: "mary-jane o'neil" };
+
+      expect(renderTemplate('{{name | upper}}', values)).toBe("MARY-JANE O'NEIL");
+      expect(renderTemplate('{{name | title}}', values)).toBe("Mary-Jane O'neil");
+      expect(renderTemplate('{{name | capitalize}}', values)).toBe("Mary-jane o'neil");
+      expect(renderTemplate('{{name | default: "x" | upper}}', { name: '' })).toBe('X');
+    });
+
+    it('should format dates in the requested time zone', () => {
+      const serviceDate = new Date('2024-03-15T23:30:00Z');
+
+      expect(renderTemplate('{{serviceDate}}', { serviceDate }, { timeZone: 'UTC' })).toBe(
+        '15 March 2024'
+      );
+      expect(
+        renderTemplate(
+          '{{serviceDate | date: "short"}}',
+          { serviceDate },
+          { timeZone: 'Asia/Tokyo' }
+        )
+      ).toBe('16/03/2024');
+      expect(renderTemplate('{{serviceDate | date: "iso"}}', { serviceDate: '2024-03-15' })).toBe(
+        '2024-03-15'
+      );
+      expect(renderTemplate('{{serviceDate | date}}', { serviceDate: 'next week' })).toBe(
+        'next week'
+      );
+    });
+
+    it('should escape values but not template markup in HTML mode', () => {
+      const template = '<p>Hi {{firstName}}</p>';
+      const values = { firstName: '<script>alert("x")</script>' };
+
+      expect(renderTemplate(template, values, { escape: 'html' })).toBe(
+        '<p>Hi &lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</p>'
+      );
+      expect(renderTemplate(template, values)).toBe('<p>Hi <script>alert("x")</script></p>');
+    });
+
+    it('should never read values from the object prototype', () => {
+      expect(renderTemplate('[{{constructor}}][{{toString}}]', {})).toBe('[][]');
+    });
+
+    it('should throw syntax errors for malformed templates', () => {
+      expect(() => renderTemplate('Hi {{firstName', {})).toThrow(TemplateSyntaxError);
+      expect(() => renderTemplate('{{#if firstName}}Hi', {})).toThrow('missing its {{/if}}');
+      expect(() => renderTemplate('Hi{{/if}}', {})).toThrow('Unexpected');
+      expect(() => renderTemplate('{{firstName | shout}}', {})).toThrow('Unknown filter "shout"');
+      expect(() => renderTemplate('{{firstName | default}}', {})).toThrow('needs a value');
+      expect(() => renderTemplate('{{first name}}', {})).toThrow('Invalid variable name');
+    });
+  });
+
+  describe('extractTemplateVariables', () => {
+    it('should list each variable once, including block conditions', () => {
+      expect(
+        extractTemplateVariables(
+          '{{#if lastName}}{{firstName}} {{lastName | upper}}{{/if}} {{firstName}}'
+        )
+      ).toEqual(['lastName', 'firstName']);
+    });
+  });
+
+  describe('validateTemplate', () => {
+    const known = ['firstName', 'businessName', 'reviewUrl'];
+
+    it('should accept templates that only use known variables', () => {
+      const result = validateTemplate(
+        ['Hi {{firstName | default: "there"}}', 'Review {{businessName}}: {{reviewUrl}}'],
+        known
+      );
+
+      expect(result.valid).toBe(true);
+      expect(result.errors).toEqual([]);
+      expect(result.variables).toEqual(['firstName', 'businessName', 'reviewUrl']);
+    });
+
+    it('should name unknown variables and report syntax errors', () => {
+      const result = validateTemplate(['Hi {{frstName}}', '{{#if firstName}}'], known);
+
+      expect(result.valid).toBe(false);
+      expect(result.unknownVariables).toEqual(['frstName']);
+      expect(result.errors).toEqual([
+        'Invalid template syntax: {{#if firstName}} is missing its {{/if}} (at character 1)',
+        'Invalid personalization variables: {{frstName}}',
+      ]);
+    });
+  });
+});
@@ -3,6 +3,7 @@ import {
   generateUnsubscribeUrl,
   isValidEmail,
   isValidUKPhone,
+  normalizePhoneNumber,
 } from '../utils';
 
 describe('Utils Library', () => {
@@ -84,4 +85,22 @@ describe('Utils Library', () => {
       expect(isValidUKPhone(undefined as any)).toBe(false);
     });
   });
+
+  describe('normalizePhoneNumber', () => {
+    it('should convert national UK numbers to +44 format', () => {
+      expect(normalizePhoneNumber('07700 900123')).toBe('+447700900123');
+      expect(normalizePhoneNumber('020 7946 0958')).toBe('+442079460958');
+    });
+
+    it('should normalise international UK formats', () => {
+      expect(normalizePhoneNumber('+44 7700 900123')).toBe('+447700900123');
+      expect(normalizePhoneNumber('0044 7700 900123')).toBe('+447700900123');
+      expect(normalizePhoneNumber('+44 (0)7700 900123')).toBe('+447700900123');
+    });
+
+    it('should return numbers it cannot normalise unchanged', () => {
+      expect(normalizePhoneNumber('+1 555 0100')).toBe('+1 555 0100');
+      expect(normalizePhoneNumber('123')).toBe('123');
+    });
+  });
 });
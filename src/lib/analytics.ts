@@ -0,0 +1,234 @@
+/**
+ * Review request analytics
+ *
+ * Funnels are counted per cohort: a request's delivery, click and review count towards the
+ * day it was created, in the business's time zone. Daily rollups are summed into day, week
+ * or month periods and compared with the period of the same length just before.
+ */
+
+export type TrendInterval = 'day' | 'week' | 'month';
+
+export interface FunnelCounts {
+  requested: number;
+  sent: number;
+  delivered: number;
+  clicked: number;
+  completed: number;
+  bounced: number;
+  optedOut: number;
+  failed: number;
+  clickDelayBuckets: number[]; // Clicks per CLICK_DELAY_BUCKETS entry
+  clickDelayTotalSeconds: number;
+}
+
+export interface FunnelRates {
+  deliveryRate: number;
+  clickThroughRate: number;
+  completionRate: number;
+  bounceRate: number;
+  optOutRate: number;
+}
+
+export type TrendPoint = { period: string } & FunnelCounts & FunnelRates;
+
+export interface MetricDelta {
+  current: number;
+  previous: number;
+  change: number | null; // Percent, null when the previous period had none
+}
+
+export interface ClickDelayDistribution {
+  buckets: Array<{ label: string; maxSeconds: number | null; count: number; share: number }>;
+  averageSeconds: number | null;
+  medianBucket: string | null;
+}
+
+/** Upper bounds of the time-to-click histogram, measured from when the request was sent */
+export const CLICK_DELAY_BUCKETS: Array<{ label: string; maxSeconds: number | null }> = [
+  { label: 'Under 5 minutes', maxSeconds: 5 * 60 },
+  { label: '5–60 minutes', maxSeconds: 60 * 60 },
+  { label: '1–6 hours', maxSeconds: 6 * 60 * 60 },
+  { label: '6–24 hours', maxSeconds: 24 * 60 * 60 },
+  { label: '1–3 days', maxSeconds: 3 * 24 * 60 * 60 },
+  { label: '3–7 days', maxSeconds: 7 * 24 * 60 * 60 },
+  { label: '7 days or more', maxSeconds: null },
+];
+
+export const DELTA_METRICS = [
+  'sent',
+  'clicked',
+  'completed',
+  'clickThroughRate',
+  'completionRate',
+] as const;
+
+export type DeltaMetric = (typeof DELTA_METRICS)[number];
+
+const COUNT_FIELDS = [
+  'requested',
+  'sent',
+  'delivered',
+  'clicked',
+  'completed',
+  'bounced',
+  'optedOut',
+  'failed',
+] as const;
+
+const rate = (part: number, whole: number) => (whole > 0 ? (part / whole) * 100 : 0);
+
+export function emptyFunnel(): FunnelCounts {
+  return {
+    requested: 0,
+    sent: 0,
+    delivered: 0,
+    clicked: 0,
+    completed: 0,
+    bounced: 0,
+    optedOut: 0,
+    failed: 0,
+    clickDelayBuckets: CLICK_DELAY_BUCKETS.map(() => 0),
+    clickDelayTotalSeconds: 0,
+  };
+}
+
+/**
+ * Sum two sets of funnel counts
+ */
+export function addFunnel(total: FunnelCounts, row: FunnelCounts): FunnelCounts {
+  const sum = { ...total };
+  for (const field of COUNT_FIELDS) {
+    sum[field] = total[field] + row[field];
+  }
+  sum.clickDelayBuckets = total.clickDelayBuckets.map(
+    (count, index) => count + (row.clickDelayBuckets[index] ?? 0)
+  );
+  sum.clickDelayTotalSeconds = total.clickDelayTotalSeconds + row.clickDelayTotalSeconds;
+  return sum;
+}
+
+/**
+ * Rates as percentages of requests sent
+ */
+export function funnelRates(counts: FunnelCounts): FunnelRates {
+  return {
+    deliveryRate: rate(counts.delivered, counts.sent),
+    clickThroughRate: rate(counts.clicked, counts.sent),
+    completionRate: rate(counts.completed, counts.sent),
+    bounceRate: rate(counts.bounced, counts.sent),
+    optOutRate: rate(counts.optedOut, counts.sent),
+  };
+}
+
+/**
+ * Shift a YYYY-MM-DD date by whole days
+ */
+export function addDaysToIsoDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * First day of the period a date falls in; weeks start on Monday
+ */
+export function periodStart(date: string, interval: TrendInterval): string {
+  if (interval === 'month') {
+    return `${date.slice(0, 7)}-01`;
+  }
+  if (interval === 'week') {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    return addDaysToIsoDate(date, -((weekday + 6) % 7));
+  }
+  return date;
+}
+
+/**
+ * Every period touching the inclusive date range, oldest first
+ */
+export function listPeriods(from: string, to: string, interval: TrendInterval): string[] {
+  const periods: string[] = [];
+  for (let date = from; date <= to; date = addDaysToIsoDate(date, 1)) {
+    const period = periodStart(date, interval);
+    if (periods[periods.length - 1] !== period) {
+      periods.push(period);
+    }
+  }
+  return periods;
+}
+
+/**
+ * Sum daily rollups into periods, including empty ones so charts have no gaps
+ */
+export function buildTimeSeries(
+  rows: Array<FunnelCounts & { date: string }>,
+  range: { from: string; to: string; interval: TrendInterval }
+): TrendPoint[] {
+  const totals = new Map(
+    listPeriods(range.from, range.to, range.interval).map(period => [period, emptyFunnel()])
+  );
+
+  for (const row of rows) {
+    const period = periodStart(row.date, range.interval);
+    const total = totals.get(period);
+    if (total) {
+      totals.set(period, addFunnel(total, row));
+    }
+  }
+
+  return [...totals].map(([period, counts]) => ({ period, ...counts, ...funnelRates(counts) }));
+}
+
+/**
+ * Percent change from the previous value, or null when there is nothing to compare with
+ */
+export function percentChange(current: number, previous: number): number | null {
+  return previous === 0 ? null : ((current - previous) / previous) * 100;
+}
+
+/**
+ * Headline metrics for this period against the one before
+ */
+export function compareFunnels(
+  current: FunnelCounts,
+  previous: FunnelCounts
+): Record<DeltaMetric, MetricDelta> {
+  const currentValues = { ...current, ...funnelRates(current) };
+  const previousValues = { ...previous, ...funnelRates(previous) };
+
+  return Object.fromEntries(
+    DELTA_METRICS.map(metric => [
+      metric,
+      {
+        current: currentValues[metric],
+        previous: previousValues[metric],
+        change: percentChange(currentValues[metric], previousValues[metric]),
+      },
+    ])
+  ) as Record<DeltaMetric, MetricDelta>;
+}
+
+/**
+ * Time-to-click histogram with each bucket's share of clicks, the mean and the bucket
+ * holding the median click
+ */
+export function summariseClickDelays(counts: FunnelCounts): ClickDelayDistribution {
+  const clicks = counts.clickDelayBuckets.reduce((sum, count) => sum + count, 0);
+
+  let seen = 0;
+  let medianBucket: string | null = null;
+  const buckets = CLICK_DELAY_BUCKETS.map((bucket, index) => {
+    const count = counts.clickDelayBuckets[index] ?? 0;
+    seen += count;
+    if (medianBucket === null && clicks > 0 && seen >= clicks / 2) {
+      medianBucket = bucket.label;
+    }
+    return { ...bucket, count, share: rate(count, clicks) };
+  });
+
+  return {
+    buckets,
+    averageSeconds: clicks > 0 ? counts.clickDelayTotalSeconds / clicks : null,
+    medianBucket,
+  };
+}
@@ -1,6 +1,15 @@
-import { type NextRequest } from 'next/server';
+import { type NextRequest, NextResponse } from 'next/server';
+import { cookies, headers } from 'next/headers';
 import { auth } from '@clerk/nextjs/server';
+import type { BusinessRole } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import { hasPermission, type Permission } from '@/lib/permissions';
+import type { ApiErrorResponse } from '@/types/api';
+
+// Agency users belong to several businesses; the switcher stores the active one in this
+// cookie and API clients can pick one per request with the header
+export const ACTIVE_BUSINESS_COOKIE = 'rr_active_business';
+export const ACTIVE_BUSINESS_HEADER = 'x-business-id';
 
 /**
  * Simple business context extracted directly from Clerk authentication
@@ -8,6 +17,8 @@ import { prisma } from '@/lib/prisma';
  */
 export interface BusinessContext {
   businessId: string;
+  userId: string; // users.id of the signed-in user
+  role: BusinessRole;
 }
 
 /**
@@ -21,10 +32,16 @@ export async function getBusinessContext(request?: NextRequest): Promise<Busines
     throw new Error('UNAUTHORIZED: Not authenticated');
   }
 
-  // Get user first, then their business
+  // Get user first, then the businesses they belong to
   const user = await prisma.user.findUnique({
     where: { clerkUserId: userId },
-    include: { business: { select: { id: true, isActive: true } } },
+    include: {
+      business: { select: { id: true, isActive: true, clerkUserId: true } },
+      memberships: {
+        select: { businessId: true, role: true, business: { select: { isActive: true } } },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
   });
 
   if (!user) {
@@ -33,7 +50,34 @@ export async function getBusinessContext(request?: NextRequest): Promise<Busines
     );
   }
 
+  const requestHeaders = request?.headers ?? (await headers());
+  const headerBusinessId = requestHeaders.get(ACTIVE_BUSINESS_HEADER);
+  const cookieBusinessId = request
+    ? request.cookies.get(ACTIVE_BUSINESS_COOKIE)?.value
+    : (await cookies()).get(ACTIVE_BUSINESS_COOKIE)?.value;
+
+  // An explicit header must name one of the user's businesses; a stale cookie falls back
+  if (headerBusinessId) {
+    const membership = user.memberships.find(m => m.businessId === headerBusinessId);
+    if (!membership) {
+      throw new Error('FORBIDDEN: You are not a member of the requested business');
+    }
+    return activeMembershipContext(user.id, headerBusinessId, membership);
+  }
+
+  const selected =
+    user.memberships.find(m => m.businessId === cookieBusinessId) ??
+    user.memberships.find(m => m.businessId === user.businessId);
+  if (selected) {
+    return activeMembershipContext(user.id, selected.businessId, selected);
+  }
+
   if (!user.business || !user.businessId) {
+    const fallback = user.memberships.find(m => m.business.isActive);
+    if (fallback) {
+      return activeMembershipContext(user.id, fallback.businessId, fallback);
+    }
+
     throw new Error(
       'BUSINESS_NOT_FOUND: No business found for this user. Please complete onboarding.'
     );
@@ -45,7 +89,59 @@ export async function getBusinessContext(request?: NextRequest): Promise<Busines
     throw new Error('BUSINESS_INACTIVE: Business is not active');
   }
 
+  // Users linked before teams existed have no member row: the business creator is its
+  // owner, anyone else linked to it joins as a member
+  const role: BusinessRole = business.clerkUserId === userId ? 'OWNER' : 'MEMBER';
+  await prisma.businessMember.upsert({
+    where: { businessId_userId: { businessId: business.id, userId: user.id } },
+    create: { businessId: business.id, userId: user.id, role },
+    update: {},
+  });
+
   return {
     businessId: business.id,
+    userId: user.id,
+    role,
   };
 }
+
+function activeMembershipContext(
+  userId: string,
+  businessId: string,
+  membership: { role: BusinessRole; business: { isActive: boolean } }
+): BusinessContext {
+  if (!membership.business.isActive) {
+    throw new Error('BUSINESS_INACTIVE: Business is not active');
+  }
+
+  return { businessId, userId, role: membership.role };
+}
+
+/**
+ * Throw FORBIDDEN unless the signed-in user's role grants the permission
+ */
+export function requirePermission(context: BusinessContext, permission: Permission): void {
+  if (!hasPermission(context.role, permission)) {
+    throw new Error(`FORBIDDEN: Your role does not allow ${permission}`);
+  }
+}
+
+/**
+ * 403 response for a FORBIDDEN error thrown by requirePermission, null for anything else
+ */
+export function permissionDeniedResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof Error) || !error.message.startsWith('FORBIDDEN')) {
+    return null;
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'You do not have permission to perform this action',
+      },
+    } satisfies ApiErrorResponse,
+    { status: 403 }
+  );
+}
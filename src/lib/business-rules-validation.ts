@@ -11,6 +11,7 @@ import { prisma } from './prisma';
 import { logger } from './logger';
 import { SECURITY_LIMITS } from './validation-schemas';
 import { validateMessageContent } from './security-validation';
+import { calculateSmsSegments } from './sms-segments';
 import type { AuthenticatedRequest } from '../types/auth';
 
 // ==========================================
@@ -151,8 +152,15 @@ export class BusinessRulesValidator {
     metadata: Record<string, any>
   ): Promise<void> {
     // SMS length optimization
-    if (content.length > 160) {
-      const segments = Math.ceil(content.length / 153); // 153 chars per segment for multi-part SMS
+    const sms = calculateSmsSegments(content);
+    metadata.smsEncoding = sms.encoding;
+    if (sms.encoding === 'UCS-2') {
+      warnings.push(
+        `Characters outside the SMS alphabet (${sms.unicodeCharacters.join(' ')}) cut each segment to 70 characters`
+      );
+    }
+    if (sms.segmentCount > 1) {
+      const segments = sms.segmentCount;
       metadata.smsSegments = segments;
 
       if (segments > 3) {
@@ -0,0 +1,147 @@
+/**
+ * Contact frequency policy
+ *
+ * Overlapping campaigns, bulk sends and automations can each pick the same customer. The
+ * business's policy caps how many review requests one customer gets in a rolling window
+ * and stops asking customers who already clicked through or left a review.
+ */
+
+import type { Prisma, RequestStatus } from '@prisma/client';
+
+export interface ContactPolicySettings {
+  enabled: boolean;
+  maxRequests: number; // Per customer within windowDays
+  windowDays: number;
+  skipIfEngaged: boolean; // Never ask again once a request was CLICKED or COMPLETED
+}
+
+export const CONTACT_BLOCK_CODES = [
+  'FREQUENCY_CAPPED',
+  'ALREADY_ENGAGED',
+  'DUPLICATE_RECIPIENT',
+] as const;
+
+export type ContactBlockCode = (typeof CONTACT_BLOCK_CODES)[number];
+
+export interface ContactBlock {
+  code: ContactBlockCode;
+  message: string;
+}
+
+export interface PreviousRequest {
+  status: RequestStatus;
+  createdAt: Date;
+}
+
+// Off until a business turns it on, so businesses from before the policy keep sending as they did
+export const DEFAULT_CONTACT_POLICY: ContactPolicySettings = {
+  enabled: false,
+  maxRequests: 1,
+  windowDays: 30,
+  skipIfEngaged: true,
+};
+
+// Requests that never reached the customer don't count towards the cap
+export const UNCOUNTED_STATUSES: RequestStatus[] = ['DRAFT', 'FAILED', 'BOUNCED'];
+
+export const ENGAGED_STATUSES: RequestStatus[] = ['CLICKED', 'COMPLETED'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Read a stored policy, filling anything missing from the defaults
+ */
+export function getContactPolicy(
+  stored: Prisma.JsonValue | null | undefined
+): ContactPolicySettings {
+  const settings = (
+    stored && typeof stored === 'object' ? stored : {}
+  ) as Partial<ContactPolicySettings>;
+
+  return { ...DEFAULT_CONTACT_POLICY, ...settings };
+}
+
+/**
+ * When the policy's rolling window started
+ */
+export function getWindowStart(policy: ContactPolicySettings, now: Date = new Date()): Date {
+  return new Date(now.getTime() - policy.windowDays * DAY_MS);
+}
+
+/**
+ * Why the policy stops another request to a customer with these previous requests, or null
+ */
+export function getContactBlock(
+  policy: ContactPolicySettings,
+  previous: PreviousRequest[],
+  now: Date = new Date()
+): ContactBlock | null {
+  if (!policy.enabled) {
+    return null;
+  }
+
+  if (policy.skipIfEngaged && previous.some(request => ENGAGED_STATUSES.includes(request.status))) {
+    return {
+      code: 'ALREADY_ENGAGED',
+      message: 'Customer already clicked or completed an earlier review request',
+    };
+  }
+
+  const windowStart = getWindowStart(policy, now);
+  const recent = previous.filter(
+    request => !UNCOUNTED_STATUSES.includes(request.status) && request.createdAt >= windowStart
+  );
+  if (recent.length >= policy.maxRequests) {
+    return {
+      code: 'FREQUENCY_CAPPED',
+      message: `Customer already has ${recent.length} review request${recent.length === 1 ? '' : 's'} in the last ${policy.windowDays} days`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Keep the first occurrence of each customer; later ones are reported as duplicates
+ */
+export function dedupeCustomerIds(customerIds: string[]): {
+  unique: string[];
+  duplicates: string[];
+} {
+  const seen = new Set<string>();
+  const duplicates: string[] = [];
+
+  for (const customerId of customerIds) {
+    if (seen.has(customerId)) {
+      duplicates.push(customerId);
+    } else {
+      seen.add(customerId);
+    }
+  }
+
+  return { unique: [...seen], duplicates };
+}
+
+export const DUPLICATE_RECIPIENT_BLOCK: ContactBlock = {
+  code: 'DUPLICATE_RECIPIENT',
+  message: 'Customer appears more than once in this send',
+};
+
+/**
+ * The 'CODE: message' error services return for a blocked recipient
+ */
+export function formatContactBlock(block: ContactBlock): string {
+  return `${block.code}: ${block.message}`;
+}
+
+/**
+ * The block behind a service error, or null for any other failure
+ */
+export function parseContactBlock(error: string): ContactBlock | null {
+  const match = /^([A-Z_]+): (.*)$/s.exec(error);
+  const code = match?.[1];
+
+  return match && code && (CONTACT_BLOCK_CODES as readonly string[]).includes(code)
+    ? { code: code as ContactBlockCode, message: match[2] ?? error }
+    : null;
+}
@@ -1,6 +1,22 @@
 import { type PrismaClient, type Prisma } from '@prisma/client';
 import { prisma } from '../prisma';
 import { validateBusinessScope } from '../validators/reviewRequest';
+import {
+  debitRequestCredits,
+  refundRequestCredits,
+  reserveRequestCredits,
+} from '../../services/credits';
+import {
+  buildVersionedUpdate,
+  getCurrentTemplateVersionId,
+  versionData,
+} from '../../services/template-versions';
+import {
+  createDestinationPicker,
+  isBusinessDestination,
+  resolvePinnedDestination,
+} from '../../services/review-destinations';
+import { getContactPolicyBlocks } from '../../services/contact-policy';
 
 // Type-safe business-scoped query builder
 export class BusinessScopedQuery {
@@ -131,14 +147,63 @@ export class BusinessScopedQuery {
     return this.updateReviewRequest(id, { isActive: false });
   }
 
-  // Campaign functionality removed for MVP simplicity
+  // Campaigns
+  async createCampaign(data: Omit<Prisma.CampaignCreateInput, 'business'>) {
+    return this.db.campaign.create({
+      data: {
+        ...data,
+        business: { connect: { id: this.businessId } },
+      },
+    });
+  }
+
+  async findCampaign(id: string) {
+    const campaign = await this.db.campaign.findFirst({
+      where: {
+        id,
+        businessId: this.businessId,
+        isActive: true,
+      },
+    });
+
+    if (!campaign) {
+      throw new Error('Campaign not found or access denied');
+    }
+
+    return campaign;
+  }
+
+  async updateCampaign(id: string, data: Prisma.CampaignUpdateInput) {
+    // First verify the campaign belongs to this business
+    await this.findCampaign(id);
+
+    return this.db.campaign.update({
+      where: { id },
+      data,
+    });
+  }
 
   // Message Templates - Two-tier system (System + Business templates)
-  async createMessageTemplate(data: Omit<Prisma.MessageTemplateCreateInput, 'business'>) {
+  async createMessageTemplate(
+    data: Omit<Prisma.MessageTemplateUncheckedCreateInput, 'businessId'>,
+    author: { createdById?: string } = {}
+  ) {
     return this.db.messageTemplate.create({
       data: {
         ...data,
         businessId: data.templateType === 'system' ? null : this.businessId,
+        currentVersion: 1,
+        versions: {
+          create: {
+            version: 1,
+            ...versionData({
+              name: data.name,
+              subject: data.subject ?? null,
+              content: data.content,
+            }),
+            createdById: author.createdById,
+          },
+        },
       },
     });
   }
@@ -166,7 +231,12 @@ export class BusinessScopedQuery {
     });
   }
 
-  async updateMessageTemplate(id: string, data: Prisma.MessageTemplateUpdateInput) {
+  // Changes to a template's wording are recorded as a new version
+  async updateMessageTemplate(
+    id: string,
+    data: Prisma.MessageTemplateUpdateInput,
+    author: { createdById?: string; changeNote?: string } = {}
+  ) {
     // First verify the template belongs to this business or is a system template
     const template = await this.db.messageTemplate.findFirst({
       where: {
@@ -187,10 +257,36 @@ export class BusinessScopedQuery {
 
     return this.db.messageTemplate.update({
       where: { id },
-      data,
+      data: await buildVersionedUpdate(template, data, author, this.db),
     });
   }
 
+  // Version a new review request should record for the template it uses
+  async getCurrentTemplateVersionId(templateId: string | null | undefined) {
+    return getCurrentTemplateVersionId(templateId, this.db);
+  }
+
+  // Review destinations
+  async isBusinessDestination(destinationId: string) {
+    return isBusinessDestination(this.businessId, destinationId, this.db);
+  }
+
+  async resolvePinnedDestination(options: {
+    destinationId?: string | null;
+    templateId?: string | null;
+  }) {
+    return resolvePinnedDestination(this.businessId, options, this.db);
+  }
+
+  async createDestinationPicker(fallbackUrl: string | null) {
+    return createDestinationPicker(this.businessId, fallbackUrl, this.db);
+  }
+
+  // Customers the contact policy holds back from another review request
+  async getContactPolicyBlocks(customerIds: string[]) {
+    return getContactPolicyBlocks(this.businessId, customerIds, this.db);
+  }
+
   // Customers
   async findManyCustomers(params: {
     where?: Prisma.CustomerWhereInput;
@@ -348,6 +444,19 @@ export class BusinessScopedQuery {
 
     return suppressions.length > 0;
   }
+
+  // Credits
+  async reserveRequestCredits(reviewRequestId: string) {
+    return reserveRequestCredits(this.businessId, reviewRequestId, this.db);
+  }
+
+  async debitRequestCredits(reviewRequestId: string, content?: string) {
+    return debitRequestCredits(this.businessId, reviewRequestId, { content }, this.db);
+  }
+
+  async refundRequestCredits(reviewRequestIds: string[], reason: string) {
+    return refundRequestCredits(this.businessId, reviewRequestIds, reason, this.db);
+  }
 }
 
 // Utility function to create business-scoped queries
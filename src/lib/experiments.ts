@@ -0,0 +1,146 @@
+/**
+ * Campaign A/B experiments
+ *
+ * An experiment splits a campaign's recipients across two or more variants (templates or
+ * subject lines) and compares the share of sent requests that were clicked, or that led to
+ * a review. The leading variant wins once a two-proportion z-test against every other
+ * variant clears the confidence level, Bonferroni-corrected for the number of comparisons.
+ */
+
+export type ExperimentMetric = 'CLICK' | 'COMPLETION';
+
+export interface ExperimentSettings {
+  metric: ExperimentMetric;
+  /** Hold back part of the audience and send it the winner once there is one */
+  autoSelectWinner: boolean;
+  /** Sent requests every variant needs before variants are compared */
+  minSamplePerVariant: number;
+  confidence: number;
+  /** Share of recipients in the test when autoSelectWinner is on */
+  testPercent: number;
+  /** After this long without a significant result, the held-back audience is split evenly */
+  decideWithinHours: number;
+}
+
+export const DEFAULT_EXPERIMENT_SETTINGS: ExperimentSettings = {
+  metric: 'CLICK',
+  autoSelectWinner: false,
+  minSamplePerVariant: 50,
+  confidence: 0.95,
+  testPercent: 20,
+  decideWithinHours: 48,
+};
+
+export interface VariantOutcome {
+  id: string;
+  sent: number;
+  conversions: number;
+}
+
+export interface ExperimentDecision {
+  status: 'collecting' | 'inconclusive' | 'significant';
+  /** Leading variant, set once it is significantly ahead */
+  winnerId: string | null;
+  leaderId: string | null;
+  /** Largest p-value of the leader against the other variants */
+  pValue: number | null;
+}
+
+/**
+ * Fill in defaults for settings stored on a campaign
+ */
+export function resolveExperimentSettings(value: unknown): ExperimentSettings {
+  const stored = value && typeof value === 'object' ? (value as Partial<ExperimentSettings>) : {};
+  return { ...DEFAULT_EXPERIMENT_SETTINGS, ...stored };
+}
+
+// Standard normal CDF, via the Abramowitz & Stegun 7.1.26 approximation of erf
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly =
+    t *
+    (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-sided p-value for the difference between two conversion rates
+ */
+export function twoProportionPValue(a: VariantOutcome, b: VariantOutcome): number {
+  if (a.sent === 0 || b.sent === 0) return 1;
+
+  const pooled = (a.conversions + b.conversions) / (a.sent + b.sent);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / a.sent + 1 / b.sent));
+  if (standardError === 0) return 1;
+
+  const z = (a.conversions / a.sent - b.conversions / b.sent) / standardError;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+/**
+ * Decide whether an experiment has a winner yet
+ */
+export function decideExperiment(
+  outcomes: VariantOutcome[],
+  settings: Pick<ExperimentSettings, 'minSamplePerVariant' | 'confidence'>
+): ExperimentDecision {
+  const rate = (outcome: VariantOutcome) =>
+    outcome.sent > 0 ? outcome.conversions / outcome.sent : 0;
+  const ranked = [...outcomes].sort((a, b) => rate(b) - rate(a));
+  const [leader, runnerUp] = ranked;
+
+  if (!leader || !runnerUp || outcomes.some(o => o.sent < settings.minSamplePerVariant)) {
+    return { status: 'collecting', winnerId: null, leaderId: null, pValue: null };
+  }
+  if (rate(leader) === rate(runnerUp)) {
+    return { status: 'inconclusive', winnerId: null, leaderId: null, pValue: 1 };
+  }
+
+  const alpha = (1 - settings.confidence) / (outcomes.length - 1);
+  const pValue = Math.max(...ranked.slice(1).map(other => twoProportionPValue(leader, other)));
+  const significant = pValue < alpha;
+
+  return {
+    status: significant ? 'significant' : 'inconclusive',
+    winnerId: significant ? leader.id : null,
+    leaderId: leader.id,
+    pValue,
+  };
+}
+
+/**
+ * Shuffle recipients and deal them round-robin across variants. With autoSelectWinner on,
+ * only the test share is dealt (never fewer than the minimum sample per variant) and the
+ * rest is held back for the winner.
+ */
+export function splitExperimentRecipients<T>(
+  recipients: T[],
+  variantCount: number,
+  settings: Pick<ExperimentSettings, 'autoSelectWinner' | 'testPercent' | 'minSamplePerVariant'>,
+  random: () => number = Math.random
+): { assignments: Array<{ recipient: T; variantIndex: number }>; holdout: T[] } {
+  const shuffled = [...recipients];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j]!, shuffled[i]!];
+  }
+
+  const testSize = settings.autoSelectWinner
+    ? Math.min(
+        shuffled.length,
+        Math.max(
+          Math.ceil((shuffled.length * settings.testPercent) / 100),
+          settings.minSamplePerVariant * variantCount
+        )
+      )
+    : shuffled.length;
+
+  return {
+    assignments: shuffled
+      .slice(0, testSize)
+      .map((recipient, index) => ({ recipient, variantIndex: index % variantCount })),
+    holdout: shuffled.slice(testSize),
+  };
+}
@@ -0,0 +1,254 @@
+/**
+ * Branded review landing page
+ *
+ * When a business turns it on, review links open this page instead of redirecting straight
+ * to Google. It lists every review platform the business uses side by side, plus a private
+ * feedback form. Every option is offered to every customer with the same prominence and
+ * nothing asks for a rating first, so the page never steers unhappy customers away from
+ * public reviews (Google's policy against review gating).
+ */
+
+import { escapeHtml } from './template-engine';
+
+export interface LandingPageSettings {
+  enabled: boolean;
+  headline?: string;
+  message?: string;
+  /** Show the business's first Google photo at the top of the page */
+  showPhoto: boolean;
+  trustpilotUrl?: string;
+  facebookUrl?: string;
+}
+
+export const DEFAULT_LANDING_PAGE_SETTINGS: LandingPageSettings = {
+  enabled: false,
+  showPhoto: true,
+};
+
+export type ReviewPlatform = 'google' | 'trustpilot' | 'facebook';
+
+export interface ReviewPlatformLink {
+  platform: ReviewPlatform;
+  label: string;
+  url: string;
+}
+
+export interface LandingPageContent {
+  businessName: string;
+  customerFirstName: string;
+  settings: LandingPageSettings;
+  platforms: ReviewPlatformLink[];
+  photoUrl: string | null;
+  /** Where the private feedback form posts to */
+  feedbackAction: string;
+}
+
+/**
+ * Fill in defaults for settings stored on a business
+ */
+export function resolveLandingPageSettings(value: unknown): LandingPageSettings {
+  const stored = value && typeof value === 'object' ? (value as Partial<LandingPageSettings>) : {};
+  return { ...DEFAULT_LANDING_PAGE_SETTINGS, ...stored };
+}
+
+/**
+ * Review platforms the business has a link for, in a fixed order
+ */
+export function getReviewPlatformLinks(
+  googleReviewUrl: string | null,
+  settings: Pick<LandingPageSettings, 'trustpilotUrl' | 'facebookUrl'>
+): ReviewPlatformLink[] {
+  const candidates: Array<[ReviewPlatform, string, string | null | undefined]> = [
+    ['google', 'Google', googleReviewUrl],
+    ['trustpilot', 'Trustpilot', settings.trustpilotUrl],
+    ['facebook', 'Facebook', settings.facebookUrl],
+  ];
+
+  return candidates
+    .filter((candidate): candidate is [ReviewPlatform, string, string] => Boolean(candidate[2]))
+    .map(([platform, label, url]) => ({ platform, label, url }));
+}
+
+const PAGE_STYLES = `
+  * { margin: 0; padding: 0; box-sizing: border-box; }
+  body {
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+    background: #f7fafc;
+    min-height: 100vh;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    padding: 20px;
+  }
+  .container {
+    background: white;
+    border-radius: 20px;
+    box-shadow: 0 10px 40px rgba(0,0,0,0.08);
+    padding: 40px;
+    max-width: 500px;
+    width: 100%;
+    text-align: center;
+  }
+  .photo {
+    width: 96px;
+    height: 96px;
+    border-radius: 50%;
+    object-fit: cover;
+    margin: 0 auto 20px;
+    display: block;
+  }
+  .icon {
+    font-size: 48px;
+    margin-bottom: 20px;
+  }
+  h1 {
+    color: #2d3748;
+    font-size: 24px;
+    margin-bottom: 10px;
+    font-weight: 700;
+  }
+  p {
+    color: #718096;
+    font-size: 16px;
+    line-height: 1.6;
+    margin-bottom: 10px;
+  }
+  .options {
+    display: flex;
+    flex-direction: column;
+    gap: 12px;
+    margin-top: 25px;
+  }
+  .option {
+    display: block;
+    width: 100%;
+    padding: 14px 20px;
+    border: 1px solid #cbd5e0;
+    border-radius: 10px;
+    background: white;
+    color: #2d3748;
+    font-size: 16px;
+    font-weight: 600;
+    text-decoration: none;
+    cursor: pointer;
+  }
+  .option:hover {
+    border-color: #667eea;
+    background: #f7f8fe;
+  }
+  details {
+    text-align: left;
+  }
+  details summary {
+    list-style: none;
+    text-align: center;
+  }
+  details summary::-webkit-details-marker {
+    display: none;
+  }
+  textarea {
+    width: 100%;
+    min-height: 120px;
+    margin-top: 12px;
+    padding: 12px;
+    border: 1px solid #cbd5e0;
+    border-radius: 10px;
+    font: inherit;
+    resize: vertical;
+  }
+  .submit {
+    margin-top: 10px;
+  }
+  .submessage {
+    font-size: 14px;
+    color: #a0aec0;
+    margin-top: 20px;
+  }
+`;
+
+function renderPage(title: string, body: string): string {
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1">
+      <meta name="robots" content="noindex">
+      <title>${title}</title>
+      <style>${PAGE_STYLES}</style>
+    </head>
+    <body>
+      <div class="container">
+        ${body}
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+/**
+ * Landing page HTML. Review platforms and the feedback form share one style and order
+ * never depends on the customer.
+ */
+export function renderLandingPage(content: LandingPageContent): string {
+  const name = escapeHtml(content.businessName);
+  const headline = escapeHtml(
+    content.settings.headline || `How was your experience with ${content.businessName}?`
+  );
+  const message = escapeHtml(
+    content.settings.message ||
+      'We would love to hear from you. Leave a review wherever suits you, or tell us directly.'
+  );
+  const greeting = content.customerFirstName
+    ? `<p>Hi ${escapeHtml(content.customerFirstName)},</p>`
+    : '';
+  const photo = content.photoUrl
+    ? `<img class="photo" src="${escapeHtml(content.photoUrl)}" alt="${name}">`
+    : '<div class="icon">⭐</div>';
+
+  const platformLinks = content.platforms
+    .map(
+      link =>
+        `<a class="option" href="${escapeHtml(link.url)}" rel="noopener noreferrer">Review us on ${escapeHtml(link.label)}</a>`
+    )
+    .join('\n');
+
+  return renderPage(
+    `${name} - Share your experience`,
+    `
+        ${photo}
+        ${greeting}
+        <h1>${headline}</h1>
+        <p>${message}</p>
+        <div class="options">
+          ${platformLinks}
+          <details>
+            <summary class="option">Tell us directly</summary>
+            <form method="POST" action="${escapeHtml(content.feedbackAction)}">
+              <textarea name="message" maxlength="2000" required placeholder="Your feedback goes only to ${name}"></textarea>
+              <button type="submit" class="option submit">Send feedback</button>
+            </form>
+          </details>
+        </div>
+        <p class="submessage">Thank you for helping ${name} improve.</p>
+    `
+  );
+}
+
+/**
+ * Shown after the private feedback form is submitted, and for form errors
+ */
+export function renderFeedbackResultPage(
+  title: string,
+  message: string,
+  icon: string = '✅'
+): string {
+  return renderPage(
+    escapeHtml(title),
+    `
+        <div class="icon">${icon}</div>
+        <h1>${escapeHtml(title)}</h1>
+        <p>${escapeHtml(message)}</p>
+    `
+  );
+}
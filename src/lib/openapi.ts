@@ -0,0 +1,408 @@
+/**
+ * OpenAPI document for the public REST API (/api/v1)
+ *
+ * Request bodies and query parameters are converted from the same zod schemas the routes
+ * validate with, so the document cannot drift from what the API accepts.
+ */
+
+import { z } from 'zod';
+import {
+  createBulkReviewRequestsSchema,
+  createCustomerSchema,
+  createReviewRequestSchema,
+  customerQuerySchema,
+  reviewRequestQuerySchema,
+  updateCustomerSchema,
+} from './validation-schemas';
+import { CONTACT_BLOCK_CODES } from './contact-policy';
+import { API_KEY_SCOPES } from './permissions';
+import { integrationEventSchema } from './validators/automation';
+import { RequestChannelEnum, RequestStatusEnum } from './validators/reviewRequest';
+
+export type JsonSchema = Record<string, unknown>;
+
+const { ZodFirstPartyTypeKind: Kind } = z;
+
+function withDescription(schema: z.ZodTypeAny, json: JsonSchema): JsonSchema {
+  return schema.description ? { ...json, description: schema.description } : json;
+}
+
+function stringSchema(schema: z.ZodString): JsonSchema {
+  const json: JsonSchema = { type: 'string' };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        json.minLength = check.value;
+        break;
+      case 'max':
+        json.maxLength = check.value;
+        break;
+      case 'email':
+        json.format = 'email';
+        break;
+      case 'uuid':
+        json.format = 'uuid';
+        break;
+      case 'url':
+        json.format = 'uri';
+        break;
+      case 'datetime':
+        json.format = 'date-time';
+        break;
+      case 'regex':
+        json.pattern = check.regex.source;
+        break;
+    }
+  }
+
+  return json;
+}
+
+function numberSchema(schema: z.ZodNumber): JsonSchema {
+  const json: JsonSchema = { type: 'number' };
+
+  for (const check of schema._def.checks) {
+    if (check.kind === 'int') json.type = 'integer';
+    if (check.kind === 'min') json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+    if (check.kind === 'max') json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+  }
+
+  return json;
+}
+
+/**
+ * JSON Schema for what a zod schema accepts as input. Refinements and transforms cannot be
+ * expressed, so they describe the value before they run.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case Kind.ZodString:
+      return withDescription(schema, stringSchema(schema as z.ZodString));
+    case Kind.ZodNumber:
+      return withDescription(schema, numberSchema(schema as z.ZodNumber));
+    case Kind.ZodBoolean:
+      return withDescription(schema, { type: 'boolean' });
+    case Kind.ZodDate:
+      return withDescription(schema, { type: 'string', format: 'date-time' });
+    case Kind.ZodLiteral:
+      return withDescription(schema, { enum: [def.value] });
+    case Kind.ZodEnum:
+      return withDescription(schema, { type: 'string', enum: [...def.values] });
+    case Kind.ZodArray: {
+      const json: JsonSchema = { type: 'array', items: zodToJsonSchema(def.type) };
+      if (def.minLength) json.minItems = def.minLength.value;
+      if (def.maxLength) json.maxItems = def.maxLength.value;
+      return withDescription(schema, json);
+    }
+    case Kind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, z.ZodTypeAny>;
+      const required = Object.entries(shape)
+        .filter(([, value]) => !value.isOptional())
+        .map(([key]) => key);
+      const json: JsonSchema = {
+        type: 'object',
+        properties: Object.fromEntries(
+          Object.entries(shape).map(([key, value]) => [key, zodToJsonSchema(value)])
+        ),
+      };
+      if (required.length > 0) json.required = required;
+      if (def.unknownKeys === 'strict') json.additionalProperties = false;
+      return withDescription(schema, json);
+    }
+    case Kind.ZodRecord:
+      return withDescription(schema, {
+        type: 'object',
+        additionalProperties: zodToJsonSchema(def.valueType),
+      });
+    case Kind.ZodUnion:
+      return withDescription(schema, {
+        anyOf: (def.options as z.ZodTypeAny[]).map(option => zodToJsonSchema(option)),
+      });
+    case Kind.ZodNullable:
+      return withDescription(schema, { ...zodToJsonSchema(def.innerType), nullable: true });
+    case Kind.ZodOptional:
+      return withDescription(schema, zodToJsonSchema(def.innerType));
+    case Kind.ZodDefault:
+      return withDescription(schema, {
+        ...zodToJsonSchema(def.innerType),
+        default: def.defaultValue(),
+      });
+    case Kind.ZodEffects:
+      return withDescription(schema, zodToJsonSchema(def.schema));
+    default:
+      return withDescription(schema, {});
+  }
+}
+
+/**
+ * Query parameters for an object schema; parameters arrive as strings whatever the schema
+ */
+export function zodToQueryParameters(schema: z.AnyZodObject): JsonSchema[] {
+  const shape = schema.shape as Record<string, z.ZodTypeAny>;
+
+  return Object.entries(shape).map(([name, value]) => ({
+    name,
+    in: 'query',
+    required: !value.isOptional(),
+    schema: zodToJsonSchema(value),
+  }));
+}
+
+// Shapes of what the API returns, mirroring ApiCustomer and ApiReviewRequest
+const timestamps = {
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+};
+
+const customerResource = z.object({
+  id: z.string().uuid(),
+  firstName: z.string(),
+  lastName: z.string().nullable(),
+  email: z.string().email().nullable(),
+  phone: z.string().nullable(),
+  address: z.string().nullable(),
+  notes: z.string().nullable(),
+  tags: z.array(z.string()),
+  ...timestamps,
+});
+
+const reviewRequestResource = z.object({
+  id: z.string().uuid(),
+  customerId: z.string().uuid(),
+  campaignId: z.string().uuid().nullable(),
+  channel: RequestChannelEnum,
+  status: RequestStatusEnum,
+  scheduledFor: z.string().datetime().nullable(),
+  sentAt: z.string().datetime().nullable(),
+  deliveredAt: z.string().datetime().nullable(),
+  clickedAt: z.string().datetime().nullable(),
+  completedAt: z.string().datetime().nullable(),
+  errorMessage: z.string().nullable(),
+  createdAt: z.string().datetime(),
+});
+
+const bulkResult = z.object({
+  created: z.array(reviewRequestResource),
+  failed: z.array(
+    z.object({
+      customerId: z.string().uuid(),
+      error: z.string(),
+      code: z
+        .enum(CONTACT_BLOCK_CODES)
+        .optional()
+        .describe("Set when the business's contact policy held the customer back"),
+    })
+  ),
+});
+
+const eventResult = z.object({
+  customerId: z.string().uuid(),
+  customerCreated: z.boolean(),
+  requestIds: z.array(z.string().uuid()),
+  skipped: z.array(z.object({ ruleId: z.string().uuid(), reason: z.string() })),
+});
+
+const pagination = z.object({
+  page: z.number().int(),
+  limit: z.number().int(),
+  totalCount: z.number().int(),
+  totalPages: z.number().int(),
+  hasNextPage: z.boolean(),
+  hasPrevPage: z.boolean(),
+});
+
+const errorBody = z.object({
+  success: z.literal(false),
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+    details: z.any().optional(),
+  }),
+});
+
+function success(data: z.ZodTypeAny, paginated = false): JsonSchema {
+  return zodToJsonSchema(
+    z.object({
+      success: z.literal(true),
+      data,
+      ...(paginated ? { meta: z.object({ pagination }) } : {}),
+    })
+  );
+}
+
+function jsonContent(schema: JsonSchema) {
+  return { 'application/json': { schema } };
+}
+
+function operation(options: {
+  summary: string;
+  scope: string;
+  bucket: string;
+  parameters?: JsonSchema[];
+  body?: JsonSchema;
+  responses: Record<string, { description: string; schema: JsonSchema }>;
+}): JsonSchema {
+  const errors = {
+    '400': 'Invalid request',
+    '401': 'Missing, invalid or revoked API key',
+    '403': `The key lacks the ${options.scope} scope`,
+    '429': `The business used up its ${options.bucket} rate limit; see Retry-After`,
+  };
+
+  return {
+    summary: options.summary,
+    description: `Requires the \`${options.scope}\` scope. Counts towards the \`${options.bucket}\` rate limit.`,
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    ...(options.parameters ? { parameters: options.parameters } : {}),
+    ...(options.body
+      ? { requestBody: { required: true, content: jsonContent(options.body) } }
+      : {}),
+    responses: {
+      ...Object.fromEntries(
+        Object.entries(options.responses).map(([status, response]) => [
+          status,
+          { description: response.description, content: jsonContent(response.schema) },
+        ])
+      ),
+      ...Object.fromEntries(
+        Object.entries(errors).map(([status, description]) => [
+          status,
+          { description, content: jsonContent(zodToJsonSchema(errorBody)) },
+        ])
+      ),
+    },
+  };
+}
+
+const idParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: { type: 'string', format: 'uuid' },
+};
+
+/**
+ * The OpenAPI 3 document served at /api/v1/openapi.json
+ */
+export function buildOpenApiDocument(serverUrl: string): JsonSchema {
+  const customer = success(customerResource);
+  const reviewRequest = success(reviewRequestResource);
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Review Runner API',
+      version: '1.0.0',
+      description:
+        'Create customers and send review requests from your point-of-sale, CRM or job ' +
+        'management system. Create API keys under Settings; each key belongs to one ' +
+        `business and carries scopes (${API_KEY_SCOPES.join(', ')}).`,
+    },
+    servers: [{ url: `${serverUrl}/api/v1` }],
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+    },
+    paths: {
+      '/customers': {
+        get: operation({
+          summary: 'List customers',
+          scope: 'customers:read',
+          bucket: 'data.read',
+          parameters: zodToQueryParameters(customerQuerySchema),
+          responses: {
+            '200': {
+              description: 'A page of customers',
+              schema: success(z.array(customerResource), true),
+            },
+          },
+        }),
+        post: operation({
+          summary: 'Create a customer',
+          scope: 'customers:write',
+          bucket: 'data.write',
+          body: zodToJsonSchema(createCustomerSchema),
+          responses: { '201': { description: 'The new customer', schema: customer } },
+        }),
+      },
+      '/customers/{id}': {
+        get: operation({
+          summary: 'Get a customer',
+          scope: 'customers:read',
+          bucket: 'data.read',
+          parameters: [idParameter],
+          responses: { '200': { description: 'The customer', schema: customer } },
+        }),
+        patch: operation({
+          summary: 'Update a customer',
+          scope: 'customers:write',
+          bucket: 'data.write',
+          parameters: [idParameter],
+          body: zodToJsonSchema(updateCustomerSchema),
+          responses: { '200': { description: 'The updated customer', schema: customer } },
+        }),
+      },
+      '/review-requests': {
+        get: operation({
+          summary: 'List review requests',
+          scope: 'requests:read',
+          bucket: 'data.read',
+          parameters: zodToQueryParameters(reviewRequestQuerySchema),
+          responses: {
+            '200': {
+              description: 'A page of review requests',
+              schema: success(z.array(reviewRequestResource), true),
+            },
+          },
+        }),
+        post: operation({
+          summary: 'Send review requests',
+          scope: 'requests:send',
+          bucket: 'sms.send / email.send',
+          body: {
+            oneOf: [
+              zodToJsonSchema(createReviewRequestSchema),
+              zodToJsonSchema(createBulkReviewRequestsSchema),
+            ],
+          },
+          responses: {
+            '201': {
+              description:
+                'The queued request, or for customerIds the requests created and the customers skipped',
+              schema: { oneOf: [reviewRequest, success(bulkResult)] },
+            },
+          },
+        }),
+      },
+      '/review-requests/{id}': {
+        get: operation({
+          summary: 'Get a review request',
+          scope: 'requests:read',
+          bucket: 'data.read',
+          parameters: [idParameter],
+          responses: { '200': { description: 'The review request', schema: reviewRequest } },
+        }),
+      },
+      '/events': {
+        post: operation({
+          summary: 'Report an event, such as a completed job',
+          scope: 'requests:send',
+          bucket: 'data.write',
+          body: zodToJsonSchema(integrationEventSchema),
+          responses: {
+            '200': {
+              description:
+                "The customer, and the review requests the business's automations scheduled",
+              schema: success(eventResult),
+            },
+          },
+        }),
+      },
+    },
+  };
+}
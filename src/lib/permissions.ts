@@ -0,0 +1,82 @@
+import type { BusinessRole } from '@prisma/client';
+
+export const PERMISSIONS = [
+  'business:read',
+  'business:manage',
+  'customers:read',
+  'customers:write',
+  'requests:read',
+  'requests:send',
+  'campaigns:read',
+  'campaigns:manage',
+  'templates:read',
+  'templates:write',
+  'suppressions:read',
+  'suppressions:manage',
+  'analytics:read',
+  'team:read',
+  'team:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/** What a business API key can be allowed to do; keys never manage settings or the team */
+export const API_KEY_SCOPES = [
+  'customers:read',
+  'customers:write',
+  'requests:read',
+  'requests:send',
+] as const satisfies readonly Permission[];
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+const MEMBER_PERMISSIONS: readonly Permission[] = [
+  'business:read',
+  'customers:read',
+  'customers:write',
+  'requests:read',
+  'requests:send',
+  'campaigns:read',
+  'templates:read',
+  'suppressions:read',
+  'analytics:read',
+  'team:read',
+];
+
+/**
+ * Members run day-to-day sending; admins also manage campaigns, templates, compliance,
+ * settings and the team; owners can do everything, including managing other owners
+ */
+export const ROLE_PERMISSIONS: Record<BusinessRole, readonly Permission[]> = {
+  OWNER: PERMISSIONS,
+  ADMIN: PERMISSIONS,
+  MEMBER: MEMBER_PERMISSIONS,
+};
+
+export const ROLE_LABELS: Record<BusinessRole, string> = {
+  OWNER: 'Owner',
+  ADMIN: 'Admin',
+  MEMBER: 'Member',
+};
+
+export function hasPermission(role: BusinessRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+/**
+ * Whether a user with `actorRole` may change a teammate currently holding `targetRole`
+ * (or invite someone) to `newRole`. Only owners can grant or touch the owner role.
+ */
+export function canManageMember(
+  actorRole: BusinessRole,
+  targetRole: BusinessRole | null,
+  newRole?: BusinessRole
+): boolean {
+  if (!hasPermission(actorRole, 'team:manage')) {
+    return false;
+  }
+  if (actorRole === 'OWNER') {
+    return true;
+  }
+  return targetRole !== 'OWNER' && newRole !== 'OWNER';
+}
@@ -0,0 +1,193 @@
+/**
+ * Public REST API (/api/v1)
+ *
+ * Authentication, scope checks, rate limiting and response shapes shared by the versioned
+ * routes that POS, CRM and job-management systems call with a business API key.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { z } from 'zod';
+import type { Customer, ReviewRequest } from '@prisma/client';
+import { authenticateApiKey, type ApiKeyContext } from '../services/api-keys';
+import { getRateLimiter, RateLimitError, type OperationType } from './business-rate-limiter';
+import { logger } from './logger';
+import type { ApiKeyScope } from './permissions';
+import type { ApiErrorResponse } from '../types/api';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * The business behind the request's API key, from `Authorization: Bearer <key>` or the
+ * X-API-Key header
+ */
+export async function getApiKeyContext(request: NextRequest): Promise<ApiKeyContext> {
+  const authorization = request.headers.get('authorization');
+  const key = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1] ?? request.headers.get(API_KEY_HEADER);
+  if (!key) {
+    throw new Error('UNAUTHORIZED: Send your API key as a Bearer token');
+  }
+
+  const context = await authenticateApiKey(key.trim());
+  if (!context) {
+    throw new Error('UNAUTHORIZED: Invalid or revoked API key');
+  }
+
+  return context;
+}
+
+/**
+ * Throw FORBIDDEN unless the key was issued with the scope
+ */
+export function requireScope(context: ApiKeyContext, scope: ApiKeyScope): void {
+  if (!context.scopes.includes(scope)) {
+    throw new Error(`FORBIDDEN: This API key does not have the ${scope} scope`);
+  }
+}
+
+/**
+ * Count the call against the business's bucket for the operation, throwing RateLimitError
+ * once it is used up
+ */
+export async function enforceRateLimit(
+  context: ApiKeyContext,
+  operation: OperationType,
+  quantity = 1
+): Promise<void> {
+  const limit = await getRateLimiter().checkRateLimit(context.businessId, operation, { quantity });
+  if (!limit.allowed) {
+    throw new RateLimitError(
+      `Rate limit exceeded for ${operation}`,
+      'RATE_LIMIT_EXCEEDED',
+      limit.retryAfter ?? 0,
+      {
+        limit: limit.limit,
+        windowMs: limit.windowMs,
+        operation,
+        businessId: context.businessId,
+        current: limit.current,
+      }
+    );
+  }
+}
+
+export function publicApiError(code: string, message: string, status: number, details?: unknown) {
+  return NextResponse.json(
+    { success: false, error: { code, message, details } } satisfies ApiErrorResponse,
+    { status }
+  );
+}
+
+/**
+ * Response for anything a v1 handler throws: auth, scope, rate limit and validation
+ * failures get their own status, everything else is logged as a 500
+ */
+export function publicApiErrorResponse(error: unknown, fallbackMessage: string): NextResponse {
+  if (error instanceof RateLimitError) {
+    const response = publicApiError(error.code, error.message, 429, {
+      retryAfter: error.retryAfter,
+      limit: error.details?.limit,
+      windowMs: error.details?.windowMs,
+    });
+    response.headers.set('Retry-After', String(error.retryAfter));
+    return response;
+  }
+
+  if (error instanceof z.ZodError) {
+    return publicApiError('VALIDATION_ERROR', 'Invalid request', 400, error.errors);
+  }
+  if (error instanceof SyntaxError) {
+    return publicApiError('VALIDATION_ERROR', 'Request body must be valid JSON', 400);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const [, code, detail] = /^(UNAUTHORIZED|FORBIDDEN): (.*)$/s.exec(message) ?? [];
+  if (code && detail !== undefined) {
+    return publicApiError(code, detail, code === 'UNAUTHORIZED' ? 401 : 403);
+  }
+
+  logger.error(fallbackMessage, { error: message });
+  return publicApiError('INTERNAL_ERROR', fallbackMessage, 500);
+}
+
+// ==========================================
+// RESPONSE SHAPES
+// ==========================================
+
+// Fields here are part of the public contract; add to them, never rename or remove
+
+export interface ApiCustomer {
+  id: string;
+  firstName: string;
+  lastName: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  notes: string | null;
+  tags: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ApiReviewRequest {
+  id: string;
+  customerId: string;
+  campaignId: string | null;
+  channel: ReviewRequest['channel'];
+  status: ReviewRequest['status'];
+  scheduledFor: Date | null;
+  sentAt: Date | null;
+  deliveredAt: Date | null;
+  clickedAt: Date | null;
+  completedAt: Date | null;
+  errorMessage: string | null;
+  createdAt: Date;
+}
+
+export function toApiCustomer(customer: Customer): ApiCustomer {
+  return {
+    id: customer.id,
+    firstName: customer.firstName,
+    lastName: customer.lastName,
+    email: customer.email,
+    phone: customer.phone,
+    address: customer.address,
+    notes: customer.notes,
+    tags: customer.tags,
+    createdAt: customer.createdAt,
+    updatedAt: customer.updatedAt,
+  };
+}
+
+export function toApiReviewRequest(
+  request: Pick<ReviewRequest, keyof ApiReviewRequest>
+): ApiReviewRequest {
+  return {
+    id: request.id,
+    customerId: request.customerId,
+    campaignId: request.campaignId,
+    channel: request.channel,
+    status: request.status,
+    scheduledFor: request.scheduledFor,
+    sentAt: request.sentAt,
+    deliveredAt: request.deliveredAt,
+    clickedAt: request.clickedAt,
+    completedAt: request.completedAt,
+    errorMessage: request.errorMessage,
+    createdAt: request.createdAt,
+  };
+}
+
+export const API_REVIEW_REQUEST_SELECT = {
+  id: true,
+  customerId: true,
+  campaignId: true,
+  channel: true,
+  status: true,
+  scheduledFor: true,
+  sentAt: true,
+  deliveredAt: true,
+  clickedAt: true,
+  completedAt: true,
+  errorMessage: true,
+  createdAt: true,
+} as const;
@@ -0,0 +1,96 @@
+/**
+ * Public URLs
+ *
+ * Webhook endpoints are called from our servers, so an endpoint pointed at a private,
+ * loopback or link-local address would let a business read services on our own network.
+ * Hostnames are checked when an endpoint is saved and their addresses again, after DNS
+ * resolution, before every delivery.
+ */
+
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+const PRIVATE_RANGES = new BlockList();
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // Link-local, including cloud metadata services
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15], // Benchmarking
+  ['224.0.0.0', 3], // Multicast and reserved
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+
+for (const [network, prefix] of [
+  ['::', 127], // Unspecified and loopback
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/** Suffixes of names that only resolve inside a private network */
+const INTERNAL_SUFFIXES = ['localhost', 'local', 'internal', 'lan', 'home.arpa'];
+
+/**
+ * Whether an IP address is private, loopback, link-local or otherwise not on the internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) reach the IPv4 host
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) {
+    return isPrivateAddress(mapped);
+  }
+
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Whether a URL's host can be on the public internet: not a private address, localhost,
+ * an internal suffix or a single-label name
+ */
+export function isPublicHostname(hostname: string): boolean {
+  const host = hostname
+    .toLowerCase()
+    .replace(/^\[|\]$/g, '')
+    .replace(/\.$/, '');
+
+  if (isIP(host)) {
+    return !isPrivateAddress(host);
+  }
+  if (!host.includes('.')) {
+    return false;
+  }
+  return !INTERNAL_SUFFIXES.some(suffix => host === suffix || host.endsWith(`.${suffix}`));
+}
+
+/**
+ * Resolve a URL's host and throw unless every address it resolves to is public
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const { hostname } = new URL(url);
+  if (!isPublicHostname(hostname)) {
+    throw new Error('Endpoint host is not public');
+  }
+
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host)) {
+    return;
+  }
+
+  const addresses = await lookup(host, { all: true });
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error('Endpoint resolves to a private address');
+  }
+}
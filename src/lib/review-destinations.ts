@@ -0,0 +1,65 @@
+/**
+ * Review destinations
+ *
+ * A business can send customers to several review sites (Google, Trustpilot, Checkatrade…).
+ * A campaign or template may pin one destination; otherwise each request picks one of the
+ * business's active destinations at random, in proportion to its weight. Businesses with
+ * no destinations keep using their Google review URL.
+ */
+
+export interface WeightedDestination {
+  id: string;
+  url: string;
+  weight: number;
+}
+
+export interface DestinationChoice {
+  destinationId: string | null;
+  url: string;
+}
+
+/** Used when a business has neither destinations nor a Google review URL */
+export const FALLBACK_REVIEW_URL = 'https://g.page/your-business/review';
+
+/**
+ * Pick a destination at random, in proportion to its weight
+ */
+export function pickWeightedDestination<T extends WeightedDestination>(
+  destinations: T[],
+  random: () => number = Math.random
+): T | null {
+  const candidates = destinations.filter(destination => destination.weight > 0);
+  const total = candidates.reduce((sum, destination) => sum + destination.weight, 0);
+  if (total === 0) {
+    return null;
+  }
+
+  let remaining = random() * total;
+  for (const destination of candidates) {
+    remaining -= destination.weight;
+    if (remaining < 0) {
+      return destination;
+    }
+  }
+  return candidates[candidates.length - 1] ?? null;
+}
+
+/**
+ * Where one review request should send its customer. A pinned destination wins when it is
+ * still active, then weighted rotation, then the business's Google review URL.
+ */
+export function chooseReviewDestination(
+  destinations: WeightedDestination[],
+  options: { pinnedDestinationId?: string | null; fallbackUrl?: string | null },
+  random: () => number = Math.random
+): DestinationChoice {
+  const pinned = options.pinnedDestinationId
+    ? destinations.find(destination => destination.id === options.pinnedDestinationId)
+    : undefined;
+  const destination = pinned ?? pickWeightedDestination(destinations, random);
+
+  if (destination) {
+    return { destinationId: destination.id, url: destination.url };
+  }
+  return { destinationId: null, url: options.fallbackUrl || FALLBACK_REVIEW_URL };
+}
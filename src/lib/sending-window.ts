@@ -0,0 +1,390 @@
+import type { Prisma } from '@prisma/client';
+import {
+  DEFAULT_BUSINESS_HOURS,
+  type BusinessHours,
+  type TimeSlot,
+} from '../components/dashboard/customers/data/campaignSettings';
+
+// Business hours, quiet hours and holidays that decide when review requests may go out
+
+export interface SendingHoursSettings {
+  respectBusinessHours: boolean;
+  businessHours: BusinessHours;
+  quietHours: { start: string; end: string; enabled: boolean }; // Never send, may cross midnight
+  avoidWeekends: boolean;
+  avoidHolidays: boolean; // UK bank holidays plus holidayList
+  holidayList: string[]; // Extra closure dates, YYYY-MM-DD
+}
+
+export interface SendTimeResolution {
+  scheduledFor: Date | null; // null when the request can go out straight away
+  rescheduleReason: string | null;
+}
+
+export interface BankHoliday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export const DEFAULT_SENDING_HOURS: SendingHoursSettings = {
+  respectBusinessHours: true,
+  businessHours: DEFAULT_BUSINESS_HOURS,
+  quietHours: { start: '21:00', end: '08:00', enabled: true },
+  avoidWeekends: false,
+  avoidHolidays: true,
+  holidayList: [],
+};
+
+const DAY_NAMES: Array<keyof BusinessHours> = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+const MINUTES_PER_DAY = 24 * 60;
+const MAX_DAYS_AHEAD = 21;
+
+type Interval = [number, number]; // Minutes since local midnight, end exclusive
+
+interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const toIsoDate = ({ year, month, day }: LocalDate): string =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+const addDays = (date: LocalDate, days: number): LocalDate => {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+};
+
+const weekdayOf = (date: LocalDate): number =>
+  new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+
+const parseTime = (value: string): number => {
+  const [hours = '0', minutes = '0'] = value.split(':');
+  return Number(hours) * 60 + Number(minutes);
+};
+
+const formatTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+function getZonedParts(date: Date, timeZone: string): LocalDate & { minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-GB', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    })
+      .formatToParts(date)
+      .map(part => [part.type, part.value])
+  );
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/**
+ * Convert a wall-clock time in a time zone to a UTC instant
+ */
+export function zonedTimeToUtc(date: LocalDate, minutes: number, timeZone: string): Date {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, 0, minutes);
+  const offsetAt = (instant: number) => {
+    const zoned = getZonedParts(new Date(instant), timeZone);
+    return Date.UTC(zoned.year, zoned.month - 1, zoned.day, 0, zoned.minutes) - instant;
+  };
+
+  // Re-check the offset at the first guess so times either side of a DST change land correctly
+  const firstGuess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(firstGuess));
+}
+
+function easterSunday(year: number): LocalDate {
+  // Anonymous Gregorian algorithm
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return { year, month, day };
+}
+
+function firstMonday(year: number, month: number): LocalDate {
+  const first = { year, month, day: 1 };
+  return addDays(first, (8 - weekdayOf(first)) % 7);
+}
+
+function lastMonday(year: number, month: number): LocalDate {
+  const last = addDays({ year, month: month + 1, day: 1 }, -1);
+  return addDays(last, -((weekdayOf(last) + 6) % 7));
+}
+
+// Moved or extra bank holidays proclaimed for specific years
+const BANK_HOLIDAY_OVERRIDES: Record<
+  number,
+  { moved?: Record<string, string>; extra?: BankHoliday[] }
+> = {
+  2020: { moved: { 'Early May bank holiday': '2020-05-08' } },
+  2022: {
+    moved: { 'Spring bank holiday': '2022-06-02' },
+    extra: [
+      { date: '2022-06-03', name: 'Platinum Jubilee bank holiday' },
+      { date: '2022-09-19', name: 'State Funeral of Queen Elizabeth II' },
+    ],
+  },
+  2023: { extra: [{ date: '2023-05-08', name: 'Coronation of King Charles III' }] },
+};
+
+/**
+ * Bank holidays for England and Wales, with weekend substitute days
+ */
+export function getUkBankHolidays(year: number): BankHoliday[] {
+  const easter = easterSunday(year);
+  const newYear = { year, month: 1, day: 1 };
+  const newYearShift = { 0: 1, 6: 2 }[weekdayOf(newYear)] ?? 0;
+
+  const christmas = { year, month: 12, day: 25 };
+  // Substitute days when Christmas or Boxing Day fall at the weekend
+  const [christmasShift, boxingShift] = (
+    { 5: [0, 2], 6: [2, 2], 0: [2, 0] } as Record<number, [number, number]>
+  )[weekdayOf(christmas)] ?? [0, 0];
+
+  const overrides = BANK_HOLIDAY_OVERRIDES[year] || {};
+  const holidays: BankHoliday[] = [
+    { date: toIsoDate(addDays(newYear, newYearShift)), name: "New Year's Day" },
+    { date: toIsoDate(addDays(easter, -2)), name: 'Good Friday' },
+    { date: toIsoDate(addDays(easter, 1)), name: 'Easter Monday' },
+    { date: toIsoDate(firstMonday(year, 5)), name: 'Early May bank holiday' },
+    { date: toIsoDate(lastMonday(year, 5)), name: 'Spring bank holiday' },
+    { date: toIsoDate(lastMonday(year, 8)), name: 'Summer bank holiday' },
+    { date: toIsoDate(addDays(christmas, christmasShift)), name: 'Christmas Day' },
+    { date: toIsoDate(addDays(christmas, 1 + boxingShift)), name: 'Boxing Day' },
+  ].map(holiday => ({ ...holiday, date: overrides.moved?.[holiday.name] ?? holiday.date }));
+
+  return [...holidays, ...(overrides.extra || [])].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Read stored sending hours, filling anything missing from the defaults
+ */
+export function getSendingHours(stored: Prisma.JsonValue | null | undefined): SendingHoursSettings {
+  const settings = (
+    stored && typeof stored === 'object' ? stored : {}
+  ) as Partial<SendingHoursSettings>;
+
+  return {
+    ...DEFAULT_SENDING_HOURS,
+    ...settings,
+    businessHours: { ...DEFAULT_SENDING_HOURS.businessHours, ...settings.businessHours },
+    quietHours: { ...DEFAULT_SENDING_HOURS.quietHours, ...settings.quietHours },
+  };
+}
+
+function subtractInterval(intervals: Interval[], [start, end]: Interval): Interval[] {
+  return intervals.flatMap<Interval>(([from, to]) => {
+    if (end <= from || start >= to) return [[from, to]];
+    const remaining: Interval[] = [];
+    if (start > from) remaining.push([from, start]);
+    if (end < to) remaining.push([end, to]);
+    return remaining;
+  });
+}
+
+// Allowed sending intervals for one local day, or the reason the whole day is ruled out
+function getDayWindow(
+  date: LocalDate,
+  settings: SendingHoursSettings,
+  respectBusinessHours: boolean,
+  holidays: Map<string, string>
+): { intervals: Interval[]; closedReason?: string } {
+  const isoDate = toIsoDate(date);
+  const weekday = weekdayOf(date);
+
+  if (settings.avoidHolidays) {
+    const holiday = holidays.get(isoDate);
+    if (holiday) return { intervals: [], closedReason: `Bank holiday (${holiday})` };
+    if (settings.holidayList.includes(isoDate)) {
+      return { intervals: [], closedReason: 'Business holiday' };
+    }
+  }
+
+  if (settings.avoidWeekends && (weekday === 0 || weekday === 6)) {
+    return { intervals: [], closedReason: 'Weekend' };
+  }
+
+  let intervals: Interval[] = [[0, MINUTES_PER_DAY]];
+
+  if (respectBusinessHours) {
+    const dayName = DAY_NAMES[weekday]!;
+    const slot: TimeSlot | null = settings.businessHours[dayName];
+    if (!slot?.enabled) {
+      return {
+        intervals: [],
+        closedReason: `Closed on ${dayName.charAt(0).toUpperCase()}${dayName.slice(1)}s`,
+      };
+    }
+    intervals = [[parseTime(slot.start), parseTime(slot.end)]];
+  }
+
+  if (settings.quietHours.enabled) {
+    const quietStart = parseTime(settings.quietHours.start);
+    const quietEnd = parseTime(settings.quietHours.end);
+    const quiet: Interval[] =
+      quietStart < quietEnd
+        ? [[quietStart, quietEnd]]
+        : [
+            [quietStart, MINUTES_PER_DAY],
+            [0, quietEnd],
+          ];
+    intervals = quiet.reduce(subtractInterval, intervals);
+  }
+
+  return { intervals: intervals.filter(([start, end]) => end > start) };
+}
+
+/**
+ * Day of week (0 = Sunday) and minutes since midnight for an instant in a time zone
+ */
+export function getLocalDayAndTime(
+  date: Date,
+  timeZone: string
+): { weekday: number; minutes: number } {
+  const local = getZonedParts(date, timeZone);
+  return { weekday: weekdayOf(local), minutes: local.minutes };
+}
+
+/**
+ * Calendar date of an instant in a time zone, YYYY-MM-DD
+ */
+export function getLocalIsoDate(date: Date, timeZone: string): string {
+  return toIsoDate(getZonedParts(date, timeZone));
+}
+
+/**
+ * Next instant at or after `from` that falls on one of `weekdays` at `minutes` local time
+ */
+export function getNextLocalTime(
+  from: Date,
+  timeZone: string,
+  weekdays: number[],
+  minutes: number
+): Date {
+  const local = getZonedParts(from, timeZone);
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const date = addDays(local, offset);
+    if (weekdays.includes(weekdayOf(date)) && (offset > 0 || minutes >= local.minutes)) {
+      return zonedTimeToUtc(date, minutes, timeZone);
+    }
+  }
+
+  return from;
+}
+
+/**
+ * Find the first moment at or after `from` when a request may be sent
+ */
+export function getNextSendingSlot(
+  from: Date,
+  timeZone: string,
+  settings: SendingHoursSettings,
+  options: { respectBusinessHours?: boolean } = {}
+): { sendAt: Date; reason: string | null } {
+  const respectBusinessHours = options.respectBusinessHours ?? settings.respectBusinessHours;
+  const local = getZonedParts(from, timeZone);
+  const holidays = new Map<string, string>();
+  for (const year of [local.year, local.year + 1]) {
+    for (const holiday of getUkBankHolidays(year)) holidays.set(holiday.date, holiday.name);
+  }
+
+  let reason: string | null = null;
+
+  for (let offset = 0; offset <= MAX_DAYS_AHEAD; offset++) {
+    const date = addDays(local, offset);
+    const { intervals, closedReason } = getDayWindow(
+      date,
+      settings,
+      respectBusinessHours,
+      holidays
+    );
+    const earliest = offset === 0 ? local.minutes : 0;
+    const interval = intervals.find(([, end]) => end > earliest);
+
+    if (offset === 0) {
+      if (interval && interval[0] <= earliest) {
+        return { sendAt: from, reason: null };
+      }
+
+      const slot = settings.businessHours[DAY_NAMES[weekdayOf(date)]!];
+      const outsideBusinessHours =
+        respectBusinessHours &&
+        (!slot || earliest < parseTime(slot.start) || earliest >= parseTime(slot.end));
+      reason =
+        closedReason ??
+        (outsideBusinessHours
+          ? 'Outside business hours'
+          : `Quiet hours (${settings.quietHours.start}-${settings.quietHours.end})`);
+    }
+
+    if (interval) {
+      const start = Math.max(interval[0], earliest);
+      return {
+        sendAt: zonedTimeToUtc(date, start, timeZone),
+        reason: `${reason} - moved to ${toIsoDate(date)} ${formatTime(start)}`,
+      };
+    }
+  }
+
+  // No allowed slot in the search range - send as requested rather than hold it forever
+  return { sendAt: from, reason: null };
+}
+
+/**
+ * Apply a business's sending hours to a requested send time (null means "now")
+ */
+export function resolveSendTime(
+  business: { timezone: string; sendingHours?: Prisma.JsonValue | null },
+  requestedAt: Date | null,
+  options: { respectBusinessHours?: boolean; now?: Date } = {}
+): SendTimeResolution {
+  const from = requestedAt ?? options.now ?? new Date();
+  const { sendAt, reason } = getNextSendingSlot(
+    from,
+    business.timezone,
+    getSendingHours(business.sendingHours),
+    options
+  );
+
+  if (!reason) {
+    return { scheduledFor: requestedAt, rescheduleReason: null };
+  }
+
+  return { scheduledFor: sendAt, rescheduleReason: reason };
+}
@@ -0,0 +1,165 @@
+/**
+ * SMS encoding and segment counting
+ *
+ * A message that only uses the GSM 03.38 alphabet is sent as GSM-7: 160 characters in a
+ * single SMS, 153 per part once it is split. A single character outside that alphabet (an
+ * emoji, a curly quote) switches the whole message to UCS-2, which fits 70 characters, or
+ * 67 per part - roughly tripling the cost of a long message.
+ */
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export const SMS_SEGMENT_LIMITS: Record<SmsEncoding, { single: number; multipart: number }> = {
+  'GSM-7': { single: 160, multipart: 153 },
+  'UCS-2': { single: 70, multipart: 67 },
+};
+
+export interface SmsSegmentInfo {
+  encoding: SmsEncoding;
+  characterCount: number;
+  /** Septets for GSM-7 (extension characters take two), UTF-16 code units for UCS-2 */
+  units: number;
+  segmentCount: number;
+  unitsPerSegment: number;
+  remainingInSegment: number;
+  /** Distinct characters that forced UCS-2, in order of first appearance */
+  unicodeCharacters: string[];
+}
+
+export interface GsmSafeResult {
+  text: string;
+  replacements: number;
+  /** Characters with no GSM-7 equivalent (e.g. emoji), still forcing UCS-2 */
+  unicodeCharacters: string[];
+}
+
+const GSM_BASIC = new Set(
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+    '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+);
+// Sent as an escape plus the character, so each costs two septets
+const GSM_EXTENDED = new Set('\f^{}\\[~]|€');
+
+const TRANSLITERATIONS: Record<string, string> = {
+  '‘': "'",
+  '’': "'",
+  '‚': "'",
+  '‛': "'",
+  '′': "'",
+  '‹': "'",
+  '›': "'",
+  '“': '"',
+  '”': '"',
+  '„': '"',
+  '‟': '"',
+  '″': '"',
+  '«': '"',
+  '»': '"',
+  '–': '-',
+  '—': '-',
+  '―': '-',
+  '‐': '-',
+  '−': '-',
+  '•': '-',
+  '·': '-',
+  '…': '...',
+  '\u00a0': ' ', // No-break space
+  '\u2002': ' ', // En space
+  '\u2003': ' ', // Em space
+  '\u2009': ' ', // Thin space
+  '\u202f': ' ', // Narrow no-break space
+  '\u200b': '', // Zero-width space
+  '\t': ' ',
+  '™': 'TM',
+  '©': '(c)',
+  '®': '(R)',
+  '×': 'x',
+  '÷': '/',
+  '½': '1/2',
+  '¼': '1/4',
+  '¾': '3/4',
+};
+
+export function isGsmCharacter(char: string): boolean {
+  return GSM_BASIC.has(char) || GSM_EXTENDED.has(char);
+}
+
+// Count the parts needed without splitting a character (escape pair or surrogate pair)
+function countSegments(costs: number[], capacity: number): { segments: number; lastUsed: number } {
+  let segments = 1;
+  let used = 0;
+  for (const cost of costs) {
+    if (used + cost > capacity) {
+      segments++;
+      used = 0;
+    }
+    used += cost;
+  }
+  return { segments, lastUsed: used };
+}
+
+/**
+ * Encoding, segment count and Unicode culprits for an SMS body
+ */
+export function calculateSmsSegments(text: string): SmsSegmentInfo {
+  const characters = [...text];
+  const unicodeCharacters = [...new Set(characters.filter(char => !isGsmCharacter(char)))];
+  const encoding: SmsEncoding = unicodeCharacters.length > 0 ? 'UCS-2' : 'GSM-7';
+
+  const costs = characters.map(char =>
+    encoding === 'GSM-7' ? (GSM_EXTENDED.has(char) ? 2 : 1) : char.length
+  );
+  const units = costs.reduce((sum, cost) => sum + cost, 0);
+  const limits = SMS_SEGMENT_LIMITS[encoding];
+
+  if (units <= limits.single) {
+    return {
+      encoding,
+      characterCount: characters.length,
+      units,
+      segmentCount: 1,
+      unitsPerSegment: limits.single,
+      remainingInSegment: limits.single - units,
+      unicodeCharacters,
+    };
+  }
+
+  const { segments, lastUsed } = countSegments(costs, limits.multipart);
+  return {
+    encoding,
+    characterCount: characters.length,
+    units,
+    segmentCount: segments,
+    unitsPerSegment: limits.multipart,
+    remainingInSegment: limits.multipart - lastUsed,
+    unicodeCharacters,
+  };
+}
+
+/**
+ * Replace characters that force UCS-2 with GSM-7 look-alikes: curly quotes, dashes,
+ * ellipses, odd spaces and accented letters. Emoji and other scripts are left in place.
+ */
+export function toGsmSafe(text: string): GsmSafeResult {
+  let replacements = 0;
+
+  const safe = [...text]
+    .map(char => {
+      if (isGsmCharacter(char)) return char;
+
+      const replacement =
+        TRANSLITERATIONS[char] ?? char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+      if (replacement !== char && [...replacement].every(isGsmCharacter)) {
+        replacements++;
+        return replacement;
+      }
+      return char;
+    })
+    .join('');
+
+  return {
+    text: safe,
+    replacements,
+    unicodeCharacters: calculateSmsSegments(safe).unicodeCharacters,
+  };
+}
@@ -0,0 +1,260 @@
+import { inflateRawSync } from 'zlib';
+
+// Minimal CSV / XLSX readers for customer imports - first sheet only, values as strings
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+const ZIP_MAGIC = 0x04034b50;
+
+// The largest plan imports 10,000 customers; anything past that plus a header is refused
+// while parsing rather than after the whole sheet is in memory
+export const MAX_SPREADSHEET_ROWS = 10_001;
+export const MAX_SPREADSHEET_COLUMNS = 256;
+
+// Uploads are capped compressed, so inflated workbook parts are capped as well
+const MAX_INFLATED_BYTES = 50 * 1024 * 1024;
+
+export function isXlsxFile(fileName: string, buffer: Buffer): boolean {
+  return fileName.toLowerCase().endsWith('.xlsx') || buffer.readUInt32LE(0) === ZIP_MAGIC;
+}
+
+/**
+ * Parse an uploaded spreadsheet into a header row and data rows
+ */
+export function parseSpreadsheet(fileName: string, buffer: Buffer): ParsedSheet {
+  const table =
+    buffer.length >= 4 && isXlsxFile(fileName, buffer)
+      ? parseXlsx(buffer)
+      : parseCsv(buffer.toString('utf8'));
+
+  // Drop blank lines so trailing newlines and empty spreadsheet rows don't become records
+  const nonEmpty = table.filter(row => row.some(cell => cell.trim() !== ''));
+  const [headerRow = [], ...rows] = nonEmpty;
+
+  return {
+    headers: headerRow.map(header => header.trim()),
+    rows: rows.map(row => row.map(cell => cell.trim())),
+  };
+}
+
+/**
+ * RFC 4180 CSV parser (quoted fields, escaped quotes, CRLF, UTF-8 BOM)
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Read the first worksheet of an .xlsx workbook
+ */
+export function parseXlsx(buffer: Buffer): string[][] {
+  const read = openZip(buffer);
+
+  const sharedStrings = Array.from(
+    (read('xl/sharedStrings.xml') || '').matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g),
+    match => extractText(match[1] ?? '')
+  );
+
+  const sheetXml = read(resolveFirstSheetPath(read)) || read('xl/worksheets/sheet1.xml');
+  if (!sheetXml) {
+    throw new Error('Workbook does not contain a worksheet');
+  }
+
+  // Rows are kept in document order; gaps in r="" numbering are blank rows, which
+  // parseSpreadsheet drops anyway
+  const rows: string[][] = [];
+  for (const rowMatch of sheetXml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    if (rows.length >= MAX_SPREADSHEET_ROWS) {
+      throw new Error(`Spreadsheet has more than ${MAX_SPREADSHEET_ROWS - 1} rows`);
+    }
+
+    const cells: string[] = [];
+
+    for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cellMatch[1] ?? '';
+      const body = cellMatch[2] || '';
+      const ref = /\br="([A-Z]+)\d+"/.exec(attrs)?.[1];
+      const type = /\bt="(\w+)"/.exec(attrs)?.[1];
+      const rawValue = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1] ?? '';
+
+      const column = ref ? columnIndex(ref) : cells.length;
+      if (column >= MAX_SPREADSHEET_COLUMNS) {
+        throw new Error(`Spreadsheet has more than ${MAX_SPREADSHEET_COLUMNS} columns`);
+      }
+
+      let value: string;
+      if (type === 's') {
+        value = sharedStrings[Number(rawValue)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = extractText(body);
+      } else {
+        value = decodeXml(rawValue);
+      }
+
+      cells[column] = value;
+    }
+
+    rows.push(Array.from(cells, cell => cell ?? ''));
+  }
+
+  return rows;
+}
+
+function resolveFirstSheetPath(read: (name: string) => string | undefined): string {
+  const relId = /<sheet\b[^>]*\br:id="([^"]+)"/.exec(read('xl/workbook.xml') || '')?.[1];
+  const rels = read('xl/_rels/workbook.xml.rels') || '';
+  const target = relId
+    ? new RegExp(`<Relationship\\b[^>]*\\bId="${relId}"[^>]*\\bTarget="([^"]+)"`).exec(rels)?.[1] ||
+      new RegExp(`<Relationship\\b[^>]*\\bTarget="([^"]+)"[^>]*\\bId="${relId}"`).exec(rels)?.[1]
+    : undefined;
+
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Index a zip's central directory and return a reader that inflates one entry on demand,
+ * so only the workbook parts the parser asks for are ever decompressed
+ */
+function openZip(buffer: Buffer): (name: string) => string | undefined {
+  // Locate the end of central directory record (scan back over a possible comment)
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('File is not a valid .xlsx workbook');
+  }
+
+  const entries = new Map<string, { method: number; start: number; size: number }>();
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) break;
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const start =
+      localOffset +
+      30 +
+      buffer.readUInt16LE(localOffset + 26) +
+      buffer.readUInt16LE(localOffset + 28);
+    entries.set(name, { method, start, size: compressedSize });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  let inflated = 0;
+  return name => {
+    const entry = entries.get(name);
+    if (!entry) return undefined;
+
+    const data = buffer.subarray(entry.start, entry.start + entry.size);
+    if (entry.method === 0) {
+      return data.toString('utf8');
+    }
+    if (entry.method !== 8) {
+      return undefined;
+    }
+
+    let content: Buffer;
+    try {
+      content = inflateRawSync(data, { maxOutputLength: MAX_INFLATED_BYTES - inflated });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+        throw new Error('Workbook is too large to import');
+      }
+      throw new Error('File is not a valid .xlsx workbook');
+    }
+    inflated += content.length;
+    return content.toString('utf8');
+  };
+}
+
+function extractText(xml: string): string {
+  return Array.from(xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), match =>
+    decodeXml(match[1] ?? '')
+  ).join('');
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (entity, code: string) => decodeCodePoint(entity, Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (entity, code: string) =>
+      decodeCodePoint(entity, parseInt(code, 16))
+    )
+    .replace(/&amp;/g, '&');
+}
+
+function decodeCodePoint(entity: string, codePoint: number): string {
+  return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+}
+
+function columnIndex(letters: string): number {
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
@@ -0,0 +1,344 @@
+/**
+ * Message template engine
+ *
+ * Renders the `{{variable}}` templates used for review request messages. Templates can
+ * only look up values they are handed and apply the filters defined here - there is no
+ * expression evaluation and no property access, so a template cannot reach anything the
+ * caller did not put in the values map.
+ *
+ * Syntax:
+ *   {{firstName}}                       value lookup
+ *   {{firstName | default: "there"}}    filters, applied left to right
+ *   {{#if lastName}}...{{else}}...{{/if}}
+ */
+
+export type TemplateValue = string | number | Date | null | undefined;
+export type TemplateValues = Record<string, TemplateValue>;
+
+export interface RenderOptions {
+  /** 'html' escapes substituted values (email bodies); 'none' leaves them as-is (SMS, subjects) */
+  escape?: 'html' | 'none';
+  /** Time zone used by the date filter */
+  timeZone?: string;
+}
+
+export interface TemplateValidation {
+  valid: boolean;
+  variables: string[];
+  unknownVariables: string[];
+  errors: string[];
+}
+
+export class TemplateSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number
+  ) {
+    super(`${message} (at character ${position + 1})`);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+interface FilterCall {
+  name: string;
+  arg?: string;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string; filters: FilterCall[]; position: number }
+  | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[]; position: number };
+
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+const FILTER_CALL = /^([a-z]+)(?:\s*:\s*"((?:[^"\\]|\\.)*)")?$/;
+
+const DATE_FORMATS: Record<string, Intl.DateTimeFormatOptions> = {
+  short: { day: '2-digit', month: '2-digit', year: 'numeric' },
+  medium: { day: 'numeric', month: 'short', year: 'numeric' },
+  long: { day: 'numeric', month: 'long', year: 'numeric' },
+  full: { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' },
+};
+
+type Filter = (
+  value: string,
+  arg: string | undefined,
+  raw: TemplateValue,
+  options: RenderOptions
+) => string;
+
+const FILTERS: Record<string, { arg: 'none' | 'optional' | 'required'; apply: Filter }> = {
+  default: { arg: 'required', apply: (value, arg) => (value.trim() ? value : (arg ?? '')) },
+  upper: { arg: 'none', apply: value => value.toUpperCase() },
+  lower: { arg: 'none', apply: value => value.toLowerCase() },
+  capitalize: {
+    arg: 'none',
+    apply: value => value.charAt(0).toUpperCase() + value.slice(1).toLowerCase(),
+  },
+  title: {
+    arg: 'none',
+    apply: value =>
+      value.toLowerCase().replace(/(^|[\s-])(\S)/g, (_, sep, ch) => sep + ch.toUpperCase()),
+  },
+  trim: { arg: 'none', apply: value => value.trim() },
+  date: {
+    arg: 'optional',
+    apply: (value, arg, raw, options) =>
+      formatDate(raw instanceof Date ? raw : value, arg, options),
+  },
+};
+
+export const TEMPLATE_FILTERS = Object.keys(FILTERS);
+
+/**
+ * Parse a template into nodes, throwing TemplateSyntaxError for malformed tags
+ */
+function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open #if blocks; the innermost block receives the nodes being parsed
+  const stack: { node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }[] = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.otherwise : top.node.then) : root;
+  };
+
+  let cursor = 0;
+  while (cursor < source.length) {
+    const open = source.indexOf('{{', cursor);
+    if (open === -1) {
+      current().push({ type: 'text', value: source.slice(cursor) });
+      break;
+    }
+    if (open > cursor) {
+      current().push({ type: 'text', value: source.slice(cursor, open) });
+    }
+
+    const close = source.indexOf('}}', open + 2);
+    if (close === -1) {
+      throw new TemplateSyntaxError('Unclosed tag, expected "}}"', open);
+    }
+    const tag = source.slice(open + 2, close).trim();
+    cursor = close + 2;
+
+    if (tag.startsWith('#')) {
+      const match = tag.match(/^#if\s+(.+)$/);
+      const name = match?.[1]?.trim() ?? '';
+      if (!match || !VARIABLE_NAME.test(name)) {
+        throw new TemplateSyntaxError(
+          `Invalid block "{{${tag}}}", expected {{#if variable}}`,
+          open
+        );
+      }
+      const node: TemplateNode = { type: 'if', name, then: [], otherwise: [], position: open };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        throw new TemplateSyntaxError('{{else}} without a matching {{#if}}', open);
+      }
+      top.inElse = true;
+    } else if (tag.startsWith('/')) {
+      if (tag !== '/if' || !stack.pop()) {
+        throw new TemplateSyntaxError(`Unexpected "{{${tag}}}"`, open);
+      }
+    } else {
+      current().push(parseVariable(tag, open));
+    }
+  }
+
+  const unclosed = stack[stack.length - 1];
+  if (unclosed) {
+    throw new TemplateSyntaxError(
+      `{{#if ${unclosed.node.name}}} is missing its {{/if}}`,
+      unclosed.node.position
+    );
+  }
+
+  return root;
+}
+
+function parseVariable(tag: string, position: number): TemplateNode {
+  const [name = '', ...filterSources] = splitFilters(tag);
+  if (!VARIABLE_NAME.test(name)) {
+    throw new TemplateSyntaxError(`Invalid variable name "${name}"`, position);
+  }
+
+  const filters = filterSources.map(filterSource => {
+    const match = filterSource.match(FILTER_CALL);
+    const filterName = match?.[1] ?? filterSource;
+    const filter = FILTERS[filterName];
+    if (!match || !filter) {
+      throw new TemplateSyntaxError(
+        `Unknown filter "${filterName}" (available: ${TEMPLATE_FILTERS.join(', ')})`,
+        position
+      );
+    }
+
+    const arg = match[2]?.replace(/\\(.)/g, '$1');
+    if (filter.arg === 'required' && arg === undefined) {
+      throw new TemplateSyntaxError(
+        `Filter "${filterName}" needs a value, e.g. ${filterName}: "..."`,
+        position
+      );
+    }
+    if (filter.arg === 'none' && arg !== undefined) {
+      throw new TemplateSyntaxError(`Filter "${filterName}" does not take a value`, position);
+    }
+    return { name: filterName, arg };
+  });
+
+  return { type: 'variable', name, filters, position };
+}
+
+// Split on pipes that are not inside a quoted filter argument
+function splitFilters(tag: string): string[] {
+  const parts: string[] = [];
+  let part = '';
+  let quoted = false;
+
+  for (let i = 0; i < tag.length; i++) {
+    const char = tag[i];
+    if (char === '\\' && quoted) {
+      part += char + (tag[++i] ?? '');
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    if (char === '|' && !quoted) {
+      parts.push(part.trim());
+      part = '';
+      continue;
+    }
+    part += char;
+  }
+  parts.push(part.trim());
+
+  return parts;
+}
+
+function lookup(values: TemplateValues, name: string): TemplateValue {
+  // Own properties only, so names like "constructor" never reach the prototype
+  return Object.prototype.hasOwnProperty.call(values, name) ? values[name] : undefined;
+}
+
+function stringify(value: TemplateValue, options: RenderOptions): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatDate(value, undefined, options);
+  return String(value);
+}
+
+// Dates render as en-GB dates; strings that don't parse as a date pass through unchanged
+function formatDate(
+  value: Date | string,
+  format: string | undefined,
+  options: RenderOptions
+): string {
+  const date = value instanceof Date ? value : value ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    return String(value);
+  }
+
+  if (format === 'iso') {
+    return date.toISOString().slice(0, 10);
+  }
+  return date.toLocaleDateString('en-GB', {
+    ...(DATE_FORMATS[format ?? 'long'] ?? DATE_FORMATS.long),
+    timeZone: options.timeZone ?? 'Europe/London',
+  });
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  values: TemplateValues,
+  options: RenderOptions
+): string {
+  let output = '';
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value;
+    } else if (node.type === 'if') {
+      const truthy = stringify(lookup(values, node.name), options).trim() !== '';
+      output += renderNodes(truthy ? node.then : node.otherwise, values, options);
+    } else {
+      const raw = lookup(values, node.name);
+      let value = stringify(raw, options);
+      for (const filter of node.filters) {
+        value = FILTERS[filter.name]!.apply(value, filter.arg, raw, options);
+      }
+      output += options.escape === 'html' ? escapeHtml(value) : value;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Render a template. Variables missing from `values` render as empty strings; syntax
+ * errors throw TemplateSyntaxError.
+ */
+export function renderTemplate(
+  source: string,
+  values: TemplateValues,
+  options: RenderOptions = {}
+): string {
+  return renderNodes(parseTemplate(source), values, options);
+}
+
+function collectVariables(nodes: TemplateNode[], names: Set<string>): Set<string> {
+  for (const node of nodes) {
+    if (node.type === 'variable') {
+      names.add(node.name);
+    } else if (node.type === 'if') {
+      names.add(node.name);
+      collectVariables(node.then, names);
+      collectVariables(node.otherwise, names);
+    }
+  }
+  return names;
+}
+
+/**
+ * Variable names used by a template, in order of first use
+ */
+export function extractTemplateVariables(source: string): string[] {
+  return [...collectVariables(parseTemplate(source), new Set())];
+}
+
+/**
+ * Check templates for syntax errors and variables outside `knownVariables`
+ */
+export function validateTemplate(
+  sources: string | string[],
+  knownVariables: readonly string[]
+): TemplateValidation {
+  const errors: string[] = [];
+  const names = new Set<string>();
+
+  for (const source of Array.isArray(sources) ? sources : [sources]) {
+    try {
+      collectVariables(parseTemplate(source), names);
+    } catch (error) {
+      if (!(error instanceof TemplateSyntaxError)) throw error;
+      errors.push(`Invalid template syntax: ${error.message}`);
+    }
+  }
+
+  const variables = [...names];
+  const unknownVariables = variables.filter(name => !knownVariables.includes(name));
+  if (unknownVariables.length > 0) {
+    errors.push(
+      `Invalid personalization variables: ${unknownVariables.map(name => `{{${name}}}`).join(', ')}`
+    );
+  }
+
+  return { valid: errors.length === 0, variables, unknownVariables, errors };
+}
@@ -97,14 +97,24 @@ export function isValidUKPhone(phone: string | null | undefined): boolean {
 }
 
 export function normalizePhoneNumber(phone: string): string {
-  const digits = phone.replace(/\D/g, '');
+  let digits = phone.replace(/\D/g, '');
+
+  // International dialling prefix (0044...)
+  if (digits.startsWith('0044')) {
+    digits = digits.substring(2);
+  }
 
   // Convert UK numbers to international format
-  if (digits.length === 10 && digits.startsWith('0')) {
+  if ((digits.length === 10 || digits.length === 11) && digits.startsWith('0')) {
     return '+44' + digits.substring(1);
   }
 
-  if (digits.length === 11 && digits.startsWith('44')) {
+  // Drop the trunk zero written as +44 (0)7700...
+  if ((digits.length === 12 || digits.length === 13) && digits.startsWith('440')) {
+    digits = '44' + digits.substring(3);
+  }
+
+  if ((digits.length === 11 || digits.length === 12) && digits.startsWith('44')) {
     return '+' + digits;
   }
 
@@ -134,7 +144,11 @@ export function canSendToCustomer(
   return false;
 }
 
-export function generateTrackingUrl(baseUrl: string, uuid: string, instant: boolean = true): string {
+export function generateTrackingUrl(
+  baseUrl: string,
+  uuid: string,
+  instant: boolean = true
+): string {
   const trackingDomain = 'https://track.review-runner.co.uk';
   const url = `${trackingDomain}/${uuid}`;
   return instant ? `${url}?instant=true` : url;
@@ -247,36 +247,37 @@ export const searchSchema = z.object({
 // CUSTOMER SCHEMAS
 // ==========================================
 
-export const createCustomerSchema = z
-  .object({
-    firstName: createSanitizedString(1, SECURITY_LIMITS.MAX_NAME_LENGTH, {
-      customMessage: 'First name is required and must be 1-100 characters',
-    }),
+// Refined schemas have no .partial(), so create and update share the unrefined fields
+const customerFieldsSchema = z.object({
+  firstName: createSanitizedString(1, SECURITY_LIMITS.MAX_NAME_LENGTH, {
+    customMessage: 'First name is required and must be 1-100 characters',
+  }),
 
-    lastName: createSanitizedString(0, SECURITY_LIMITS.MAX_NAME_LENGTH, {
-      allowEmpty: true,
-    }).optional(),
+  lastName: createSanitizedString(0, SECURITY_LIMITS.MAX_NAME_LENGTH, {
+    allowEmpty: true,
+  }).optional(),
 
-    email: emailSchema.optional(),
+  email: emailSchema.optional(),
 
-    phone: phoneSchema.optional(),
+  phone: phoneSchema.optional(),
 
-    address: createSanitizedString(0, SECURITY_LIMITS.MAX_ADDRESS_LENGTH, {
-      allowEmpty: true,
-    }).optional(),
+  address: createSanitizedString(0, SECURITY_LIMITS.MAX_ADDRESS_LENGTH, {
+    allowEmpty: true,
+  }).optional(),
 
-    notes: createSanitizedString(0, SECURITY_LIMITS.MAX_NOTES_LENGTH, {
-      allowEmpty: true,
-    }).optional(),
+  notes: createSanitizedString(0, SECURITY_LIMITS.MAX_NOTES_LENGTH, {
+    allowEmpty: true,
+  }).optional(),
 
-    tags: tagsArraySchema,
-  })
-  .refine(data => data.email || data.phone, {
-    message: 'Either email or phone number is required',
-    path: ['email'],
-  });
+  tags: tagsArraySchema,
+});
+
+export const createCustomerSchema = customerFieldsSchema.refine(data => data.email || data.phone, {
+  message: 'Either email or phone number is required',
+  path: ['email'],
+});
 
-export const updateCustomerSchema = createCustomerSchema.partial().refine(
+export const updateCustomerSchema = customerFieldsSchema.partial().refine(
   data => {
     // If email or phone is being updated, ensure at least one remains
     const hasEmail = data.email !== undefined && data.email !== '';
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+// GET /api/analytics/trends - from/to are dates in the business's time zone and replace days
+export const analyticsTrendsQuerySchema = z
+  .object({
+    days: z.coerce.number().int().min(1).max(365).default(30),
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+    interval: z.enum(['day', 'week', 'month']).default('day'),
+    channel: z.enum(['EMAIL', 'SMS']).optional(),
+    templateId: z.string().uuid().optional(),
+    campaignId: z.string().uuid().optional(),
+    breakdown: z.enum(['channel', 'template', 'campaign']).optional(),
+  })
+  .refine(query => !query.from === !query.to, {
+    message: 'Pass from and to together',
+    path: ['from'],
+  })
+  .refine(query => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must not be after to',
+    path: ['from'],
+  })
+  .refine(
+    query =>
+      !query.from ||
+      !query.to ||
+      Date.parse(query.to) - Date.parse(query.from) < 366 * 24 * 60 * 60 * 1000,
+    { message: 'Choose at most a year', path: ['to'] }
+  );
+
+export type AnalyticsTrendsQuery = z.infer<typeof analyticsTrendsQuerySchema>;
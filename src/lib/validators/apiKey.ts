@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import { API_KEY_SCOPES } from '../permissions';
+
+// POST /api/api-keys - the key itself is generated, never chosen
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name the key after the system that uses it').max(60),
+  scopes: z
+    .array(z.enum(API_KEY_SCOPES))
+    .min(1, 'Choose at least one scope')
+    .transform(scopes => Array.from(new Set(scopes))),
+});
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { RequestChannelEnum } from './reviewRequest';
+import { createCustomerSchema, tagSchema } from '../validation-schemas';
+
+export const AutomationTriggerEnum = z.enum([
+  'CUSTOMER_CREATED',
+  'CUSTOMER_TAGGED',
+  'INTEGRATION_EVENT',
+]);
+
+/** Names integrations send events under, e.g. `job.completed` or `appointment.finished` */
+export const integrationEventNameSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1)
+  .max(60)
+  .regex(/^[a-z0-9][a-z0-9._:-]*$/, 'Use letters, numbers, dots, colons, dashes and underscores');
+
+const automationRuleFields = {
+  name: z.string().trim().min(1, 'Name the rule').max(100),
+  trigger: AutomationTriggerEnum,
+  tag: tagSchema.nullable().optional(), // For CUSTOMER_TAGGED
+  eventName: integrationEventNameSchema.nullable().optional(), // For INTEGRATION_EVENT
+  templateId: z.string().uuid(),
+  channel: RequestChannelEnum,
+  delayMinutes: z
+    .number()
+    .int()
+    .min(0)
+    .max(30 * 24 * 60, 'Delay can be at most 30 days'),
+  cooldownDays: z.number().int().min(0).max(365),
+  isActive: z.boolean(),
+};
+
+// POST /api/automations - whether the trigger has its tag or event name is checked on save
+export const createAutomationRuleSchema = z.object({
+  ...automationRuleFields,
+  delayMinutes: automationRuleFields.delayMinutes.default(0),
+  cooldownDays: automationRuleFields.cooldownDays.default(90),
+  isActive: automationRuleFields.isActive.default(true),
+});
+
+// PATCH /api/automations/[id]
+export const updateAutomationRuleSchema = z.object(automationRuleFields).partial();
+
+// POST /api/v1/events - the customer by id, or found by email/phone and created if new
+export const integrationEventSchema = z
+  .object({
+    event: integrationEventNameSchema,
+    customerId: z.string().uuid().optional(),
+    customer: createCustomerSchema.optional(),
+  })
+  .refine(data => data.customerId || data.customer, {
+    message: 'Send customerId or customer',
+    path: ['customerId'],
+  });
+
+export type CreateAutomationRuleInput = z.infer<typeof createAutomationRuleSchema>;
+export type UpdateAutomationRuleInput = z.infer<typeof updateAutomationRuleSchema>;
+export type IntegrationEventInput = z.infer<typeof integrationEventSchema>;
@@ -0,0 +1,121 @@
+import { z } from 'zod';
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM');
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+const timeSlotSchema = z
+  .object({
+    start: timeOfDay,
+    end: timeOfDay,
+    enabled: z.boolean(),
+  })
+  .refine(slot => slot.start < slot.end, 'Opening time must be before closing time');
+
+// Business.sendingHours - any omitted field falls back to DEFAULT_SENDING_HOURS
+export const sendingHoursSchema = z.object({
+  respectBusinessHours: z.boolean().optional(),
+  businessHours: z
+    .object({
+      monday: timeSlotSchema.nullable(),
+      tuesday: timeSlotSchema.nullable(),
+      wednesday: timeSlotSchema.nullable(),
+      thursday: timeSlotSchema.nullable(),
+      friday: timeSlotSchema.nullable(),
+      saturday: timeSlotSchema.nullable(),
+      sunday: timeSlotSchema.nullable(),
+    })
+    .partial()
+    .optional(),
+  quietHours: z
+    .object({
+      start: timeOfDay,
+      end: timeOfDay,
+      enabled: z.boolean(),
+    })
+    .optional(),
+  avoidWeekends: z.boolean().optional(),
+  avoidHolidays: z.boolean().optional(),
+  holidayList: z.array(isoDate).max(100).optional(),
+});
+
+export type SendingHoursInput = z.infer<typeof sendingHoursSchema>;
+
+// Business.messagingProviders - overrides the environment's provider per channel
+export const messagingProvidersSchema = z
+  .object({
+    email: z.enum(['sendgrid', 'smtp', 'capture']).optional(),
+    sms: z.enum(['twilio', 'capture']).optional(),
+  })
+  .strict();
+
+export type MessagingProvidersInput = z.infer<typeof messagingProvidersSchema>;
+
+// Business.contactPolicy - any omitted field falls back to DEFAULT_CONTACT_POLICY
+export const contactPolicySchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    maxRequests: z.number().int().min(1).max(20).optional(),
+    windowDays: z.number().int().min(1).max(365).optional(),
+    skipIfEngaged: z.boolean().optional(),
+  })
+  .strict();
+
+export type ContactPolicyInput = z.infer<typeof contactPolicySchema>;
+
+// PUT /api/businesses/active - the business the switcher makes active for this user
+export const switchBusinessSchema = z.object({
+  businessId: z.string().uuid(),
+});
+
+// Links rendered on public pages must be web addresses, never javascript: or data: URLs
+const webUrl = z
+  .string()
+  .url()
+  .refine(url => /^https?:\/\//i.test(url), 'URL must start with http:// or https://');
+
+// Business.landingPage - branded page shown by review links instead of redirecting to Google
+export const landingPageSchema = z
+  .object({
+    enabled: z.boolean(),
+    headline: z.string().trim().max(120).optional(),
+    message: z.string().trim().max(500).optional(),
+    showPhoto: z.boolean().optional(),
+    trustpilotUrl: webUrl.optional().or(z.literal('')),
+    facebookUrl: webUrl.optional().or(z.literal('')),
+  })
+  .strict();
+
+export type LandingPageInput = z.infer<typeof landingPageSchema>;
+
+// POST /r/[uuid]/feedback - private feedback left on the landing page
+export const feedbackSubmissionSchema = z.object({
+  message: z.string().trim().min(1, 'Please enter your feedback').max(2000),
+});
+
+export const ReviewPlatformEnum = z.enum([
+  'GOOGLE',
+  'TRUSTPILOT',
+  'CHECKATRADE',
+  'TRIPADVISOR',
+  'YELL',
+  'FACEBOOK',
+  'OTHER',
+]);
+
+// POST /api/review-destinations - a weight of 0 keeps a destination out of rotation but
+// still lets campaigns and templates pin it
+export const createReviewDestinationSchema = z.object({
+  platform: ReviewPlatformEnum,
+  label: z.string().trim().max(60).optional(),
+  url: webUrl,
+  weight: z.number().int().min(0).max(100).default(1),
+  isActive: z.boolean().default(true),
+});
+
+export const updateReviewDestinationSchema = createReviewDestinationSchema
+  .extend({ label: z.string().trim().max(60).nullable() })
+  .partial()
+  .strict();
+
+export type CreateReviewDestinationInput = z.infer<typeof createReviewDestinationSchema>;
+export type UpdateReviewDestinationInput = z.infer<typeof updateReviewDestinationSchema>;
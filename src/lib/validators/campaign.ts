@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import { RequestChannelEnum } from './reviewRequest';
+import type { FollowUpStep } from '../../components/dashboard/customers/data/campaignSettings';
+
+// Enums matching Prisma schema
+export const CampaignStatusEnum = z.enum([
+  'DRAFT',
+  'SCHEDULED',
+  'RUNNING',
+  'PAUSED',
+  'COMPLETED',
+  'CANCELLED',
+]);
+
+export const CampaignSchedulingTypeEnum = z.enum(['IMMEDIATE', 'SCHEDULED', 'OPTIMAL']);
+
+export const followUpStepSchema = z.object({
+  id: z.string().min(1),
+  delay: z.object({
+    value: z.number().int().min(1).max(365),
+    unit: z.enum(['hours', 'days', 'weeks']),
+  }),
+  templateId: z.string(),
+  channel: z.enum(['SMS', 'EMAIL', 'AUTO']),
+  conditions: z.array(
+    z.object({
+      type: z.enum(['no_response', 'no_click', 'bounce', 'time_elapsed']),
+      value: z.any().optional(),
+    })
+  ),
+  active: z.boolean().default(true),
+}) satisfies z.ZodType<FollowUpStep, z.ZodTypeDef, unknown>;
+
+// Full FollowUpConfig sequences, or the simpler delayDays form used by the send wizard
+export const campaignFollowUpSettingsSchema = z.union([
+  z.object({
+    enabled: z.boolean().default(true),
+    maxAttempts: z.number().int().min(1).max(10),
+    followUpSequence: z.array(followUpStepSchema).max(10),
+    stopOnResponse: z.boolean().default(true),
+    respectSuppressions: z.boolean().default(true),
+  }),
+  z.object({
+    maxAttempts: z.number().int().min(1).max(10).default(1),
+    delayDays: z.array(z.number().int().min(1).max(30)).optional(),
+    stopOnResponse: z.boolean().default(true),
+  }),
+]);
+
+export const campaignSettingsSchema = z.object({
+  respectBusinessHours: z.boolean().default(true),
+  suppressionListCheck: z.boolean().default(true),
+});
+
+// Each variant overrides the campaign's template, subject or message
+export const campaignVariantSchema = z
+  .object({
+    templateId: z.string().optional(),
+    subject: z.string().max(200).optional(),
+    messageContent: z.string().min(1).max(1600).optional(),
+  })
+  .refine(data => data.templateId || data.subject || data.messageContent, {
+    message: 'Each variant needs a template, subject or message',
+  });
+
+export const campaignExperimentSettingsSchema = z.object({
+  metric: z.enum(['CLICK', 'COMPLETION']).default('CLICK'),
+  autoSelectWinner: z.boolean().default(false),
+  minSamplePerVariant: z.number().int().min(10).max(10000).default(50),
+  confidence: z.union([z.literal(0.9), z.literal(0.95), z.literal(0.99)]).default(0.95),
+  testPercent: z.number().int().min(5).max(90).default(20),
+  decideWithinHours: z.number().int().min(1).max(720).default(48),
+});
+
+const campaignFieldsSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  channel: RequestChannelEnum,
+  templateId: z.string().optional(),
+  // Pin a review destination; null or omitted rotates across the business's destinations
+  destinationId: z.string().uuid().nullable().optional(),
+  subject: z.string().max(200).optional(),
+  messageContent: z.string().min(1).max(1600).optional(),
+  customerIds: z.array(z.string()).min(1).max(1000),
+  schedulingType: CampaignSchedulingTypeEnum.default('IMMEDIATE'),
+  scheduledFor: z.coerce.date().optional(),
+  followUpEnabled: z.boolean().default(false),
+  followUpSettings: campaignFollowUpSettingsSchema.optional(),
+  settings: campaignSettingsSchema.optional(),
+  variants: z.array(campaignVariantSchema).min(2).max(5).optional(),
+  experimentSettings: campaignExperimentSettingsSchema.optional(),
+});
+
+export const createCampaignSchema = campaignFieldsSchema
+  .refine(data => data.schedulingType !== 'SCHEDULED' || data.scheduledFor, {
+    message: 'scheduledFor is required for scheduled campaigns',
+    path: ['scheduledFor'],
+  })
+  .refine(
+    data =>
+      data.templateId ||
+      data.messageContent ||
+      data.variants?.every(variant => variant.templateId || variant.messageContent),
+    {
+      message: 'Either templateId or messageContent is required',
+      path: ['messageContent'],
+    }
+  );
+
+export const updateCampaignSchema = campaignFieldsSchema
+  .omit({ schedulingType: true, followUpEnabled: true })
+  .extend({
+    schedulingType: CampaignSchedulingTypeEnum.optional(),
+    followUpEnabled: z.boolean().optional(),
+  })
+  .partial()
+  .strict();
+
+export const campaignQuerySchema = z.object({
+  status: CampaignStatusEnum.optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const campaignStatusActionSchema = z.object({
+  action: z.enum(['launch', 'pause', 'resume', 'cancel']),
+});
+
+export type CreateCampaignSchema = z.infer<typeof createCampaignSchema>;
+export type UpdateCampaignSchema = z.infer<typeof updateCampaignSchema>;
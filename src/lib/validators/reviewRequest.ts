@@ -1,4 +1,10 @@
 import { z } from 'zod';
+import {
+  extractVariablesFromTemplate,
+  templateVariableNames,
+  validateTemplateVariables,
+  variableAliases,
+} from '../../components/dashboard/customers/data/personalizationVariables';
 
 // Enums matching Prisma schema
 export const RequestChannelEnum = z.enum(['SMS', 'EMAIL']);
@@ -51,7 +57,10 @@ export const createReviewRequestSchema = z.object({
   subject: z.string().max(200).optional(),
   messageContent: z.string().min(1).max(1600), // Max for SMS segments
   reviewUrl: z.string().url(),
+  // Send to this review destination instead of the template's or rotating
+  destinationId: z.string().uuid().optional(),
   scheduledFor: z.string().datetime().optional(),
+  schedulingType: z.enum(['IMMEDIATE', 'SCHEDULED', 'OPTIMAL']).optional(),
   metadata: z.record(z.any()).optional(),
 });
 
@@ -77,22 +86,47 @@ export const bulkCreateReviewRequestSchema = z.object({
   subject: z.string().max(200).optional(),
   messageContent: z.string().min(1).max(1600),
   reviewUrl: z.string().url(),
+  destinationId: z.string().uuid().optional(),
   scheduledFor: z.string().datetime().optional(),
+  schedulingType: z.enum(['IMMEDIATE', 'SCHEDULED', 'OPTIMAL']).optional(),
   metadata: z.record(z.any()).optional(),
 });
 
-// Template validation helpers
+// Template validation helpers, driven by the personalization variable registry
 const requiredPersonalizationVariables = ['customerName', 'businessName', 'reviewUrl'];
-const optionalPersonalizationVariables = ['firstName', 'lastName', 'email', 'phone', 'website'];
-const allValidVariables = [
-  ...requiredPersonalizationVariables,
-  ...optionalPersonalizationVariables,
-];
+const allValidVariables = templateVariableNames;
+const optionalPersonalizationVariables = allValidVariables.filter(
+  v => !requiredPersonalizationVariables.includes(v)
+);
 
 // Extract variables from template content
-const extractVariables = (content: string): string[] => {
-  const matches = content.match(/{{([^}]+)}}/g);
-  return matches ? matches.map(match => match.slice(2, -2).trim()) : [];
+const extractVariables = (content: string): string[] => extractVariablesFromTemplate(content);
+
+// Throw a readable error for syntax errors, unknown variables or missing required variables
+const assertValidTemplate = (content: string, subject?: string): void => {
+  const validation = validateTemplateVariables(content, subject);
+  if (!validation.valid) {
+    throw new Error(validation.errors.join('; '));
+  }
+
+  // Aliases such as {{fullName}} count as the variable they stand for
+  const used = validation.variables.map(v => variableAliases[v] ?? v);
+  const hasCustomerName =
+    used.includes('customerName') || (used.includes('firstName') && used.includes('lastName'));
+  const hasBusinessName = used.includes('businessName');
+  const hasReviewUrl = used.includes('reviewUrl') || used.includes('trackingUrl');
+
+  if (!hasCustomerName) {
+    throw new Error(
+      'Template must include {{customerName}} or both {{firstName}} and {{lastName}}'
+    );
+  }
+  if (!hasBusinessName) {
+    throw new Error('Template must include {{businessName}}');
+  }
+  if (!hasReviewUrl) {
+    throw new Error('Template must include {{reviewUrl}}');
+  }
 };
 
 // Message Template validation schemas
@@ -106,6 +140,8 @@ export const createMessageTemplateSchema = z
     content: z.string().min(1).max(1600),
     templateType: z.enum(['system', 'business']).default('business'),
     variables: z.array(z.string().max(50)).default([]),
+    // Review destination requests from this template send to, instead of rotating
+    destinationId: z.string().uuid().optional(),
   })
   .refine(
     data => {
@@ -122,34 +158,7 @@ export const createMessageTemplateSchema = z
   .refine(
     data => {
       // Extract and validate personalization variables
-      const contentVariables = extractVariables(data.content);
-      const subjectVariables = data.subject ? extractVariables(data.subject) : [];
-      const allTemplateVariables = [...contentVariables, ...subjectVariables];
-
-      // Check for invalid variables
-      const invalidVariables = allTemplateVariables.filter(v => !allValidVariables.includes(v));
-      if (invalidVariables.length > 0) {
-        throw new Error(`Invalid personalization variables: ${invalidVariables.join(', ')}`);
-      }
-
-      // Check for required variables
-      const hasCustomerName =
-        allTemplateVariables.includes('customerName') ||
-        (allTemplateVariables.includes('firstName') && allTemplateVariables.includes('lastName'));
-      const hasBusinessName = allTemplateVariables.includes('businessName');
-      const hasReviewUrl = allTemplateVariables.includes('reviewUrl');
-
-      if (!hasCustomerName) {
-        throw new Error(
-          'Template must include {{customerName}} or both {{firstName}} and {{lastName}}'
-        );
-      }
-      if (!hasBusinessName) {
-        throw new Error('Template must include {{businessName}}');
-      }
-      if (!hasReviewUrl) {
-        throw new Error('Template must include {{reviewUrl}}');
-      }
+      assertValidTemplate(data.content, data.subject);
 
       return true;
     },
@@ -167,38 +176,18 @@ export const updateMessageTemplateSchema = z
     content: z.string().min(1).max(1600).optional(),
     variables: z.array(z.string().max(50)).optional(),
     isActive: z.boolean().optional(),
+    changeNote: z.string().max(200).optional(),
+    destinationId: z.string().uuid().nullable().optional(),
   })
   .refine(
     data => {
       // If content is being updated, validate personalization variables
       if (data.content) {
-        const contentVariables = extractVariables(data.content);
-        const subjectVariables = data.subject ? extractVariables(data.subject) : [];
-        const allTemplateVariables = [...contentVariables, ...subjectVariables];
-
-        // Check for invalid variables
-        const invalidVariables = allTemplateVariables.filter(v => !allValidVariables.includes(v));
-        if (invalidVariables.length > 0) {
-          throw new Error(`Invalid personalization variables: ${invalidVariables.join(', ')}`);
-        }
-
-        // Check for required variables
-        const hasCustomerName =
-          allTemplateVariables.includes('customerName') ||
-          (allTemplateVariables.includes('firstName') && allTemplateVariables.includes('lastName'));
-        const hasBusinessName = allTemplateVariables.includes('businessName');
-        const hasReviewUrl = allTemplateVariables.includes('reviewUrl');
-
-        if (!hasCustomerName) {
-          throw new Error(
-            'Template must include {{customerName}} or both {{firstName}} and {{lastName}}'
-          );
-        }
-        if (!hasBusinessName) {
-          throw new Error('Template must include {{businessName}}');
-        }
-        if (!hasReviewUrl) {
-          throw new Error('Template must include {{reviewUrl}}');
+        assertValidTemplate(data.content, data.subject);
+      } else if (data.subject) {
+        const validation = validateTemplateVariables(data.subject);
+        if (!validation.valid) {
+          throw new Error(validation.errors.join('; '));
         }
       }
 
@@ -209,6 +198,15 @@ export const updateMessageTemplateSchema = z
     }
   );
 
+export const rollbackTemplateSchema = z.object({
+  version: z.number().int().min(1),
+});
+
+export const templateVersionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1),
+});
+
 // Template query validation
 export const templateQuerySchema = z.object({
   page: z.coerce.number().int().min(1).default(1),
@@ -313,6 +311,7 @@ export type UpdateMessageTemplateInput = z.infer<typeof updateMessageTemplateSch
 export type ReviewRequestQuery = z.infer<typeof reviewRequestQuerySchema>;
 export type TemplateQuery = z.infer<typeof templateQuerySchema>;
 export type TemplatePreview = z.infer<typeof templatePreviewSchema>;
+export type RollbackTemplateInput = z.infer<typeof rollbackTemplateSchema>;
 
 // Export validation helpers
 export {
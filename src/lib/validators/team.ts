@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+const businessRole = z.enum(['OWNER', 'ADMIN', 'MEMBER']);
+
+export const createInvitationSchema = z.object({
+  email: z.string().trim().email('Enter a valid email address'),
+  role: businessRole.default('MEMBER'),
+});
+
+export const updateMemberRoleSchema = z.object({
+  role: businessRole,
+});
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { isPublicHostname } from '../public-url';
+
+// Event types businesses can subscribe to; campaign and internal events stay private
+export const WEBHOOK_EVENT_TYPES = [
+  'REQUEST_CREATED',
+  'REQUEST_QUEUED',
+  'REQUEST_SENT',
+  'REQUEST_DELIVERED',
+  'REQUEST_BOUNCED',
+  'REQUEST_FAILED',
+  'REQUEST_CLICKED',
+  'REQUEST_COMPLETED',
+  'REQUEST_OPTED_OUT',
+  'FOLLOWUP_SENT',
+  'FEEDBACK_RECEIVED',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+const endpointUrl = z
+  .string()
+  .trim()
+  .url('Enter a valid URL')
+  .refine(url => url.startsWith('https://'), 'Webhook URLs must use https')
+  .refine(
+    url => isPublicHostname(new URL(url).hostname),
+    'Webhook URLs must point to a public host'
+  );
+
+const eventTypes = z
+  .array(z.enum(WEBHOOK_EVENT_TYPES))
+  .min(1, 'Choose at least one event')
+  .transform(types => Array.from(new Set(types)));
+
+// POST /api/webhook-endpoints - the signing secret is generated, never chosen
+export const createWebhookEndpointSchema = z.object({
+  url: endpointUrl,
+  description: z.string().trim().max(200).optional(),
+  eventTypes,
+});
+
+// PATCH /api/webhook-endpoints/[id]
+export const updateWebhookEndpointSchema = z.object({
+  url: endpointUrl.optional(),
+  description: z.string().trim().max(200).nullable().optional(),
+  eventTypes: eventTypes.optional(),
+  isActive: z.boolean().optional(),
+});
+
+// GET /api/webhook-endpoints/[id]/deliveries
+export const webhookDeliveryQuerySchema = z.object({
+  status: z.enum(['PENDING', 'SUCCEEDED', 'FAILED']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type CreateWebhookEndpointInput = z.infer<typeof createWebhookEndpointSchema>;
+export type UpdateWebhookEndpointInput = z.infer<typeof updateWebhookEndpointSchema>;
+export type WebhookDeliveryQuery = z.infer<typeof webhookDeliveryQuerySchema>;
@@ -1,13 +1,30 @@
 import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server';
-import { NextResponse } from 'next/server';
+import { type NextRequest, NextResponse } from 'next/server';
 
 const isPublicRoute = createRouteMatcher([
   '/auth/sign-in(.*)',
   '/auth/sign-up(.*)',
   '/api/webhooks(.*)',
   '/r(.*)',
+  '/invite(.*)',
+  '/api/invitations(.*)',
+  // Authenticated by business API key in the route handlers
+  '/api/v1(.*)',
 ]);
 
+// Resolve a redirect target, refusing anything that leaves this origin (including
+// browser-normalised forms like /\evil.com)
+function sameOriginUrl(target: string | null, request: NextRequest): URL | null {
+  if (!target) return null;
+
+  try {
+    const url = new URL(target, request.url);
+    return url.origin === request.nextUrl.origin ? url : null;
+  } catch {
+    return null;
+  }
+}
+
 export default clerkMiddleware(async (auth, request) => {
   const { userId } = await auth();
   const { pathname } = request.nextUrl;
@@ -25,7 +42,10 @@ export default clerkMiddleware(async (auth, request) => {
 
   // If authenticated user tries to access auth pages, redirect to dashboard
   if (userId && (pathname.startsWith('/auth/sign-in') || pathname.startsWith('/auth/sign-up'))) {
-    return NextResponse.redirect(new URL('/dashboard', request.url));
+    const redirectUrl = request.nextUrl.searchParams.get('redirect_url');
+    return NextResponse.redirect(
+      sameOriginUrl(redirectUrl, request) ?? new URL('/dashboard', request.url)
+    );
   }
 
   // Protect all routes except public ones
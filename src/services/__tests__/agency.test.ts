@@ -0,0 +1,42 @@
+import { summariseRollup } from '../agency';
+
+const business = (id: string, name: string) => ({
+  id,
+  name,
+  googleRating: null,
+  googleReviewCount: null,
+});
+
+describe('Agency', () => {
+  describe('summariseRollup', () => {
+    it('should compute per-business rates and agency totals', () => {
+      const { businesses, totals } = summariseRollup(
+        [
+          { businessId: 'b1', sent: 10, clicked: 5, completed: 2 },
+          { businessId: 'b2', sent: 30, clicked: 3, completed: 1 },
+        ],
+        [business('b1', 'Alpha Plumbing'), business('b2', 'Beta Dental')]
+      );
+
+      expect(businesses.map(b => b.businessId)).toEqual(['b2', 'b1']);
+      expect(businesses[1]).toMatchObject({ clickThroughRate: 50, completionRate: 20 });
+      expect(totals).toEqual({
+        businessCount: 2,
+        sent: 40,
+        clicked: 8,
+        completed: 3,
+        clickThroughRate: 20,
+        completionRate: 7.5,
+      });
+    });
+
+    it('should include businesses with no activity as zeroes', () => {
+      const { businesses, totals } = summariseRollup([], [business('b1', 'Alpha Plumbing')]);
+
+      expect(businesses).toEqual([
+        expect.objectContaining({ sent: 0, clicked: 0, completed: 0, clickThroughRate: 0 }),
+      ]);
+      expect(totals.completionRate).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { API_KEY_PREFIX, generateApiKey, hashApiKey, parseApiKeyError } from '../api-keys';
+
+describe('API keys', () => {
+  describe('generateApiKey', () => {
+    it('should issue prefixed keys and store only their hash', () => {
+      const { key, prefix, keyHash } = generateApiKey();
+
+      expect(key.startsWith(API_KEY_PREFIX)).toBe(true);
+      expect(key.startsWith(prefix)).toBe(true);
+      expect(prefix.length).toBeLessThan(key.length);
+      expect(keyHash).toBe(hashApiKey(key));
+      expect(keyHash).not.toContain(key);
+    });
+
+    it('should never repeat a key', () => {
+      expect(generateApiKey().key).not.toBe(generateApiKey().key);
+    });
+  });
+
+  describe('hashApiKey', () => {
+    it('should be a stable SHA-256 hex digest', () => {
+      expect(hashApiKey('rr_live_example')).toBe(hashApiKey('rr_live_example'));
+      expect(hashApiKey('rr_live_example')).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+
+  describe('parseApiKeyError', () => {
+    it('should map known codes to their status', () => {
+      expect(parseApiKeyError('API_KEY_NOT_FOUND: API key not found')).toEqual({
+        code: 'API_KEY_NOT_FOUND',
+        status: 404,
+        message: 'API key not found',
+      });
+    });
+
+    it('should treat anything else as an internal error', () => {
+      expect(parseApiKeyError('Failed to revoke API key')).toMatchObject({
+        code: 'INTERNAL_ERROR',
+        status: 500,
+      });
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  getAddedTags,
+  getAutomationRuleProblem,
+  isWithinCooldown,
+  parseAutomationError,
+  ruleMatchesTrigger,
+} from '../automations';
+
+describe('Automations', () => {
+  describe('ruleMatchesTrigger', () => {
+    const tagged = { trigger: 'CUSTOMER_TAGGED' as const, tag: 'job-complete', eventName: null };
+
+    it('should match new customers only for "customer created" rules', () => {
+      const created = { trigger: 'CUSTOMER_CREATED' as const, tag: null, eventName: null };
+
+      expect(ruleMatchesTrigger(created, { type: 'CUSTOMER_CREATED' })).toBe(true);
+      expect(ruleMatchesTrigger(tagged, { type: 'CUSTOMER_CREATED' })).toBe(false);
+    });
+
+    it('should match the rule tag case-insensitively', () => {
+      expect(ruleMatchesTrigger(tagged, { type: 'CUSTOMER_TAGGED', tags: ['Job-Complete'] })).toBe(
+        true
+      );
+      expect(ruleMatchesTrigger(tagged, { type: 'CUSTOMER_TAGGED', tags: ['vip'] })).toBe(false);
+    });
+
+    it('should match integration events by name', () => {
+      const rule = { trigger: 'INTEGRATION_EVENT' as const, tag: null, eventName: 'job.completed' };
+
+      expect(
+        ruleMatchesTrigger(rule, { type: 'INTEGRATION_EVENT', eventName: 'job.completed' })
+      ).toBe(true);
+      expect(
+        ruleMatchesTrigger(rule, { type: 'INTEGRATION_EVENT', eventName: 'job.cancelled' })
+      ).toBe(false);
+    });
+  });
+
+  describe('getAddedTags', () => {
+    it('should return only tags that were not there before', () => {
+      expect(getAddedTags(['vip', 'Plumbing'], ['VIP', 'plumbing', 'job-complete'])).toEqual([
+        'job-complete',
+      ]);
+    });
+  });
+
+  describe('isWithinCooldown', () => {
+    const now = new Date('2026-06-01T12:00:00Z');
+
+    it('should hold off customers asked within the cooldown', () => {
+      expect(isWithinCooldown(new Date('2026-05-20T12:00:00Z'), 30, now)).toBe(true);
+      expect(isWithinCooldown(new Date('2026-04-20T12:00:00Z'), 30, now)).toBe(false);
+    });
+
+    it('should allow customers never asked, or any customer with no cooldown', () => {
+      expect(isWithinCooldown(null, 30, now)).toBe(false);
+      expect(isWithinCooldown(new Date('2026-06-01T11:59:00Z'), 0, now)).toBe(false);
+    });
+  });
+
+  describe('getAutomationRuleProblem', () => {
+    it('should require a tag or event name for the triggers that use them', () => {
+      expect(
+        getAutomationRuleProblem({ trigger: 'CUSTOMER_TAGGED', tag: null, eventName: null })
+      ).toMatch(/tag/);
+      expect(
+        getAutomationRuleProblem({ trigger: 'INTEGRATION_EVENT', tag: null, eventName: null })
+      ).toMatch(/event/);
+      expect(
+        getAutomationRuleProblem({ trigger: 'CUSTOMER_CREATED', tag: null, eventName: null })
+      ).toBeNull();
+    });
+  });
+
+  describe('parseAutomationError', () => {
+    it('should map known codes to their status', () => {
+      expect(parseAutomationError('INVALID_TEMPLATE: Choose an active SMS template')).toEqual({
+        code: 'INVALID_TEMPLATE',
+        status: 400,
+        message: 'Choose an active SMS template',
+      });
+    });
+  });
+});
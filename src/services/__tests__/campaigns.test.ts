@@ -0,0 +1,60 @@
+import { buildFunnelStats, canTransitionCampaign, resolveCampaignSchedule } from '../campaigns';
+
+describe('Campaign Service', () => {
+  describe('canTransitionCampaign', () => {
+    it('should allow the draft to completed lifecycle', () => {
+      expect(canTransitionCampaign('DRAFT', 'SCHEDULED')).toBe(true);
+      expect(canTransitionCampaign('SCHEDULED', 'RUNNING')).toBe(true);
+      expect(canTransitionCampaign('RUNNING', 'PAUSED')).toBe(true);
+      expect(canTransitionCampaign('PAUSED', 'RUNNING')).toBe(true);
+      expect(canTransitionCampaign('RUNNING', 'COMPLETED')).toBe(true);
+    });
+
+    it('should not allow leaving a terminal status', () => {
+      expect(canTransitionCampaign('COMPLETED', 'RUNNING')).toBe(false);
+      expect(canTransitionCampaign('CANCELLED', 'DRAFT')).toBe(false);
+      expect(canTransitionCampaign('DRAFT', 'COMPLETED')).toBe(false);
+    });
+  });
+
+  describe('resolveCampaignSchedule', () => {
+    it('should send immediate campaigns now', () => {
+      expect(resolveCampaignSchedule('IMMEDIATE', new Date())).toBeNull();
+    });
+
+    it('should pick a future Tuesday afternoon for optimal campaigns', () => {
+      const scheduled = resolveCampaignSchedule('OPTIMAL');
+
+      expect(scheduled?.getDay()).toBe(2);
+      expect(scheduled?.getHours()).toBe(14);
+      expect(scheduled!.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('buildFunnelStats', () => {
+    it('should count requests at every stage they have passed through', () => {
+      const stats = buildFunnelStats({
+        QUEUED: 2,
+        SENT: 3,
+        DELIVERED: 2,
+        CLICKED: 2,
+        COMPLETED: 1,
+        FAILED: 1,
+        OPTED_OUT: 1,
+      });
+
+      expect(stats).toMatchObject({
+        total: 12,
+        queued: 2,
+        sent: 8,
+        delivered: 5,
+        clicked: 3,
+        completed: 1,
+        failed: 1,
+        optedOut: 1,
+        clickRate: 37.5,
+        completionRate: 12.5,
+      });
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import {
+  getChannelCreditUsage,
+  getCreditCost,
+  getCreditPeriod,
+  getInsufficientCreditsMessage,
+} from '../credits';
+
+describe('Credits Service', () => {
+  describe('getCreditCost', () => {
+    it('should charge one credit per SMS segment', () => {
+      expect(getCreditCost('SMS', 'a'.repeat(160))).toBe(1);
+      expect(getCreditCost('SMS', 'a'.repeat(161))).toBe(2);
+      expect(getCreditCost('SMS', 'a'.repeat(307))).toBe(3);
+    });
+
+    it('should charge Unicode SMS at 70 characters per segment', () => {
+      expect(getCreditCost('SMS', `${'a'.repeat(69)}’`)).toBe(1);
+      expect(getCreditCost('SMS', `${'a'.repeat(70)}’`)).toBe(2);
+    });
+
+    it('should charge one credit per email regardless of length', () => {
+      expect(getCreditCost('EMAIL', 'a'.repeat(5000))).toBe(1);
+    });
+  });
+
+  describe('getCreditPeriod', () => {
+    it('should span the calendar month in UTC', () => {
+      const period = getCreditPeriod(new Date('2026-12-31T23:30:00Z'));
+
+      expect(period.start).toEqual(new Date('2026-12-01T00:00:00Z'));
+      expect(period.end).toEqual(new Date('2027-01-01T00:00:00Z'));
+    });
+  });
+
+  describe('getChannelCreditUsage', () => {
+    it('should count reserved credits against the limit', () => {
+      expect(getChannelCreditUsage(70, 5, 100)).toEqual({
+        used: 70,
+        reserved: 5,
+        limit: 100,
+        remaining: 25,
+        percentUsed: 75,
+        status: 'ok',
+      });
+    });
+
+    it('should warn from 80% and report exhaustion at the limit', () => {
+      expect(getChannelCreditUsage(60, 20, 100).status).toBe('warning');
+      expect(getChannelCreditUsage(100, 0, 100).status).toBe('exhausted');
+      expect(getChannelCreditUsage(0, 0, 0)).toMatchObject({ remaining: 0, status: 'exhausted' });
+    });
+  });
+
+  describe('getInsufficientCreditsMessage', () => {
+    it('should describe the shortfall', () => {
+      expect(
+        getInsufficientCreditsMessage('SMS', { reserved: false, amount: 4, remaining: 1 })
+      ).toBe('Not enough credits left this month (4 SMS credits needed, 1 remaining)');
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  normalizeImportPhone,
+  planCustomerImport,
+  suggestColumnMapping,
+  type ExistingCustomerRecord,
+} from '../customer-import';
+
+describe('Customer Import Service', () => {
+  const headers = ['First Name', 'Surname', 'Email Address', 'Mobile', 'Tags'];
+  const mapping = suggestColumnMapping(headers);
+
+  const existing: ExistingCustomerRecord = {
+    id: 'customer-1',
+    firstName: 'Jane',
+    lastName: 'Smith',
+    email: 'jane@example.com',
+    phone: '07700 900123',
+    address: null,
+    notes: null,
+    tags: ['vip'],
+  };
+
+  describe('suggestColumnMapping', () => {
+    it('should match common header names', () => {
+      expect(mapping).toEqual({
+        firstName: 'First Name',
+        lastName: 'Surname',
+        email: 'Email Address',
+        phone: 'Mobile',
+        tags: 'Tags',
+      });
+    });
+  });
+
+  describe('normalizeImportPhone', () => {
+    it('should restore the leading zero spreadsheets drop from mobiles', () => {
+      expect(normalizeImportPhone('7700900123')).toBe('+447700900123');
+    });
+
+    it('should reject non-UK numbers', () => {
+      expect(normalizeImportPhone('+1 555 010 0000')).toBeNull();
+    });
+  });
+
+  describe('planCustomerImport', () => {
+    it('should create new customers with normalised contact details', () => {
+      const [row] = planCustomerImport(
+        headers,
+        [['Tom', 'Jones', 'TOM@Example.com', '07700 900456', 'new, local']],
+        mapping,
+        [],
+        { updateExisting: true }
+      );
+
+      expect(row?.action).toBe('create');
+      expect(row?.customer).toMatchObject({
+        email: 'tom@example.com',
+        phone: '+447700900456',
+        tags: ['new', 'local'],
+      });
+    });
+
+    it('should update existing customers matched by phone', () => {
+      const [row] = planCustomerImport(
+        headers,
+        [['Jane', 'Smith', '', '+44 7700 900123', 'regular']],
+        mapping,
+        [existing],
+        { updateExisting: true }
+      );
+
+      expect(row?.action).toBe('update');
+      expect(row?.existingCustomerId).toBe('customer-1');
+    });
+
+    it('should skip existing customers when updates are disabled', () => {
+      const [row] = planCustomerImport(
+        headers,
+        [['Jane', 'Smith', 'jane@example.com', '', '']],
+        mapping,
+        [existing],
+        { updateExisting: false }
+      );
+
+      expect(row?.action).toBe('skip');
+    });
+
+    it('should reject invalid and duplicate rows with a reason', () => {
+      const rows = planCustomerImport(
+        headers,
+        [
+          ['', 'NoName', 'a@example.com', '', ''],
+          ['Bad', 'Email', 'not-an-email', '', ''],
+          ['No', 'Contact', '', '', ''],
+          ['Ann', 'Lee', 'ann@example.com', '', ''],
+          ['Ann', 'Lee', 'ANN@example.com', '', ''],
+        ],
+        mapping,
+        [],
+        { updateExisting: true }
+      );
+
+      expect(rows.map(row => row.action)).toEqual([
+        'reject',
+        'reject',
+        'reject',
+        'create',
+        'reject',
+      ]);
+      expect(rows[4]?.reasons).toContain('Duplicate of row 5 in this file');
+    });
+  });
+});
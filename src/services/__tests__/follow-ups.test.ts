@@ -0,0 +1,131 @@
+import {
+  evaluateFollowUpStep,
+  getFollowUpChainState,
+  getFollowUpConfig,
+  resolveFollowUpChannel,
+} from '../follow-ups';
+import type { FollowUpConfig } from '../../components/dashboard/customers/data/campaignSettings';
+
+describe('Follow-up Service', () => {
+  const customer = { email: 'jane@example.com', phone: '+447700900123' };
+  const sentAt = new Date('2026-03-02T10:00:00Z');
+
+  const config: FollowUpConfig = {
+    enabled: true,
+    maxAttempts: 2,
+    stopOnResponse: true,
+    respectSuppressions: true,
+    followUpSequence: [
+      {
+        id: 'reminder',
+        delay: { value: 3, unit: 'days' },
+        templateId: '',
+        channel: 'EMAIL',
+        conditions: [{ type: 'no_click' }],
+        active: true,
+      },
+      {
+        id: 'bounce-fallback',
+        delay: { value: 1, unit: 'hours' },
+        templateId: '',
+        channel: 'AUTO',
+        conditions: [{ type: 'bounce' }],
+        active: true,
+      },
+    ],
+  };
+
+  const original = {
+    channel: 'EMAIL' as const,
+    status: 'DELIVERED' as const,
+    sentAt,
+    clickedAt: null,
+    createdAt: sentAt,
+    metadata: null,
+  };
+
+  describe('getFollowUpConfig', () => {
+    it('should convert delayDays settings into a sequence on the campaign channel', () => {
+      const converted = getFollowUpConfig(true, { maxAttempts: 2, delayDays: [2, 5] }, 'SMS');
+
+      expect(converted?.followUpSequence).toHaveLength(2);
+      expect(converted?.followUpSequence[1]).toMatchObject({
+        delay: { value: 5, unit: 'days' },
+        channel: 'SMS',
+        conditions: [{ type: 'no_response' }],
+      });
+    });
+
+    it('should return null when follow-ups are disabled', () => {
+      expect(getFollowUpConfig(false, { maxAttempts: 1 }, 'EMAIL')).toBeNull();
+    });
+  });
+
+  describe('resolveFollowUpChannel', () => {
+    it('should switch channel for AUTO steps when the customer can be reached', () => {
+      expect(resolveFollowUpChannel('AUTO', 'EMAIL', customer)).toBe('SMS');
+      expect(resolveFollowUpChannel('AUTO', 'EMAIL', { ...customer, phone: null })).toBe('EMAIL');
+    });
+  });
+
+  describe('evaluateFollowUpStep', () => {
+    it('should send when the conditions are met', () => {
+      const state = getFollowUpChainState(original, []);
+
+      expect(evaluateFollowUpStep(config, 0, state, customer)).toEqual({
+        action: 'send',
+        channel: 'EMAIL',
+      });
+    });
+
+    it('should stop once the customer has clicked', () => {
+      const state = getFollowUpChainState(
+        { ...original, status: 'CLICKED', clickedAt: sentAt },
+        []
+      );
+
+      expect(evaluateFollowUpStep(config, 0, state, customer)).toEqual({
+        action: 'stop',
+        reason: 'customer_responded',
+      });
+    });
+
+    it('should skip a bounce step when the last message was delivered', () => {
+      const state = getFollowUpChainState(original, []);
+
+      expect(evaluateFollowUpStep(config, 1, state, customer)).toEqual({
+        action: 'skip',
+        reason: 'condition_not_met:bounce',
+      });
+    });
+
+    it('should evaluate bounce against the latest follow-up', () => {
+      const state = getFollowUpChainState(original, [
+        {
+          status: 'BOUNCED',
+          clickedAt: null,
+          createdAt: new Date('2026-03-05T10:00:00Z'),
+          metadata: { followUpOf: 'original', followUpStepIndex: 0 },
+        },
+      ]);
+
+      expect(evaluateFollowUpStep(config, 1, state, customer)).toEqual({
+        action: 'send',
+        channel: 'SMS',
+      });
+    });
+
+    it('should not send a step twice', () => {
+      const state = getFollowUpChainState(original, [
+        {
+          status: 'SENT',
+          clickedAt: null,
+          createdAt: new Date('2026-03-05T10:00:00Z'),
+          metadata: { followUpOf: 'original', followUpStepIndex: 0 },
+        },
+      ]);
+
+      expect(evaluateFollowUpStep(config, 0, state, customer).action).toBe('stop');
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { getRetryDelay, nextRetryDelay, resolveQueueBackend } from '../job-queue';
+import { buildStateFilter } from '../job-queue/postgres';
+
+describe('Job Queue', () => {
+  describe('resolveQueueBackend', () => {
+    it('should default to Redis', () => {
+      expect(resolveQueueBackend({} as any)).toBe('redis');
+    });
+
+    it('should use the configured backend', () => {
+      expect(resolveQueueBackend({ JOB_QUEUE_BACKEND: 'postgres' } as any)).toBe('postgres');
+    });
+
+    it('should fall back to Redis for unknown backends', () => {
+      expect(resolveQueueBackend({ JOB_QUEUE_BACKEND: 'sqs' } as any)).toBe('redis');
+      expect(resolveQueueBackend({ JOB_QUEUE_BACKEND: 'toString' } as any)).toBe('redis');
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should back off exponentially from 5 seconds', () => {
+      expect([1, 2, 3, 4].map(getRetryDelay)).toEqual([5000, 10000, 20000, 40000]);
+    });
+  });
+
+  describe('nextRetryDelay', () => {
+    it('should back off exponentially between attempts', () => {
+      expect(nextRetryDelay({ attemptsMade: 0, opts: { attempts: 8 } })).toBe(5000);
+      expect(nextRetryDelay({ attemptsMade: 1, opts: { attempts: 8 } })).toBe(10000);
+      expect(nextRetryDelay({ attemptsMade: 3, opts: { attempts: 8 } })).toBe(40000);
+    });
+
+    it('should report the last attempt', () => {
+      expect(nextRetryDelay({ attemptsMade: 7, opts: { attempts: 8 } })).toBeNull();
+      expect(nextRetryDelay({ attemptsMade: 0, opts: {} })).toBeNull();
+    });
+  });
+
+  describe('buildStateFilter', () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+
+    it('should split waiting jobs into due and delayed by run time', () => {
+      expect(buildStateFilter(['waiting'], now)).toEqual([
+        { status: 'WAITING', runAt: { lte: now } },
+      ]);
+      expect(buildStateFilter(['delayed'], now)).toEqual([
+        { status: 'WAITING', runAt: { gt: now } },
+      ]);
+    });
+
+    it('should cover every pending job once', () => {
+      expect(
+        buildStateFilter(['waiting', 'prioritized', 'delayed', 'paused', 'active'], now)
+      ).toEqual([
+        { status: 'WAITING', runAt: { lte: now } },
+        { status: 'WAITING', runAt: { gt: now } },
+        { status: 'ACTIVE' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { buildMimeMessage, resolveProviderName } from '../providers';
+
+describe('Message Providers', () => {
+  describe('resolveProviderName', () => {
+    const env = (vars: Record<string, string>) => ({ NODE_ENV: 'development', ...vars }) as any;
+
+    it('should prefer a valid business override', () => {
+      expect(
+        resolveProviderName('EMAIL', {
+          env: env({ EMAIL_PROVIDER: 'sendgrid' }),
+          businessSettings: { email: 'smtp' },
+        })
+      ).toBe('smtp');
+    });
+
+    it('should ignore overrides that cannot carry the channel', () => {
+      expect(
+        resolveProviderName('SMS', {
+          env: env({ TWILIO_ACCOUNT_SID: 'AC123' }),
+          businessSettings: { sms: 'smtp' },
+        })
+      ).toBe('twilio');
+      expect(resolveProviderName('SMS', { env: env({ SMS_PROVIDER: 'sendgrid' }) })).toBe(
+        'capture'
+      );
+    });
+
+    it('should use the environment provider when set', () => {
+      expect(resolveProviderName('EMAIL', { env: env({ EMAIL_PROVIDER: 'smtp' }) })).toBe('smtp');
+      expect(resolveProviderName('SMS', { env: env({ SMS_PROVIDER: 'capture' }) })).toBe('capture');
+    });
+
+    it('should capture in tests even when live services are configured', () => {
+      expect(
+        resolveProviderName('EMAIL', { env: { NODE_ENV: 'test', SENDGRID_API_KEY: 'SG.x' } as any })
+      ).toBe('capture');
+    });
+
+    it('should use live services when configured and capture otherwise', () => {
+      expect(resolveProviderName('EMAIL', { env: env({ SENDGRID_API_KEY: 'SG.x' }) })).toBe(
+        'sendgrid'
+      );
+      expect(resolveProviderName('EMAIL', { env: env({}) })).toBe('capture');
+    });
+
+    it('should never fall back to capture in production', () => {
+      const production = { NODE_ENV: 'production' } as any;
+      expect(resolveProviderName('EMAIL', { env: production })).toBe('sendgrid');
+      expect(resolveProviderName('SMS', { env: production })).toBe('twilio');
+    });
+  });
+
+  describe('buildMimeMessage', () => {
+    const email = {
+      channel: 'EMAIL' as const,
+      to: 'jane@example.com',
+      toName: 'Jane Smith',
+      subject: 'How did we do?',
+      html: '<p>Leave us a review</p>',
+      text: 'Leave us a review',
+      headers: { 'List-Unsubscribe': '<https://example.com/u/1>' },
+      requestId: 'req_1',
+    };
+    const options = {
+      from: 'hello@shop.test',
+      fromName: 'The Shop',
+      messageId: 'abc-123@shop.test',
+      date: new Date('2026-03-02T10:00:00Z'),
+    };
+
+    it('should build a multipart message with both parts', () => {
+      const mime = buildMimeMessage(email, options);
+      const [head] = mime.split('\r\n\r\n');
+
+      expect(head).toContain('From: "The Shop" <hello@shop.test>');
+      expect(head).toContain('To: "Jane Smith" <jane@example.com>');
+      expect(head).toContain('Subject: How did we do?');
+      expect(head).toContain('Message-ID: <abc-123@shop.test>');
+      expect(head).toContain('X-Review-Request-Id: req_1');
+      expect(head).toContain('List-Unsubscribe: <https://example.com/u/1>');
+      expect(mime).toContain('Content-Type: text/plain; charset=utf-8');
+      expect(mime).toContain(Buffer.from(email.html).toString('base64'));
+      expect(mime.endsWith('--=_rr_abc123shoptest--')).toBe(true);
+    });
+
+    it('should encode non-ASCII subjects and strip header line breaks', () => {
+      const mime = buildMimeMessage(
+        {
+          ...email,
+          subject: 'Merci beaucoup 🎉',
+          headers: { 'X-Custom': 'one\r\nBcc: evil@example.com' },
+        },
+        options
+      );
+
+      expect(mime).toContain(
+        `Subject: =?UTF-8?B?${Buffer.from('Merci beaucoup 🎉').toString('base64')}?=`
+      );
+      expect(mime).toContain('X-Custom: one Bcc: evil@example.com');
+      expect(mime).not.toMatch(/^Bcc:/m);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  attributeReviews,
+  scoreReviewerName,
+  type CompletionCandidate,
+} from '../review-monitoring';
+
+const HOUR = 60 * 60 * 1000;
+const since = new Date('2026-05-01T09:00:00Z');
+const now = new Date('2026-05-02T09:00:00Z');
+
+const candidate = (id: string, firstName: string, lastName: string | null, clickedAt: Date) =>
+  ({ id, clickedAt, customer: { firstName, lastName } }) satisfies CompletionCandidate;
+
+const review = (authorName: string, at: Date, rating = 5) => ({
+  author_name: authorName,
+  rating,
+  text: '',
+  time: at.getTime() / 1000,
+});
+
+describe('Review Monitoring', () => {
+  describe('scoreReviewerName', () => {
+    const customer = { firstName: 'José', lastName: 'García López' };
+
+    it('should score full names highest, ignoring case and accents', () => {
+      expect(scoreReviewerName('jose garcia lopez', customer)).toBe(3);
+    });
+
+    it('should accept first name plus last initial', () => {
+      expect(scoreReviewerName('José L.', customer)).toBe(2);
+    });
+
+    it('should give a bare first name the lowest score', () => {
+      expect(scoreReviewerName('Jose', customer)).toBe(1);
+    });
+
+    it('should not match a different first name or surname', () => {
+      expect(scoreReviewerName('Maria García López', customer)).toBe(0);
+      expect(scoreReviewerName('José Smith', customer)).toBe(0);
+    });
+  });
+
+  describe('attributeReviews', () => {
+    it('should match reviews to customers clicked before them within the window', () => {
+      const clickedAt = new Date(since.getTime() + HOUR);
+      const attributions = attributeReviews(
+        [review('Jane Smith', new Date(clickedAt.getTime() + HOUR), 4)],
+        [
+          candidate('req_1', 'Jane', 'Smith', clickedAt),
+          candidate('req_2', 'Tom', 'Jones', clickedAt),
+        ],
+        { since, now }
+      );
+
+      expect(attributions).toEqual([
+        expect.objectContaining({
+          requestId: 'req_1',
+          matchedBy: 'name',
+          reviewerName: 'Jane Smith',
+          rating: 4,
+        }),
+      ]);
+    });
+
+    it('should ignore reviews published before the click or after the window', () => {
+      const clickedAt = new Date(since.getTime() + 2 * HOUR);
+      const candidates = [candidate('req_1', 'Jane', 'Smith', clickedAt)];
+
+      expect(attributeReviews([review('Jane Smith', since)], candidates, { since, now })).toEqual(
+        []
+      );
+      expect(
+        attributeReviews(
+          [review('Jane Smith', new Date(clickedAt.getTime() + 3 * HOUR))],
+          candidates,
+          { since, now, windowMs: 2 * HOUR }
+        )
+      ).toEqual([]);
+    });
+
+    it('should prefer the stronger name match and skip ties', () => {
+      const clickedAt = new Date(since.getTime() + HOUR);
+      const reviewedAt = new Date(clickedAt.getTime() + HOUR);
+
+      const stronger = attributeReviews(
+        [review('Jane Smith', reviewedAt)],
+        [
+          candidate('req_1', 'Jane', 'Stone', clickedAt),
+          candidate('req_2', 'Jane', 'Smith', clickedAt),
+        ],
+        { since, now }
+      );
+      expect(stronger.map(a => a.requestId)).toEqual(['req_2']);
+
+      const tied = attributeReviews(
+        [review('Jane', reviewedAt)],
+        [
+          candidate('req_1', 'Jane', 'Stone', clickedAt),
+          candidate('req_2', 'Jane', 'Smith', clickedAt),
+        ],
+        { since, now }
+      );
+      expect(tied).toEqual([]);
+    });
+
+    it('should credit one request per review', () => {
+      const clickedAt = new Date(since.getTime() + HOUR);
+      const attributions = attributeReviews(
+        [
+          review('Jane Smith', new Date(clickedAt.getTime() + HOUR)),
+          review('Jane Smith', new Date(clickedAt.getTime() + 2 * HOUR)),
+        ],
+        [candidate('req_1', 'Jane', 'Smith', clickedAt)],
+        { since, now }
+      );
+
+      expect(attributions).toHaveLength(1);
+    });
+
+    it('should fall back to the time window for a single unseen review and a single click', () => {
+      const clickedAt = new Date(since.getTime() + HOUR);
+      const older = new Date(since.getTime() - HOUR);
+
+      expect(
+        attributeReviews(
+          [],
+          [candidate('req_1', 'Jane', 'Smith', clickedAt), candidate('req_2', 'Tom', null, older)],
+          { since, now, unseenReviewCount: 1 }
+        )
+      ).toEqual([{ requestId: 'req_1', matchedBy: 'time_window', reviewedAt: now }]);
+
+      expect(
+        attributeReviews([], [candidate('req_1', 'Jane', 'Smith', clickedAt)], {
+          since,
+          now,
+          unseenReviewCount: 2,
+        })
+      ).toEqual([]);
+    });
+  });
+});
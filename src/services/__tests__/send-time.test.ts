@@ -0,0 +1,85 @@
+import {
+  buildSendTimeModel,
+  getBusinessTypeFromGoogleTypes,
+  pickSendTime,
+  type SendTimeSample,
+} from '../send-time';
+
+describe('Send Time Service', () => {
+  const timezone = 'Europe/London';
+
+  // 20 Tuesday 14:00 sends with 8 clicks and 20 Monday 09:00 sends with 1 click
+  const samples: SendTimeSample[] = [
+    ...Array.from({ length: 20 }, (_, index) => ({
+      customerId: `tuesday-${index}`,
+      sentAt: new Date('2026-02-24T14:00:00Z'),
+      clickedAt: index < 8 ? new Date('2026-02-24T14:30:00Z') : null,
+    })),
+    ...Array.from({ length: 20 }, (_, index) => ({
+      customerId: `monday-${index}`,
+      sentAt: new Date('2026-02-23T09:00:00Z'),
+      clickedAt: index === 0 ? new Date('2026-02-23T19:10:00Z') : null,
+    })),
+  ];
+
+  describe('getBusinessTypeFromGoogleTypes', () => {
+    it('should map Google Places types to a business type', () => {
+      expect(getBusinessTypeFromGoogleTypes(['beauty_salon', 'establishment'])).toBe('beauty');
+      expect(getBusinessTypeFromGoogleTypes(['establishment'])).toBe('other');
+    });
+  });
+
+  describe('buildSendTimeModel', () => {
+    it('should rank the slot with the best click rate', () => {
+      const model = buildSendTimeModel(samples, { timezone, businessType: 'other' });
+
+      expect(model.source).toBe('history');
+      expect(model.clickRate).toBeCloseTo(9 / 40);
+      expect(model.bestSlot).toMatchObject({ weekday: 2, hour: 14, sent: 20, clicked: 8 });
+      expect(model.behavior.bestDayOfWeek).toEqual(['tuesday']);
+      expect(model.customerClickHours['monday-0']).toBe(19);
+    });
+
+    it('should fall back to business type defaults without enough history', () => {
+      const model = buildSendTimeModel(samples.slice(0, 10), {
+        timezone,
+        businessType: 'restaurant',
+      });
+
+      expect(model.source).toBe('business_type');
+      expect(model.bestSlot).toBeNull();
+      expect(model.behavior.bestTimeOfDay).toEqual(['14:00']);
+    });
+  });
+
+  describe('pickSendTime', () => {
+    const from = new Date('2026-03-04T15:00:00Z'); // Wednesday
+
+    it('should use the best slot from history', () => {
+      const model = buildSendTimeModel(samples, { timezone, businessType: 'other' });
+      const result = pickSendTime(model, { id: 'new-customer' }, from);
+
+      expect(result.source).toBe('history');
+      expect(result.sendAt).toEqual(new Date('2026-03-10T14:00:00Z'));
+      expect(result.rationale).toMatch(/^Tuesdays at 14:00 have your best click rate/);
+    });
+
+    it('should prefer the hour a customer has clicked before', () => {
+      const model = buildSendTimeModel(samples, { timezone, businessType: 'other' });
+      const result = pickSendTime(model, { id: 'monday-0', firstName: 'Jane' }, from);
+
+      expect(result.source).toBe('customer');
+      expect(result.sendAt).toEqual(new Date('2026-03-04T19:00:00Z'));
+      expect(result.rationale).toBe('Jane has clicked past requests around 19:00');
+    });
+
+    it('should use the business type window when there is no history', () => {
+      const model = buildSendTimeModel([], { timezone, businessType: 'restaurant' });
+      const result = pickSendTime(model, { id: 'new-customer' }, from);
+
+      expect(result.source).toBe('business_type');
+      expect(result.sendAt).toEqual(new Date('2026-03-05T14:00:00Z'));
+      expect(result.rationale).toMatch(/^Not enough click history yet \(0 sends, 0 clicks\)/);
+    });
+  });
+});
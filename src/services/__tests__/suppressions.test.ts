@@ -0,0 +1,102 @@
+import { prisma } from '../../lib/prisma';
+import { unsubscribeByTrackingUuid } from '../suppressions';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    reviewRequest: { findUnique: jest.fn(), updateMany: jest.fn() },
+    suppression: { findMany: jest.fn(), update: jest.fn(), upsert: jest.fn() },
+    event: { create: jest.fn() },
+  },
+}));
+jest.mock('../../lib/logger');
+
+describe('Suppression Service', () => {
+  describe('unsubscribeByTrackingUuid', () => {
+    const trackingUuid = '2f1c6a3e-8d4b-4c2a-9e57-0b6d1f3a7c90';
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (prisma.reviewRequest.findUnique as jest.Mock).mockResolvedValue({
+        id: 'request-1',
+        businessId: 'business-1',
+        channel: 'EMAIL',
+        customer: { email: 'Jane@Example.com', phone: null },
+        business: { name: 'Smith Dental' },
+      });
+      (prisma.suppression.findMany as jest.Mock).mockResolvedValue([]);
+      (prisma.suppression.upsert as jest.Mock).mockResolvedValue({ id: 'suppression-1' });
+      (prisma.reviewRequest.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    });
+
+    it('should suppress the contact and opt out their open requests', async () => {
+      const result = await unsubscribeByTrackingUuid(trackingUuid, 'one_click', {
+        userAgent: 'Gmail',
+      });
+
+      expect(result).toEqual({
+        success: true,
+        data: { businessName: 'Smith Dental', channel: 'EMAIL', alreadyUnsubscribed: false },
+      });
+      expect(prisma.suppression.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({
+            businessId: 'business-1',
+            contact: 'jane@example.com',
+            channel: 'EMAIL',
+            reason: 'EMAIL_UNSUBSCRIBE',
+            source: 'one_click',
+          }),
+        })
+      );
+      expect(prisma.reviewRequest.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'OPTED_OUT' }) })
+      );
+      expect(prisma.event.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            type: 'REQUEST_OPTED_OUT',
+            reviewRequestId: 'request-1',
+            metadata: expect.objectContaining({ trackingUuid, userAgent: 'Gmail' }),
+          }),
+        })
+      );
+    });
+
+    it('should fail for an unknown tracking UUID without suppressing anyone', async () => {
+      (prisma.reviewRequest.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const result = await unsubscribeByTrackingUuid(trackingUuid, 'unsubscribe_page');
+
+      expect(result).toEqual({ success: false, error: 'Review request not found' });
+      expect(prisma.suppression.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should succeed without writing again when the contact is already suppressed', async () => {
+      (prisma.suppression.findMany as jest.Mock).mockResolvedValue([
+        {
+          id: 'suppression-1',
+          reason: 'EMAIL_UNSUBSCRIBE',
+          source: 'unsubscribe_page',
+          expiresAt: null,
+        },
+      ]);
+
+      const result = await unsubscribeByTrackingUuid(trackingUuid, 'one_click');
+
+      expect(result).toEqual({
+        success: true,
+        data: { businessName: 'Smith Dental', channel: 'EMAIL', alreadyUnsubscribed: true },
+      });
+      expect(prisma.suppression.upsert).not.toHaveBeenCalled();
+      expect(prisma.event.create).not.toHaveBeenCalled();
+    });
+
+    it('should report a failed suppression write', async () => {
+      (prisma.suppression.upsert as jest.Mock).mockRejectedValue(new Error('Connection lost'));
+
+      const result = await unsubscribeByTrackingUuid(trackingUuid, 'unsubscribe_page');
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import {
+  diffTemplateText,
+  getVersionedChanges,
+  parseTemplateVersionError,
+} from '../template-versions';
+
+describe('Template Versions', () => {
+  describe('getVersionedChanges', () => {
+    const current = { name: 'Thank you', subject: 'Thanks!', content: 'Hi {{firstName}}' };
+
+    it('should ignore updates that leave the wording alone', () => {
+      expect(getVersionedChanges(current, {})).toBeNull();
+      expect(getVersionedChanges(current, { content: 'Hi {{firstName}}' })).toBeNull();
+    });
+
+    it('should return the new snapshot when the wording changes', () => {
+      expect(getVersionedChanges(current, { content: 'Hello {{firstName}}' })).toEqual({
+        ...current,
+        content: 'Hello {{firstName}}',
+      });
+      expect(getVersionedChanges(current, { subject: null })).toEqual({
+        ...current,
+        subject: null,
+      });
+    });
+  });
+
+  describe('diffTemplateText', () => {
+    it('should pair edited lines and keep unchanged ones aligned', () => {
+      expect(
+        diffTemplateText('Hi {{firstName}}\nThanks\nBye', 'Hello {{firstName}}\nThanks')
+      ).toEqual([
+        { type: 'changed', before: 'Hi {{firstName}}', after: 'Hello {{firstName}}' },
+        { type: 'unchanged', before: 'Thanks', after: 'Thanks' },
+        { type: 'removed', before: 'Bye', after: null },
+      ]);
+    });
+
+    it('should show inserted lines as additions', () => {
+      expect(diffTemplateText('a\nc', 'a\nb\nc')).toEqual([
+        { type: 'unchanged', before: 'a', after: 'a' },
+        { type: 'added', before: null, after: 'b' },
+        { type: 'unchanged', before: 'c', after: 'c' },
+      ]);
+    });
+  });
+
+  describe('parseTemplateVersionError', () => {
+    it('should map error codes to HTTP statuses', () => {
+      expect(parseTemplateVersionError('VERSION_NOT_FOUND: Template version not found')).toEqual({
+        code: 'VERSION_NOT_FOUND',
+        status: 404,
+        message: 'Template version not found',
+      });
+      expect(parseTemplateVersionError('Failed to load template history').status).toBe(500);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { prisma } from '../../lib/prisma';
+import { handleWebhookSuppression } from '../suppressions';
+import {
+  handleTwilioInboundMessage,
+  handleTwilioWebhook,
+  mapTwilioStatus,
+  parseSmsKeyword,
+} from '../twilio';
+import type { TwilioWebhookPayload } from '../../types/external';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    $queryRaw: jest.fn(),
+    reviewRequest: { findFirst: jest.fn() },
+    event: { create: jest.fn() },
+  },
+}));
+jest.mock('../../lib/logger');
+jest.mock('../suppressions');
+
+describe('Twilio Service', () => {
+  describe('parseSmsKeyword', () => {
+    it('should recognise every opt-out keyword', () => {
+      for (const body of ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPTOUT']) {
+        expect(parseSmsKeyword(body)).toBe('STOP');
+      }
+    });
+
+    it('should ignore case, whitespace and punctuation', () => {
+      expect(parseSmsKeyword('  stop ')).toBe('STOP');
+      expect(parseSmsKeyword('Stop!')).toBe('STOP');
+      expect(parseSmsKeyword('opt-out')).toBe('STOP');
+    });
+
+    it('should recognise opt-in and help keywords', () => {
+      expect(parseSmsKeyword('START')).toBe('START');
+      expect(parseSmsKeyword('unstop')).toBe('START');
+      expect(parseSmsKeyword('Yes')).toBe('START');
+      expect(parseSmsKeyword('help')).toBe('HELP');
+      expect(parseSmsKeyword('INFO')).toBe('HELP');
+    });
+
+    it('should only match a keyword sent on its own', () => {
+      expect(parseSmsKeyword('Please stop texting me')).toBeNull();
+      expect(parseSmsKeyword('Thanks, great service')).toBeNull();
+      expect(parseSmsKeyword('')).toBeNull();
+      expect(parseSmsKeyword(undefined)).toBeNull();
+    });
+  });
+
+  describe('mapTwilioStatus', () => {
+    it('should map final statuses onto request statuses', () => {
+      expect(mapTwilioStatus('sent')).toBe('SENT');
+      expect(mapTwilioStatus('delivered')).toBe('DELIVERED');
+      expect(mapTwilioStatus('undelivered')).toBe('FAILED');
+      expect(mapTwilioStatus('failed')).toBe('FAILED');
+    });
+
+    it('should leave intermediate statuses alone', () => {
+      expect(mapTwilioStatus('queued')).toBeNull();
+      expect(mapTwilioStatus('sending')).toBeNull();
+      expect(mapTwilioStatus('accepted')).toBeNull();
+    });
+  });
+
+  describe('handleTwilioWebhook', () => {
+    const tx = {
+      reviewRequest: { update: jest.fn() },
+      event: { create: jest.fn() },
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (prisma.$transaction as jest.Mock).mockImplementation(async callback => callback(tx));
+    });
+
+    const callback = (MessageStatus: TwilioWebhookPayload['MessageStatus']) =>
+      ({ MessageSid: 'SM123', MessageStatus }) as TwilioWebhookPayload;
+
+    const withRequestIn = (status: string) =>
+      (prisma.reviewRequest.findFirst as jest.Mock).mockResolvedValue({
+        id: 'request-1',
+        businessId: 'business-1',
+        status,
+      });
+
+    const updatedStatus = () => tx.reviewRequest.update.mock.calls[0][0].data.status;
+
+    it('should move a request forward through sent and delivered', async () => {
+      withRequestIn('QUEUED');
+      await handleTwilioWebhook(callback('sent'));
+      expect(updatedStatus()).toBe('SENT');
+
+      jest.clearAllMocks();
+      withRequestIn('SENT');
+      await handleTwilioWebhook(callback('delivered'));
+      expect(updatedStatus()).toBe('DELIVERED');
+      expect(tx.event.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ type: 'REQUEST_DELIVERED' }) })
+      );
+    });
+
+    it('should not move a delivered request back when a late callback arrives', async () => {
+      withRequestIn('DELIVERED');
+      await handleTwilioWebhook(callback('sent'));
+      expect(updatedStatus()).toBeUndefined();
+
+      jest.clearAllMocks();
+      withRequestIn('DELIVERED');
+      await handleTwilioWebhook(callback('failed'));
+      expect(updatedStatus()).toBeUndefined();
+      expect(tx.event.create).not.toHaveBeenCalled();
+    });
+
+    it('should mark a failed request delivered when the carrier later delivers it', async () => {
+      withRequestIn('FAILED');
+      await handleTwilioWebhook(callback('delivered'));
+      expect(updatedStatus()).toBe('DELIVERED');
+    });
+
+    it('should keep later states such as clicked', async () => {
+      withRequestIn('CLICKED');
+      const result = await handleTwilioWebhook(callback('delivered'));
+
+      expect(result.success).toBe(true);
+      expect(updatedStatus()).toBeUndefined();
+      expect(tx.reviewRequest.update.mock.calls[0][0].data.deliveryStatus.status).toBe('delivered');
+    });
+  });
+
+  describe('handleTwilioInboundMessage', () => {
+    const originalNumber = process.env.TWILIO_PHONE_NUMBER;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      process.env.TWILIO_PHONE_NUMBER = '+447700900000';
+      (prisma.$queryRaw as jest.Mock).mockResolvedValue([
+        { businessId: 'business-1', phone: '44 7700 900123' },
+        { businessId: 'business-2', phone: '+447700900123' },
+      ]);
+    });
+
+    afterAll(() => {
+      if (originalNumber === undefined) {
+        delete process.env.TWILIO_PHONE_NUMBER;
+      } else {
+        process.env.TWILIO_PHONE_NUMBER = originalNumber;
+      }
+    });
+
+    const stop = {
+      MessageSid: 'SM456',
+      From: '+447700900123',
+      To: '+447700900000',
+      Body: 'STOP',
+    } as TwilioWebhookPayload;
+
+    it('should suppress the sender for every business that texted them', async () => {
+      (handleWebhookSuppression as jest.Mock).mockResolvedValue({
+        success: true,
+        data: undefined,
+      });
+
+      const result = await handleTwilioInboundMessage(stop);
+
+      expect(result).toEqual({
+        success: true,
+        data: { keyword: 'STOP', businessIds: ['business-1', 'business-2'] },
+      });
+      expect(handleWebhookSuppression).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail so Twilio retries when a suppression is not saved', async () => {
+      (handleWebhookSuppression as jest.Mock)
+        .mockResolvedValueOnce({ success: true, data: undefined })
+        .mockResolvedValueOnce({ success: false, error: 'Failed to add suppression' });
+
+      const result = await handleTwilioInboundMessage(stop);
+
+      expect(result.success).toBe(false);
+      expect(handleWebhookSuppression).toHaveBeenCalledTimes(2);
+    });
+  });
+});
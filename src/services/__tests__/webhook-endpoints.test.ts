@@ -0,0 +1,114 @@
+import { createHmac } from 'crypto';
+import {
+  buildWebhookPayload,
+  generateWebhookSecret,
+  parseWebhookError,
+  signWebhookPayload,
+} from '../webhook-endpoints';
+import { createWebhookEndpointSchema } from '../../lib/validators/webhook';
+
+describe('Webhook endpoints', () => {
+  describe('signWebhookPayload', () => {
+    it('should sign the timestamp and body with the endpoint secret', () => {
+      const body = JSON.stringify({ id: 'event-1', type: 'REQUEST_CLICKED' });
+      const expected = createHmac('sha256', 'whsec_test')
+        .update(`1700000000.${body}`)
+        .digest('hex');
+
+      expect(signWebhookPayload('whsec_test', body, 1700000000)).toBe(
+        `t=1700000000,v1=${expected}`
+      );
+    });
+
+    it('should change with the secret', () => {
+      expect(signWebhookPayload('whsec_a', '{}', 1)).not.toBe(
+        signWebhookPayload('whsec_b', '{}', 1)
+      );
+    });
+  });
+
+  describe('buildWebhookPayload', () => {
+    it('should wrap the event and its review request', () => {
+      const createdAt = new Date('2026-05-01T09:00:00Z');
+      const payload = buildWebhookPayload(
+        {
+          id: 'event-1',
+          type: 'REQUEST_OPTED_OUT',
+          createdAt,
+          businessId: 'business-1',
+          description: 'Customer replied STOP',
+        },
+        null
+      );
+
+      expect(payload).toEqual({
+        id: 'event-1',
+        type: 'REQUEST_OPTED_OUT',
+        createdAt,
+        businessId: 'business-1',
+        data: { description: 'Customer replied STOP', reviewRequest: null },
+      });
+    });
+  });
+
+  describe('generateWebhookSecret', () => {
+    it('should issue distinct prefixed secrets', () => {
+      const secret = generateWebhookSecret();
+
+      expect(secret).toMatch(/^whsec_[A-Za-z0-9_-]{32}$/);
+      expect(generateWebhookSecret()).not.toBe(secret);
+    });
+  });
+
+  describe('parseWebhookError', () => {
+    it('should map known codes to their status', () => {
+      expect(parseWebhookError('WEBHOOK_ENDPOINT_DISABLED: Enable it first')).toEqual({
+        code: 'WEBHOOK_ENDPOINT_DISABLED',
+        status: 409,
+        message: 'Enable it first',
+      });
+    });
+
+    it('should treat anything else as an internal error', () => {
+      expect(parseWebhookError('Failed to deliver webhook').status).toBe(500);
+    });
+  });
+
+  describe('createWebhookEndpointSchema', () => {
+    it('should require https and at least one event type', () => {
+      expect(
+        createWebhookEndpointSchema.safeParse({
+          url: 'http://example.com/hook',
+          eventTypes: ['REQUEST_CLICKED'],
+        }).success
+      ).toBe(false);
+      expect(
+        createWebhookEndpointSchema.safeParse({ url: 'https://example.com/hook', eventTypes: [] })
+          .success
+      ).toBe(false);
+    });
+
+    it('should reject hosts on private networks', () => {
+      for (const url of [
+        'https://localhost/hook',
+        'https://127.0.0.1/hook',
+        'https://169.254.169.254/latest/meta-data',
+        'https://0x7f000001/hook',
+        'https://metadata.internal/hook',
+      ]) {
+        expect(
+          createWebhookEndpointSchema.safeParse({ url, eventTypes: ['REQUEST_CLICKED'] }).success
+        ).toBe(false);
+      }
+    });
+
+    it('should reject event types that are not offered to endpoints', () => {
+      expect(
+        createWebhookEndpointSchema.safeParse({
+          url: 'https://example.com/hook',
+          eventTypes: ['CAMPAIGN_CREATED'],
+        }).success
+      ).toBe(false);
+    });
+  });
+});
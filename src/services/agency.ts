@@ -0,0 +1,216 @@
+import { Prisma, type BusinessRole } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { hasPermission } from '../lib/permissions';
+import type { Result } from '../types/database';
+
+export interface UserBusiness {
+  id: string;
+  name: string;
+  role: BusinessRole;
+  isActive: boolean;
+  googleRating: number | null;
+  googleReviewCount: number | null;
+}
+
+export interface BusinessRollupRow {
+  businessId: string;
+  sent: number;
+  clicked: number;
+  completed: number;
+}
+
+export interface BusinessRollup extends BusinessRollupRow {
+  name: string;
+  googleRating: number | null;
+  googleReviewCount: number | null;
+  clickThroughRate: number;
+  completionRate: number;
+}
+
+export interface AgencyRollup {
+  businesses: BusinessRollup[];
+  totals: Omit<BusinessRollupRow, 'businessId'> & {
+    businessCount: number;
+    clickThroughRate: number;
+    completionRate: number;
+  };
+  dateRange: { startDate: Date; endDate: Date; days: number };
+}
+
+const rate = (part: number, whole: number) => (whole > 0 ? (part / whole) * 100 : 0);
+
+/**
+ * Businesses the user is a member of, oldest membership first
+ */
+export async function listUserBusinesses(userId: string): Promise<Result<UserBusiness[]>> {
+  try {
+    const memberships = await prisma.businessMember.findMany({
+      where: { userId },
+      include: {
+        business: {
+          select: {
+            id: true,
+            name: true,
+            isActive: true,
+            googleRating: true,
+            googleReviewCount: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return {
+      success: true,
+      data: memberships.map(membership => ({ ...membership.business, role: membership.role })),
+    };
+  } catch (error) {
+    logger.error('Failed to list user businesses', {
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to load businesses' };
+  }
+}
+
+/**
+ * Make a business the user's default, used when no business is selected for a request
+ */
+export async function setDefaultBusiness(
+  userId: string,
+  businessId: string
+): Promise<Result<UserBusiness>> {
+  try {
+    const membership = await prisma.businessMember.findUnique({
+      where: { businessId_userId: { businessId, userId } },
+      include: {
+        business: {
+          select: {
+            id: true,
+            name: true,
+            isActive: true,
+            googleRating: true,
+            googleReviewCount: true,
+          },
+        },
+      },
+    });
+
+    if (!membership) {
+      return { success: false, error: 'You are not a member of this business' };
+    }
+    if (!membership.business.isActive) {
+      return { success: false, error: 'Business is not active' };
+    }
+
+    await prisma.user.update({ where: { id: userId }, data: { businessId } });
+
+    return { success: true, data: { ...membership.business, role: membership.role } };
+  } catch (error) {
+    logger.error('Failed to switch business', {
+      userId,
+      businessId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to switch business' };
+  }
+}
+
+/**
+ * Combine per-business funnel counts into rates and agency-wide totals
+ */
+export function summariseRollup(
+  rows: BusinessRollupRow[],
+  businesses: Pick<UserBusiness, 'id' | 'name' | 'googleRating' | 'googleReviewCount'>[]
+): Pick<AgencyRollup, 'businesses' | 'totals'> {
+  const countsById = new Map(rows.map(row => [row.businessId, row]));
+
+  const rollups = businesses
+    .map(business => {
+      const counts = countsById.get(business.id);
+      const sent = counts?.sent ?? 0;
+      const clicked = counts?.clicked ?? 0;
+      const completed = counts?.completed ?? 0;
+
+      return {
+        businessId: business.id,
+        name: business.name,
+        googleRating: business.googleRating,
+        googleReviewCount: business.googleReviewCount,
+        sent,
+        clicked,
+        completed,
+        clickThroughRate: rate(clicked, sent),
+        completionRate: rate(completed, sent),
+      };
+    })
+    .sort((a, b) => b.sent - a.sent || a.name.localeCompare(b.name));
+
+  const sent = rollups.reduce((sum, row) => sum + row.sent, 0);
+  const clicked = rollups.reduce((sum, row) => sum + row.clicked, 0);
+  const completed = rollups.reduce((sum, row) => sum + row.completed, 0);
+
+  return {
+    businesses: rollups,
+    totals: {
+      businessCount: rollups.length,
+      sent,
+      clicked,
+      completed,
+      clickThroughRate: rate(clicked, sent),
+      completionRate: rate(completed, sent),
+    },
+  };
+}
+
+/**
+ * Sent → clicked → completed funnel for every active business the user can see analytics for
+ */
+export async function getAgencyRollup(
+  userId: string,
+  options: { days: number }
+): Promise<Result<AgencyRollup>> {
+  try {
+    const endDate = new Date();
+    const startDate = new Date(endDate.getTime() - options.days * 24 * 60 * 60 * 1000);
+
+    const memberships = await listUserBusinesses(userId);
+    if (!memberships.success) {
+      return memberships;
+    }
+
+    const businesses = memberships.data.filter(
+      business => business.isActive && hasPermission(business.role, 'analytics:read')
+    );
+
+    const rows = businesses.length
+      ? await prisma.$queryRaw<BusinessRollupRow[]>`
+          SELECT
+            business_id AS "businessId",
+            COUNT(CASE WHEN status IN ('SENT', 'DELIVERED', 'CLICKED', 'COMPLETED') THEN 1 END)::int AS sent,
+            COUNT(CASE WHEN clicked_at IS NOT NULL THEN 1 END)::int AS clicked,
+            COUNT(CASE WHEN completed_at IS NOT NULL THEN 1 END)::int AS completed
+          FROM review_requests
+          WHERE business_id IN (${Prisma.join(businesses.map(business => business.id))})
+            AND created_at >= ${startDate}
+            AND created_at <= ${endDate}
+          GROUP BY business_id
+        `
+      : [];
+
+    return {
+      success: true,
+      data: {
+        ...summariseRollup(rows, businesses),
+        dateRange: { startDate, endDate, days: options.days },
+      },
+    };
+  } catch (error) {
+    logger.error('Failed to build agency rollup', {
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to load agency analytics' };
+  }
+}
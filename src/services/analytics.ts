@@ -0,0 +1,341 @@
+import { Prisma, type RequestChannel } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import {
+  addDaysToIsoDate,
+  addFunnel,
+  buildTimeSeries,
+  CLICK_DELAY_BUCKETS,
+  compareFunnels,
+  emptyFunnel,
+  funnelRates,
+  summariseClickDelays,
+  type ClickDelayDistribution,
+  type DeltaMetric,
+  type FunnelCounts,
+  type FunnelRates,
+  type MetricDelta,
+  type TrendInterval,
+  type TrendPoint,
+} from '../lib/analytics';
+import { getLocalIsoDate } from '../lib/sending-window';
+import type { AnalyticsTrendsQuery } from '../lib/validators/analytics';
+import { addJobToQueue } from './job-queue';
+import type { Result } from '../types/database';
+import type { RollupAnalyticsJobData } from '../types/external';
+
+/** How often changed requests are rolled up */
+export const ANALYTICS_ROLLUP_INTERVAL_MS = 10 * 60 * 1000;
+
+/** Updates made inside a transaction can commit after the sweep reads, so cursors overlap */
+const ROLLUP_OVERLAP_MS = 60 * 1000;
+
+/** Days rebuilt per query, so a first backfill never groups a business's whole history at once */
+const ROLLUP_DAYS_PER_BATCH = 31;
+
+/** Longest one batch may hold its business's rollup lock */
+const ROLLUP_LOCK_TIMEOUT_MS = 60 * 1000;
+
+export type AnalyticsTotals = FunnelCounts & FunnelRates;
+
+export interface AnalyticsBreakdownRow extends AnalyticsTotals {
+  key: string | null; // Channel, template id or campaign id; null for none
+  name: string;
+}
+
+export interface AnalyticsTrends {
+  range: { from: string; to: string; interval: TrendInterval; timezone: string };
+  previousRange: { from: string; to: string };
+  series: TrendPoint[];
+  totals: AnalyticsTotals;
+  previousTotals: AnalyticsTotals;
+  deltas: Record<DeltaMetric, MetricDelta>;
+  timeToClick: ClickDelayDistribution;
+  breakdown?: AnalyticsBreakdownRow[];
+  rolledUpAt: Date | null;
+}
+
+interface RollupRow extends FunnelCounts {
+  date: string;
+  channel: RequestChannel;
+  templateId: string | null;
+  campaignId: string | null;
+}
+
+const toDbDate = (date: string) => new Date(`${date}T00:00:00Z`);
+
+// Day a request was created on in the business's time zone; created_at is stored as UTC
+const localCreatedDate = (timeZone: string) =>
+  Prisma.sql`DATE((created_at AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone})`;
+
+// Clicks per CLICK_DELAY_BUCKETS entry, as one int[] column
+function clickDelayBucketsSql(): Prisma.Sql {
+  const delay = Prisma.sql`EXTRACT(EPOCH FROM (clicked_at - sent_at))`;
+  const counts = CLICK_DELAY_BUCKETS.map((bucket, index) => {
+    const lower = CLICK_DELAY_BUCKETS[index - 1]?.maxSeconds ?? 0;
+    const upper =
+      bucket.maxSeconds === null ? Prisma.empty : Prisma.sql`AND ${delay} < ${bucket.maxSeconds}`;
+    return Prisma.sql`COUNT(*) FILTER (WHERE clicked_at >= sent_at AND ${delay} >= ${lower} ${upper})::int`;
+  });
+  return Prisma.sql`ARRAY[${Prisma.join(counts)}]::int[]`;
+}
+
+/**
+ * Queue the next rollup. Job ids are bucketed by slot, so every dispatcher process shares
+ * one chain.
+ */
+export async function scheduleAnalyticsRollup(delay = ANALYTICS_ROLLUP_INTERVAL_MS): Promise<void> {
+  const slot = Math.floor((Date.now() + delay) / ANALYTICS_ROLLUP_INTERVAL_MS);
+
+  await addJobToQueue<RollupAnalyticsJobData>(
+    'rollup-analytics',
+    { slot },
+    { delay, jobId: `rollup-analytics:${slot}` }
+  );
+}
+
+/**
+ * Recount the funnel for the given local days and replace their rollups. Runs for one
+ * business take turns on a transaction-scoped advisory lock, so overlapping runs can't both
+ * insert rows for the same day.
+ */
+async function rebuildRollupDays(
+  businessId: string,
+  timeZone: string,
+  days: string[]
+): Promise<void> {
+  const sorted = [...days].sort();
+  // Widen the UTC range by a day each side so every time zone's local days are covered
+  const startUtc = toDbDate(addDaysToIsoDate(sorted[0]!, -1));
+  const endUtc = toDbDate(addDaysToIsoDate(sorted[sorted.length - 1]!, 2));
+
+  const lockKey = `analytics-rollup:${businessId}`;
+
+  await prisma.$transaction(
+    async tx => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`;
+
+      const rows = await tx.$queryRaw<RollupRow[]>`
+        SELECT
+          ${localCreatedDate(timeZone)}::text AS date,
+          channel,
+          template_id AS "templateId",
+          campaign_id AS "campaignId",
+          COUNT(*)::int AS requested,
+          COUNT(sent_at)::int AS sent,
+          COUNT(delivered_at)::int AS delivered,
+          COUNT(clicked_at)::int AS clicked,
+          COUNT(completed_at)::int AS completed,
+          COUNT(*) FILTER (WHERE status = 'BOUNCED')::int AS bounced,
+          COUNT(*) FILTER (WHERE status = 'OPTED_OUT')::int AS "optedOut",
+          COUNT(*) FILTER (WHERE status = 'FAILED')::int AS failed,
+          ${clickDelayBucketsSql()} AS "clickDelayBuckets",
+          COALESCE(
+            SUM(EXTRACT(EPOCH FROM (clicked_at - sent_at))) FILTER (WHERE clicked_at >= sent_at),
+            0
+          )::float8 AS "clickDelayTotalSeconds"
+        FROM review_requests
+        WHERE business_id = ${businessId}
+          AND created_at >= ${startUtc}
+          AND created_at < ${endUtc}
+          AND ${localCreatedDate(timeZone)} = ANY(${sorted}::date[])
+        GROUP BY 1, channel, template_id, campaign_id
+      `;
+
+      await tx.analyticsDailyRollup.deleteMany({
+        where: { businessId, date: { in: sorted.map(toDbDate) } },
+      });
+      await tx.analyticsDailyRollup.createMany({
+        data: rows.map(({ date, ...row }) => ({ ...row, businessId, date: toDbDate(date) })),
+      });
+    },
+    { timeout: ROLLUP_LOCK_TIMEOUT_MS, maxWait: ROLLUP_LOCK_TIMEOUT_MS }
+  );
+}
+
+/**
+ * Rebuild the days whose requests changed since the business was last rolled up; a business
+ * never rolled up is backfilled from its first request
+ */
+async function rollUpBusiness(
+  business: { id: string; timezone: string; analyticsRolledUpAt: Date | null },
+  now: Date
+): Promise<number> {
+  const cursor = new Date(now.getTime() - ROLLUP_OVERLAP_MS);
+
+  const changed = await prisma.$queryRaw<Array<{ date: string }>>`
+    SELECT DISTINCT ${localCreatedDate(business.timezone)}::text AS date
+    FROM review_requests
+    WHERE business_id = ${business.id}
+      ${business.analyticsRolledUpAt ? Prisma.sql`AND updated_at >= ${business.analyticsRolledUpAt}` : Prisma.empty}
+  `;
+
+  const days = changed.map(row => row.date).sort();
+  for (let i = 0; i < days.length; i += ROLLUP_DAYS_PER_BATCH) {
+    await rebuildRollupDays(
+      business.id,
+      business.timezone,
+      days.slice(i, i + ROLLUP_DAYS_PER_BATCH)
+    );
+  }
+
+  await prisma.business.update({
+    where: { id: business.id },
+    data: { analyticsRolledUpAt: cursor },
+  });
+
+  return days.length;
+}
+
+/**
+ * Bring every active business's daily rollups up to date
+ */
+export async function rollUpAnalytics(
+  now: Date = new Date()
+): Promise<Result<{ businesses: number; days: number }>> {
+  try {
+    const businesses = await prisma.business.findMany({
+      where: { isActive: true },
+      select: { id: true, timezone: true, analyticsRolledUpAt: true },
+    });
+
+    let days = 0;
+    for (const business of businesses) {
+      try {
+        days += await rollUpBusiness(business, now);
+      } catch (error) {
+        // Leave the cursor where it was so the next run retries this business
+        logger.error('Failed to roll up analytics for business', {
+          businessId: business.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return { success: true, data: { businesses: businesses.length, days } };
+  } catch (error) {
+    logger.error('Failed to roll up analytics', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to roll up analytics' };
+  }
+}
+
+function totalsOf(rows: FunnelCounts[]): AnalyticsTotals {
+  const counts = rows.reduce(addFunnel, emptyFunnel());
+  return { ...counts, ...funnelRates(counts) };
+}
+
+async function buildBreakdown(
+  businessId: string,
+  rows: RollupRow[],
+  breakdown: NonNullable<AnalyticsTrendsQuery['breakdown']>
+): Promise<AnalyticsBreakdownRow[]> {
+  const keyOf = (row: RollupRow) =>
+    breakdown === 'channel'
+      ? row.channel
+      : breakdown === 'template'
+        ? row.templateId
+        : row.campaignId;
+
+  const groups = new Map<string | null, RollupRow[]>();
+  for (const row of rows) {
+    groups.set(keyOf(row), [...(groups.get(keyOf(row)) ?? []), row]);
+  }
+
+  const ids = [...groups.keys()].filter((key): key is string => key !== null);
+  const names = new Map<string, string>(
+    breakdown === 'template'
+      ? (
+          await prisma.messageTemplate.findMany({
+            where: { id: { in: ids } },
+            select: { id: true, name: true },
+          })
+        ).map(template => [template.id, template.name])
+      : breakdown === 'campaign'
+        ? (
+            await prisma.campaign.findMany({
+              where: { id: { in: ids }, businessId },
+              select: { id: true, name: true },
+            })
+          ).map(campaign => [campaign.id, campaign.name])
+        : ids.map(channel => [channel, channel])
+  );
+  const unnamed = breakdown === 'template' ? 'Custom message' : 'No campaign';
+
+  return [...groups]
+    .map(([key, group]) => ({
+      key,
+      name: key === null ? unnamed : (names.get(key) ?? 'Deleted'),
+      ...totalsOf(group),
+    }))
+    .sort((a, b) => b.sent - a.sent || a.name.localeCompare(b.name));
+}
+
+/**
+ * Time series, totals against the previous period, time-to-click distribution and an
+ * optional breakdown, read from the daily rollups
+ */
+export async function getAnalyticsTrends(
+  businessId: string,
+  query: AnalyticsTrendsQuery
+): Promise<Result<AnalyticsTrends>> {
+  try {
+    const business = await prisma.business.findUnique({
+      where: { id: businessId },
+      select: { timezone: true, analyticsRolledUpAt: true },
+    });
+    if (!business) {
+      return { success: false, error: 'Business not found' };
+    }
+
+    const to = query.to ?? getLocalIsoDate(new Date(), business.timezone);
+    const from = query.from ?? addDaysToIsoDate(to, 1 - query.days);
+    const length = Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000)) + 1;
+    const previousTo = addDaysToIsoDate(from, -1);
+    const previousFrom = addDaysToIsoDate(from, -length);
+
+    const stored = await prisma.analyticsDailyRollup.findMany({
+      where: {
+        businessId,
+        date: { gte: toDbDate(previousFrom), lte: toDbDate(to) },
+        ...(query.channel ? { channel: query.channel } : {}),
+        ...(query.templateId ? { templateId: query.templateId } : {}),
+        ...(query.campaignId ? { campaignId: query.campaignId } : {}),
+      },
+    });
+
+    const rows: RollupRow[] = stored.map(row => ({
+      ...row,
+      date: row.date.toISOString().slice(0, 10),
+    }));
+    const current = rows.filter(row => row.date >= from);
+    const previous = rows.filter(row => row.date < from);
+
+    const totals = totalsOf(current);
+    const previousTotals = totalsOf(previous);
+
+    return {
+      success: true,
+      data: {
+        range: { from, to, interval: query.interval, timezone: business.timezone },
+        previousRange: { from: previousFrom, to: previousTo },
+        series: buildTimeSeries(current, { from, to, interval: query.interval }),
+        totals,
+        previousTotals,
+        deltas: compareFunnels(totals, previousTotals),
+        timeToClick: summariseClickDelays(totals),
+        ...(query.breakdown
+          ? { breakdown: await buildBreakdown(businessId, current, query.breakdown) }
+          : {}),
+        rolledUpAt: business.analyticsRolledUpAt,
+      },
+    };
+  } catch (error) {
+    logger.error('Failed to load analytics trends', {
+      businessId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to load analytics trends' };
+  }
+}
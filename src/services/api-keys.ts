@@ -0,0 +1,205 @@
+import { createHash, randomBytes } from 'crypto';
+import type { ApiKey } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { API_KEY_SCOPES, type ApiKeyScope } from '../lib/permissions';
+import type { CreateApiKeyInput } from '../lib/validators/apiKey';
+import type { Result } from '../types/database';
+
+/** Every key starts with this so it is recognisable in logs and secret scanners */
+export const API_KEY_PREFIX = 'rr_live_';
+
+/** Characters of the key kept in clear so owners can tell their keys apart */
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+/** lastUsedAt is only written when it is older than this, not on every request */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const API_KEY_ERROR_STATUS: Record<string, number> = {
+  API_KEY_NOT_FOUND: 404,
+};
+
+/** A key as shown to the business; the secret is only returned once, on creation */
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface CreatedApiKey {
+  apiKey: ApiKeySummary;
+  key: string;
+}
+
+/** The business and scopes a presented key grants */
+export interface ApiKeyContext {
+  apiKeyId: string;
+  businessId: string;
+  scopes: ApiKeyScope[];
+}
+
+/**
+ * Split a 'CODE: message' error from this module into an API error code and HTTP status
+ */
+export function parseApiKeyError(error: string): { code: string; status: number; message: string } {
+  const match = /^([A-Z_]+): (.*)$/s.exec(error);
+  const code = match?.[1];
+  const status = code ? API_KEY_ERROR_STATUS[code] : undefined;
+
+  if (!match || !code || !status) {
+    return { code: 'INTERNAL_ERROR', status: 500, message: error };
+  }
+
+  return { code, status, message: match[2] ?? error };
+}
+
+/**
+ * Only the SHA-256 of a key is stored; keys are long and random, so no salt is needed
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashApiKey(key) };
+}
+
+// Scopes are stored as strings; drop any that are no longer grantable
+function toApiKeyScopes(scopes: string[]): ApiKeyScope[] {
+  return scopes.filter((scope): scope is ApiKeyScope =>
+    (API_KEY_SCOPES as readonly string[]).includes(scope)
+  );
+}
+
+function toApiKeySummary(apiKey: ApiKey): ApiKeySummary {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: toApiKeyScopes(apiKey.scopes),
+    lastUsedAt: apiKey.lastUsedAt,
+    revokedAt: apiKey.revokedAt,
+    createdAt: apiKey.createdAt,
+  };
+}
+
+/**
+ * Issue a new key for a business. The returned key is not stored and cannot be shown again.
+ */
+export async function createApiKey(
+  businessId: string,
+  createdById: string,
+  input: CreateApiKeyInput
+): Promise<Result<CreatedApiKey>> {
+  try {
+    const { key, prefix, keyHash } = generateApiKey();
+    const apiKey = await prisma.apiKey.create({
+      data: { businessId, name: input.name, prefix, keyHash, scopes: input.scopes, createdById },
+    });
+
+    logger.info('API key created', {
+      businessId,
+      apiKeyId: apiKey.id,
+      scopes: input.scopes,
+      createdById,
+    });
+
+    return { success: true, data: { apiKey: toApiKeySummary(apiKey), key } };
+  } catch (error) {
+    logger.error('Failed to create API key', {
+      businessId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to create API key' };
+  }
+}
+
+/**
+ * A business's keys, newest first, including revoked ones
+ */
+export async function listApiKeys(businessId: string): Promise<Result<ApiKeySummary[]>> {
+  try {
+    const apiKeys = await prisma.apiKey.findMany({
+      where: { businessId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return { success: true, data: apiKeys.map(toApiKeySummary) };
+  } catch (error) {
+    logger.error('Failed to list API keys', {
+      businessId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to load API keys' };
+  }
+}
+
+/**
+ * Stop a key working immediately. Revoking twice is harmless.
+ */
+export async function revokeApiKey(
+  businessId: string,
+  apiKeyId: string
+): Promise<Result<ApiKeySummary>> {
+  try {
+    const existing = await prisma.apiKey.findFirst({ where: { id: apiKeyId, businessId } });
+    if (!existing) {
+      return { success: false, error: 'API_KEY_NOT_FOUND: API key not found' };
+    }
+
+    const apiKey = existing.revokedAt
+      ? existing
+      : await prisma.apiKey.update({ where: { id: apiKeyId }, data: { revokedAt: new Date() } });
+
+    logger.info('API key revoked', { businessId, apiKeyId });
+    return { success: true, data: toApiKeySummary(apiKey) };
+  } catch (error) {
+    logger.error('Failed to revoke API key', {
+      businessId,
+      apiKeyId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to revoke API key' };
+  }
+}
+
+/**
+ * Look up a presented key. Unknown, revoked and malformed keys, and keys of inactive
+ * businesses, all come back as null so callers cannot tell them apart.
+ */
+export async function authenticateApiKey(key: string): Promise<ApiKeyContext | null> {
+  if (!key.startsWith(API_KEY_PREFIX)) {
+    return null;
+  }
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+    include: { business: { select: { isActive: true } } },
+  });
+  if (!apiKey || apiKey.revokedAt || !apiKey.business.isActive) {
+    return null;
+  }
+
+  const now = Date.now();
+  if (!apiKey.lastUsedAt || now - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    prisma.apiKey
+      .update({ where: { id: apiKey.id }, data: { lastUsedAt: new Date(now) } })
+      .catch(error =>
+        logger.warn('Failed to record API key use', {
+          apiKeyId: apiKey.id,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+  }
+
+  return {
+    apiKeyId: apiKey.id,
+    businessId: apiKey.businessId,
+    scopes: toApiKeyScopes(apiKey.scopes),
+  };
+}
@@ -0,0 +1,519 @@
+import type { AutomationRule, AutomationTrigger, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import type {
+  CreateAutomationRuleInput,
+  IntegrationEventInput,
+  UpdateAutomationRuleInput,
+} from '../lib/validators/automation';
+import { addJobToQueue } from './job-queue';
+import {
+  createReviewRequest,
+  queueReviewRequestSend,
+  type ReviewRequestSummary,
+} from './review-requests';
+import type { Result } from '../types/database';
+import type { RunAutomationsJobData } from '../types/external';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Longest a run may hold its customer's lock */
+const CUSTOMER_LOCK_TIMEOUT_MS = 60 * 1000;
+
+const AUTOMATION_ERROR_STATUS: Record<string, number> = {
+  AUTOMATION_NOT_FOUND: 404,
+  INVALID_AUTOMATION: 400,
+  INVALID_TEMPLATE: 400,
+  CUSTOMER_NOT_FOUND: 404,
+};
+
+/** What just happened to a customer */
+export type AutomationTriggerEvent =
+  | { type: 'CUSTOMER_CREATED' }
+  | { type: 'CUSTOMER_TAGGED'; tags: string[] } // Only the tags just added
+  | { type: 'INTEGRATION_EVENT'; eventName: string };
+
+export interface AutomationRuleWithUsage extends AutomationRule {
+  templateName: string;
+  requestCount: number;
+}
+
+export interface AutomationRunResult {
+  requestIds: string[];
+  skipped: Array<{ ruleId: string; reason: string }>;
+}
+
+/**
+ * Split a 'CODE: message' error from this module into an API error code and HTTP status
+ */
+export function parseAutomationError(error: string): {
+  code: string;
+  status: number;
+  message: string;
+} {
+  const match = /^([A-Z_]+): (.*)$/s.exec(error);
+  const code = match?.[1];
+  const status = code ? AUTOMATION_ERROR_STATUS[code] : undefined;
+
+  if (!match || !code || !status) {
+    return { code: 'INTERNAL_ERROR', status: 500, message: error };
+  }
+
+  return { code, status, message: match[2] ?? error };
+}
+
+/**
+ * Why a rule cannot be saved, or null. Tag and event name only apply to their own trigger.
+ */
+export function getAutomationRuleProblem(
+  rule: Pick<AutomationRule, 'trigger' | 'tag' | 'eventName'>
+): string | null {
+  if (rule.trigger === 'CUSTOMER_TAGGED' && !rule.tag) {
+    return 'Choose the tag that triggers the rule';
+  }
+  if (rule.trigger === 'INTEGRATION_EVENT' && !rule.eventName) {
+    return 'Choose the integration event that triggers the rule';
+  }
+  return null;
+}
+
+/**
+ * Whether a rule fires for what just happened. Tags compare case-insensitively.
+ */
+export function ruleMatchesTrigger(
+  rule: Pick<AutomationRule, 'trigger' | 'tag' | 'eventName'>,
+  trigger: AutomationTriggerEvent
+): boolean {
+  if (rule.trigger !== trigger.type) {
+    return false;
+  }
+
+  switch (trigger.type) {
+    case 'CUSTOMER_CREATED':
+      return true;
+    case 'CUSTOMER_TAGGED':
+      return trigger.tags.some(tag => tag.toLowerCase() === rule.tag?.toLowerCase());
+    case 'INTEGRATION_EVENT':
+      return trigger.eventName === rule.eventName;
+  }
+}
+
+/**
+ * Tags on `after` that were not on `before`
+ */
+export function getAddedTags(before: string[], after: string[]): string[] {
+  const existing = new Set(before.map(tag => tag.toLowerCase()));
+  return after.filter(tag => !existing.has(tag.toLowerCase()));
+}
+
+/**
+ * Whether the customer was last asked too recently for a rule with this cooldown
+ */
+export function isWithinCooldown(
+  lastRequestAt: Date | null,
+  cooldownDays: number,
+  now: Date = new Date()
+): boolean {
+  return !!lastRequestAt && now.getTime() - lastRequestAt.getTime() < cooldownDays * DAY_MS;
+}
+
+// Clear the tag or event name a trigger does not use
+function triggerFields(
+  trigger: AutomationTrigger,
+  tag: string | null | undefined,
+  eventName: string | null | undefined
+) {
+  return {
+    tag: trigger === 'CUSTOMER_TAGGED' ? (tag ?? null) : null,
+    eventName: trigger === 'INTEGRATION_EVENT' ? (eventName ?? null) : null,
+  };
+}
+
+async function findUsableTemplate(businessId: string, templateId: string) {
+  return prisma.messageTemplate.findFirst({
+    where: {
+      id: templateId,
+      OR: [{ businessId }, { businessId: null, templateType: 'system' }],
+      isActive: true,
+    },
+    select: { id: true, channel: true },
+  });
+}
+
+// ==========================================
+// RULES
+// ==========================================
+
+export async function listAutomationRules(
+  businessId: string
+): Promise<Result<AutomationRuleWithUsage[]>> {
+  try {
+    const rules = await prisma.automationRule.findMany({
+      where: { businessId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        template: { select: { name: true } },
+        _count: { select: { reviewRequests: true } },
+      },
+    });
+
+    return {
+      success: true,
+      data: rules.map(({ template, _count, ...rule }) => ({
+        ...rule,
+        templateName: template.name,
+        requestCount: _count.reviewRequests,
+      })),
+    };
+  } catch (error) {
+    logger.error('Failed to list automation rules', { businessId, error });
+    return { success: false, error: 'Failed to load automations' };
+  }
+}
+
+export async function createAutomationRule(
+  businessId: string,
+  input: CreateAutomationRuleInput
+): Promise<Result<AutomationRule>> {
+  try {
+    const fields = triggerFields(input.trigger, input.tag, input.eventName);
+    const problem = getAutomationRuleProblem({ trigger: input.trigger, ...fields });
+    if (problem) {
+      return { success: false, error: `INVALID_AUTOMATION: ${problem}` };
+    }
+
+    const template = await findUsableTemplate(businessId, input.templateId);
+    if (!template || template.channel !== input.channel) {
+      return {
+        success: false,
+        error: `INVALID_TEMPLATE: Choose an active ${input.channel} template`,
+      };
+    }
+
+    const rule = await prisma.automationRule.create({
+      data: { ...input, ...fields, businessId },
+    });
+
+    logger.info('Automation rule created', {
+      businessId,
+      ruleId: rule.id,
+      trigger: rule.trigger,
+    });
+
+    return { success: true, data: rule };
+  } catch (error) {
+    logger.error('Failed to create automation rule', { businessId, error });
+    return { success: false, error: 'Failed to create automation' };
+  }
+}
+
+export async function updateAutomationRule(
+  businessId: string,
+  ruleId: string,
+  input: UpdateAutomationRuleInput
+): Promise<Result<AutomationRule>> {
+  try {
+    const existing = await prisma.automationRule.findFirst({
+      where: { id: ruleId, businessId },
+    });
+    if (!existing) {
+      return { success: false, error: 'AUTOMATION_NOT_FOUND: Automation not found' };
+    }
+
+    const merged = { ...existing, ...input };
+    const fields = triggerFields(merged.trigger, merged.tag, merged.eventName);
+    const problem = getAutomationRuleProblem({ trigger: merged.trigger, ...fields });
+    if (problem) {
+      return { success: false, error: `INVALID_AUTOMATION: ${problem}` };
+    }
+
+    if (input.templateId || input.channel) {
+      const template = await findUsableTemplate(businessId, merged.templateId);
+      if (!template || template.channel !== merged.channel) {
+        return {
+          success: false,
+          error: `INVALID_TEMPLATE: Choose an active ${merged.channel} template`,
+        };
+      }
+    }
+
+    const rule = await prisma.automationRule.update({
+      where: { id: ruleId },
+      data: { ...input, ...fields },
+    });
+
+    logger.info('Automation rule updated', { businessId, ruleId });
+    return { success: true, data: rule };
+  } catch (error) {
+    logger.error('Failed to update automation rule', { businessId, ruleId, error });
+    return { success: false, error: 'Failed to update automation' };
+  }
+}
+
+/**
+ * Delete a rule. Requests it already scheduled still send.
+ */
+export async function deleteAutomationRule(
+  businessId: string,
+  ruleId: string
+): Promise<Result<void>> {
+  try {
+    const { count } = await prisma.automationRule.deleteMany({
+      where: { id: ruleId, businessId },
+    });
+    if (count === 0) {
+      return { success: false, error: 'AUTOMATION_NOT_FOUND: Automation not found' };
+    }
+
+    logger.info('Automation rule deleted', { businessId, ruleId });
+    return { success: true, data: undefined };
+  } catch (error) {
+    logger.error('Failed to delete automation rule', { businessId, ruleId, error });
+    return { success: false, error: 'Failed to delete automation' };
+  }
+}
+
+// ==========================================
+// RUNNING RULES
+// ==========================================
+
+/**
+ * Run `fn` holding a transaction-scoped advisory lock on the customer. Runs for one customer
+ * wait for each other, so two can't both pass the cooldown check before either has created
+ * its request. `fn` must do its work on `tx`: the lock holds a pooled connection, and runs
+ * waiting on the lock hold others, so the holder may find none free for a query of its own.
+ */
+async function withCustomerLock<T>(
+  customerId: string,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  return prisma.$transaction(
+    async tx => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${customerId}))`;
+      return fn(tx);
+    },
+    { timeout: CUSTOMER_LOCK_TIMEOUT_MS, maxWait: CUSTOMER_LOCK_TIMEOUT_MS }
+  );
+}
+
+/**
+ * Schedule a review request from each active rule matching what happened to the customer,
+ * oldest rule first. A rule is skipped while the customer had a request within its
+ * cooldown, including one another rule or a concurrent run just scheduled; suppressed
+ * contacts and customers without an address for the channel are skipped by
+ * createReviewRequest.
+ */
+export async function runAutomations(
+  businessId: string,
+  customerId: string,
+  trigger: AutomationTriggerEvent
+): Promise<Result<AutomationRunResult>> {
+  try {
+    const rules = await prisma.automationRule.findMany({
+      where: { businessId, isActive: true, trigger: trigger.type },
+      orderBy: { createdAt: 'asc' },
+      include: { template: { select: { subject: true, content: true, isActive: true } } },
+    });
+
+    const result: AutomationRunResult = { requestIds: [], skipped: [] };
+    const matching = rules.filter(rule => ruleMatchesTrigger(rule, trigger));
+    if (matching.length > 0) {
+      const created = await withCustomerLock(customerId, async tx => {
+        const requests: ReviewRequestSummary[] = [];
+        for (const rule of matching) {
+          const now = new Date();
+          const lastRequest = await tx.reviewRequest.findFirst({
+            where: { businessId, customerId, isActive: true, status: { not: 'FAILED' } },
+            orderBy: { createdAt: 'desc' },
+            select: { createdAt: true },
+          });
+          if (isWithinCooldown(lastRequest?.createdAt ?? null, rule.cooldownDays, now)) {
+            result.skipped.push({ ruleId: rule.id, reason: 'Customer was asked recently' });
+            continue;
+          }
+          if (!rule.template.isActive) {
+            result.skipped.push({ ruleId: rule.id, reason: 'Template is no longer active' });
+            continue;
+          }
+
+          const request = await createReviewRequest(
+            {
+              businessId,
+              customerId,
+              channel: rule.channel,
+              subject: rule.template.subject ?? undefined,
+              messageContent: rule.template.content,
+              templateId: rule.templateId,
+              automationRuleId: rule.id,
+              scheduledFor: new Date(now.getTime() + rule.delayMinutes * 60 * 1000),
+            },
+            tx
+          );
+          if (!request.success) {
+            result.skipped.push({ ruleId: rule.id, reason: request.error });
+            continue;
+          }
+
+          requests.push(request.data);
+          await tx.automationRule.update({
+            where: { id: rule.id },
+            data: { lastTriggeredAt: now },
+          });
+        }
+        return requests;
+      });
+
+      // Queued once the requests are committed, so no send job can run ahead of its request
+      for (const request of created) {
+        result.requestIds.push(request.id);
+        await queueReviewRequestSend(request);
+      }
+    }
+
+    if (result.requestIds.length > 0 || result.skipped.length > 0) {
+      logger.info('Automations run', {
+        businessId,
+        customerId,
+        trigger: trigger.type,
+        scheduled: result.requestIds.length,
+        skipped: result.skipped,
+      });
+    }
+
+    return { success: true, data: result };
+  } catch (error) {
+    logger.error('Failed to run automations', {
+      businessId,
+      customerId,
+      trigger: trigger.type,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to run automations' };
+  }
+}
+
+/**
+ * Run a customer's rules in the background, so saving the customer never waits on them.
+ * The job runs once: a retry after a partial run could ask a customer twice under a rule
+ * with no cooldown. Failing to queue is logged rather than failing the save.
+ */
+async function queueAutomations(
+  businessId: string,
+  customerId: string,
+  triggers: RunAutomationsJobData['triggers']
+): Promise<void> {
+  try {
+    await addJobToQueue<RunAutomationsJobData>(
+      'run-automations',
+      { businessId, customerId, triggers },
+      { attempts: 1 }
+    );
+  } catch (error) {
+    logger.error('Failed to queue automations', {
+      businessId,
+      customerId,
+      triggers: triggers.map(trigger => trigger.type),
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Rules for a new customer: "customer created", then "tagged" for the tags it came with
+ */
+export async function queueCustomerCreatedAutomations(
+  businessId: string,
+  customer: { id: string; tags: string[] }
+): Promise<void> {
+  await queueAutomations(businessId, customer.id, [
+    { type: 'CUSTOMER_CREATED' },
+    ...(customer.tags.length > 0
+      ? [{ type: 'CUSTOMER_TAGGED' as const, tags: customer.tags }]
+      : []),
+  ]);
+}
+
+/**
+ * Rules for tags newly added to an existing customer
+ */
+export async function queueCustomerTaggedAutomations(
+  businessId: string,
+  customerId: string,
+  previousTags: string[],
+  tags: string[]
+): Promise<void> {
+  const added = getAddedTags(previousTags, tags);
+  if (added.length > 0) {
+    await queueAutomations(businessId, customerId, [{ type: 'CUSTOMER_TAGGED', tags: added }]);
+  }
+}
+
+/**
+ * An event from a POS, CRM or job-management system. The customer is looked up by id, or by
+ * email then phone, and created if new; only the event's own rules run for them.
+ */
+export async function handleIntegrationEvent(
+  businessId: string,
+  input: IntegrationEventInput
+): Promise<Result<AutomationRunResult & { customerId: string; customerCreated: boolean }>> {
+  try {
+    let customerId = input.customerId;
+    let customerCreated = false;
+
+    if (customerId) {
+      const customer = await prisma.customer.findFirst({
+        where: { id: customerId, businessId, isActive: true },
+        select: { id: true },
+      });
+      if (!customer) {
+        return { success: false, error: 'CUSTOMER_NOT_FOUND: Customer not found' };
+      }
+    } else if (input.customer) {
+      const { email, phone } = input.customer;
+      const existing =
+        (email &&
+          (await prisma.customer.findFirst({
+            where: { businessId, isActive: true, email: { equals: email, mode: 'insensitive' } },
+            select: { id: true },
+          }))) ||
+        (phone &&
+          (await prisma.customer.findFirst({
+            where: { businessId, isActive: true, phone },
+            select: { id: true },
+          }))) ||
+        null;
+
+      if (existing) {
+        customerId = existing.id;
+      } else {
+        const customer = await prisma.customer.create({
+          data: { ...input.customer, businessId },
+          select: { id: true },
+        });
+        customerId = customer.id;
+        customerCreated = true;
+      }
+    }
+
+    if (!customerId) {
+      return { success: false, error: 'CUSTOMER_NOT_FOUND: Customer not found' };
+    }
+
+    const run = await runAutomations(businessId, customerId, {
+      type: 'INTEGRATION_EVENT',
+      eventName: input.event,
+    });
+    if (!run.success) {
+      return run;
+    }
+
+    return { success: true, data: { ...run.data, customerId, customerCreated } };
+  } catch (error) {
+    logger.error('Failed to handle integration event', {
+      businessId,
+      event: input.event,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to handle integration event' };
+  }
+}
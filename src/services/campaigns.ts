@@ -0,0 +1,1255 @@
+import type { CampaignStatus, Prisma, RequestStatus } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { canSendToCustomer, generateTrackingUrl, getContactForChannel } from '../lib/utils';
+import { resolveSendTime } from '../lib/sending-window';
+import { dedupeCustomerIds, DUPLICATE_RECIPIENT_BLOCK } from '../lib/contact-policy';
+import {
+  DEFAULT_EXPERIMENT_SETTINGS,
+  decideExperiment,
+  resolveExperimentSettings,
+  splitExperimentRecipients,
+  type ExperimentDecision,
+  type ExperimentSettings,
+} from '../lib/experiments';
+import { checkBulkSuppressions } from './suppressions';
+import { getContactPolicyBlocks } from './contact-policy';
+import { addJobToQueue } from './job-queue';
+import { getOptimalSendTimes, type OptimalSendTime } from './send-time';
+import { getCurrentTemplateVersionId } from './template-versions';
+import { createDestinationPicker, isBusinessDestination } from './review-destinations';
+import {
+  getCreditCost,
+  getInsufficientCreditsMessage,
+  refundRequestCredits,
+  reserveCredits,
+  type CreditReservation,
+} from './credits';
+import type { Campaign, CreateCampaignInput, Result, UpdateCampaignInput } from '../types/database';
+import type { EvaluateExperimentJobData } from '../types/external';
+
+export interface CampaignFunnelStats {
+  total: number;
+  queued: number;
+  sent: number;
+  delivered: number;
+  clicked: number;
+  completed: number;
+  failed: number;
+  optedOut: number;
+  clickRate: number;
+  completionRate: number;
+}
+
+export interface CampaignVariantResult {
+  id: string;
+  label: string;
+  template: { id: string; name: string } | null;
+  subject: string | null;
+  isWinner: boolean;
+  stats: CampaignFunnelStats;
+}
+
+export interface CampaignExperimentResults {
+  settings: ExperimentSettings;
+  decision: ExperimentDecision;
+  decidedAt: Date | null;
+  /** Recipients held back until the experiment picks a winner */
+  heldBack: number;
+  variants: CampaignVariantResult[];
+}
+
+export interface CampaignWithStats extends Campaign {
+  template: { id: string; name: string } | null;
+  stats: CampaignFunnelStats;
+  experiment: CampaignExperimentResults | null;
+}
+
+export interface TemplateExperimentSummary {
+  campaignId: string;
+  campaignName: string;
+  status: CampaignStatus;
+  launchedAt: Date | null;
+  experiment: CampaignExperimentResults;
+}
+
+export type CampaignAction = 'launch' | 'pause' | 'resume' | 'cancel';
+
+// Allowed lifecycle moves: draft → scheduled → running → completed, with pause/cancel along the way
+const CAMPAIGN_TRANSITIONS: Record<CampaignStatus, CampaignStatus[]> = {
+  DRAFT: ['SCHEDULED', 'RUNNING', 'CANCELLED'],
+  SCHEDULED: ['RUNNING', 'PAUSED', 'CANCELLED'],
+  RUNNING: ['PAUSED', 'COMPLETED', 'CANCELLED'],
+  PAUSED: ['SCHEDULED', 'RUNNING', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+// Statuses a request passes through on its way to each funnel stage
+const FUNNEL_STAGES: Record<'sent' | 'delivered' | 'clicked' | 'completed', RequestStatus[]> = {
+  sent: ['SENT', 'DELIVERED', 'CLICKED', 'COMPLETED'],
+  delivered: ['DELIVERED', 'CLICKED', 'COMPLETED'],
+  clicked: ['CLICKED', 'COMPLETED'],
+  completed: ['COMPLETED'],
+};
+
+// How often a running experiment is checked for a winner
+export const EXPERIMENT_EVALUATION_INTERVAL_MS = 60 * 60 * 1000;
+
+const campaignInclude = {
+  template: { select: { id: true, name: true } },
+  variants: {
+    include: { template: { select: { id: true, name: true } } },
+    orderBy: { label: 'asc' },
+  },
+} satisfies Prisma.CampaignInclude;
+
+type CampaignRecord = Prisma.CampaignGetPayload<{ include: typeof campaignInclude }>;
+
+// Thrown inside a transaction to roll it back when another request changed the campaign first
+class CampaignStatusConflictError extends Error {}
+
+/**
+ * Move a campaign out of the status it was read in. The status is checked again in the
+ * update, so of two concurrent changes only the first applies.
+ */
+async function claimCampaignTransition(
+  tx: Prisma.TransactionClient,
+  campaign: Pick<CampaignRecord, 'id' | 'status'>,
+  data: Prisma.CampaignUpdateManyMutationInput
+): Promise<void> {
+  const { count } = await tx.campaign.updateMany({
+    where: { id: campaign.id, status: campaign.status },
+    data,
+  });
+  if (count === 0) {
+    throw new CampaignStatusConflictError(
+      `Campaign is no longer ${campaign.status.toLowerCase()}; reload and try again`
+    );
+  }
+}
+
+// Variants are labelled A, B, C... in the order they were given
+const variantLabel = (index: number) => String.fromCharCode(65 + index);
+
+export function canTransitionCampaign(from: CampaignStatus, to: CampaignStatus): boolean {
+  return CAMPAIGN_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Resolve when a campaign should start sending for its scheduling type
+ */
+export function resolveCampaignSchedule(
+  schedulingType: CreateCampaignInput['schedulingType'],
+  scheduledFor?: Date | null
+): Date | null {
+  if (schedulingType === 'SCHEDULED') {
+    return scheduledFor || null;
+  }
+
+  if (schedulingType === 'OPTIMAL') {
+    // Nominal start - each request then gets its own slot from getOptimalSendTimes
+    const optimalTime = new Date();
+    const daysUntilTuesday = (2 - optimalTime.getDay() + 7) % 7;
+    optimalTime.setDate(optimalTime.getDate() + (daysUntilTuesday === 0 ? 7 : daysUntilTuesday));
+    optimalTime.setHours(14, 0, 0, 0);
+    return optimalTime;
+  }
+
+  return null;
+}
+
+/**
+ * Build funnel stats from request counts grouped by status
+ */
+export function buildFunnelStats(
+  statusCounts: Partial<Record<RequestStatus, number>>
+): CampaignFunnelStats {
+  const sum = (statuses: RequestStatus[]) =>
+    statuses.reduce((total, status) => total + (statusCounts[status] || 0), 0);
+
+  const total = Object.values(statusCounts).reduce<number>((acc, count) => acc + (count || 0), 0);
+  const sent = sum(FUNNEL_STAGES.sent);
+  const clicked = sum(FUNNEL_STAGES.clicked);
+  const completed = sum(FUNNEL_STAGES.completed);
+  const rate = (value: number) => (sent > 0 ? Math.round((value / sent) * 1000) / 10 : 0);
+
+  return {
+    total,
+    queued: sum(['DRAFT', 'QUEUED']),
+    sent,
+    delivered: sum(FUNNEL_STAGES.delivered),
+    clicked,
+    completed,
+    failed: sum(['FAILED', 'BOUNCED']),
+    optedOut: sum(['OPTED_OUT']),
+    clickRate: rate(clicked),
+    completionRate: rate(completed),
+  };
+}
+
+async function getFunnelStats(campaignIds: string[]): Promise<Map<string, CampaignFunnelStats>> {
+  const groups = await prisma.reviewRequest.groupBy({
+    by: ['campaignId', 'status'],
+    where: { campaignId: { in: campaignIds }, isActive: true },
+    _count: true,
+  });
+
+  const countsByCampaign = new Map<string, Partial<Record<RequestStatus, number>>>();
+  for (const group of groups) {
+    if (!group.campaignId) continue;
+    const counts = countsByCampaign.get(group.campaignId) || {};
+    counts[group.status] = group._count;
+    countsByCampaign.set(group.campaignId, counts);
+  }
+
+  return new Map(campaignIds.map(id => [id, buildFunnelStats(countsByCampaign.get(id) || {})]));
+}
+
+async function getExperimentResults(
+  campaigns: CampaignRecord[]
+): Promise<Map<string, CampaignExperimentResults>> {
+  const experiments = campaigns.filter(campaign => campaign.variants.length > 0);
+  if (experiments.length === 0) {
+    return new Map();
+  }
+
+  const groups = await prisma.reviewRequest.groupBy({
+    by: ['campaignId', 'variantId', 'status'],
+    where: { campaignId: { in: experiments.map(campaign => campaign.id) }, isActive: true },
+    _count: true,
+  });
+
+  const countsByVariant = new Map<string, Partial<Record<RequestStatus, number>>>();
+  const heldBack = new Map<string, number>();
+  for (const group of groups) {
+    if (group.variantId) {
+      const counts = countsByVariant.get(group.variantId) || {};
+      counts[group.status] = group._count;
+      countsByVariant.set(group.variantId, counts);
+    } else if (group.campaignId && group.status === 'DRAFT') {
+      heldBack.set(group.campaignId, (heldBack.get(group.campaignId) || 0) + group._count);
+    }
+  }
+
+  return new Map(
+    experiments.map(campaign => {
+      const settings = resolveExperimentSettings(campaign.experimentSettings);
+      const variants = campaign.variants.map(variant => ({
+        id: variant.id,
+        label: variant.label,
+        template: variant.template,
+        subject: variant.subject,
+        isWinner: variant.isWinner,
+        stats: buildFunnelStats(countsByVariant.get(variant.id) || {}),
+      }));
+      const decision = decideExperiment(
+        variants.map(variant => ({
+          id: variant.id,
+          sent: variant.stats.sent,
+          conversions:
+            settings.metric === 'CLICK' ? variant.stats.clicked : variant.stats.completed,
+        })),
+        settings
+      );
+
+      return [
+        campaign.id,
+        {
+          settings,
+          decision,
+          decidedAt: campaign.experimentDecidedAt,
+          heldBack: heldBack.get(campaign.id) || 0,
+          variants,
+        },
+      ];
+    })
+  );
+}
+
+async function findCampaign(businessId: string, campaignId: string) {
+  return prisma.campaign.findFirst({
+    where: { id: campaignId, businessId, isActive: true },
+    include: campaignInclude,
+  });
+}
+
+function toCampaignWithStats(
+  { variants: _variants, ...campaign }: CampaignRecord,
+  stats: Map<string, CampaignFunnelStats>,
+  experiments: Map<string, CampaignExperimentResults>
+): CampaignWithStats {
+  return {
+    ...campaign,
+    stats: stats.get(campaign.id)!,
+    experiment: experiments.get(campaign.id) ?? null,
+  };
+}
+
+async function withStats(campaign: CampaignRecord): Promise<CampaignWithStats> {
+  const [stats, experiments] = await Promise.all([
+    getFunnelStats([campaign.id]),
+    getExperimentResults([campaign]),
+  ]);
+  return toCampaignWithStats(campaign, stats, experiments);
+}
+
+/**
+ * Move scheduled campaigns that have started to running, and running campaigns with nothing
+ * left to send to completed
+ */
+export async function refreshCampaignStatuses(businessId: string): Promise<void> {
+  const now = new Date();
+
+  await prisma.campaign.updateMany({
+    where: { businessId, status: 'SCHEDULED', scheduledFor: { lte: now } },
+    data: { status: 'RUNNING' },
+  });
+
+  const finished = await prisma.campaign.findMany({
+    where: {
+      businessId,
+      status: 'RUNNING',
+      reviewRequests: { none: { status: { in: ['DRAFT', 'QUEUED'] }, isActive: true } },
+    },
+    select: { id: true, name: true },
+  });
+
+  for (const campaign of finished) {
+    await prisma.$transaction([
+      prisma.campaign.update({
+        where: { id: campaign.id },
+        data: { status: 'COMPLETED', completedAt: now },
+      }),
+      prisma.event.create({
+        data: {
+          businessId,
+          type: 'CAMPAIGN_COMPLETED',
+          source: 'system',
+          description: `Campaign "${campaign.name}" completed`,
+          metadata: { campaignId: campaign.id },
+        },
+      }),
+    ]);
+  }
+}
+
+/**
+ * List campaigns for a business with per-campaign funnel stats
+ */
+export async function listCampaigns(
+  businessId: string,
+  params: { status?: CampaignStatus; page: number; limit: number }
+): Promise<Result<{ campaigns: CampaignWithStats[]; totalCount: number }>> {
+  try {
+    await refreshCampaignStatuses(businessId);
+
+    const where: Prisma.CampaignWhereInput = {
+      businessId,
+      isActive: true,
+      ...(params.status && { status: params.status }),
+    };
+
+    const [campaigns, totalCount] = await Promise.all([
+      prisma.campaign.findMany({
+        where,
+        include: campaignInclude,
+        orderBy: { createdAt: 'desc' },
+        skip: (params.page - 1) * params.limit,
+        take: params.limit,
+      }),
+      prisma.campaign.count({ where }),
+    ]);
+
+    const [stats, experiments] = await Promise.all([
+      getFunnelStats(campaigns.map(campaign => campaign.id)),
+      getExperimentResults(campaigns),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        campaigns: campaigns.map(campaign => toCampaignWithStats(campaign, stats, experiments)),
+        totalCount,
+      },
+    };
+  } catch (error) {
+    logger.error('Failed to list campaigns', { businessId, error });
+    return { success: false, error: 'Failed to list campaigns' };
+  }
+}
+
+/**
+ * Get a single campaign with funnel stats
+ */
+export async function getCampaign(
+  businessId: string,
+  campaignId: string
+): Promise<Result<CampaignWithStats>> {
+  try {
+    await refreshCampaignStatuses(businessId);
+
+    const campaign = await findCampaign(businessId, campaignId);
+    if (!campaign) {
+      return { success: false, error: 'Campaign not found' };
+    }
+
+    return { success: true, data: await withStats(campaign) };
+  } catch (error) {
+    logger.error('Failed to get campaign', { businessId, campaignId, error });
+    return { success: false, error: 'Failed to get campaign' };
+  }
+}
+
+async function validateCampaignReferences(
+  businessId: string,
+  input: UpdateCampaignInput
+): Promise<string | null> {
+  const templateIds = [
+    ...new Set(
+      [input.templateId, ...(input.variants ?? []).map(variant => variant.templateId)].filter(
+        (id): id is string => Boolean(id)
+      )
+    ),
+  ];
+  if (templateIds.length > 0) {
+    const templateCount = await prisma.messageTemplate.count({
+      where: {
+        id: { in: templateIds },
+        isActive: true,
+        OR: [{ businessId }, { businessId: null, templateType: 'system' }],
+      },
+    });
+    if (templateCount !== templateIds.length) return 'Template not found';
+  }
+
+  if (input.destinationId && !(await isBusinessDestination(businessId, input.destinationId))) {
+    return 'Review destination not found';
+  }
+
+  if (input.customerIds) {
+    const customerCount = await prisma.customer.count({
+      where: { id: { in: input.customerIds }, businessId, isActive: true },
+    });
+    if (customerCount !== new Set(input.customerIds).size) {
+      return 'One or more customers not found';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Create a draft campaign
+ */
+export async function createCampaign(
+  businessId: string,
+  input: CreateCampaignInput
+): Promise<Result<CampaignWithStats>> {
+  try {
+    const referenceError = await validateCampaignReferences(businessId, input);
+    if (referenceError) {
+      return { success: false, error: referenceError };
+    }
+
+    const customerIds = [...new Set(input.customerIds)];
+    const campaign = await prisma.$transaction(async tx => {
+      const created = await tx.campaign.create({
+        data: {
+          businessId,
+          name: input.name,
+          description: input.description,
+          channel: input.channel,
+          templateId: input.templateId,
+          destinationId: input.destinationId,
+          subject: input.subject,
+          messageContent: input.messageContent,
+          schedulingType: input.schedulingType,
+          scheduledFor: resolveCampaignSchedule(input.schedulingType, input.scheduledFor),
+          followUpEnabled: input.followUpEnabled ?? false,
+          followUpSettings: input.followUpSettings as Prisma.InputJsonValue | undefined,
+          settings: input.settings as Prisma.InputJsonValue | undefined,
+          targetCustomerIds: customerIds,
+          totalCustomers: customerIds.length,
+          ...(input.variants && {
+            experimentSettings: {
+              ...DEFAULT_EXPERIMENT_SETTINGS,
+              ...input.experimentSettings,
+            } as unknown as Prisma.InputJsonValue,
+            variants: {
+              create: input.variants.map((variant, index) => ({
+                ...variant,
+                label: variantLabel(index),
+              })),
+            },
+          }),
+        },
+        include: campaignInclude,
+      });
+
+      await tx.event.create({
+        data: {
+          businessId,
+          type: 'CAMPAIGN_CREATED',
+          source: 'user',
+          description: `Campaign "${created.name}" created`,
+          metadata: {
+            campaignId: created.id,
+            totalCustomers: customerIds.length,
+            variants: input.variants?.length ?? 0,
+          },
+        },
+      });
+
+      return created;
+    });
+
+    logger.info('Campaign created', { businessId, campaignId: campaign.id });
+    return { success: true, data: await withStats(campaign) };
+  } catch (error) {
+    logger.error('Failed to create campaign', { businessId, error });
+    return { success: false, error: 'Failed to create campaign' };
+  }
+}
+
+/**
+ * Update a campaign - only drafts can be edited
+ */
+export async function updateCampaign(
+  businessId: string,
+  campaignId: string,
+  input: UpdateCampaignInput
+): Promise<Result<CampaignWithStats>> {
+  try {
+    const existing = await findCampaign(businessId, campaignId);
+    if (!existing) {
+      return { success: false, error: 'Campaign not found' };
+    }
+    if (existing.status !== 'DRAFT') {
+      return { success: false, error: 'Only draft campaigns can be edited' };
+    }
+
+    const referenceError = await validateCampaignReferences(businessId, input);
+    if (referenceError) {
+      return { success: false, error: referenceError };
+    }
+
+    const customerIds = input.customerIds ? [...new Set(input.customerIds)] : undefined;
+    const schedulingType = input.schedulingType || existing.schedulingType;
+
+    const campaign = await prisma.campaign.update({
+      where: { id: campaignId },
+      data: {
+        name: input.name,
+        description: input.description,
+        channel: input.channel,
+        templateId: input.templateId,
+        destinationId: input.destinationId,
+        subject: input.subject,
+        messageContent: input.messageContent,
+        ...((input.schedulingType || input.scheduledFor) && {
+          schedulingType,
+          scheduledFor: resolveCampaignSchedule(
+            schedulingType as CreateCampaignInput['schedulingType'],
+            input.scheduledFor ?? existing.scheduledFor
+          ),
+        }),
+        followUpEnabled: input.followUpEnabled,
+        followUpSettings: input.followUpSettings as Prisma.InputJsonValue | undefined,
+        settings: input.settings as Prisma.InputJsonValue | undefined,
+        ...(customerIds && { targetCustomerIds: customerIds, totalCustomers: customerIds.length }),
+        ...(input.variants && {
+          variants: {
+            deleteMany: {},
+            create: input.variants.map((variant, index) => ({
+              ...variant,
+              label: variantLabel(index),
+            })),
+          },
+        }),
+        ...((input.variants || input.experimentSettings) && {
+          experimentSettings: {
+            ...resolveExperimentSettings(existing.experimentSettings),
+            ...input.experimentSettings,
+          } as unknown as Prisma.InputJsonValue,
+        }),
+      },
+      include: campaignInclude,
+    });
+
+    return { success: true, data: await withStats(campaign) };
+  } catch (error) {
+    logger.error('Failed to update campaign', { businessId, campaignId, error });
+    return { success: false, error: 'Failed to update campaign' };
+  }
+}
+
+/**
+ * Soft delete a campaign that is not in flight
+ */
+export async function deleteCampaign(
+  businessId: string,
+  campaignId: string
+): Promise<Result<{ id: string }>> {
+  try {
+    const existing = await findCampaign(businessId, campaignId);
+    if (!existing) {
+      return { success: false, error: 'Campaign not found' };
+    }
+    if (!['DRAFT', 'COMPLETED', 'CANCELLED'].includes(existing.status)) {
+      return { success: false, error: 'Cancel the campaign before deleting it' };
+    }
+
+    await prisma.campaign.update({ where: { id: campaignId }, data: { isActive: false } });
+    return { success: true, data: { id: campaignId } };
+  } catch (error) {
+    logger.error('Failed to delete campaign', { businessId, campaignId, error });
+    return { success: false, error: 'Failed to delete campaign' };
+  }
+}
+
+async function queueCampaignRequests(
+  campaignId: string,
+  requests: Array<{ id: string; scheduledFor: Date | null }>
+): Promise<void> {
+  const now = Date.now();
+
+  for (const request of requests) {
+    try {
+      await addJobToQueue(
+        'send-request',
+        { requestId: request.id, retryCount: 0 },
+        {
+          delay: Math.max(0, (request.scheduledFor?.getTime() ?? now) - now),
+          priority: 5,
+        }
+      );
+    } catch (error) {
+      logger.error('Failed to queue campaign request', {
+        campaignId,
+        requestId: request.id,
+        error,
+      });
+    }
+  }
+}
+
+interface SendVariant {
+  id: string | null;
+  templateId: string | null;
+  templateVersionId: string | null;
+  destinationId: string | null;
+  subject: string | undefined;
+  messageContent: string;
+  creditCost: number;
+}
+
+/**
+ * What each variant sends. Variants fall back to the campaign's template, subject and message
+ * for anything they don't override; a campaign without variants sends a single one. A review
+ * destination pinned on the campaign beats one set on the template.
+ */
+async function resolveSendVariants(campaign: CampaignRecord): Promise<Result<SendVariant[]>> {
+  const templateIds = [campaign.templateId, ...campaign.variants.map(v => v.templateId)].filter(
+    (id): id is string => Boolean(id)
+  );
+  const templates = new Map(
+    (
+      await prisma.messageTemplate.findMany({
+        where: { id: { in: templateIds } },
+        select: { id: true, content: true, subject: true, destinationId: true },
+      })
+    ).map(template => [template.id, template])
+  );
+  const campaignTemplate = campaign.templateId ? templates.get(campaign.templateId) : undefined;
+  const overrides =
+    campaign.variants.length > 0
+      ? campaign.variants
+      : [{ id: null, label: null, templateId: null, subject: null, messageContent: null }];
+
+  const variants: SendVariant[] = [];
+  for (const variant of overrides) {
+    const variantTemplate = variant.templateId ? templates.get(variant.templateId) : undefined;
+    const messageContent =
+      variant.messageContent ||
+      variantTemplate?.content ||
+      campaign.messageContent ||
+      campaignTemplate?.content ||
+      '';
+    const subject =
+      variant.subject ||
+      variantTemplate?.subject ||
+      campaign.subject ||
+      campaignTemplate?.subject ||
+      undefined;
+    const prefix = variant.label ? `Variant ${variant.label}: ` : '';
+
+    if (!messageContent.trim()) {
+      return { success: false, error: `${prefix}Message content is required` };
+    }
+    if (campaign.channel === 'EMAIL' && !subject) {
+      return { success: false, error: `${prefix}Subject is required for email campaigns` };
+    }
+
+    const templateId = variant.templateId ?? campaign.templateId;
+    variants.push({
+      id: variant.id,
+      templateId,
+      templateVersionId: await getCurrentTemplateVersionId(templateId),
+      destinationId:
+        campaign.destinationId ??
+        variantTemplate?.destinationId ??
+        campaignTemplate?.destinationId ??
+        null,
+      subject,
+      messageContent,
+      creditCost: getCreditCost(campaign.channel, messageContent),
+    });
+  }
+
+  return { success: true, data: variants };
+}
+
+/**
+ * Queue the next check of a running experiment
+ */
+export async function scheduleExperimentEvaluation(
+  campaignId: string,
+  delay = EXPERIMENT_EVALUATION_INTERVAL_MS
+): Promise<void> {
+  const slot = Math.floor((Date.now() + delay) / EXPERIMENT_EVALUATION_INTERVAL_MS);
+
+  await addJobToQueue<EvaluateExperimentJobData>(
+    'evaluate-experiment',
+    { campaignId },
+    { delay, jobId: `evaluate-experiment:${campaignId}:${slot}` }
+  );
+}
+
+/**
+ * Launch a draft campaign: create a review request per target customer and queue them.
+ * Customers the contact policy holds back, or listed twice, are skipped and recorded with
+ * their code. Experiments deal recipients across their variants, holding some back when a
+ * winner is to be picked automatically.
+ */
+async function launchCampaign(businessId: string, campaign: CampaignRecord): Promise<Result<void>> {
+  const business = await prisma.business.findUnique({
+    where: { id: businessId },
+    select: {
+      name: true,
+      googleReviewUrl: true,
+      googleTypes: true,
+      timezone: true,
+      sendingHours: true,
+    },
+  });
+  if (!business) {
+    return { success: false, error: 'Business not found' };
+  }
+
+  const sendVariants = await resolveSendVariants(campaign);
+  if (!sendVariants.success) {
+    return sendVariants;
+  }
+
+  const { unique: targetCustomerIds, duplicates } = dedupeCustomerIds(campaign.targetCustomerIds);
+  const customers = await prisma.customer.findMany({
+    where: { id: { in: targetCustomerIds }, businessId, isActive: true },
+    select: { id: true, firstName: true, lastName: true, email: true, phone: true },
+  });
+
+  const reachable = customers.filter(customer => canSendToCustomer(customer, campaign.channel));
+  const settings = (campaign.settings || {}) as {
+    respectBusinessHours?: boolean;
+    suppressionListCheck?: boolean;
+  };
+
+  let suppressedKeys = new Set<string>();
+  if (settings.suppressionListCheck !== false && reachable.length > 0) {
+    const contacts = reachable.map(customer => ({
+      contact: getContactForChannel(customer, campaign.channel)!,
+      channel: campaign.channel,
+    }));
+    const suppressions = await checkBulkSuppressions(businessId, contacts);
+    if (suppressions.success) {
+      suppressedKeys = new Set(
+        Object.entries(suppressions.data)
+          .filter(([, result]) => result.isSuppressed)
+          .map(([key]) => key)
+      );
+    }
+  }
+
+  const sendable = reachable.filter(
+    customer =>
+      !suppressedKeys.has(`${getContactForChannel(customer, campaign.channel)}:${campaign.channel}`)
+  );
+
+  // Skip customers asked too recently or who already engaged, across overlapping campaigns
+  const blocks = await getContactPolicyBlocks(
+    businessId,
+    sendable.map(customer => customer.id)
+  );
+  const recipients = sendable.filter(customer => !blocks.has(customer.id));
+  const heldBack = [
+    ...[...blocks].map(([customerId, block]) => ({ customerId, code: block.code })),
+    ...duplicates.map(customerId => ({ customerId, code: DUPLICATE_RECIPIENT_BLOCK.code })),
+  ];
+
+  const now = new Date();
+  const sendTime = resolveSendTime(
+    business,
+    campaign.scheduledFor && campaign.scheduledFor > now ? campaign.scheduledFor : null,
+    { respectBusinessHours: settings.respectBusinessHours, now }
+  );
+  let startAt = sendTime.scheduledFor ?? now;
+
+  // OPTIMAL campaigns pick a slot per recipient from the business's click history
+  const optimalSendTimes = new Map<string, OptimalSendTime>();
+  if (campaign.schedulingType === 'OPTIMAL' && recipients.length > 0) {
+    const optimal = await getOptimalSendTimes({ ...business, id: businessId }, recipients, {
+      from: now,
+      respectBusinessHours: settings.respectBusinessHours,
+    });
+    if (optimal.success) {
+      optimal.data.sendTimes.forEach(time => optimalSendTimes.set(time.customerId, time));
+      startAt = new Date(Math.min(...optimal.data.sendTimes.map(time => time.sendAt.getTime())));
+    }
+  }
+
+  const status: CampaignStatus = startAt > now ? 'SCHEDULED' : 'RUNNING';
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  const pickDestination = await createDestinationPicker(businessId, business.googleReviewUrl);
+
+  const experiment =
+    campaign.variants.length > 0 ? resolveExperimentSettings(campaign.experimentSettings) : null;
+  const { assignments, holdout } = experiment
+    ? splitExperimentRecipients(recipients, sendVariants.data.length, experiment)
+    : { assignments: recipients.map(recipient => ({ recipient, variantIndex: 0 })), holdout: [] };
+
+  // Held-back requests carry the first variant until the winner is known, and reserve
+  // enough credits for whichever variant that turns out to be
+  const firstVariant = sendVariants.data[0]!;
+  const heldBackVariant: SendVariant = {
+    ...firstVariant,
+    id: null,
+    creditCost: Math.max(...sendVariants.data.map(variant => variant.creditCost)),
+  };
+
+  const buildRequest = (
+    customer: (typeof recipients)[number],
+    variant: SendVariant,
+    status: RequestStatus
+  ) => {
+    const trackingUuid = uuidv4();
+    const optimal = optimalSendTimes.get(customer.id);
+    const destination = pickDestination(variant.destinationId);
+    return {
+      id: uuidv4(),
+      businessId,
+      customerId: customer.id,
+      campaignId: campaign.id,
+      templateId: variant.templateId,
+      templateVersionId: variant.templateVersionId,
+      variantId: variant.id,
+      destinationId: destination.destinationId,
+      channel: campaign.channel,
+      status,
+      subject: variant.subject,
+      messageContent: variant.messageContent,
+      reviewUrl: destination.url,
+      trackingUuid,
+      trackingUrl: generateTrackingUrl(baseUrl, trackingUuid),
+      scheduledFor: optimal?.sendAt ?? startAt,
+      rescheduleReason: optimal ? null : sendTime.rescheduleReason,
+      metadata: optimal
+        ? { sendTime: { source: optimal.source, rationale: optimal.rationale } }
+        : undefined,
+      creditsReserved: variant.creditCost,
+    };
+  };
+  const requests = [
+    ...assignments.map(({ recipient, variantIndex }) =>
+      buildRequest(recipient, sendVariants.data[variantIndex]!, 'QUEUED')
+    ),
+    ...holdout.map(customer => buildRequest(customer, heldBackVariant, 'DRAFT')),
+  ];
+  const creditsNeeded = requests.reduce((total, request) => total + request.creditsReserved, 0);
+
+  // Hold credits for the whole batch up front so a campaign never launches half-funded
+  const reservation = await prisma.$transaction(async tx => {
+    const credits: CreditReservation =
+      requests.length > 0
+        ? await reserveCredits(
+            {
+              businessId,
+              channel: campaign.channel,
+              amount: creditsNeeded,
+              description: `Reserved for campaign "${campaign.name}"`,
+              metadata: { campaignId: campaign.id, requests: requests.length },
+            },
+            tx
+          )
+        : { reserved: true, amount: 0, remaining: 0 };
+    if (!credits.reserved) {
+      return credits;
+    }
+
+    await claimCampaignTransition(tx, campaign, {
+      status,
+      scheduledFor: startAt,
+      launchedAt: now,
+      totalCustomers: campaign.targetCustomerIds.length,
+      successfulRequests: requests.length,
+      failedRequests: campaign.targetCustomerIds.length - requests.length,
+    });
+    await tx.reviewRequest.createMany({ data: requests });
+    await tx.event.createMany({
+      data: requests.map(request => ({
+        businessId,
+        reviewRequestId: request.id,
+        type: 'REQUEST_CREATED' as const,
+        source: 'system',
+        description: `Review request created for campaign "${campaign.name}"`,
+        metadata: { campaignId: campaign.id, channel: campaign.channel },
+      })),
+    });
+    await tx.event.create({
+      data: {
+        businessId,
+        type: 'CAMPAIGN_LAUNCHED',
+        source: 'user',
+        description: `Campaign "${campaign.name}" launched with ${requests.length} requests`,
+        metadata: {
+          campaignId: campaign.id,
+          scheduledFor: startAt.toISOString(),
+          requests: requests.length,
+          skippedUnreachable: customers.length - reachable.length,
+          skippedSuppressed: reachable.length - sendable.length,
+          heldBackByContactPolicy: heldBack,
+          creditsReserved: credits.amount,
+          ...(experiment && { variants: sendVariants.data.length, heldBack: holdout.length }),
+        },
+      },
+    });
+
+    return credits;
+  });
+
+  if (!reservation.reserved) {
+    return { success: false, error: getInsufficientCreditsMessage(campaign.channel, reservation) };
+  }
+
+  await queueCampaignRequests(
+    campaign.id,
+    requests.filter(request => request.status === 'QUEUED')
+  );
+
+  if (holdout.length > 0) {
+    try {
+      await scheduleExperimentEvaluation(
+        campaign.id,
+        Math.max(0, startAt.getTime() - now.getTime()) + EXPERIMENT_EVALUATION_INTERVAL_MS
+      );
+    } catch (error) {
+      logger.error('Failed to schedule experiment evaluation', { campaignId: campaign.id, error });
+    }
+  }
+
+  return { success: true, data: undefined };
+}
+
+async function pauseCampaign(businessId: string, campaign: CampaignRecord): Promise<Result<void>> {
+  // Queued jobs skip requests that are no longer QUEUED, so parking them as DRAFT holds them
+  const paused = await prisma.$transaction(async tx => {
+    await claimCampaignTransition(tx, campaign, { status: 'PAUSED', pausedAt: new Date() });
+    return tx.reviewRequest.updateMany({
+      where: { campaignId: campaign.id, status: 'QUEUED' },
+      data: { status: 'DRAFT' },
+    });
+  });
+
+  await prisma.event.create({
+    data: {
+      businessId,
+      type: 'CAMPAIGN_PAUSED',
+      source: 'user',
+      description: `Campaign "${campaign.name}" paused`,
+      metadata: { campaignId: campaign.id, pausedRequests: paused.count },
+    },
+  });
+
+  return { success: true, data: undefined };
+}
+
+async function resumeCampaign(businessId: string, campaign: CampaignRecord): Promise<Result<void>> {
+  const now = new Date();
+  const status: CampaignStatus =
+    campaign.scheduledFor && campaign.scheduledFor > now ? 'SCHEDULED' : 'RUNNING';
+
+  // Recipients held back for an undecided experiment keep waiting for the winner
+  const holdingBack = campaign.variants.length > 0 && !campaign.experimentDecidedAt;
+  const requests = await prisma.$transaction(async tx => {
+    await claimCampaignTransition(tx, campaign, { status, pausedAt: null });
+
+    const held = await tx.reviewRequest.findMany({
+      where: {
+        campaignId: campaign.id,
+        status: 'DRAFT',
+        isActive: true,
+        ...(holdingBack && { variantId: { not: null } }),
+      },
+      select: { id: true, scheduledFor: true },
+    });
+    await tx.reviewRequest.updateMany({
+      where: { id: { in: held.map(request => request.id) } },
+      data: { status: 'QUEUED' },
+    });
+    await tx.event.create({
+      data: {
+        businessId,
+        type: 'CAMPAIGN_RESUMED',
+        source: 'user',
+        description: `Campaign "${campaign.name}" resumed`,
+        metadata: { campaignId: campaign.id, resumedRequests: held.length },
+      },
+    });
+
+    return held;
+  });
+
+  await queueCampaignRequests(campaign.id, requests);
+  return { success: true, data: undefined };
+}
+
+async function cancelCampaign(businessId: string, campaign: CampaignRecord): Promise<Result<void>> {
+  const { pendingIds, cancelled } = await prisma.$transaction(async tx => {
+    await claimCampaignTransition(tx, campaign, { status: 'CANCELLED', cancelledAt: new Date() });
+
+    const pending = await tx.reviewRequest.findMany({
+      where: { campaignId: campaign.id, status: { in: ['DRAFT', 'QUEUED'] } },
+      select: { id: true },
+    });
+    const ids = pending.map(request => request.id);
+    return {
+      pendingIds: ids,
+      cancelled: await tx.reviewRequest.updateMany({
+        where: { id: { in: ids }, status: { in: ['DRAFT', 'QUEUED'] } },
+        data: { status: 'FAILED', errorMessage: 'Campaign cancelled' },
+      }),
+    };
+  });
+
+  await prisma.event.create({
+    data: {
+      businessId,
+      type: 'CAMPAIGN_CANCELLED',
+      source: 'user',
+      description: `Campaign "${campaign.name}" cancelled`,
+      metadata: { campaignId: campaign.id, cancelledRequests: cancelled.count },
+    },
+  });
+
+  await refundRequestCredits(businessId, pendingIds, `Campaign "${campaign.name}" cancelled`);
+
+  return { success: true, data: undefined };
+}
+
+/**
+ * Check an experiment that is holding recipients back. Once a variant is significantly
+ * ahead, the held-back recipients are sent the winner; if there is still no winner at the
+ * deadline they are split evenly across the variants instead. `pending` is true while the
+ * experiment needs checking again.
+ */
+export async function evaluateCampaignExperiment(
+  campaignId: string
+): Promise<Result<{ pending: boolean; winnerId: string | null }>> {
+  try {
+    const campaign = await prisma.campaign.findFirst({
+      where: { id: campaignId, isActive: true },
+      include: campaignInclude,
+    });
+    if (
+      !campaign ||
+      campaign.variants.length === 0 ||
+      campaign.experimentDecidedAt ||
+      !['SCHEDULED', 'RUNNING', 'PAUSED'].includes(campaign.status)
+    ) {
+      return { success: true, data: { pending: false, winnerId: null } };
+    }
+    if (campaign.status === 'PAUSED') {
+      return { success: true, data: { pending: true, winnerId: null } };
+    }
+
+    const experiment = (await getExperimentResults([campaign])).get(campaign.id)!;
+    const startedAt = campaign.scheduledFor ?? campaign.launchedAt ?? campaign.createdAt;
+    const deadline = startedAt.getTime() + experiment.settings.decideWithinHours * 60 * 60 * 1000;
+    const winner = campaign.variants.find(variant => variant.id === experiment.decision.winnerId);
+    if (!winner && Date.now() < deadline) {
+      return { success: true, data: { pending: true, winnerId: null } };
+    }
+
+    const sendVariants = await resolveSendVariants(campaign);
+    if (!sendVariants.success) {
+      return sendVariants;
+    }
+    const targets = winner
+      ? sendVariants.data.filter(variant => variant.id === winner.id)
+      : sendVariants.data;
+
+    const heldBack = await prisma.reviewRequest.findMany({
+      where: { campaignId, variantId: null, status: 'DRAFT', isActive: true },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const now = new Date();
+    await prisma.$transaction([
+      ...targets.map((variant, index) =>
+        prisma.reviewRequest.updateMany({
+          where: {
+            id: {
+              in: heldBack
+                .filter((_, position) => position % targets.length === index)
+                .map(request => request.id),
+            },
+            variantId: null,
+            status: 'DRAFT',
+          },
+          data: {
+            variantId: variant.id,
+            templateId: variant.templateId,
+            templateVersionId: variant.templateVersionId,
+            subject: variant.subject ?? null,
+            messageContent: variant.messageContent,
+            status: 'QUEUED',
+            scheduledFor: now,
+          },
+        })
+      ),
+      ...(winner
+        ? [prisma.campaignVariant.update({ where: { id: winner.id }, data: { isWinner: true } })]
+        : []),
+      prisma.campaign.update({ where: { id: campaignId }, data: { experimentDecidedAt: now } }),
+      prisma.event.create({
+        data: {
+          businessId: campaign.businessId,
+          type: 'CAMPAIGN_EXPERIMENT_DECIDED',
+          source: 'system',
+          description: winner
+            ? `Variant ${winner.label} won the experiment in campaign "${campaign.name}"`
+            : `No clear winner in campaign "${campaign.name}", remaining sends split evenly`,
+          metadata: {
+            campaignId,
+            winnerVariantId: winner?.id ?? null,
+            pValue: experiment.decision.pValue,
+            released: heldBack.length,
+          },
+        },
+      }),
+    ]);
+
+    await queueCampaignRequests(
+      campaignId,
+      heldBack.map(request => ({ id: request.id, scheduledFor: now }))
+    );
+
+    logger.info('Campaign experiment decided', {
+      campaignId,
+      winnerVariantId: winner?.id ?? null,
+      released: heldBack.length,
+    });
+    return { success: true, data: { pending: false, winnerId: winner?.id ?? null } };
+  } catch (error) {
+    logger.error('Failed to evaluate campaign experiment', { campaignId, error });
+    return { success: false, error: 'Failed to evaluate campaign experiment' };
+  }
+}
+
+/**
+ * Experiments that tested a template, directly or as the base for subject-line variants
+ */
+export async function getTemplateExperiments(
+  businessId: string,
+  templateId: string
+): Promise<Result<TemplateExperimentSummary[]>> {
+  try {
+    const campaigns = await prisma.campaign.findMany({
+      where: {
+        businessId,
+        isActive: true,
+        status: { not: 'DRAFT' },
+        OR: [{ variants: { some: { templateId } } }, { templateId, variants: { some: {} } }],
+      },
+      include: campaignInclude,
+      orderBy: { launchedAt: 'desc' },
+      take: 20,
+    });
+
+    const experiments = await getExperimentResults(campaigns);
+
+    return {
+      success: true,
+      data: campaigns.map(campaign => ({
+        campaignId: campaign.id,
+        campaignName: campaign.name,
+        status: campaign.status,
+        launchedAt: campaign.launchedAt,
+        experiment: experiments.get(campaign.id)!,
+      })),
+    };
+  } catch (error) {
+    logger.error('Failed to get template experiments', { businessId, templateId, error });
+    return { success: false, error: 'Failed to get template experiments' };
+  }
+}
+
+/**
+ * Apply a lifecycle action to a campaign
+ */
+export async function changeCampaignStatus(
+  businessId: string,
+  campaignId: string,
+  action: CampaignAction
+): Promise<Result<CampaignWithStats>> {
+  try {
+    const campaign = await findCampaign(businessId, campaignId);
+    if (!campaign) {
+      return { success: false, error: 'Campaign not found' };
+    }
+
+    const allowed: Record<CampaignAction, boolean> = {
+      launch: campaign.status === 'DRAFT',
+      pause: canTransitionCampaign(campaign.status, 'PAUSED'),
+      resume: campaign.status === 'PAUSED',
+      cancel: canTransitionCampaign(campaign.status, 'CANCELLED'),
+    };
+    if (!allowed[action]) {
+      return {
+        success: false,
+        error: `Cannot ${action} a ${campaign.status.toLowerCase()} campaign`,
+      };
+    }
+
+    const handlers = {
+      launch: launchCampaign,
+      pause: pauseCampaign,
+      resume: resumeCampaign,
+      cancel: cancelCampaign,
+    };
+    const result = await handlers[action](businessId, campaign);
+    if (!result.success) {
+      return result;
+    }
+
+    logger.info('Campaign status changed', { businessId, campaignId, action });
+    return getCampaign(businessId, campaignId);
+  } catch (error) {
+    if (error instanceof CampaignStatusConflictError) {
+      return { success: false, error: error.message };
+    }
+    logger.error('Failed to change campaign status', { businessId, campaignId, action, error });
+    return { success: false, error: `Failed to ${action} campaign` };
+  }
+}
@@ -0,0 +1,63 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import {
+  ENGAGED_STATUSES,
+  getContactBlock,
+  getContactPolicy,
+  getWindowStart,
+  UNCOUNTED_STATUSES,
+  type ContactBlock,
+  type PreviousRequest,
+} from '../lib/contact-policy';
+
+type ContactPolicyClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Customers the business's contact policy stops sending another review request to, with why
+ */
+export async function getContactPolicyBlocks(
+  businessId: string,
+  customerIds: string[],
+  client: ContactPolicyClient = prisma
+): Promise<Map<string, ContactBlock>> {
+  const blocks = new Map<string, ContactBlock>();
+  if (customerIds.length === 0) {
+    return blocks;
+  }
+
+  const business = await client.business.findUnique({
+    where: { id: businessId },
+    select: { contactPolicy: true },
+  });
+  const policy = getContactPolicy(business?.contactPolicy);
+  if (!policy.enabled) {
+    return blocks;
+  }
+
+  const now = new Date();
+  const previous = await client.reviewRequest.findMany({
+    where: {
+      businessId,
+      customerId: { in: customerIds },
+      OR: [
+        { status: { notIn: UNCOUNTED_STATUSES }, createdAt: { gte: getWindowStart(policy, now) } },
+        ...(policy.skipIfEngaged ? [{ status: { in: ENGAGED_STATUSES } }] : []),
+      ],
+    },
+    select: { customerId: true, status: true, createdAt: true },
+  });
+
+  const byCustomer = new Map<string, PreviousRequest[]>();
+  for (const request of previous) {
+    byCustomer.set(request.customerId, [...(byCustomer.get(request.customerId) ?? []), request]);
+  }
+
+  for (const [customerId, requests] of byCustomer) {
+    const block = getContactBlock(policy, requests, now);
+    if (block) {
+      blocks.set(customerId, block);
+    }
+  }
+
+  return blocks;
+}
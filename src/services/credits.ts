@@ -0,0 +1,432 @@
+import type { CreditLedgerEntry, Prisma, PrismaClient, RequestChannel } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { calculateSmsSegments } from '../lib/sms-segments';
+import type { Result } from '../types/database';
+
+/**
+ * Credit ledger. Credits are reserved when a request is queued, debited when it is sent
+ * and refunded if it never goes out. Usage resets at the start of each calendar month (UTC).
+ */
+
+export type CreditsClient = PrismaClient | Prisma.TransactionClient;
+export type CreditStatus = 'ok' | 'warning' | 'exhausted';
+
+export interface ChannelCreditUsage {
+  used: number;
+  reserved: number; // Held for queued requests that haven't been sent yet
+  limit: number;
+  remaining: number;
+  percentUsed: number;
+  status: CreditStatus;
+}
+
+export interface CreditUsage {
+  periodStart: Date;
+  periodEnd: Date;
+  sms: ChannelCreditUsage;
+  email: ChannelCreditUsage;
+}
+
+export interface CreditReservation {
+  reserved: boolean;
+  amount: number;
+  remaining: number;
+}
+
+// Share of the monthly limit at which the dashboard starts warning
+export const CREDIT_WARNING_THRESHOLD = 0.8;
+export const INSUFFICIENT_CREDITS_ERROR = 'Not enough credits left this month';
+
+const creditBalanceSelect = {
+  smsCreditsUsed: true,
+  smsCreditsLimit: true,
+  smsCreditsReserved: true,
+  emailCreditsUsed: true,
+  emailCreditsLimit: true,
+  emailCreditsReserved: true,
+  creditsPeriodStart: true,
+} satisfies Prisma.BusinessSelect;
+
+type CreditBalances = Prisma.BusinessGetPayload<{ select: typeof creditBalanceSelect }>;
+
+/**
+ * Credits a message costs: one per SMS segment (GSM-7 or UCS-2), one per email
+ */
+export function getCreditCost(channel: RequestChannel, content: string): number {
+  return channel === 'SMS' ? calculateSmsSegments(content).segmentCount : 1;
+}
+
+/**
+ * Error message for a refused reservation, starting with INSUFFICIENT_CREDITS_ERROR
+ */
+export function getInsufficientCreditsMessage(
+  channel: RequestChannel,
+  reservation: CreditReservation
+): string {
+  return `${INSUFFICIENT_CREDITS_ERROR} (${reservation.amount} ${channel} credits needed, ${reservation.remaining} remaining)`;
+}
+
+/**
+ * The calendar month (UTC) that credit usage is counted against
+ */
+export function getCreditPeriod(now: Date = new Date()): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * Summarise one channel's balance, counting reserved credits as spent
+ */
+export function getChannelCreditUsage(
+  used: number,
+  reserved: number,
+  limit: number
+): ChannelCreditUsage {
+  const ratio = limit > 0 ? (used + reserved) / limit : 1;
+
+  return {
+    used,
+    reserved,
+    limit,
+    remaining: Math.max(0, limit - used - reserved),
+    percentUsed: Math.min(100, Math.round(ratio * 100)),
+    status: ratio >= 1 ? 'exhausted' : ratio >= CREDIT_WARNING_THRESHOLD ? 'warning' : 'ok',
+  };
+}
+
+function getBalance(business: CreditBalances, channel: RequestChannel): ChannelCreditUsage {
+  return channel === 'SMS'
+    ? getChannelCreditUsage(
+        business.smsCreditsUsed,
+        business.smsCreditsReserved,
+        business.smsCreditsLimit
+      )
+    : getChannelCreditUsage(
+        business.emailCreditsUsed,
+        business.emailCreditsReserved,
+        business.emailCreditsLimit
+      );
+}
+
+function runAtomically<T>(
+  db: CreditsClient,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  return '$transaction' in db ? db.$transaction(fn) : fn(db);
+}
+
+/**
+ * Lock the business row so concurrent credit changes apply one at a time, starting a new
+ * period first if the month has rolled over
+ */
+async function lockCreditBalances(
+  tx: Prisma.TransactionClient,
+  businessId: string,
+  now: Date = new Date()
+): Promise<CreditBalances> {
+  await tx.$queryRaw`SELECT id FROM businesses WHERE id = ${businessId} FOR UPDATE`;
+  const business = await tx.business.findUniqueOrThrow({
+    where: { id: businessId },
+    select: creditBalanceSelect,
+  });
+
+  const { start } = getCreditPeriod(now);
+  if (business.creditsPeriodStart >= start) {
+    return business;
+  }
+
+  // Reservations carry over - those requests are still waiting to be sent
+  const reset = await tx.business.update({
+    where: { id: businessId },
+    data: { smsCreditsUsed: 0, emailCreditsUsed: 0, creditsPeriodStart: start },
+    select: creditBalanceSelect,
+  });
+
+  await tx.creditLedgerEntry.createMany({
+    data: (['SMS', 'EMAIL'] as const).map(channel => ({
+      businessId,
+      channel,
+      type: 'RESET' as const,
+      amount: channel === 'SMS' ? business.smsCreditsUsed : business.emailCreditsUsed,
+      periodStart: start,
+      description: `Monthly ${channel} credits reset`,
+      metadata: { previousPeriodStart: business.creditsPeriodStart.toISOString() },
+    })),
+  });
+
+  logger.info('Credit period reset', { businessId, periodStart: start.toISOString() });
+  return reset;
+}
+
+/**
+ * Hold credits for messages about to be queued. Nothing is held when the balance can't
+ * cover the whole amount.
+ */
+export async function reserveCredits(
+  params: {
+    businessId: string;
+    channel: RequestChannel;
+    amount: number;
+    reviewRequestId?: string;
+    description?: string;
+    metadata?: Prisma.InputJsonValue;
+  },
+  db: CreditsClient = prisma
+): Promise<CreditReservation> {
+  const { businessId, channel, amount, reviewRequestId } = params;
+
+  return runAtomically(db, async tx => {
+    const business = await lockCreditBalances(tx, businessId);
+    const { remaining } = getBalance(business, channel);
+
+    if (amount > remaining) {
+      logger.warn('Credit reservation refused', { businessId, channel, amount, remaining });
+      return { reserved: false, amount, remaining };
+    }
+
+    await tx.business.update({
+      where: { id: businessId },
+      data:
+        channel === 'SMS'
+          ? { smsCreditsReserved: { increment: amount } }
+          : { emailCreditsReserved: { increment: amount } },
+    });
+
+    if (reviewRequestId) {
+      await tx.reviewRequest.update({
+        where: { id: reviewRequestId },
+        data: { creditsReserved: { increment: amount } },
+      });
+    }
+
+    await tx.creditLedgerEntry.create({
+      data: {
+        businessId,
+        reviewRequestId,
+        channel,
+        type: 'RESERVED',
+        amount,
+        periodStart: business.creditsPeriodStart,
+        description: params.description || `Reserved ${amount} ${channel} credits`,
+        metadata: params.metadata,
+      },
+    });
+
+    return { reserved: true, amount, remaining: remaining - amount };
+  });
+}
+
+/**
+ * Reserve a queued request's credits from its message content. Requests that already hold
+ * or have spent credits are left alone.
+ */
+export async function reserveRequestCredits(
+  businessId: string,
+  reviewRequestId: string,
+  db: CreditsClient = prisma
+): Promise<CreditReservation> {
+  return runAtomically(db, async tx => {
+    await lockCreditBalances(tx, businessId);
+    const request = await tx.reviewRequest.findFirstOrThrow({
+      where: { id: reviewRequestId, businessId },
+      select: {
+        channel: true,
+        messageContent: true,
+        personalizedMessage: true,
+        creditsReserved: true,
+        creditsDebited: true,
+      },
+    });
+
+    if (request.creditsReserved > 0 || request.creditsDebited > 0) {
+      return { reserved: true, amount: 0, remaining: 0 };
+    }
+
+    return reserveCredits(
+      {
+        businessId,
+        channel: request.channel,
+        amount: getCreditCost(
+          request.channel,
+          request.personalizedMessage ?? request.messageContent
+        ),
+        reviewRequestId,
+      },
+      tx
+    );
+  });
+}
+
+/**
+ * Charge a sent request, releasing its reservation. Pass the content that actually went
+ * out so multi-segment SMS are billed on the rendered message. Safe to call twice.
+ */
+export async function debitRequestCredits(
+  businessId: string,
+  reviewRequestId: string,
+  options: { content?: string } = {},
+  db: CreditsClient = prisma
+): Promise<number> {
+  return runAtomically(db, async tx => {
+    const business = await lockCreditBalances(tx, businessId);
+    const request = await tx.reviewRequest.findFirstOrThrow({
+      where: { id: reviewRequestId, businessId },
+      select: {
+        channel: true,
+        messageContent: true,
+        personalizedMessage: true,
+        creditsReserved: true,
+        creditsDebited: true,
+      },
+    });
+
+    if (request.creditsDebited > 0) {
+      return 0;
+    }
+
+    const amount = getCreditCost(
+      request.channel,
+      options.content ?? request.personalizedMessage ?? request.messageContent
+    );
+    const released = request.creditsReserved;
+
+    await tx.reviewRequest.update({
+      where: { id: reviewRequestId },
+      data: { creditsDebited: amount, creditsReserved: 0 },
+    });
+
+    await tx.business.update({
+      where: { id: businessId },
+      data:
+        request.channel === 'SMS'
+          ? { smsCreditsUsed: { increment: amount }, smsCreditsReserved: { decrement: released } }
+          : {
+              emailCreditsUsed: { increment: amount },
+              emailCreditsReserved: { decrement: released },
+            },
+    });
+
+    await tx.creditLedgerEntry.create({
+      data: {
+        businessId,
+        reviewRequestId,
+        channel: request.channel,
+        type: 'DEBITED',
+        amount,
+        periodStart: business.creditsPeriodStart,
+        description: `Sent ${request.channel} message (${amount} credit${amount === 1 ? '' : 's'})`,
+        metadata: { released },
+      },
+    });
+
+    return amount;
+  });
+}
+
+/**
+ * Hand back the credits held for requests that won't be sent
+ */
+export async function refundRequestCredits(
+  businessId: string,
+  reviewRequestIds: string[],
+  reason: string,
+  db: CreditsClient = prisma
+): Promise<number> {
+  if (reviewRequestIds.length === 0) {
+    return 0;
+  }
+
+  return runAtomically(db, async tx => {
+    const business = await lockCreditBalances(tx, businessId);
+    const requests = await tx.reviewRequest.findMany({
+      where: {
+        id: { in: reviewRequestIds },
+        businessId,
+        creditsReserved: { gt: 0 },
+        creditsDebited: 0,
+      },
+      select: { id: true, channel: true, creditsReserved: true },
+    });
+
+    if (requests.length === 0) {
+      return 0;
+    }
+
+    const refunded = { SMS: 0, EMAIL: 0 };
+    requests.forEach(request => (refunded[request.channel] += request.creditsReserved));
+
+    await tx.reviewRequest.updateMany({
+      where: { id: { in: requests.map(request => request.id) } },
+      data: { creditsReserved: 0 },
+    });
+
+    await tx.business.update({
+      where: { id: businessId },
+      data: {
+        smsCreditsReserved: { decrement: refunded.SMS },
+        emailCreditsReserved: { decrement: refunded.EMAIL },
+      },
+    });
+
+    await tx.creditLedgerEntry.createMany({
+      data: requests.map(request => ({
+        businessId,
+        reviewRequestId: request.id,
+        channel: request.channel,
+        type: 'REFUNDED' as const,
+        amount: request.creditsReserved,
+        periodStart: business.creditsPeriodStart,
+        description: reason,
+      })),
+    });
+
+    return refunded.SMS + refunded.EMAIL;
+  });
+}
+
+/**
+ * Current period usage per channel
+ */
+export async function getCreditUsage(businessId: string): Promise<Result<CreditUsage>> {
+  try {
+    const business = await prisma.$transaction(tx => lockCreditBalances(tx, businessId));
+    const { start, end } = getCreditPeriod(business.creditsPeriodStart);
+
+    return {
+      success: true,
+      data: {
+        periodStart: start,
+        periodEnd: end,
+        sms: getBalance(business, 'SMS'),
+        email: getBalance(business, 'EMAIL'),
+      },
+    };
+  } catch (error) {
+    logger.error('Failed to load credit usage', { businessId, error });
+    return { success: false, error: 'Failed to load credit usage' };
+  }
+}
+
+/**
+ * Most recent ledger entries, newest first
+ */
+export async function getCreditLedger(
+  businessId: string,
+  options: { limit?: number } = {}
+): Promise<Result<CreditLedgerEntry[]>> {
+  try {
+    const entries = await prisma.creditLedgerEntry.findMany({
+      where: { businessId },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit ?? 50,
+    });
+
+    return { success: true, data: entries };
+  } catch (error) {
+    logger.error('Failed to load credit ledger', { businessId, error });
+    return { success: false, error: 'Failed to load credit ledger' };
+  }
+}
@@ -0,0 +1,395 @@
+import type { RequestChannel } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { chunk, isValidEmail, isValidUKPhone, normalizePhoneNumber, unique } from '../lib/utils';
+import { checkBulkSuppressions } from './suppressions';
+import type { Result } from '../types/database';
+
+/** Longest an import may spend writing, one update per changed customer */
+const IMPORT_TRANSACTION_TIMEOUT_MS = 5 * 60 * 1000;
+
+export const CUSTOMER_IMPORT_FIELDS = [
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'address',
+  'notes',
+  'tags',
+] as const;
+
+export type CustomerImportField = (typeof CUSTOMER_IMPORT_FIELDS)[number];
+
+// Maps each customer field to the spreadsheet column header it is read from
+export type ColumnMapping = Partial<Record<CustomerImportField, string>>;
+
+export type ImportRowAction = 'create' | 'update' | 'skip' | 'reject';
+
+export interface ImportedCustomer {
+  firstName: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  notes?: string;
+  tags: string[];
+}
+
+export interface ImportRowResult {
+  rowNumber: number; // Spreadsheet row number, header is row 1
+  action: ImportRowAction;
+  reasons: string[];
+  customer: ImportedCustomer;
+  existingCustomerId?: string;
+  suppressed: boolean;
+}
+
+export interface CustomerImportSummary {
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  rejected: number;
+  suppressed: number;
+}
+
+export interface CustomerImportReport {
+  dryRun: boolean;
+  headers: string[];
+  mapping: ColumnMapping;
+  summary: CustomerImportSummary;
+  rows: ImportRowResult[];
+}
+
+export interface ExistingCustomerRecord {
+  id: string;
+  firstName: string;
+  lastName: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  notes: string | null;
+  tags: string[];
+}
+
+export interface CustomerImportOptions {
+  dryRun: boolean;
+  updateExisting: boolean;
+}
+
+const HEADER_ALIASES: Record<CustomerImportField, string[]> = {
+  firstName: ['firstname', 'first', 'forename', 'givenname', 'name', 'fullname', 'customername'],
+  lastName: ['lastname', 'last', 'surname', 'familyname'],
+  email: ['email', 'emailaddress', 'e-mail', 'mail'],
+  phone: ['phone', 'phonenumber', 'mobile', 'mobilenumber', 'mobilephone', 'telephone', 'tel'],
+  address: ['address', 'streetaddress', 'postaladdress', 'postcode'],
+  notes: ['notes', 'note', 'comments', 'comment'],
+  tags: ['tags', 'tag', 'labels', 'groups'],
+};
+
+/**
+ * Guess which column holds each customer field from the header row
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  for (const field of CUSTOMER_IMPORT_FIELDS) {
+    const header = headers.find(
+      candidate =>
+        !used.has(candidate) &&
+        HEADER_ALIASES[field].includes(candidate.toLowerCase().replace(/[\s_.]/g, ''))
+    );
+
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Normalise a UK phone number to +44 format, or return null if it is not valid
+ */
+export function normalizeImportPhone(value: string): string | null {
+  const digits = value.replace(/\D/g, '');
+
+  // Spreadsheets store numbers as numerics and drop the leading zero of mobiles
+  const candidate = /^7\d{9}$/.test(digits) && !value.trim().startsWith('+') ? `0${digits}` : value;
+  const normalized = normalizePhoneNumber(candidate);
+
+  return normalized.startsWith('+44') && isValidUKPhone(normalized) ? normalized : null;
+}
+
+/**
+ * Work out what importing each row would do, without touching the database
+ */
+export function planCustomerImport(
+  headers: string[],
+  rows: string[][],
+  mapping: ColumnMapping,
+  existingCustomers: ExistingCustomerRecord[],
+  options: Pick<CustomerImportOptions, 'updateExisting'>
+): ImportRowResult[] {
+  const columnFor = (field: CustomerImportField): number =>
+    mapping[field] ? headers.indexOf(mapping[field] as string) : -1;
+  const columns = Object.fromEntries(
+    CUSTOMER_IMPORT_FIELDS.map(field => [field, columnFor(field)])
+  ) as Record<CustomerImportField, number>;
+
+  const existingByEmail = new Map<string, ExistingCustomerRecord>();
+  const existingByPhone = new Map<string, ExistingCustomerRecord>();
+  for (const customer of existingCustomers) {
+    if (customer.email) existingByEmail.set(customer.email.toLowerCase().trim(), customer);
+    const phone = customer.phone && normalizeImportPhone(customer.phone);
+    if (phone) existingByPhone.set(phone, customer);
+  }
+
+  const seenEmails = new Map<string, number>();
+  const seenPhones = new Map<string, number>();
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const cell = (field: CustomerImportField) =>
+      columns[field] >= 0 ? (row[columns[field]] || '').trim() : '';
+    const reasons: string[] = [];
+
+    let firstName = cell('firstName');
+    let lastName = cell('lastName');
+    // A single "Name" column holds the full name
+    if (!mapping.lastName && firstName.includes(' ')) {
+      const [first, ...rest] = firstName.split(/\s+/);
+      firstName = first ?? firstName;
+      lastName = rest.join(' ');
+    }
+
+    const rawEmail = cell('email');
+    const rawPhone = cell('phone');
+    const email = rawEmail.toLowerCase();
+    const phone = rawPhone ? normalizeImportPhone(rawPhone) : null;
+
+    const customer: ImportedCustomer = {
+      firstName,
+      lastName: lastName || undefined,
+      email: email || undefined,
+      phone: phone || rawPhone || undefined,
+      address: cell('address') || undefined,
+      notes: cell('notes') || undefined,
+      tags: unique(
+        cell('tags')
+          .split(/[,;|]/)
+          .map(tag => tag.trim())
+          .filter(Boolean)
+      ),
+    };
+
+    const reject = (...why: string[]): ImportRowResult => ({
+      rowNumber,
+      action: 'reject',
+      reasons: [...reasons, ...why],
+      customer,
+      suppressed: false,
+    });
+
+    if (!firstName) return reject('Missing first name');
+    if (rawEmail && !isValidEmail(email)) return reject(`Invalid email address "${rawEmail}"`);
+    if (rawPhone && !phone) return reject(`Invalid UK phone number "${rawPhone}"`);
+    if (!email && !phone) return reject('No email address or phone number');
+
+    const duplicateRow = (email && seenEmails.get(email)) || (phone && seenPhones.get(phone));
+    if (duplicateRow) return reject(`Duplicate of row ${duplicateRow} in this file`);
+    if (email) seenEmails.set(email, rowNumber);
+    if (phone) seenPhones.set(phone, rowNumber);
+
+    const emailMatch = email ? existingByEmail.get(email) : undefined;
+    const phoneMatch = phone ? existingByPhone.get(phone) : undefined;
+    if (emailMatch && phoneMatch && emailMatch.id !== phoneMatch.id) {
+      return reject('Email and phone number belong to different existing customers');
+    }
+
+    const existing = emailMatch || phoneMatch;
+    if (!existing) {
+      return { rowNumber, action: 'create', reasons, customer, suppressed: false };
+    }
+
+    reasons.push(`Matches existing customer by ${emailMatch ? 'email' : 'phone number'}`);
+
+    if (!options.updateExisting) {
+      reasons.push('Updating existing customers is turned off');
+      return {
+        rowNumber,
+        action: 'skip',
+        reasons,
+        customer,
+        existingCustomerId: existing.id,
+        suppressed: false,
+      };
+    }
+
+    const changes = getCustomerChanges(existing, customer);
+    if (Object.keys(changes).length === 0) reasons.push('Already up to date');
+
+    return {
+      rowNumber,
+      action: Object.keys(changes).length > 0 ? 'update' : 'skip',
+      reasons,
+      customer,
+      existingCustomerId: existing.id,
+      suppressed: false,
+    };
+  });
+}
+
+// Only overwrite fields the file provides; tags are merged
+function getCustomerChanges(
+  existing: ExistingCustomerRecord,
+  incoming: ImportedCustomer
+): Partial<ImportedCustomer> {
+  const changes: Partial<ImportedCustomer> = {};
+  const fields = ['firstName', 'lastName', 'email', 'phone', 'address', 'notes'] as const;
+
+  for (const field of fields) {
+    const value = incoming[field];
+    if (value && value !== existing[field]) {
+      changes[field] = value;
+    }
+  }
+
+  const mergedTags = unique([...existing.tags, ...incoming.tags]);
+  if (mergedTags.length !== existing.tags.length) {
+    changes.tags = mergedTags;
+  }
+
+  return changes;
+}
+
+function summarize(rows: ImportRowResult[]): CustomerImportSummary {
+  const count = (action: ImportRowAction) => rows.filter(row => row.action === action).length;
+
+  return {
+    total: rows.length,
+    created: count('create'),
+    updated: count('update'),
+    skipped: count('skip'),
+    rejected: count('reject'),
+    suppressed: rows.filter(row => row.suppressed).length,
+  };
+}
+
+// Suppressed contacts are still imported, but flagged so they're never messaged
+async function flagSuppressedContacts(businessId: string, rows: ImportRowResult[]): Promise<void> {
+  const contacts: Array<{ contact: string; channel: RequestChannel }> = [];
+  for (const row of rows) {
+    if (row.action === 'reject') continue;
+    if (row.customer.email) contacts.push({ contact: row.customer.email, channel: 'EMAIL' });
+    if (row.customer.phone) contacts.push({ contact: row.customer.phone, channel: 'SMS' });
+  }
+  if (contacts.length === 0) return;
+
+  const result = await checkBulkSuppressions(businessId, contacts);
+  if (!result.success) {
+    logger.warn('Could not check suppressions for customer import', { businessId });
+    return;
+  }
+
+  for (const row of rows) {
+    const { email, phone } = row.customer;
+    const suppressedChannels = [
+      email && result.data[`${email.toLowerCase()}:EMAIL`]?.isSuppressed ? 'email' : null,
+      phone && result.data[`${phone}:SMS`]?.isSuppressed ? 'SMS' : null,
+    ].filter(Boolean);
+
+    if (row.action !== 'reject' && suppressedChannels.length > 0) {
+      row.suppressed = true;
+      row.reasons.push(`Contact is suppressed for ${suppressedChannels.join(' and ')}`);
+    }
+  }
+}
+
+/**
+ * Import customers from a parsed spreadsheet. With dryRun the report is built but nothing is saved.
+ * Imported customers don't run "customer created" or "tagged" automations, so loading a
+ * back catalogue of customers doesn't ask them all for a review.
+ */
+export async function importCustomers(
+  businessId: string,
+  sheet: { headers: string[]; rows: string[][] },
+  mapping: ColumnMapping,
+  options: CustomerImportOptions
+): Promise<Result<CustomerImportReport>> {
+  try {
+    if (!mapping.firstName || (!mapping.email && !mapping.phone)) {
+      return {
+        success: false,
+        error: 'Map a first name column and at least one of email or phone',
+      };
+    }
+
+    const missingColumns = Object.values(mapping).filter(
+      header => header && !sheet.headers.includes(header)
+    );
+    if (missingColumns.length > 0) {
+      return {
+        success: false,
+        error: `Mapped columns not found in file: ${missingColumns.join(', ')}`,
+      };
+    }
+
+    const existingCustomers = await prisma.customer.findMany({
+      where: { businessId, isActive: true },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        phone: true,
+        address: true,
+        notes: true,
+        tags: true,
+      },
+    });
+
+    const rows = planCustomerImport(sheet.headers, sheet.rows, mapping, existingCustomers, options);
+    await flagSuppressedContacts(businessId, rows);
+
+    if (!options.dryRun) {
+      const existingById = new Map(existingCustomers.map(customer => [customer.id, customer]));
+      const creates = rows.filter(row => row.action === 'create');
+      const updates = rows.filter(row => row.action === 'update');
+
+      await prisma.$transaction(
+        async tx => {
+          for (const batch of chunk(creates, 500)) {
+            await tx.customer.createMany({
+              data: batch.map(row => ({ ...row.customer, businessId })),
+            });
+          }
+
+          for (const row of updates) {
+            const existing = existingById.get(row.existingCustomerId as string);
+            if (!existing) continue;
+
+            await tx.customer.update({
+              where: { id: existing.id },
+              data: getCustomerChanges(existing, row.customer),
+            });
+          }
+        },
+        { timeout: IMPORT_TRANSACTION_TIMEOUT_MS, maxWait: IMPORT_TRANSACTION_TIMEOUT_MS }
+      );
+    }
+
+    const summary = summarize(rows);
+    logger.info('Customer import processed', { businessId, dryRun: options.dryRun, ...summary });
+
+    return {
+      success: true,
+      data: { dryRun: options.dryRun, headers: sheet.headers, mapping, summary, rows },
+    };
+  } catch (error) {
+    logger.error('Failed to import customers', { businessId, error });
+    return { success: false, error: 'Failed to import customers' };
+  }
+}
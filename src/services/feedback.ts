@@ -0,0 +1,100 @@
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import type { Result } from '../types/database';
+
+export interface FeedbackEntry {
+  id: string;
+  message: string;
+  createdAt: Date;
+  customer: { id: string; firstName: string; lastName: string | null } | null;
+  reviewRequestId: string | null;
+}
+
+/**
+ * Store private feedback left on a review landing page, identified by the request's
+ * tracking UUID
+ */
+export async function submitFeedback(
+  trackingUuid: string,
+  message: string
+): Promise<Result<{ businessName: string }>> {
+  try {
+    const reviewRequest = await prisma.reviewRequest.findUnique({
+      where: { trackingUuid },
+      select: {
+        id: true,
+        businessId: true,
+        customerId: true,
+        business: { select: { name: true } },
+        customer: { select: { firstName: true } },
+      },
+    });
+
+    if (!reviewRequest) {
+      return { success: false, error: 'Review request not found' };
+    }
+
+    const feedback = await prisma.$transaction(async tx => {
+      const created = await tx.feedback.create({
+        data: {
+          businessId: reviewRequest.businessId,
+          reviewRequestId: reviewRequest.id,
+          customerId: reviewRequest.customerId,
+          message,
+        },
+      });
+
+      await tx.event.create({
+        data: {
+          businessId: reviewRequest.businessId,
+          reviewRequestId: reviewRequest.id,
+          type: 'FEEDBACK_RECEIVED',
+          source: 'landing_page',
+          description: `Private feedback from ${reviewRequest.customer.firstName}`,
+          metadata: { feedbackId: created.id, trackingUuid },
+        },
+      });
+
+      return created;
+    });
+
+    logger.info('Private feedback received', {
+      businessId: reviewRequest.businessId,
+      requestId: reviewRequest.id,
+      feedbackId: feedback.id,
+    });
+
+    return { success: true, data: { businessName: reviewRequest.business.name } };
+  } catch (error) {
+    logger.error('Failed to store feedback', { trackingUuid, error });
+    return { success: false, error: 'Failed to store feedback' };
+  }
+}
+
+/**
+ * Most recent private feedback for a business
+ */
+export async function listFeedback(
+  businessId: string,
+  limit: number = 50
+): Promise<Result<FeedbackEntry[]>> {
+  try {
+    const feedback = await prisma.feedback.findMany({
+      where: { businessId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        message: true,
+        createdAt: true,
+        reviewRequestId: true,
+        customer: { select: { id: true, firstName: true, lastName: true } },
+      },
+    });
+
+    return { success: true, data: feedback };
+  } catch (error) {
+    logger.error('Failed to list feedback', { businessId, error });
+    return { success: false, error: 'Failed to load feedback' };
+  }
+}
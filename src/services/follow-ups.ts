@@ -0,0 +1,429 @@
+import type { Prisma, RequestChannel, RequestStatus } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { canSendToCustomer, generateTrackingUrl } from '../lib/utils';
+import { resolveSendTime } from '../lib/sending-window';
+import { addJobToQueue } from './job-queue';
+import { getInsufficientCreditsMessage, reserveRequestCredits } from './credits';
+import { getCurrentTemplateVersionId } from './template-versions';
+import {
+  FOLLOW_UP_TEMPLATES,
+  type FollowUpConfig,
+  type FollowUpDelay,
+  type FollowUpStep,
+} from '../components/dashboard/customers/data/campaignSettings';
+import type { Result } from '../types/database';
+
+export type FollowUpDecision =
+  | { action: 'send'; channel: RequestChannel }
+  | { action: 'skip'; reason: string }
+  | { action: 'stop'; reason: string };
+
+// What has happened so far across the original request and any follow-ups already sent
+export interface FollowUpChainState {
+  originalChannel: RequestChannel;
+  originalStatus: RequestStatus;
+  sentAt: Date | null;
+  latestStatus: RequestStatus;
+  clicked: boolean;
+  completed: boolean;
+  optedOut: boolean;
+  followUpsSent: number;
+  sentStepIndexes: number[];
+}
+
+interface ChainRequest {
+  status: RequestStatus;
+  clickedAt: Date | null;
+  createdAt: Date;
+  metadata: Prisma.JsonValue;
+}
+
+// Shape stored by the original review-request campaign form
+interface LegacyFollowUpSettings {
+  maxAttempts?: number;
+  delayDays?: number[];
+  stopOnResponse?: boolean;
+}
+
+const DELAY_UNIT_MS: Record<FollowUpDelay['unit'], number> = {
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  weeks: 7 * 24 * 60 * 60 * 1000,
+};
+
+const CLICKED_STATUSES: RequestStatus[] = ['CLICKED', 'COMPLETED'];
+const UNDELIVERED_STATUSES: RequestStatus[] = ['BOUNCED', 'FAILED'];
+const UNSENT_STATUSES: RequestStatus[] = ['DRAFT', 'QUEUED'];
+
+const DEFAULT_FOLLOW_UP_MESSAGE = FOLLOW_UP_TEMPLATES.gentle_reminder.steps[0]!;
+
+export function followUpDelayMs(delay: FollowUpDelay): number {
+  return delay.value * DELAY_UNIT_MS[delay.unit];
+}
+
+/**
+ * Read a campaign's follow-up settings as a FollowUpConfig, converting the older
+ * { maxAttempts, delayDays } shape into a sequence on the campaign's channel
+ */
+export function getFollowUpConfig(
+  followUpEnabled: boolean,
+  followUpSettings: Prisma.JsonValue | null,
+  channel: RequestChannel
+): FollowUpConfig | null {
+  if (!followUpEnabled || !followUpSettings || typeof followUpSettings !== 'object') {
+    return null;
+  }
+
+  const settings = followUpSettings as Partial<FollowUpConfig> & LegacyFollowUpSettings;
+
+  if (Array.isArray(settings.followUpSequence)) {
+    return {
+      enabled: settings.enabled ?? true,
+      maxAttempts: settings.maxAttempts ?? settings.followUpSequence.length,
+      followUpSequence: settings.followUpSequence.filter(step => step.active !== false),
+      stopOnResponse: settings.stopOnResponse ?? true,
+      respectSuppressions: settings.respectSuppressions ?? true,
+    };
+  }
+
+  const delayDays = settings.delayDays?.length ? settings.delayDays : [3];
+  const maxAttempts = settings.maxAttempts ?? 1;
+
+  return {
+    enabled: true,
+    maxAttempts,
+    followUpSequence: delayDays.slice(0, maxAttempts).map((days, index) => ({
+      id: `step-${index + 1}`,
+      delay: { value: days, unit: 'days' },
+      templateId: '',
+      channel,
+      conditions: [{ type: 'no_response' }],
+      active: true,
+    })),
+    stopOnResponse: settings.stopOnResponse ?? true,
+    respectSuppressions: true,
+  };
+}
+
+/**
+ * Summarise the original request and its follow-ups for condition checks
+ */
+export function getFollowUpChainState(
+  original: ChainRequest & { channel: RequestChannel; sentAt: Date | null },
+  followUps: ChainRequest[]
+): FollowUpChainState {
+  const chain = [original, ...followUps];
+  const latest = followUps.reduce<ChainRequest>(
+    (current, request) => (request.createdAt > current.createdAt ? request : current),
+    original
+  );
+
+  return {
+    originalChannel: original.channel,
+    originalStatus: original.status,
+    sentAt: original.sentAt,
+    latestStatus: latest.status,
+    clicked: chain.some(
+      request => !!request.clickedAt || CLICKED_STATUSES.includes(request.status)
+    ),
+    completed: chain.some(request => request.status === 'COMPLETED'),
+    optedOut: chain.some(request => request.status === 'OPTED_OUT'),
+    followUpsSent: followUps.length,
+    sentStepIndexes: followUps
+      .map(
+        request => (request.metadata as { followUpStepIndex?: number } | null)?.followUpStepIndex
+      )
+      .filter((index): index is number => typeof index === 'number'),
+  };
+}
+
+/**
+ * Pick the channel for a step. AUTO switches to the other channel when the customer
+ * can be reached there, otherwise it stays on the original channel.
+ */
+export function resolveFollowUpChannel(
+  stepChannel: FollowUpStep['channel'],
+  originalChannel: RequestChannel,
+  customer: { email: string | null; phone: string | null }
+): RequestChannel | null {
+  if (stepChannel !== 'AUTO') {
+    return canSendToCustomer(customer, stepChannel) ? stepChannel : null;
+  }
+
+  const alternate: RequestChannel = originalChannel === 'EMAIL' ? 'SMS' : 'EMAIL';
+  if (canSendToCustomer(customer, alternate)) return alternate;
+  return canSendToCustomer(customer, originalChannel) ? originalChannel : null;
+}
+
+/**
+ * Decide whether a follow-up step should be sent, skipped, or end the sequence
+ */
+export function evaluateFollowUpStep(
+  config: FollowUpConfig,
+  stepIndex: number,
+  state: FollowUpChainState,
+  customer: { email: string | null; phone: string | null },
+  now: Date = new Date()
+): FollowUpDecision {
+  const step = config.followUpSequence[stepIndex];
+
+  if (!step) return { action: 'stop', reason: 'sequence_finished' };
+  if (state.optedOut) return { action: 'stop', reason: 'opted_out' };
+  if (UNSENT_STATUSES.includes(state.originalStatus)) {
+    return { action: 'stop', reason: 'original_not_sent' };
+  }
+  if (config.stopOnResponse && (state.clicked || state.completed)) {
+    return { action: 'stop', reason: 'customer_responded' };
+  }
+  if (state.followUpsSent >= config.maxAttempts) {
+    return { action: 'stop', reason: 'max_attempts_reached' };
+  }
+  // A retried job for a step that already went out - the first run scheduled the next step
+  if (state.sentStepIndexes.includes(stepIndex)) {
+    return { action: 'stop', reason: 'already_sent' };
+  }
+
+  for (const condition of step.conditions) {
+    const met = {
+      no_response: !state.completed,
+      no_click: !state.clicked,
+      bounce: UNDELIVERED_STATUSES.includes(state.latestStatus),
+      time_elapsed:
+        typeof condition.value !== 'number' ||
+        (!!state.sentAt &&
+          now.getTime() - state.sentAt.getTime() >= condition.value * DELAY_UNIT_MS.hours),
+    }[condition.type];
+
+    if (!met) return { action: 'skip', reason: `condition_not_met:${condition.type}` };
+  }
+
+  const channel = resolveFollowUpChannel(step.channel, state.originalChannel, customer);
+  if (!channel) return { action: 'skip', reason: 'no_contact_for_channel' };
+
+  return { action: 'send', channel };
+}
+
+async function scheduleFollowUpStep(
+  requestId: string,
+  stepIndex: number,
+  delay: FollowUpDelay
+): Promise<void> {
+  await addJobToQueue(
+    'send-followup',
+    { requestId, stepIndex },
+    { delay: followUpDelayMs(delay), priority: 10 }
+  );
+}
+
+/**
+ * Start the follow-up sequence for a request that has just been sent. Follow-ups never
+ * start sequences of their own.
+ */
+export async function scheduleFollowUpSequence(requestId: string): Promise<void> {
+  try {
+    const request = await prisma.reviewRequest.findUnique({
+      where: { id: requestId },
+      select: {
+        channel: true,
+        metadata: true,
+        campaign: { select: { followUpEnabled: true, followUpSettings: true } },
+      },
+    });
+
+    if (!request?.campaign) return;
+    if ((request.metadata as { followUpOf?: string } | null)?.followUpOf) return;
+
+    const config = getFollowUpConfig(
+      request.campaign.followUpEnabled,
+      request.campaign.followUpSettings,
+      request.channel
+    );
+    const firstStep = config?.followUpSequence[0];
+    if (!firstStep) return;
+
+    await scheduleFollowUpStep(requestId, 0, firstStep.delay);
+    logger.info('Follow-up sequence scheduled', {
+      requestId,
+      steps: config.followUpSequence.length,
+    });
+  } catch (error) {
+    logger.error('Failed to schedule follow-up sequence', { requestId, error });
+  }
+}
+
+async function createFollowUpRequest(
+  original: {
+    id: string;
+    businessId: string;
+    customerId: string;
+    campaignId: string | null;
+    destinationId: string | null;
+    reviewUrl: string;
+  },
+  step: FollowUpStep,
+  stepIndex: number,
+  channel: RequestChannel
+) {
+  const template = step.templateId
+    ? await prisma.messageTemplate.findFirst({
+        where: {
+          id: step.templateId,
+          isActive: true,
+          OR: [{ businessId: original.businessId }, { businessId: null }],
+        },
+        select: { id: true, channel: true, subject: true, content: true },
+      })
+    : null;
+
+  // A template written for the other channel can't be reused after an AUTO switch
+  const usableTemplate = template?.channel === channel ? template : null;
+  const templateVersionId = await getCurrentTemplateVersionId(usableTemplate?.id);
+  const trackingUuid = uuidv4();
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+  const business = await prisma.business.findUniqueOrThrow({
+    where: { id: original.businessId },
+    select: { timezone: true, sendingHours: true },
+  });
+  const now = new Date();
+  const sendTime = resolveSendTime(business, null, { now });
+
+  return prisma.reviewRequest.create({
+    data: {
+      businessId: original.businessId,
+      customerId: original.customerId,
+      campaignId: original.campaignId,
+      templateId: usableTemplate?.id,
+      templateVersionId,
+      channel,
+      status: 'QUEUED',
+      subject:
+        channel === 'EMAIL'
+          ? usableTemplate?.subject || DEFAULT_FOLLOW_UP_MESSAGE.subject
+          : undefined,
+      messageContent: usableTemplate?.content || DEFAULT_FOLLOW_UP_MESSAGE.message,
+      destinationId: original.destinationId,
+      reviewUrl: original.reviewUrl,
+      trackingUuid,
+      trackingUrl: generateTrackingUrl(baseUrl, trackingUuid),
+      scheduledFor: sendTime.scheduledFor ?? now,
+      rescheduleReason: sendTime.rescheduleReason,
+      metadata: {
+        followUpOf: original.id,
+        followUpStepId: step.id,
+        followUpStepIndex: stepIndex,
+      },
+    },
+    select: { id: true, channel: true, scheduledFor: true },
+  });
+}
+
+/**
+ * Run one step of a follow-up sequence and schedule the next one
+ */
+export async function processFollowUpStep(
+  requestId: string,
+  stepIndex: number
+): Promise<Result<{ decision: FollowUpDecision; followUpRequestId?: string }>> {
+  try {
+    const original = await prisma.reviewRequest.findFirst({
+      where: { id: requestId, isActive: true },
+      include: {
+        customer: { select: { email: true, phone: true, isActive: true } },
+        campaign: { select: { status: true, followUpEnabled: true, followUpSettings: true } },
+      },
+    });
+
+    if (!original) {
+      return { success: false, error: 'Review request not found' };
+    }
+
+    const config = original.campaign
+      ? getFollowUpConfig(
+          original.campaign.followUpEnabled,
+          original.campaign.followUpSettings,
+          original.channel
+        )
+      : null;
+
+    if (!config || original.campaign?.status === 'CANCELLED' || !original.customer.isActive) {
+      return {
+        success: true,
+        data: { decision: { action: 'stop', reason: 'follow_ups_disabled' } },
+      };
+    }
+
+    const followUps = await prisma.reviewRequest.findMany({
+      where: {
+        businessId: original.businessId,
+        isActive: true,
+        metadata: { path: ['followUpOf'], equals: original.id },
+      },
+      select: { status: true, clickedAt: true, createdAt: true, metadata: true },
+    });
+
+    const state = getFollowUpChainState(original, followUps);
+    const decision = evaluateFollowUpStep(config, stepIndex, state, original.customer);
+
+    logger.info('Follow-up step evaluated', { requestId, stepIndex, decision });
+
+    let followUpRequestId: string | undefined;
+
+    if (decision.action === 'send') {
+      const step = config.followUpSequence[stepIndex]!;
+      const followUp = await createFollowUpRequest(original, step, stepIndex, decision.channel);
+      followUpRequestId = followUp.id;
+
+      const credits = await reserveRequestCredits(original.businessId, followUp.id);
+      if (!credits.reserved) {
+        await prisma.reviewRequest.update({
+          where: { id: followUp.id },
+          data: {
+            status: 'FAILED',
+            errorMessage: getInsufficientCreditsMessage(decision.channel, credits),
+          },
+        });
+        logger.warn('Follow-up skipped - not enough credits', { requestId, stepIndex });
+        return {
+          success: true,
+          data: { decision: { action: 'stop', reason: 'insufficient_credits' }, followUpRequestId },
+        };
+      }
+
+      await prisma.event.create({
+        data: {
+          businessId: original.businessId,
+          reviewRequestId: original.id,
+          type: 'FOLLOWUP_SENT',
+          source: 'system',
+          description: `Follow-up ${stepIndex + 1} sent by ${decision.channel.toLowerCase()}`,
+          metadata: {
+            followUpRequestId: followUp.id,
+            stepId: step.id,
+            stepIndex,
+            channel: decision.channel,
+            switchedChannel: decision.channel !== original.channel,
+          },
+        },
+      });
+
+      await addJobToQueue(
+        'send-request',
+        { requestId: followUp.id, retryCount: 0 },
+        { delay: Math.max(0, (followUp.scheduledFor?.getTime() ?? 0) - Date.now()), priority: 5 }
+      );
+    }
+
+    const nextStep = config.followUpSequence[stepIndex + 1];
+    if (decision.action !== 'stop' && nextStep) {
+      await scheduleFollowUpStep(original.id, stepIndex + 1, nextStep.delay);
+    }
+
+    return { success: true, data: { decision, followUpRequestId } };
+  } catch (error) {
+    logger.error('Failed to process follow-up step', { requestId, stepIndex, error });
+    return { success: false, error: 'Failed to process follow-up step' };
+  }
+}
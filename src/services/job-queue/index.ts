@@ -0,0 +1,278 @@
+import { logger, loggers } from '../../lib/logger';
+import type { JobData } from '../../types/external';
+import { getRetryDelay, postgresBackend } from './postgres';
+import { redisBackend } from './redis';
+import type {
+  AddJobOptions,
+  JobProcessor,
+  JobQueue,
+  QueueBackend,
+  QueueBackendName,
+  QueuedJob,
+  QueueStats,
+  QueueWorker,
+  WorkerOptions,
+} from './types';
+
+export * from './types';
+export { getRedisHealth } from './redis';
+export { getRetryDelay, LOCK_TIMEOUT_MS, nextRetryDelay } from './postgres';
+
+const BACKENDS: Record<QueueBackendName, QueueBackend> = {
+  redis: redisBackend,
+  postgres: postgresBackend,
+};
+
+/**
+ * Pick the queue backend from JOB_QUEUE_BACKEND, defaulting to BullMQ on Redis
+ */
+export function resolveQueueBackend(env: NodeJS.ProcessEnv = process.env): QueueBackendName {
+  const choice = env.JOB_QUEUE_BACKEND;
+  if (!choice) {
+    return 'redis';
+  }
+  if (choice === 'redis' || choice === 'postgres') {
+    return choice;
+  }
+
+  logger.warn('Ignoring unsupported job queue backend', { backend: choice });
+  return 'redis';
+}
+
+const backend = BACKENDS[resolveQueueBackend()];
+
+/**
+ * Get or create a job queue
+ */
+export function getQueue<T extends JobData = JobData>(queueName: string): JobQueue<T> {
+  return backend.getQueue<T>(queueName);
+}
+
+/**
+ * Add a job to the queue
+ */
+export async function addJobToQueue<T extends JobData>(
+  queueName: string,
+  data: T,
+  options?: AddJobOptions
+): Promise<QueuedJob<T>> {
+  try {
+    const job = await backend.addJob(queueName, data, options);
+
+    logger.info('Job added to queue', {
+      queueName,
+      jobId: job.id,
+      backend: backend.name,
+      delay: options?.delay,
+      priority: options?.priority,
+    });
+
+    return job;
+  } catch (error) {
+    logger.error('Failed to add job to queue', { queueName, data, error });
+    throw error;
+  }
+}
+
+/**
+ * Create and start a worker for processing jobs
+ */
+export function createWorker<T extends JobData>(
+  queueName: string,
+  processor: JobProcessor<T>,
+  options?: WorkerOptions
+): QueueWorker {
+  const worker = backend.createWorker<T>(
+    queueName,
+    async job => {
+      const startTime = Date.now();
+
+      loggers.jobs.started({
+        jobId: job.id!,
+        jobName: queueName,
+        data: job.data,
+      });
+
+      try {
+        const result = await processor(job);
+
+        loggers.jobs.completed({
+          jobId: job.id!,
+          jobName: queueName,
+          duration: Date.now() - startTime,
+          result,
+        });
+
+        return result;
+      } catch (error) {
+        loggers.jobs.failed({
+          jobId: job.id!,
+          jobName: queueName,
+          error,
+          attempts: job.attemptsMade,
+        });
+
+        // Log retry information if job will be retried
+        if (job.attemptsMade + 1 < (job.opts.attempts || 3)) {
+          loggers.jobs.retry({
+            jobId: job.id!,
+            jobName: queueName,
+            attempt: job.attemptsMade + 2,
+            delay: getRetryDelay(job.attemptsMade + 1),
+          });
+        }
+
+        throw error;
+      }
+    },
+    options
+  );
+
+  logger.info('Worker created and started', { queueName, backend: backend.name });
+  return worker;
+}
+
+/**
+ * Get queue statistics
+ */
+export async function getQueueStats(queueName: string): Promise<QueueStats> {
+  try {
+    return await backend.getQueueStats(queueName);
+  } catch (error) {
+    logger.error('Failed to get queue stats', { queueName, error });
+    return {
+      waiting: 0,
+      active: 0,
+      completed: 0,
+      failed: 0,
+      delayed: 0,
+    };
+  }
+}
+
+/**
+ * Jobs that are waiting, delayed or running in a queue
+ */
+export async function getPendingJobs<T extends JobData>(
+  queueName: string
+): Promise<QueuedJob<T>[]> {
+  return backend.getJobs<T>(queueName, ['waiting', 'prioritized', 'delayed', 'paused', 'active']);
+}
+
+/**
+ * Get job by ID
+ */
+export async function getJobById<T extends JobData>(
+  queueName: string,
+  jobId: string
+): Promise<QueuedJob<T> | null> {
+  try {
+    return await backend.getJob<T>(queueName, jobId);
+  } catch (error) {
+    logger.error('Failed to get job by ID', { queueName, jobId, error });
+    return null;
+  }
+}
+
+/**
+ * Retry a failed job
+ */
+export async function retryJob(queueName: string, jobId: string): Promise<boolean> {
+  try {
+    const retried = await backend.retryJob(queueName, jobId);
+    if (retried) {
+      logger.info('Job retry initiated', { queueName, jobId });
+    }
+    return retried;
+  } catch (error) {
+    logger.error('Failed to retry job', { queueName, jobId, error });
+    return false;
+  }
+}
+
+/**
+ * Remove a job from the queue
+ */
+export async function removeJob(queueName: string, jobId: string): Promise<boolean> {
+  try {
+    const job = await getJobById(queueName, jobId);
+
+    if (job) {
+      await job.remove();
+      logger.info('Job removed', { queueName, jobId });
+      return true;
+    }
+
+    return false;
+  } catch (error) {
+    logger.error('Failed to remove job', { queueName, jobId, error });
+    return false;
+  }
+}
+
+/**
+ * Clean old jobs from queue
+ */
+export async function cleanQueue(
+  queueName: string,
+  options: {
+    grace?: number; // Time in ms to keep jobs
+    limit?: number; // Max number of jobs to clean
+    type?: 'completed' | 'failed' | 'active' | 'waiting';
+  }
+): Promise<number> {
+  try {
+    const cleaned = await backend.cleanQueue(
+      queueName,
+      options.grace || 24 * 60 * 60 * 1000, // Default: 24 hours
+      options.limit || 100, // Default: 100 jobs
+      options.type || 'completed'
+    );
+
+    logger.info('Queue cleaned', { queueName, cleaned, ...options });
+    return cleaned;
+  } catch (error) {
+    logger.error('Failed to clean queue', { queueName, error });
+    return 0;
+  }
+}
+
+/**
+ * Pause a queue
+ */
+export async function pauseQueue(queueName: string): Promise<void> {
+  try {
+    await backend.pauseQueue(queueName);
+    logger.info('Queue paused', { queueName });
+  } catch (error) {
+    logger.error('Failed to pause queue', { queueName, error });
+    throw error;
+  }
+}
+
+/**
+ * Resume a paused queue
+ */
+export async function resumeQueue(queueName: string): Promise<void> {
+  try {
+    await backend.resumeQueue(queueName);
+    logger.info('Queue resumed', { queueName });
+  } catch (error) {
+    logger.error('Failed to resume queue', { queueName, error });
+    throw error;
+  }
+}
+
+/**
+ * Close all queues and workers, waiting for running jobs to finish
+ */
+export async function closeAllQueuesAndWorkers(): Promise<void> {
+  try {
+    logger.info('Closing all queues and workers...', { backend: backend.name });
+    await backend.close();
+    logger.info('All queues and workers closed successfully');
+  } catch (error) {
+    logger.error('Failed to close queues and workers', { error });
+    throw error;
+  }
+}
@@ -0,0 +1,452 @@
+import { hostname } from 'os';
+import type { Prisma, QueueJob } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { logger } from '../../lib/logger';
+import type { JobData } from '../../types/external';
+import type {
+  AddJobOptions,
+  JobProcessor,
+  JobState,
+  QueueBackend,
+  QueuedJob,
+  QueueWorker,
+  WorkerOptions,
+} from './types';
+
+const WORKER_ID = `${hostname()}:${process.pid}`;
+
+/** How often an idle worker looks for due jobs */
+const POLL_INTERVAL_MS = 1000;
+
+/** Same defaults as the BullMQ queues */
+const DEFAULT_ATTEMPTS = 3;
+const BACKOFF_DELAY_MS = 5000;
+const KEEP_COMPLETED = 100;
+const KEEP_FAILED = 50;
+
+/** A job whose lock has not been renewed for this long belongs to a worker that died */
+export const LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** How often a worker renews the locks on the jobs it is running */
+const LOCK_RENEW_INTERVAL_MS = LOCK_TIMEOUT_MS / 5;
+
+type ClaimedJob = Pick<QueueJob, 'id' | 'data' | 'attempts' | 'maxAttempts'>;
+
+/**
+ * Delay before the next attempt after `attemptsMade` failures, as BullMQ's exponential backoff
+ */
+export function getRetryDelay(attemptsMade: number): number {
+  return BACKOFF_DELAY_MS * Math.pow(2, Math.max(attemptsMade - 1, 0));
+}
+
+/**
+ * How long the queue waits before the next attempt, or null when this is the last one
+ */
+export function nextRetryDelay(job: Pick<QueuedJob, 'attemptsMade' | 'opts'>): number | null {
+  const attempt = job.attemptsMade + 1;
+  return attempt < (job.opts.attempts ?? 1) ? getRetryDelay(attempt) : null;
+}
+
+/**
+ * Rows a list of job states covers; delayed jobs are waiting jobs whose time has not come
+ */
+export function buildStateFilter(
+  states: JobState[],
+  now: Date = new Date()
+): Prisma.QueueJobWhereInput[] {
+  const filters: Prisma.QueueJobWhereInput[] = [];
+
+  if (states.some(state => state === 'waiting' || state === 'prioritized' || state === 'paused')) {
+    filters.push({ status: 'WAITING', runAt: { lte: now } });
+  }
+  if (states.includes('delayed')) {
+    filters.push({ status: 'WAITING', runAt: { gt: now } });
+  }
+  if (states.includes('active')) {
+    filters.push({ status: 'ACTIVE' });
+  }
+  if (states.includes('completed')) {
+    filters.push({ status: 'COMPLETED' });
+  }
+  if (states.includes('failed')) {
+    filters.push({ status: 'FAILED' });
+  }
+
+  return filters;
+}
+
+function toQueuedJob<T extends JobData>(row: ClaimedJob): QueuedJob<T> {
+  return {
+    id: row.id,
+    data: row.data as unknown as T,
+    // Like BullMQ, the attempt being run is not counted until it fails
+    attemptsMade: Math.max(row.attempts - 1, 0),
+    opts: { attempts: row.maxAttempts },
+    remove: async () => {
+      await prisma.queueJob.deleteMany({ where: { id: row.id } });
+    },
+  };
+}
+
+async function addJob<T extends JobData>(
+  queueName: string,
+  name: string,
+  data: T,
+  options: AddJobOptions = {}
+): Promise<QueuedJob<T>> {
+  const job = {
+    queue: queueName,
+    name,
+    data: data as unknown as Prisma.InputJsonValue,
+    priority: options.priority ?? 0,
+    runAt: new Date(Date.now() + (options.delay ?? 0)),
+    maxAttempts: options.attempts ?? DEFAULT_ATTEMPTS,
+    removeOnComplete: options.removeOnComplete ?? KEEP_COMPLETED,
+    removeOnFail: options.removeOnFail ?? KEEP_FAILED,
+  };
+
+  const row = options.jobId
+    ? await prisma.queueJob.upsert({
+        where: { queue_jobKey: { queue: queueName, jobKey: options.jobId } },
+        create: { ...job, jobKey: options.jobId },
+        update: {},
+      })
+    : await prisma.queueJob.create({ data: job });
+
+  return toQueuedJob<T>(row);
+}
+
+async function getJobs<T extends JobData>(
+  queueName: string,
+  states: JobState[],
+  start = 0,
+  end = -1
+): Promise<QueuedJob<T>[]> {
+  const filters = buildStateFilter(states);
+  if (filters.length === 0) {
+    return [];
+  }
+
+  const rows = await prisma.queueJob.findMany({
+    where: { queue: queueName, OR: filters },
+    orderBy: [{ priority: 'asc' }, { runAt: 'asc' }],
+    skip: start,
+    take: end < 0 ? undefined : end - start + 1,
+  });
+  return rows.map(row => toQueuedJob<T>(row));
+}
+
+/**
+ * Lock up to `limit` due jobs for this worker. SKIP LOCKED lets any number of dispatchers
+ * poll the same queue without handing one job to two of them. Times come from this process,
+ * like the run_at they are compared with, rather than from the database clock.
+ */
+async function claimJobs(queueName: string, limit: number): Promise<ClaimedJob[]> {
+  const now = new Date();
+  return prisma.$queryRaw<ClaimedJob[]>`
+    UPDATE queue_jobs
+    SET status = 'ACTIVE', locked_at = ${now}, locked_by = ${WORKER_ID},
+        attempts = attempts + 1, updated_at = ${now}
+    WHERE id IN (
+      SELECT id FROM queue_jobs
+      WHERE queue = ${queueName} AND status = 'WAITING' AND run_at <= ${now}
+      ORDER BY priority ASC, run_at ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id, data, attempts, max_attempts AS "maxAttempts"
+  `;
+}
+
+/**
+ * Delete finished jobs beyond the newest `keep` in a queue
+ */
+async function trimFinishedJobs(
+  queueName: string,
+  status: 'COMPLETED' | 'FAILED',
+  keep: number
+): Promise<void> {
+  await prisma.$executeRaw`
+    DELETE FROM queue_jobs
+    WHERE id IN (
+      SELECT id FROM queue_jobs
+      WHERE queue = ${queueName} AND status = ${status}::"QueueJobStatus"
+      ORDER BY finished_at DESC
+      OFFSET ${keep}
+    )
+  `;
+}
+
+/**
+ * Put jobs whose worker stopped mid-run back in the queue, or fail them when they are out
+ * of attempts. A running job's lock is renewed while it runs, so only jobs whose worker has
+ * gone fall behind `staleBefore`.
+ */
+async function recoverStaleJobs(queueName: string): Promise<void> {
+  const staleBefore = new Date(Date.now() - LOCK_TIMEOUT_MS);
+  const stale = { queue: queueName, status: 'ACTIVE' as const, lockedAt: { lt: staleBefore } };
+  const unlock = { lockedAt: null, lockedBy: null, lastError: 'Worker stopped while running job' };
+
+  const [failed, requeued] = await prisma.$transaction([
+    prisma.queueJob.updateMany({
+      where: { ...stale, attempts: { gte: prisma.queueJob.fields.maxAttempts } },
+      data: { ...unlock, status: 'FAILED', finishedAt: new Date() },
+    }),
+    prisma.queueJob.updateMany({
+      where: stale,
+      data: { ...unlock, status: 'WAITING', runAt: new Date() },
+    }),
+  ]);
+
+  if (failed.count > 0 || requeued.count > 0) {
+    logger.warn('Recovered stale queue jobs', {
+      queueName,
+      failed: failed.count,
+      requeued: requeued.count,
+    });
+  }
+}
+
+const CLEAN_STATUSES = {
+  completed: 'COMPLETED',
+  failed: 'FAILED',
+  active: 'ACTIVE',
+  waiting: 'WAITING',
+} as const;
+
+const pausedQueues = new Set<string>();
+const workers = new Map<string, PostgresWorker>();
+
+class PostgresWorker implements QueueWorker {
+  private running = true;
+  private timer: NodeJS.Timeout | null = null;
+  private polling: Promise<void> | null = null;
+  private readonly active = new Set<Promise<void>>();
+  private startedAt: number[] = [];
+  private lastRecovery = 0;
+
+  constructor(
+    private readonly queueName: string,
+    private readonly processor: JobProcessor<JobData>,
+    private readonly options: WorkerOptions
+  ) {
+    this.schedule(0);
+  }
+
+  async close(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    // A poll in flight may still claim jobs; wait for it so they are not left running
+    await this.polling;
+    await Promise.allSettled([...this.active]);
+  }
+
+  private schedule(delay: number): void {
+    if (this.running) {
+      this.timer = setTimeout(() => {
+        this.polling = this.poll();
+      }, delay);
+    }
+  }
+
+  /** Free slots, allowing for concurrency and the rate limiter */
+  private availableSlots(): number {
+    const slots = (this.options.concurrency || 5) - this.active.size;
+    const limiter = this.options.limiter;
+    if (!limiter) {
+      return slots;
+    }
+
+    const windowStart = Date.now() - limiter.duration;
+    this.startedAt = this.startedAt.filter(time => time > windowStart);
+    return Math.min(slots, limiter.max - this.startedAt.length);
+  }
+
+  private async poll(): Promise<void> {
+    this.timer = null;
+    let claimedAll = false;
+
+    try {
+      if (Date.now() - this.lastRecovery > LOCK_TIMEOUT_MS / 10) {
+        this.lastRecovery = Date.now();
+        await recoverStaleJobs(this.queueName);
+      }
+
+      const slots = pausedQueues.has(this.queueName) ? 0 : this.availableSlots();
+      if (slots > 0 && this.running) {
+        const jobs = await claimJobs(this.queueName, slots);
+        for (const job of jobs) {
+          this.startedAt.push(Date.now());
+          const run = this.run(job)
+            .catch(error => logger.error('Worker error', { queueName: this.queueName, error }))
+            .finally(() => this.active.delete(run));
+          this.active.add(run);
+        }
+        claimedAll = jobs.length === slots;
+      }
+    } catch (error) {
+      logger.error('Worker error', { queueName: this.queueName, error });
+    }
+
+    // Keep draining while jobs are due; otherwise wait for the next poll
+    this.schedule(claimedAll ? 0 : POLL_INTERVAL_MS);
+  }
+
+  private async run(row: ClaimedJob): Promise<void> {
+    const owned = { id: row.id, lockedBy: WORKER_ID, status: 'ACTIVE' as const };
+    const unlock = { lockedAt: null, lockedBy: null };
+
+    // Keep the lock fresh so a long job is not recovered as stale while it is still running
+    const renewal = setInterval(() => {
+      prisma.queueJob
+        .updateMany({ where: owned, data: { lockedAt: new Date() } })
+        .catch(error => logger.error('Failed to renew job lock', { jobId: row.id, error }));
+    }, LOCK_RENEW_INTERVAL_MS);
+
+    try {
+      await this.processor(toQueuedJob(row));
+
+      await prisma.queueJob.updateMany({
+        where: owned,
+        data: { ...unlock, status: 'COMPLETED', finishedAt: new Date(), lastError: null },
+      });
+      await this.trim(row.id, 'COMPLETED');
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+
+      if (row.attempts < row.maxAttempts) {
+        await prisma.queueJob.updateMany({
+          where: owned,
+          data: {
+            ...unlock,
+            status: 'WAITING',
+            runAt: new Date(Date.now() + getRetryDelay(row.attempts)),
+            lastError,
+          },
+        });
+      } else {
+        await prisma.queueJob.updateMany({
+          where: owned,
+          data: { ...unlock, status: 'FAILED', finishedAt: new Date(), lastError },
+        });
+        await this.trim(row.id, 'FAILED');
+      }
+    } finally {
+      clearInterval(renewal);
+    }
+  }
+
+  private async trim(jobId: string, status: 'COMPLETED' | 'FAILED'): Promise<void> {
+    const job = await prisma.queueJob.findUnique({
+      where: { id: jobId },
+      select: { removeOnComplete: true, removeOnFail: true },
+    });
+    if (job) {
+      const keep = status === 'COMPLETED' ? job.removeOnComplete : job.removeOnFail;
+      await trimFinishedJobs(this.queueName, status, keep);
+    }
+  }
+}
+
+/**
+ * Jobs stored in the queue_jobs table and claimed with SELECT ... FOR UPDATE SKIP LOCKED.
+ * Pausing a queue only pauses the workers in this process.
+ */
+export const postgresBackend: QueueBackend = {
+  name: 'postgres',
+
+  getQueue<T extends JobData>(queueName: string) {
+    return {
+      add: (name: string, data: T, options?: AddJobOptions) =>
+        addJob(queueName, name, data, options),
+      getJobs: (types: JobState[], start?: number, end?: number) =>
+        getJobs<T>(queueName, types, start, end),
+    };
+  },
+
+  addJob<T extends JobData>(queueName: string, data: T, options?: AddJobOptions) {
+    return addJob(queueName, queueName, data, options);
+  },
+
+  createWorker<T extends JobData>(
+    queueName: string,
+    processor: JobProcessor<T>,
+    options: WorkerOptions = {}
+  ) {
+    if (workers.has(queueName)) {
+      logger.warn('Worker already exists for queue', { queueName });
+      return workers.get(queueName)!;
+    }
+
+    const worker = new PostgresWorker(queueName, processor as JobProcessor<JobData>, options);
+    workers.set(queueName, worker);
+    return worker;
+  },
+
+  async getQueueStats(queueName) {
+    const now = new Date();
+    const count = (state: JobState) =>
+      prisma.queueJob.count({ where: { queue: queueName, OR: buildStateFilter([state], now) } });
+
+    const [waiting, active, completed, failed, delayed] = await Promise.all([
+      count('waiting'),
+      count('active'),
+      count('completed'),
+      count('failed'),
+      count('delayed'),
+    ]);
+
+    return { waiting, active, completed, failed, delayed };
+  },
+
+  getJobs<T extends JobData>(queueName: string, states: JobState[]) {
+    return getJobs<T>(queueName, states);
+  },
+
+  async getJob<T extends JobData>(queueName: string, jobId: string) {
+    const row = await prisma.queueJob.findFirst({ where: { id: jobId, queue: queueName } });
+    return row ? toQueuedJob<T>(row) : null;
+  },
+
+  async retryJob(queueName, jobId) {
+    const { count } = await prisma.queueJob.updateMany({
+      where: { id: jobId, queue: queueName, status: 'FAILED' },
+      data: { status: 'WAITING', runAt: new Date(), attempts: 0, finishedAt: null },
+    });
+    return count > 0;
+  },
+
+  async cleanQueue(queueName, grace, limit, type) {
+    const status = CLEAN_STATUSES[type];
+    const old = await prisma.queueJob.findMany({
+      where: { queue: queueName, status, updatedAt: { lt: new Date(Date.now() - grace) } },
+      select: { id: true },
+      orderBy: { updatedAt: 'asc' },
+      take: limit,
+    });
+
+    const { count } = await prisma.queueJob.deleteMany({
+      where: { id: { in: old.map(job => job.id) } },
+    });
+    return count;
+  },
+
+  async pauseQueue(queueName) {
+    pausedQueues.add(queueName);
+  },
+
+  async resumeQueue(queueName) {
+    pausedQueues.delete(queueName);
+  },
+
+  async close() {
+    for (const [name, worker] of workers.entries()) {
+      await worker.close();
+      logger.info('Worker closed', { queueName: name });
+    }
+    workers.clear();
+  },
+};
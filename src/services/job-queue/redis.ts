@@ -0,0 +1,216 @@
+import { Queue, Worker, type Job } from 'bullmq';
+import IORedis from 'ioredis';
+import { logger, loggers } from '../../lib/logger';
+import type { JobData } from '../../types/external';
+import type { AddJobOptions, JobQueue, JobState, QueueBackend, QueuedJob } from './types';
+
+// Redis connection configuration
+const redisConfig = {
+  host: process.env.REDIS_HOST || 'localhost',
+  port: parseInt(process.env.REDIS_PORT || '6379'),
+  password: process.env.REDIS_PASSWORD,
+  db: parseInt(process.env.REDIS_DB || '0'),
+  maxRetriesPerRequest: 3,
+  enableReadyCheck: false,
+  lazyConnect: true,
+};
+
+// Create Redis connection for BullMQ (Upstash when REDIS_URL is set)
+const redis = process.env.REDIS_URL
+  ? new IORedis(process.env.REDIS_URL, {
+      maxRetriesPerRequest: 3,
+      enableReadyCheck: false,
+      lazyConnect: true,
+    })
+  : new IORedis(redisConfig);
+
+// Job queue instances
+const queues = new Map<string, Queue>();
+const workers = new Map<string, Worker>();
+
+function getQueue(queueName: string): Queue {
+  if (!queues.has(queueName)) {
+    const queue = new Queue(queueName, {
+      connection: redis.duplicate(),
+      defaultJobOptions: {
+        removeOnComplete: 100, // Keep last 100 completed jobs
+        removeOnFail: 50, // Keep last 50 failed jobs
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 5000, // Start with 5 second delay
+        },
+      },
+    });
+
+    // Queue event handlers; a Queue only reports its own events, so job progress is
+    // logged by the worker
+    queue.on('error', error => {
+      logger.error('Queue error', { queueName, error });
+    });
+
+    queue.on('waiting', job => {
+      logger.debug('Job waiting', { queueName, jobId: job.id });
+    });
+
+    queues.set(queueName, queue);
+    logger.info('Job queue created', { queueName });
+  }
+
+  return queues.get(queueName)!;
+}
+
+/**
+ * BullMQ queues in Redis
+ */
+export const redisBackend: QueueBackend = {
+  name: 'redis',
+
+  getQueue<T extends JobData>(queueName: string) {
+    return getQueue(queueName) as JobQueue<T>;
+  },
+
+  async addJob<T extends JobData>(queueName: string, data: T, options?: AddJobOptions) {
+    const job = await getQueue(queueName).add(queueName, data, {
+      ...options,
+      timestamp: Date.now(),
+    });
+    return job as QueuedJob<T>;
+  },
+
+  createWorker(queueName, processor, options) {
+    if (workers.has(queueName)) {
+      logger.warn('Worker already exists for queue', { queueName });
+      return workers.get(queueName)!;
+    }
+
+    const worker = new Worker(queueName, (job: Job) => processor(job), {
+      connection: redis.duplicate(),
+      concurrency: options?.concurrency || 5,
+      limiter: options?.limiter,
+    });
+
+    // Worker event handlers
+    worker.on('error', error => {
+      logger.error('Worker error', { queueName, error });
+    });
+
+    worker.on('active', job => {
+      logger.debug('Worker processing job', { queueName, jobId: job.id });
+    });
+
+    worker.on('completed', job => {
+      loggers.jobs.completed({
+        jobId: job.id!,
+        jobName: queueName,
+        duration: Date.now() - job.processedOn!,
+        result: job.returnvalue,
+      });
+    });
+
+    worker.on('failed', (job, error) => {
+      if (job) {
+        loggers.jobs.failed({
+          jobId: job.id!,
+          jobName: queueName,
+          error,
+          attempts: job.attemptsMade,
+        });
+      } else {
+        logger.error('Worker failed job', { queueName, error: error.message });
+      }
+    });
+
+    workers.set(queueName, worker);
+    return worker;
+  },
+
+  async getQueueStats(queueName) {
+    const counts = await getQueue(queueName).getJobCounts(
+      'waiting',
+      'prioritized',
+      'active',
+      'completed',
+      'failed',
+      'delayed'
+    );
+
+    return {
+      waiting: (counts.waiting ?? 0) + (counts.prioritized ?? 0),
+      active: counts.active ?? 0,
+      completed: counts.completed ?? 0,
+      failed: counts.failed ?? 0,
+      delayed: counts.delayed ?? 0,
+    };
+  },
+
+  async getJobs<T extends JobData>(queueName: string, states: JobState[]) {
+    return (await getQueue(queueName).getJobs(states)) as QueuedJob<T>[];
+  },
+
+  async getJob<T extends JobData>(queueName: string, jobId: string) {
+    return ((await getQueue(queueName).getJob(jobId)) ?? null) as QueuedJob<T> | null;
+  },
+
+  async retryJob(queueName, jobId) {
+    const job = await getQueue(queueName).getJob(jobId);
+    if (!job || !(await job.isFailed())) {
+      return false;
+    }
+    await job.retry();
+    return true;
+  },
+
+  async cleanQueue(queueName, grace, limit, type) {
+    const cleaned = await getQueue(queueName).clean(
+      grace,
+      limit,
+      type === 'waiting' ? 'wait' : type
+    );
+    return cleaned.length;
+  },
+
+  async pauseQueue(queueName) {
+    await getQueue(queueName).pause();
+  },
+
+  async resumeQueue(queueName) {
+    await getQueue(queueName).resume();
+  },
+
+  async close() {
+    for (const [name, worker] of workers.entries()) {
+      await worker.close();
+      logger.info('Worker closed', { queueName: name });
+    }
+
+    for (const [name, queue] of queues.entries()) {
+      await queue.close();
+      logger.info('Queue closed', { queueName: name });
+    }
+
+    await redis.quit();
+
+    workers.clear();
+    queues.clear();
+  },
+};
+
+/**
+ * Get Redis connection health
+ */
+export async function getRedisHealth(): Promise<{
+  connected: boolean;
+  error?: string;
+}> {
+  try {
+    await redis.ping();
+    return { connected: true };
+  } catch (error) {
+    logger.error('Redis health check failed', { error });
+    return {
+      connected: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -0,0 +1,95 @@
+import type { JobData } from '../../types/external';
+
+export type QueueBackendName = 'redis' | 'postgres';
+
+// Job states a queue can be asked to list
+export type JobState =
+  | 'waiting'
+  | 'prioritized'
+  | 'delayed'
+  | 'paused'
+  | 'active'
+  | 'completed'
+  | 'failed';
+
+export interface AddJobOptions {
+  delay?: number;
+  priority?: number; // Lower runs first; 0 (the default) runs before any prioritized job
+  attempts?: number;
+  removeOnComplete?: number;
+  removeOnFail?: number;
+  jobId?: string; // A second job with the same id is ignored
+}
+
+export interface WorkerOptions {
+  concurrency?: number;
+  limiter?: {
+    max: number;
+    duration: number;
+  };
+}
+
+export interface QueueStats {
+  waiting: number;
+  active: number;
+  completed: number;
+  failed: number;
+  delayed: number;
+}
+
+/**
+ * A job as job processors see it, whichever backend stored it
+ */
+export interface QueuedJob<T extends JobData = JobData> {
+  id?: string;
+  data: T;
+  attemptsMade: number;
+  opts: { attempts?: number };
+  remove(): Promise<void>;
+}
+
+export type JobProcessor<T extends JobData> = (job: QueuedJob<T>) => Promise<unknown>;
+
+/**
+ * The parts of a queue that routes use directly
+ */
+export interface JobQueue<T extends JobData = JobData> {
+  add(name: string, data: T, options?: AddJobOptions): Promise<QueuedJob<T>>;
+  getJobs(types: JobState[], start?: number, end?: number): Promise<QueuedJob<T>[]>;
+}
+
+export interface QueueWorker {
+  close(): Promise<void>;
+}
+
+/**
+ * Where jobs are stored and how workers pick them up. Both backends share the retry,
+ * backoff and priority semantics of BullMQ.
+ */
+export interface QueueBackend {
+  readonly name: QueueBackendName;
+  getQueue<T extends JobData>(queueName: string): JobQueue<T>;
+  addJob<T extends JobData>(
+    queueName: string,
+    data: T,
+    options?: AddJobOptions
+  ): Promise<QueuedJob<T>>;
+  createWorker<T extends JobData>(
+    queueName: string,
+    processor: JobProcessor<T>,
+    options?: WorkerOptions
+  ): QueueWorker;
+  getQueueStats(queueName: string): Promise<QueueStats>;
+  getJobs<T extends JobData>(queueName: string, states: JobState[]): Promise<QueuedJob<T>[]>;
+  getJob<T extends JobData>(queueName: string, jobId: string): Promise<QueuedJob<T> | null>;
+  retryJob(queueName: string, jobId: string): Promise<boolean>;
+  cleanQueue(
+    queueName: string,
+    grace: number,
+    limit: number,
+    type: 'completed' | 'failed' | 'active' | 'waiting'
+  ): Promise<number>;
+  pauseQueue(queueName: string): Promise<void>;
+  resumeQueue(queueName: string): Promise<void>;
+  close(): Promise<void>;
+}
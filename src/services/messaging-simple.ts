@@ -1,6 +1,16 @@
 import type { RequestChannel } from '@prisma/client';
 import { logger } from '../lib/logger';
 import { prisma } from '../lib/prisma';
+import { scheduleFollowUpSequence } from './follow-ups';
+import {
+  debitRequestCredits,
+  getInsufficientCreditsMessage,
+  refundRequestCredits,
+  reserveRequestCredits,
+} from './credits';
+import { sendMessage, type OutboundMessage } from './providers';
+import { renderTemplate } from '../lib/template-engine';
+import { withVariableAliases } from '../components/dashboard/customers/data/personalizationVariables';
 
 // Simple direct messaging service - no job queue complexity
 export interface SendMessageParams {
@@ -21,89 +31,19 @@ export interface SendMessageResult {
   error?: string;
 }
 
-// Direct SMS sending via Twilio
-export async function sendSMS(params: SendMessageParams): Promise<SendMessageResult> {
-  try {
-    const twilio = require('twilio');
-    const client = twilio(process.env.TWILIO_ACCOUNT_SID, process.env.TWILIO_AUTH_TOKEN);
-
-    const message = await client.messages.create({
-      to: params.contactInfo,
-      from: process.env.TWILIO_PHONE_NUMBER,
-      body: params.content,
-    });
-
-    // Update request status immediately
-    await prisma.reviewRequest.update({
-      where: { id: params.reviewRequestId },
-      data: {
-        status: 'SENT',
-        sentAt: new Date(),
-        externalId: message.sid,
-      },
-    });
-
-    // Log event
-    await prisma.event.create({
-      data: {
-        businessId: params.businessId,
-        reviewRequestId: params.reviewRequestId,
-        type: 'REQUEST_SENT',
-        source: 'twilio',
-        description: `SMS sent to ${params.contactInfo}`,
-        metadata: { messageSid: message.sid },
-      },
-    });
-
-    logger.info('SMS sent successfully', {
-      requestId: params.reviewRequestId,
-      messageSid: message.sid,
-      phone: params.contactInfo,
-    });
-
-    return {
-      success: true,
-      messageId: message.sid,
-    };
-  } catch (error) {
-    logger.error('Failed to send SMS', {
-      requestId: params.reviewRequestId,
-      error: error.message,
-      phone: params.contactInfo,
-    });
-
-    // Update request status with error
-    await prisma.reviewRequest.update({
-      where: { id: params.reviewRequestId },
-      data: {
-        status: 'FAILED',
-        errorMessage: error.message,
-        retryCount: { increment: 1 },
-      },
-    });
+// Send through the configured provider and record the outcome on the request
+async function deliverMessage(
+  params: SendMessageParams,
+  message: OutboundMessage
+): Promise<SendMessageResult> {
+  const label = params.channel === 'SMS' ? 'SMS' : 'Email';
 
-    return {
-      success: false,
-      error: error.message,
-    };
-  }
-}
-
-// Direct email sending via SendGrid
-export async function sendEmail(params: SendMessageParams): Promise<SendMessageResult> {
   try {
-    const sgMail = require('@sendgrid/mail');
-    sgMail.setApiKey(process.env.SENDGRID_API_KEY);
-
-    const msg = {
-      to: params.contactInfo,
-      from: process.env.SENDGRID_FROM_EMAIL,
-      subject: params.subject || 'Share your experience with us',
-      html: params.content,
-    };
-
-    const response = await sgMail.send(msg);
-    const messageId = response[0]?.headers?.['x-message-id'] || 'unknown';
+    const result = await sendMessage(message);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+    const { provider, messageId } = result.data;
 
     // Update request status immediately
     await prisma.reviewRequest.update({
@@ -114,6 +54,9 @@ export async function sendEmail(params: SendMessageParams): Promise<SendMessageR
         externalId: messageId,
       },
     });
+    await debitRequestCredits(params.businessId, params.reviewRequestId, {
+      content: params.content,
+    });
 
     // Log event
     await prisma.event.create({
@@ -121,16 +64,18 @@ export async function sendEmail(params: SendMessageParams): Promise<SendMessageR
         businessId: params.businessId,
         reviewRequestId: params.reviewRequestId,
         type: 'REQUEST_SENT',
-        source: 'sendgrid',
-        description: `Email sent to ${params.contactInfo}`,
-        metadata: { messageId },
+        source: provider,
+        description: `${label} sent to ${params.contactInfo}`,
+        metadata: { messageId, provider },
       },
     });
 
-    logger.info('Email sent successfully', {
+    await scheduleFollowUpSequence(params.reviewRequestId);
+
+    logger.info(`${label} sent successfully`, {
       requestId: params.reviewRequestId,
       messageId,
-      email: params.contactInfo,
+      provider,
     });
 
     return {
@@ -138,10 +83,11 @@ export async function sendEmail(params: SendMessageParams): Promise<SendMessageR
       messageId,
     };
   } catch (error) {
-    logger.error('Failed to send email', {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error(`Failed to send ${label.toLowerCase()}`, {
       requestId: params.reviewRequestId,
-      error: error.message,
-      email: params.contactInfo,
+      error: errorMessage,
     });
 
     // Update request status with error
@@ -149,18 +95,46 @@ export async function sendEmail(params: SendMessageParams): Promise<SendMessageR
       where: { id: params.reviewRequestId },
       data: {
         status: 'FAILED',
-        errorMessage: error.message,
+        errorMessage,
         retryCount: { increment: 1 },
       },
     });
+    await refundRequestCredits(
+      params.businessId,
+      [params.reviewRequestId],
+      `Send failed: ${errorMessage}`
+    );
 
     return {
       success: false,
-      error: error.message,
+      error: errorMessage,
     };
   }
 }
 
+// Direct SMS sending via the SMS provider
+export async function sendSMS(params: SendMessageParams): Promise<SendMessageResult> {
+  return deliverMessage(params, {
+    channel: 'SMS',
+    to: params.contactInfo,
+    body: params.content,
+    businessId: params.businessId,
+    requestId: params.reviewRequestId,
+  });
+}
+
+// Direct email sending via the email provider
+export async function sendEmail(params: SendMessageParams): Promise<SendMessageResult> {
+  return deliverMessage(params, {
+    channel: 'EMAIL',
+    to: params.contactInfo,
+    subject: params.subject || 'Share your experience with us',
+    html: params.content,
+    businessId: params.businessId,
+    requestId: params.reviewRequestId,
+  });
+}
+
 // Simple message processing - called directly from API
 export async function processReviewRequest(reviewRequestId: string): Promise<SendMessageResult> {
   try {
@@ -215,6 +189,7 @@ export async function processReviewRequest(reviewRequestId: string): Promise<Sen
           errorMessage: `Contact suppressed: ${suppression.reason}`,
         },
       });
+      await refundRequestCredits(request.businessId, [reviewRequestId], 'Contact suppressed');
 
       return {
         success: false,
@@ -222,6 +197,19 @@ export async function processReviewRequest(reviewRequestId: string): Promise<Sen
       };
     }
 
+    const credits = await reserveRequestCredits(request.businessId, reviewRequestId);
+    if (!credits.reserved) {
+      await prisma.reviewRequest.update({
+        where: { id: reviewRequestId },
+        data: { status: 'FAILED', errorMessage: 'Insufficient credits' },
+      });
+
+      return {
+        success: false,
+        error: getInsufficientCreditsMessage(request.channel, credits),
+      };
+    }
+
     // Send the message
     const params: SendMessageParams = {
       reviewRequestId: request.id,
@@ -264,10 +252,15 @@ export function renderMessageTemplate(
     trackingUrl: string;
   }
 ): string {
-  return template
-    .replace(/\{\{firstName\}\}/g, data.firstName)
-    .replace(/\{\{lastName\}\}/g, data.lastName || '')
-    .replace(/\{\{businessName\}\}/g, data.businessName)
-    .replace(/\{\{reviewUrl\}\}/g, data.trackingUrl) // Use tracking URL
-    .replace(/\{\{trackingUrl\}\}/g, data.trackingUrl);
+  return renderTemplate(
+    template,
+    withVariableAliases({
+      firstName: data.firstName,
+      lastName: data.lastName,
+      customerName: `${data.firstName} ${data.lastName || ''}`.trim(),
+      businessName: data.businessName,
+      reviewUrl: data.trackingUrl, // Use tracking URL
+      trackingUrl: data.trackingUrl,
+    })
+  );
 }
@@ -1,6 +1,8 @@
 import type { RequestChannel } from '@prisma/client';
 import { logger } from '../lib/logger';
 import { generateUnsubscribeUrl } from '../lib/utils';
+import { renderTemplate, TemplateSyntaxError, type TemplateValues } from '../lib/template-engine';
+import { withVariableAliases } from '../components/dashboard/customers/data/personalizationVariables';
 import type { Result } from '../types/database';
 import sgMail from '@sendgrid/mail';
 
@@ -13,15 +15,33 @@ export interface PersonalizationData {
   customer: {
     firstName: string;
     lastName?: string;
+    email?: string;
+    phone?: string;
   };
   business: {
     name: string;
+    phone?: string;
+    website?: string;
   };
   reviewUrl: string;
   trackingUrl: string;
   unsubscribeUrl?: string;
 }
 
+// Customer and business records as loaded from the database
+export interface PersonalizationCustomer {
+  firstName: string;
+  lastName?: string | null;
+  email?: string | null;
+  phone?: string | null;
+}
+
+export interface PersonalizationBusiness {
+  name: string;
+  phone?: string | null;
+  website?: string | null;
+}
+
 export interface RenderedMessage {
   content: string;
   subject?: string;
@@ -65,6 +85,7 @@ export interface SendGridEmailData {
     open_tracking?: { enable: boolean; substitution_tag?: string };
   };
   custom_args?: Record<string, string>;
+  headers?: Record<string, string>;
 }
 
 export interface SendGridResponse {
@@ -194,19 +215,25 @@ const DEFAULT_EMAIL_TEMPLATE = `<!DOCTYPE html>
 const DEFAULT_EMAIL_SUBJECT = 'Share your experience with {{businessName}}';
 
 /**
- * Template variable replacements
+ * Template variable values for a recipient, keyed by registry variable and alias
  */
-function replaceVariables(template: string, data: PersonalizationData): string {
-  const { customer, business, reviewUrl, trackingUrl, unsubscribeUrl } = data;
-
-  return template
-    .replace(/\{\{firstName\}\}/g, customer.firstName)
-    .replace(/\{\{lastName\}\}/g, customer.lastName || '')
-    .replace(/\{\{fullName\}\}/g, `${customer.firstName} ${customer.lastName || ''}`.trim())
-    .replace(/\{\{businessName\}\}/g, business.name)
-    .replace(/\{\{reviewUrl\}\}/g, reviewUrl)
-    .replace(/\{\{trackingUrl\}\}/g, trackingUrl)
-    .replace(/\{\{unsubscribeUrl\}\}/g, unsubscribeUrl || '#');
+export function templateValuesFor(data: PersonalizationData): TemplateValues {
+  const { customer, business } = data;
+
+  return withVariableAliases({
+    customerName: `${customer.firstName} ${customer.lastName || ''}`.trim(),
+    firstName: customer.firstName,
+    lastName: customer.lastName,
+    customerEmail: customer.email,
+    customerPhone: customer.phone,
+    businessName: business.name,
+    businessPhone: business.phone,
+    businessWebsite: business.website,
+    reviewUrl: data.reviewUrl,
+    trackingUrl: data.trackingUrl,
+    unsubscribeUrl: data.unsubscribeUrl || '#',
+    currentDate: new Date(),
+  });
 }
 
 /**
@@ -235,9 +262,12 @@ export async function renderMessage(
 
     const subject = template.subject || (channel === 'EMAIL' ? DEFAULT_EMAIL_SUBJECT : undefined);
 
-    // Render content
-    const renderedContent = replaceVariables(messageContent, data);
-    const renderedSubject = subject ? replaceVariables(subject, data) : undefined;
+    // Render content; email bodies are HTML so values are escaped, subjects and SMS are plain text
+    const values = templateValuesFor(data);
+    const renderedContent = renderTemplate(messageContent, values, {
+      escape: channel === 'EMAIL' ? 'html' : 'none',
+    });
+    const renderedSubject = subject ? renderTemplate(subject, values) : undefined;
 
     // Validate rendered message length for SMS
     if (channel === 'SMS') {
@@ -266,6 +296,10 @@ export async function renderMessage(
       },
     };
   } catch (error) {
+    if (error instanceof TemplateSyntaxError) {
+      return { success: false, error: `Invalid message template: ${error.message}` };
+    }
+
     logger.error('Failed to render message template', {
       channel,
       customer: data.customer.firstName,
@@ -283,8 +317,8 @@ export async function renderMessage(
  * Create personalization data from database records
  */
 export function createPersonalizationData(
-  customer: { firstName: string; lastName?: string | null },
-  business: { name: string },
+  customer: PersonalizationCustomer,
+  business: PersonalizationBusiness,
   reviewUrl: string,
   trackingUrl: string,
   trackingUuid: string,
@@ -294,9 +328,13 @@ export function createPersonalizationData(
     customer: {
       firstName: customer.firstName,
       lastName: customer.lastName || undefined,
+      email: customer.email || undefined,
+      phone: customer.phone || undefined,
     },
     business: {
       name: business.name,
+      phone: business.phone || undefined,
+      website: business.website || undefined,
     },
     reviewUrl,
     trackingUrl,
@@ -395,6 +433,17 @@ export function extractTextFromHtml(html: string): string {
     .trim();
 }
 
+/**
+ * List-Unsubscribe headers for one-click unsubscribe (RFC 2369 / RFC 8058),
+ * required by Gmail and Yahoo for bulk senders
+ */
+export function getListUnsubscribeHeaders(unsubscribeUrl: string): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${unsubscribeUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+}
+
 /**
  * Get default templates for a channel
  */
@@ -692,6 +741,7 @@ export class SendGridService {
     htmlContent: string;
     textContent?: string;
     customArgs?: Record<string, string>;
+    headers?: Record<string, string>;
     businessId?: string;
     requestId?: string;
   }): Promise<EmailDeliveryResult> {
@@ -806,6 +856,10 @@ export class SendGridService {
       });
     }
 
+    if (emailData.headers && Object.keys(emailData.headers).length > 0) {
+      sendGridEmail.headers = emailData.headers;
+    }
+
     // Add reply-to if configured
     if (this.config.replyTo) {
       sendGridEmail.reply_to = {
@@ -939,6 +993,9 @@ export class SendGridService {
           trackingUrl: renderedMessage.trackingUrl,
           unsubscribeUrl: renderedMessage.unsubscribeUrl || '',
         },
+        headers: renderedMessage.unsubscribeUrl
+          ? getListUnsubscribeHeaders(renderedMessage.unsubscribeUrl)
+          : undefined,
         businessId,
         requestId,
       });
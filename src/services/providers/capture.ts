@@ -0,0 +1,66 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { prisma } from '../../lib/prisma';
+import { logger } from '../../lib/logger';
+import { extractTextFromHtml } from '../messaging';
+import type { MessageProvider } from './types';
+
+/**
+ * Records messages in the outbox_messages table instead of sending them, and also writes
+ * each one to MESSAGE_CAPTURE_DIR as JSON when that is set. For development, CI and demos.
+ */
+export const captureProvider: MessageProvider = {
+  name: 'capture',
+  channels: ['EMAIL', 'SMS'],
+
+  async send(message) {
+    try {
+      const captured = await prisma.outboxMessage.create({
+        data: {
+          businessId: message.businessId,
+          reviewRequestId: message.requestId,
+          channel: message.channel,
+          recipient: message.to,
+          sender:
+            message.channel === 'EMAIL'
+              ? process.env.SENDGRID_FROM_EMAIL || process.env.SMTP_FROM
+              : process.env.TWILIO_PHONE_NUMBER,
+          subject: message.channel === 'EMAIL' ? message.subject : null,
+          content: message.channel === 'EMAIL' ? message.html : message.body,
+          textContent:
+            message.channel === 'EMAIL'
+              ? (message.text ?? extractTextFromHtml(message.html))
+              : null,
+          headers: message.channel === 'EMAIL' ? message.headers : undefined,
+          metadata: message.channel === 'EMAIL' ? message.customArgs : undefined,
+        },
+      });
+
+      const captureDir = process.env.MESSAGE_CAPTURE_DIR;
+      if (captureDir) {
+        await mkdir(captureDir, { recursive: true });
+        await writeFile(
+          path.join(
+            captureDir,
+            `${captured.createdAt.toISOString().replace(/[:.]/g, '-')}-${captured.id}.json`
+          ),
+          JSON.stringify(captured, null, 2)
+        );
+      }
+
+      logger.info('Message captured to outbox', {
+        outboxMessageId: captured.id,
+        channel: message.channel,
+        requestId: message.requestId,
+      });
+
+      return {
+        success: true,
+        data: { provider: 'capture', messageId: `capture_${captured.id}`, status: 'captured' },
+      };
+    } catch (error) {
+      logger.error('Failed to capture message', { requestId: message.requestId, error });
+      return { success: false, error: 'Failed to capture message' };
+    }
+  },
+};
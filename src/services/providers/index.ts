@@ -0,0 +1,139 @@
+import type { RequestChannel } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { logger } from '../../lib/logger';
+import { getListUnsubscribeHeaders, type RenderedMessage } from '../messaging';
+import type { Result } from '../../types/database';
+import { captureProvider } from './capture';
+import { sendGridProvider } from './sendgrid';
+import { smtpProvider } from './smtp';
+import { twilioProvider } from './twilio';
+import {
+  CHANNEL_PROVIDERS,
+  type MessageProvider,
+  type MessageProviderName,
+  type MessagingProviderSettings,
+  type OutboundMessage,
+  type SentMessage,
+} from './types';
+
+export * from './types';
+export { buildMimeMessage, getSmtpConfig } from './smtp';
+
+const PROVIDERS: Record<MessageProviderName, MessageProvider> = {
+  sendgrid: sendGridProvider,
+  twilio: twilioProvider,
+  smtp: smtpProvider,
+  capture: captureProvider,
+};
+
+const supports = (channel: RequestChannel, name: unknown): name is MessageProviderName =>
+  typeof name === 'string' &&
+  (CHANNEL_PROVIDERS[channel] ?? []).includes(name as MessageProviderName);
+
+/**
+ * Pick the provider for a channel: business override, then EMAIL_PROVIDER / SMS_PROVIDER,
+ * then capture in tests, then the real service when it is configured. Production never
+ * silently falls back to capture.
+ */
+export function resolveProviderName(
+  channel: RequestChannel,
+  options: { env?: NodeJS.ProcessEnv; businessSettings?: unknown } = {}
+): MessageProviderName {
+  const env = options.env ?? process.env;
+  const settings = (options.businessSettings ?? {}) as MessagingProviderSettings;
+
+  const businessChoice = channel === 'EMAIL' ? settings.email : settings.sms;
+  if (supports(channel, businessChoice)) {
+    return businessChoice;
+  }
+
+  const envChoice = channel === 'EMAIL' ? env.EMAIL_PROVIDER : env.SMS_PROVIDER;
+  if (envChoice) {
+    if (supports(channel, envChoice)) {
+      return envChoice;
+    }
+    logger.warn('Ignoring unsupported message provider', { channel, provider: envChoice });
+  }
+
+  if (env.NODE_ENV === 'test') {
+    return 'capture';
+  }
+
+  const configured = channel === 'EMAIL' ? !!env.SENDGRID_API_KEY : !!env.TWILIO_ACCOUNT_SID;
+  const live: MessageProviderName = channel === 'EMAIL' ? 'sendgrid' : 'twilio';
+  return configured || env.NODE_ENV === 'production' ? live : 'capture';
+}
+
+/**
+ * Provider for a channel, honouring the business's messagingProviders override if any
+ */
+export async function getMessageProvider(
+  channel: RequestChannel,
+  businessId?: string
+): Promise<MessageProvider> {
+  let businessSettings: unknown;
+
+  if (businessId) {
+    const business = await prisma.business.findUnique({
+      where: { id: businessId },
+      select: { messagingProviders: true },
+    });
+    businessSettings = business?.messagingProviders ?? undefined;
+  }
+
+  return PROVIDERS[resolveProviderName(channel, { businessSettings })];
+}
+
+/**
+ * Send through whichever provider is selected for the message's channel and business
+ */
+export async function sendMessage(message: OutboundMessage): Promise<Result<SentMessage>> {
+  try {
+    const provider = await getMessageProvider(message.channel, message.businessId);
+    return await provider.send(message);
+  } catch (error) {
+    logger.error('Message provider failed', {
+      channel: message.channel,
+      requestId: message.requestId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Message sending failed' };
+  }
+}
+
+/**
+ * Send a rendered review request on either channel, with tracking args and
+ * one-click unsubscribe headers for email
+ */
+export function sendReviewRequestMessage(params: {
+  channel: RequestChannel;
+  to: string;
+  toName?: string;
+  rendered: RenderedMessage;
+  businessId: string;
+  requestId: string;
+}): Promise<Result<SentMessage>> {
+  const { channel, to, toName, rendered, businessId, requestId } = params;
+
+  if (channel === 'SMS') {
+    return sendMessage({ channel, to, body: rendered.content, businessId, requestId });
+  }
+
+  return sendMessage({
+    channel,
+    to,
+    toName,
+    subject: rendered.subject || 'Share your experience with us',
+    html: rendered.content,
+    customArgs: {
+      type: 'review_request',
+      trackingUrl: rendered.trackingUrl,
+      unsubscribeUrl: rendered.unsubscribeUrl || '',
+    },
+    headers: rendered.unsubscribeUrl
+      ? getListUnsubscribeHeaders(rendered.unsubscribeUrl)
+      : undefined,
+    businessId,
+    requestId,
+  });
+}
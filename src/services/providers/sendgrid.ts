@@ -0,0 +1,36 @@
+import { sendGridService, extractTextFromHtml } from '../messaging';
+import type { MessageProvider } from './types';
+
+/**
+ * Email through SendGrid, reusing SendGridService's validation, rate limits and retries
+ */
+export const sendGridProvider: MessageProvider = {
+  name: 'sendgrid',
+  channels: ['EMAIL'],
+
+  async send(message) {
+    if (message.channel !== 'EMAIL') {
+      return { success: false, error: 'SendGrid only sends email' };
+    }
+
+    const result = await sendGridService.sendEmail({
+      to: { email: message.to, name: message.toName },
+      subject: message.subject,
+      htmlContent: message.html,
+      textContent: message.text ?? extractTextFromHtml(message.html),
+      customArgs: message.customArgs,
+      headers: message.headers,
+      businessId: message.businessId,
+      requestId: message.requestId,
+    });
+
+    if (!result.success) {
+      return { success: false, error: result.error || 'Email sending failed' };
+    }
+
+    return {
+      success: true,
+      data: { provider: 'sendgrid', messageId: result.messageId || 'unknown' },
+    };
+  },
+};
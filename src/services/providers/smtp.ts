@@ -0,0 +1,243 @@
+import net from 'net';
+import tls from 'tls';
+import { randomUUID } from 'crypto';
+import { logger } from '../../lib/logger';
+import { extractTextFromHtml } from '../messaging';
+import type { MessageProvider, OutboundEmail } from './types';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS, e.g. port 465
+  user?: string;
+  pass?: string;
+  from: string;
+  fromName?: string;
+}
+
+interface SmtpReply {
+  code: number;
+  message: string;
+}
+
+const SMTP_TIMEOUT_MS = 15000;
+
+/**
+ * SMTP settings from the environment, defaulting to a local Mailpit on port 1025
+ */
+export function getSmtpConfig(env: NodeJS.ProcessEnv = process.env): SmtpConfig {
+  return {
+    host: env.SMTP_HOST || 'localhost',
+    port: Number(env.SMTP_PORT || 1025),
+    secure: env.SMTP_SECURE === 'true',
+    user: env.SMTP_USER || undefined,
+    pass: env.SMTP_PASS || undefined,
+    from: env.SMTP_FROM || env.SENDGRID_FROM_EMAIL || 'noreply@localhost',
+    fromName: env.SMTP_FROM_NAME || env.SENDGRID_FROM_NAME || undefined,
+  };
+}
+
+// RFC 2047 encoded-word for anything outside printable ASCII (including CR/LF)
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+
+const formatAddress = (email: string, name?: string) =>
+  name ? `${encodeHeader(`"${name.replace(/"/g, '')}"`)} <${email}>` : `<${email}>`;
+
+const base64Lines = (value: string) =>
+  Buffer.from(value)
+    .toString('base64')
+    .replace(/.{1,76}/g, '$&\r\n')
+    .trimEnd();
+
+/**
+ * Build a multipart/alternative message with base64 text and HTML parts
+ */
+export function buildMimeMessage(
+  email: OutboundEmail,
+  options: { from: string; fromName?: string; messageId: string; date?: Date }
+): string {
+  const boundary = `=_rr_${options.messageId.replace(/\W/g, '')}`;
+  const customHeaders = Object.entries(email.headers || {}).map(
+    ([name, value]) => [name, value.replace(/[\r\n]+/g, ' ')] as const
+  );
+
+  const headers: Array<readonly [string, string]> = [
+    ['From', formatAddress(options.from, options.fromName)],
+    ['To', formatAddress(email.to, email.toName)],
+    ['Subject', encodeHeader(email.subject)],
+    ['Date', (options.date ?? new Date()).toUTCString()],
+    ['Message-ID', `<${options.messageId}>`],
+    ['MIME-Version', '1.0'],
+    ...(email.requestId ? [['X-Review-Request-Id', email.requestId] as const] : []),
+    ...customHeaders,
+    ['Content-Type', `multipart/alternative; boundary="${boundary}"`],
+  ];
+
+  const part = (type: string, content: string) =>
+    [
+      `--${boundary}`,
+      `Content-Type: ${type}; charset=utf-8`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64Lines(content),
+    ].join('\r\n');
+
+  return [
+    ...headers.map(([name, value]) => `${name}: ${value}`),
+    '',
+    part('text/plain', email.text ?? extractTextFromHtml(email.html)),
+    part('text/html', email.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+/**
+ * Line-oriented reader/writer over one SMTP connection
+ */
+class SmtpSession {
+  private buffer = '';
+  private lines: string[] = [];
+  private waiter: (() => void) | null = null;
+  private error: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    socket.setEncoding('utf8');
+    socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+      socket.destroy(new Error('SMTP connection timed out'))
+    );
+    socket.on('data', (chunk: string) => {
+      const parts = (this.buffer + chunk).split('\r\n');
+      this.buffer = parts.pop() ?? '';
+      this.lines.push(...parts);
+      this.wake();
+    });
+    socket.on('error', error => {
+      this.error = error;
+      this.wake();
+    });
+    socket.on('close', () => {
+      if (!this.error) this.error = new Error('SMTP connection closed');
+      this.wake();
+    });
+  }
+
+  private wake() {
+    const waiter = this.waiter;
+    this.waiter = null;
+    waiter?.();
+  }
+
+  private async readReply(): Promise<SmtpReply> {
+    const text: string[] = [];
+
+    for (;;) {
+      const line = this.lines.shift();
+      if (line === undefined) {
+        if (this.error) throw this.error;
+        await new Promise<void>(resolve => (this.waiter = resolve));
+        continue;
+      }
+
+      text.push(line.slice(4));
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line[3] !== '-') {
+        return { code: Number(line.slice(0, 3)), message: text.join(' ') };
+      }
+    }
+  }
+
+  async command(line: string | null, expected: number[]): Promise<SmtpReply> {
+    if (line !== null) {
+      this.socket.write(`${line}\r\n`);
+    }
+
+    const reply = await this.readReply();
+    if (!expected.includes(reply.code)) {
+      // Only the verb - AUTH lines carry credentials
+      const verb = line === null ? 'greeting' : line.split(/\s/)[0];
+      throw new Error(`SMTP ${verb} failed: ${reply.code} ${reply.message}`);
+    }
+    return reply;
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () =>
+          resolve(socket)
+        )
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+async function deliver(config: SmtpConfig, recipient: string, mime: string): Promise<void> {
+  const session = new SmtpSession(await connect(config));
+
+  try {
+    await session.command(null, [220]);
+    await session.command('EHLO review-runner', [250]);
+    if (config.user && config.pass) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.pass}`).toString('base64');
+      await session.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+    await session.command(`MAIL FROM:<${config.from}>`, [250]);
+    await session.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    await session.command('DATA', [354]);
+    // Dot-stuff lines that start with "." so they aren't read as the end of DATA
+    await session.command(`${mime.replace(/^\./gm, '..')}\r\n.`, [250]);
+    await session.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
+
+/**
+ * Email over plain SMTP - Mailpit locally, or any relay that accepts AUTH PLAIN
+ */
+export const smtpProvider: MessageProvider = {
+  name: 'smtp',
+  channels: ['EMAIL'],
+
+  async send(message) {
+    if (message.channel !== 'EMAIL') {
+      return { success: false, error: 'SMTP only sends email' };
+    }
+    if (/[\s<>]/.test(message.to)) {
+      return { success: false, error: 'Invalid recipient email address' };
+    }
+
+    const config = getSmtpConfig();
+    const messageId = `${randomUUID()}@${config.from.split('@')[1] || 'localhost'}`;
+
+    try {
+      await deliver(
+        config,
+        message.to,
+        buildMimeMessage(message, { from: config.from, fromName: config.fromName, messageId })
+      );
+
+      logger.info('Email sent via SMTP', {
+        host: config.host,
+        messageId,
+        requestId: message.requestId,
+      });
+      return { success: true, data: { provider: 'smtp', messageId } };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown SMTP error';
+      logger.error('Failed to send email via SMTP', {
+        host: config.host,
+        port: config.port,
+        requestId: message.requestId,
+        error: reason,
+      });
+      return { success: false, error: `Email sending failed: ${reason}` };
+    }
+  },
+};
@@ -0,0 +1,38 @@
+import { sendSMS } from '../twilio';
+import type { MessageProvider } from './types';
+
+/**
+ * SMS through Twilio. Delivery updates and STOP replies come back through /api/webhooks/twilio
+ */
+export const twilioProvider: MessageProvider = {
+  name: 'twilio',
+  channels: ['SMS'],
+
+  async send(message) {
+    if (message.channel !== 'SMS') {
+      return { success: false, error: 'Twilio only sends SMS' };
+    }
+
+    const result = await sendSMS(
+      {
+        to: message.to,
+        body: message.body,
+        statusCallback:
+          message.statusCallback ??
+          (process.env.NEXT_PUBLIC_APP_URL
+            ? `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/twilio`
+            : undefined),
+      },
+      { requestId: message.requestId, businessId: message.businessId }
+    );
+
+    if (!result.success) {
+      return result;
+    }
+
+    return {
+      success: true,
+      data: { provider: 'twilio', messageId: result.data.sid, status: result.data.status },
+    };
+  },
+};
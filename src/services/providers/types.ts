@@ -0,0 +1,56 @@
+import type { RequestChannel } from '@prisma/client';
+import type { Result } from '../../types/database';
+
+export type MessageProviderName = 'sendgrid' | 'twilio' | 'smtp' | 'capture';
+
+// Which providers can carry each channel
+export const CHANNEL_PROVIDERS: Record<RequestChannel, readonly MessageProviderName[]> = {
+  EMAIL: ['sendgrid', 'smtp', 'capture'],
+  SMS: ['twilio', 'capture'],
+};
+
+// Per-business override stored in Business.messagingProviders
+export interface MessagingProviderSettings {
+  email?: MessageProviderName;
+  sms?: MessageProviderName;
+}
+
+interface MessageContext {
+  businessId?: string;
+  requestId?: string;
+}
+
+export interface OutboundEmail extends MessageContext {
+  channel: 'EMAIL';
+  to: string;
+  toName?: string;
+  subject: string;
+  html: string;
+  text?: string;
+  headers?: Record<string, string>;
+  customArgs?: Record<string, string>;
+}
+
+export interface OutboundSms extends MessageContext {
+  channel: 'SMS';
+  to: string;
+  body: string;
+  statusCallback?: string;
+}
+
+export type OutboundMessage = OutboundEmail | OutboundSms;
+
+export interface SentMessage {
+  provider: MessageProviderName;
+  messageId: string;
+  status?: string;
+}
+
+/**
+ * A transport that can deliver email and/or SMS
+ */
+export interface MessageProvider {
+  readonly name: MessageProviderName;
+  readonly channels: readonly RequestChannel[];
+  send(message: OutboundMessage): Promise<Result<SentMessage>>;
+}
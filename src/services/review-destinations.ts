@@ -0,0 +1,194 @@
+import type { Prisma, PrismaClient, ReviewDestination } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { chooseReviewDestination, type DestinationChoice } from '../lib/review-destinations';
+import type {
+  CreateReviewDestinationInput,
+  UpdateReviewDestinationInput,
+} from '../lib/validators/business';
+import type { Result } from '../types/database';
+
+type DestinationClient = PrismaClient | Prisma.TransactionClient;
+
+export interface ReviewDestinationWithUsage extends ReviewDestination {
+  requestCount: number;
+}
+
+/** Picks where each new review request sends its customer */
+export type DestinationPicker = (pinnedDestinationId?: string | null) => DestinationChoice;
+
+const REVIEW_DESTINATION_ERROR_STATUS: Record<string, number> = {
+  DESTINATION_NOT_FOUND: 404,
+};
+
+/**
+ * Split a 'CODE: message' error from this module into an API error code and HTTP status
+ */
+export function parseReviewDestinationError(error: string): {
+  code: string;
+  status: number;
+  message: string;
+} {
+  const match = /^([A-Z_]+): (.*)$/s.exec(error);
+  const code = match?.[1];
+  const status = code ? REVIEW_DESTINATION_ERROR_STATUS[code] : undefined;
+
+  if (!match || !code || !status) {
+    return { code: 'INTERNAL_ERROR', status: 500, message: error };
+  }
+
+  return { code, status, message: match[2] ?? error };
+}
+
+/**
+ * All of a business's review destinations, with how many requests used each
+ */
+export async function listReviewDestinations(
+  businessId: string
+): Promise<Result<ReviewDestinationWithUsage[]>> {
+  try {
+    const destinations = await prisma.reviewDestination.findMany({
+      where: { businessId },
+      orderBy: [{ isActive: 'desc' }, { createdAt: 'asc' }],
+      include: { _count: { select: { reviewRequests: true } } },
+    });
+
+    return {
+      success: true,
+      data: destinations.map(({ _count, ...destination }) => ({
+        ...destination,
+        requestCount: _count.reviewRequests,
+      })),
+    };
+  } catch (error) {
+    logger.error('Failed to list review destinations', { businessId, error });
+    return { success: false, error: 'Failed to load review destinations' };
+  }
+}
+
+export async function createReviewDestination(
+  businessId: string,
+  input: CreateReviewDestinationInput
+): Promise<Result<ReviewDestination>> {
+  try {
+    const destination = await prisma.reviewDestination.create({
+      data: { businessId, ...input },
+    });
+
+    logger.info('Review destination created', {
+      businessId,
+      destinationId: destination.id,
+      platform: destination.platform,
+    });
+    return { success: true, data: destination };
+  } catch (error) {
+    logger.error('Failed to create review destination', { businessId, error });
+    return { success: false, error: 'Failed to create review destination' };
+  }
+}
+
+export async function updateReviewDestination(
+  businessId: string,
+  destinationId: string,
+  input: UpdateReviewDestinationInput
+): Promise<Result<ReviewDestination>> {
+  try {
+    const { count } = await prisma.reviewDestination.updateMany({
+      where: { id: destinationId, businessId },
+      data: input,
+    });
+    if (count === 0) {
+      return { success: false, error: 'DESTINATION_NOT_FOUND: Review destination not found' };
+    }
+
+    const destination = await prisma.reviewDestination.findUniqueOrThrow({
+      where: { id: destinationId },
+    });
+    return { success: true, data: destination };
+  } catch (error) {
+    logger.error('Failed to update review destination', { businessId, destinationId, error });
+    return { success: false, error: 'Failed to update review destination' };
+  }
+}
+
+/**
+ * Delete a destination. Requests already sent keep their review URL; campaigns and
+ * templates that pinned it go back to rotating.
+ */
+export async function deleteReviewDestination(
+  businessId: string,
+  destinationId: string
+): Promise<Result<void>> {
+  try {
+    const { count } = await prisma.reviewDestination.deleteMany({
+      where: { id: destinationId, businessId },
+    });
+    if (count === 0) {
+      return { success: false, error: 'DESTINATION_NOT_FOUND: Review destination not found' };
+    }
+
+    logger.info('Review destination deleted', { businessId, destinationId });
+    return { success: true, data: undefined };
+  } catch (error) {
+    logger.error('Failed to delete review destination', { businessId, destinationId, error });
+    return { success: false, error: 'Failed to delete review destination' };
+  }
+}
+
+/**
+ * Whether a destination a campaign or template wants to pin belongs to the business
+ */
+export async function isBusinessDestination(
+  businessId: string,
+  destinationId: string,
+  client: DestinationClient = prisma
+): Promise<boolean> {
+  const count = await client.reviewDestination.count({
+    where: { id: destinationId, businessId },
+  });
+  return count > 0;
+}
+
+/**
+ * The destination new requests should pin: an explicit choice first, then the one set on
+ * their template. Null means rotate.
+ */
+export async function resolvePinnedDestination(
+  businessId: string,
+  options: { destinationId?: string | null; templateId?: string | null },
+  client: DestinationClient = prisma
+): Promise<Result<string | null>> {
+  if (options.destinationId) {
+    return (await isBusinessDestination(businessId, options.destinationId, client))
+      ? { success: true, data: options.destinationId }
+      : { success: false, error: 'DESTINATION_NOT_FOUND: Review destination not found' };
+  }
+
+  if (options.templateId) {
+    const template = await client.messageTemplate.findUnique({
+      where: { id: options.templateId },
+      select: { destinationId: true },
+    });
+    return { success: true, data: template?.destinationId ?? null };
+  }
+
+  return { success: true, data: null };
+}
+
+/**
+ * Load the business's active destinations once and return a picker for each new request
+ */
+export async function createDestinationPicker(
+  businessId: string,
+  fallbackUrl: string | null,
+  client: DestinationClient = prisma
+): Promise<DestinationPicker> {
+  const destinations = await client.reviewDestination.findMany({
+    where: { businessId, isActive: true },
+    select: { id: true, url: true, weight: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return pinnedDestinationId =>
+    chooseReviewDestination(destinations, { pinnedDestinationId, fallbackUrl });
+}
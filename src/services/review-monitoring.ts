@@ -0,0 +1,297 @@
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { googlePlacesService } from './google-places';
+import { addJobToQueue } from './job-queue';
+import type { Result } from '../types/database';
+import type { GooglePlaceDetails, MonitorReviewsJobData } from '../types/external';
+
+export const REVIEW_POLL_INTERVAL_MS =
+  Number(process.env.REVIEW_POLL_INTERVAL_MINUTES || 360) * 60 * 1000;
+export const REVIEW_ATTRIBUTION_WINDOW_MS =
+  Number(process.env.REVIEW_ATTRIBUTION_WINDOW_DAYS || 14) * 24 * 60 * 60 * 1000;
+
+// Reviews published slightly before the recorded click still count (clock skew, slow redirects)
+const CLICK_SKEW_MS = 5 * 60 * 1000;
+
+export const NO_PLACE_CONNECTED_ERROR = 'Business has no Google place connected';
+export const BUSINESS_INACTIVE_ERROR = 'Business not found or inactive';
+
+export type PlaceReview = NonNullable<GooglePlaceDetails['reviews']>[number];
+
+export interface CompletionCandidate {
+  id: string;
+  clickedAt: Date;
+  customer: { firstName: string; lastName: string | null };
+}
+
+export interface ReviewAttribution {
+  requestId: string;
+  matchedBy: 'name' | 'time_window';
+  reviewedAt: Date;
+  reviewerName?: string;
+  rating?: number;
+}
+
+export interface ReviewSyncResult {
+  reviewCount: number | null;
+  newReviewCount: number;
+  completedRequestIds: string[];
+}
+
+const normalizeName = (name: string) =>
+  name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+/**
+ * How well a Google reviewer name matches a customer: 3 for the full name, 2 for first name
+ * plus last initial ("Jane S."), 1 for a bare first name, 0 for no match
+ */
+export function scoreReviewerName(
+  reviewerName: string,
+  customer: CompletionCandidate['customer']
+): number {
+  const reviewer = normalizeName(reviewerName);
+  const [first] = normalizeName(customer.firstName);
+  const last = normalizeName(customer.lastName || '');
+
+  if (!first || reviewer[0] !== first) {
+    return 0;
+  }
+  if (reviewer.length === 1) {
+    return 1;
+  }
+
+  const reviewerLast = reviewer.slice(1);
+  if (last.length > 0 && reviewerLast.join(' ') === last.join(' ')) {
+    return 3;
+  }
+  const lastInitial = reviewerLast[reviewerLast.length - 1]?.[0];
+  return last.length > 0 && lastInitial === last[last.length - 1]?.[0] ? 2 : 0;
+}
+
+/**
+ * Match new reviews to clicked requests. A review goes to the best-scoring customer whose click
+ * falls inside the attribution window before it; ties are left alone rather than guessed. When
+ * the review count grew by exactly one review that Google didn't return, and exactly one request
+ * was clicked since the last sync, that request is credited by time window alone.
+ */
+export function attributeReviews(
+  reviews: PlaceReview[],
+  candidates: CompletionCandidate[],
+  options: { since: Date; now: Date; unseenReviewCount?: number; windowMs?: number }
+): ReviewAttribution[] {
+  const windowMs = options.windowMs ?? REVIEW_ATTRIBUTION_WINDOW_MS;
+  const claimed = new Set<string>();
+  const attributions: ReviewAttribution[] = [];
+
+  for (const review of [...reviews].sort((a, b) => a.time - b.time)) {
+    const reviewedAt = new Date(review.time * 1000);
+
+    const scored = candidates
+      .filter(
+        candidate =>
+          !claimed.has(candidate.id) &&
+          candidate.clickedAt.getTime() - CLICK_SKEW_MS <= reviewedAt.getTime() &&
+          reviewedAt.getTime() - candidate.clickedAt.getTime() <= windowMs
+      )
+      .map(candidate => ({
+        candidate,
+        score: scoreReviewerName(review.author_name, candidate.customer),
+      }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    const [best, runnerUp] = scored;
+    if (!best || (runnerUp && runnerUp.score === best.score)) {
+      continue;
+    }
+
+    claimed.add(best.candidate.id);
+    attributions.push({
+      requestId: best.candidate.id,
+      matchedBy: 'name',
+      reviewedAt,
+      reviewerName: review.author_name,
+      rating: review.rating,
+    });
+  }
+
+  if (options.unseenReviewCount === 1) {
+    const recent = candidates.filter(
+      candidate => !claimed.has(candidate.id) && candidate.clickedAt > options.since
+    );
+    if (recent.length === 1 && recent[0]) {
+      attributions.push({
+        requestId: recent[0].id,
+        matchedBy: 'time_window',
+        reviewedAt: options.now,
+      });
+    }
+  }
+
+  return attributions;
+}
+
+/**
+ * Poll the business's Google place, mark review requests whose customers left a review as
+ * COMPLETED and store the new review count. The first sync only records a baseline.
+ */
+export async function syncBusinessReviews(businessId: string): Promise<Result<ReviewSyncResult>> {
+  try {
+    const business = await prisma.business.findUnique({
+      where: { id: businessId },
+      select: { googlePlaceId: true, googleReviewCount: true, lastSyncedAt: true, isActive: true },
+    });
+
+    if (!business || !business.isActive) {
+      return { success: false, error: BUSINESS_INACTIVE_ERROR };
+    }
+    if (!business.googlePlaceId) {
+      return { success: false, error: NO_PLACE_CONNECTED_ERROR };
+    }
+
+    const place = await googlePlacesService.getPlaceDetails(business.googlePlaceId);
+    if (!place) {
+      return { success: false, error: 'Failed to fetch Google place details' };
+    }
+
+    const now = new Date();
+    const reviewCount = place.user_ratings_total ?? business.googleReviewCount;
+    let attributions: ReviewAttribution[] = [];
+    let newReviewCount = 0;
+
+    if (business.lastSyncedAt && business.googleReviewCount !== null && reviewCount !== null) {
+      const since = business.lastSyncedAt;
+      const newReviews = (place.reviews || []).filter(
+        review => review.time * 1000 > since.getTime()
+      );
+      newReviewCount = Math.max(reviewCount - business.googleReviewCount, newReviews.length);
+
+      if (newReviewCount > 0) {
+        const candidates = await prisma.reviewRequest.findMany({
+          where: {
+            businessId,
+            status: 'CLICKED',
+            completedAt: null,
+            clickedAt: { gte: new Date(since.getTime() - REVIEW_ATTRIBUTION_WINDOW_MS) },
+          },
+          select: {
+            id: true,
+            clickedAt: true,
+            customer: { select: { firstName: true, lastName: true } },
+          },
+        });
+
+        attributions = attributeReviews(
+          newReviews,
+          candidates.filter((c): c is CompletionCandidate => c.clickedAt !== null),
+          { since, now, unseenReviewCount: newReviewCount - newReviews.length }
+        );
+      }
+    }
+
+    const completedRequestIds = await prisma.$transaction(async tx => {
+      const completed: string[] = [];
+
+      for (const attribution of attributions) {
+        // Guard on status so a request that changed since the query isn't overwritten
+        const updated = await tx.reviewRequest.updateMany({
+          where: { id: attribution.requestId, businessId, status: 'CLICKED' },
+          data: { status: 'COMPLETED', completedAt: attribution.reviewedAt },
+        });
+        if (updated.count === 0) continue;
+
+        await tx.event.create({
+          data: {
+            businessId,
+            reviewRequestId: attribution.requestId,
+            type: 'REQUEST_COMPLETED',
+            source: 'google_places',
+            description:
+              attribution.matchedBy === 'name'
+                ? `Google review by ${attribution.reviewerName} matched to request`
+                : 'New Google review matched to request by click time',
+            metadata: {
+              matchedBy: attribution.matchedBy,
+              reviewerName: attribution.reviewerName,
+              rating: attribution.rating,
+              reviewedAt: attribution.reviewedAt.toISOString(),
+            },
+          },
+        });
+        completed.push(attribution.requestId);
+      }
+
+      await tx.business.update({
+        where: { id: businessId },
+        data: {
+          googleReviewCount: reviewCount,
+          googleRating: place.rating ?? undefined,
+          lastSyncedAt: now,
+        },
+      });
+
+      return completed;
+    });
+
+    logger.info('Google reviews synced', {
+      businessId,
+      reviewCount,
+      newReviewCount,
+      completed: completedRequestIds.length,
+    });
+
+    return { success: true, data: { reviewCount, newReviewCount, completedRequestIds } };
+  } catch (error) {
+    logger.error('Error syncing Google reviews', {
+      businessId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to sync Google reviews' };
+  }
+}
+
+/**
+ * Queue the next review poll for a business. Job ids are bucketed by poll slot, so repeated
+ * calls (worker restarts, reconnecting a place) collapse into one chain per business.
+ */
+export async function scheduleReviewMonitoring(
+  businessId: string,
+  delay = REVIEW_POLL_INTERVAL_MS
+): Promise<void> {
+  const slot = Math.floor((Date.now() + delay) / REVIEW_POLL_INTERVAL_MS);
+
+  await addJobToQueue<MonitorReviewsJobData>(
+    'monitor-reviews',
+    { businessId },
+    { delay, jobId: `monitor-reviews:${businessId}:${slot}` }
+  );
+}
+
+/**
+ * Start polling every active business with a Google place connected
+ */
+export async function startReviewMonitoring(): Promise<Result<{ scheduled: number }>> {
+  try {
+    const businesses = await prisma.business.findMany({
+      where: { isActive: true, googlePlaceId: { not: null } },
+      select: { id: true },
+    });
+
+    for (const business of businesses) {
+      await scheduleReviewMonitoring(business.id, 0);
+    }
+
+    return { success: true, data: { scheduled: businesses.length } };
+  } catch (error) {
+    logger.error('Error starting review monitoring', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to start review monitoring' };
+  }
+}
@@ -1,11 +1,23 @@
-import type { RequestChannel, RequestStatus } from '@prisma/client';
+import type { Prisma, RequestChannel, RequestStatus } from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
 import { prisma } from '../lib/prisma';
 import { logger, loggers } from '../lib/logger';
 import type { CreateReviewRequestInput, UpdateReviewRequestInput, Result } from '../types/database';
 import { getContactForChannel, canSendToCustomer, generateTrackingUrl } from '../lib/utils';
+import { resolveSendTime } from '../lib/sending-window';
+import {
+  dedupeCustomerIds,
+  DUPLICATE_RECIPIENT_BLOCK,
+  formatContactBlock,
+  parseContactBlock,
+  type ContactBlockCode,
+} from '../lib/contact-policy';
 import { checkSuppressions } from './suppressions';
 import { addJobToQueue } from './job-queue';
+import { getContactPolicyBlocks } from './contact-policy';
+import { createDestinationPicker, resolvePinnedDestination } from './review-destinations';
+import { getCurrentTemplateVersionId } from './template-versions';
+import { getInsufficientCreditsMessage, reserveRequestCredits } from './credits';
 
 export interface CreateReviewRequestParams {
   businessId: string;
@@ -13,8 +25,10 @@ export interface CreateReviewRequestParams {
   channel: RequestChannel;
   subject?: string;
   messageContent: string;
-  reviewUrl: string;
+  reviewUrl?: string; // Used when the business has no review destinations
   scheduledFor?: Date;
+  templateId?: string;
+  automationRuleId?: string;
 }
 
 export interface BulkCreateReviewRequestParams {
@@ -23,7 +37,7 @@ export interface BulkCreateReviewRequestParams {
   channel: RequestChannel;
   subject?: string;
   messageContent: string;
-  reviewUrl: string;
+  reviewUrl?: string;
   scheduledFor?: Date;
 }
 
@@ -31,6 +45,7 @@ export interface ReviewRequestSummary {
   id: string;
   businessId: string;
   customerId: string;
+  campaignId: string | null;
   channel: RequestChannel;
   status: RequestStatus;
   trackingUuid: string;
@@ -46,15 +61,48 @@ export interface ReviewRequestSummary {
   };
 }
 
+export interface FailedRecipient {
+  customerId: string;
+  error: string;
+  code?: ContactBlockCode; // Set when the contact policy held the customer back
+}
+
+/**
+ * Queue a created request's send, holding scheduled sends until they are due
+ */
+export async function queueReviewRequestSend(request: {
+  id: string;
+  scheduledFor: Date | null;
+}): Promise<void> {
+  const delay = (request.scheduledFor?.getTime() ?? 0) - Date.now();
+  await addJobToQueue(
+    'send-request',
+    { requestId: request.id, retryCount: 0 },
+    delay > 0 ? { delay, priority: 5 } : undefined
+  );
+}
+
 /**
- * Create a single review request with validation and suppression checking
+ * Create a single review request with validation, suppression and contact policy checking,
+ * reserving its credits. Given `tx`, the checks and the create run inside the caller's transaction and the caller
+ * queues the send with queueReviewRequestSend once it commits.
  */
 export async function createReviewRequest(
-  params: CreateReviewRequestParams
+  params: CreateReviewRequestParams,
+  tx?: Prisma.TransactionClient
 ): Promise<Result<ReviewRequestSummary>> {
   try {
-    const { businessId, customerId, channel, subject, messageContent, reviewUrl, scheduledFor } =
-      params;
+    const {
+      businessId,
+      customerId,
+      channel,
+      subject,
+      messageContent,
+      reviewUrl,
+      scheduledFor,
+      templateId,
+      automationRuleId,
+    } = params;
 
     loggers.business.reviewRequestCreated({
       requestId: 'pending',
@@ -63,8 +111,10 @@ export async function createReviewRequest(
       channel,
     });
 
+    const db = tx ?? prisma;
+
     // Verify customer exists and belongs to business
-    const customer = await prisma.customer.findFirst({
+    const customer = await db.customer.findFirst({
       where: {
         id: customerId,
         businessId,
@@ -105,7 +155,7 @@ export async function createReviewRequest(
 
     // Check suppressions
     const contact = getContactForChannel(customer, channel)!;
-    const isSupPressed = await checkSuppressions(businessId, contact, channel);
+    const isSupPressed = await checkSuppressions(businessId, contact, channel, db);
 
     if (isSupPressed.success && isSupPressed.data.isSuppressed) {
       return {
@@ -114,29 +164,64 @@ export async function createReviewRequest(
       };
     }
 
+    // Cap how often one customer is asked, across campaigns, bulk sends and automations
+    const block = (await getContactPolicyBlocks(businessId, [customerId], db)).get(customerId);
+    if (block) {
+      return { success: false, error: formatContactBlock(block) };
+    }
+
+    const business = await db.business.findUnique({
+      where: { id: businessId },
+      select: { timezone: true, sendingHours: true, googleReviewUrl: true },
+    });
+    if (!business) {
+      return { success: false, error: 'Business not found' };
+    }
+
+    // Send to the template's review destination, or rotate across the business's destinations
+    const pinnedDestination = await resolvePinnedDestination(businessId, { templateId }, db);
+    if (!pinnedDestination.success) {
+      return pinnedDestination;
+    }
+    const destination = (
+      await createDestinationPicker(businessId, reviewUrl ?? business.googleReviewUrl, db)
+    )(pinnedDestination.data);
+
+    // Move sends that fall outside business hours, quiet hours or holidays
+    const sendTime = resolveSendTime(business, scheduledFor ?? null);
+    const sendAt = sendTime.scheduledFor ?? new Date();
+    const templateVersionId = await getCurrentTemplateVersionId(templateId, db);
+
     // Generate tracking UUID and URL
     const trackingUuid = uuidv4();
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
     const trackingUrl = generateTrackingUrl(baseUrl, trackingUuid);
 
     // Create review request
-    const reviewRequest = await prisma.$transaction(async tx => {
-      const request = await tx.reviewRequest.create({
+    const insert = async (client: Prisma.TransactionClient) => {
+      const request = await client.reviewRequest.create({
         data: {
           businessId,
           customerId,
+          templateId,
+          templateVersionId,
+          automationRuleId,
+          destinationId: destination.destinationId,
           channel,
+          status: 'QUEUED',
           subject,
           messageContent,
-          reviewUrl,
+          reviewUrl: destination.url,
           trackingUuid,
           trackingUrl,
-          scheduledFor: scheduledFor || new Date(),
+          scheduledFor: sendAt,
+          rescheduleReason: sendTime.rescheduleReason,
         },
         select: {
           id: true,
           businessId: true,
           customerId: true,
+          campaignId: true,
           channel: true,
           status: true,
           trackingUuid: true,
@@ -156,7 +241,7 @@ export async function createReviewRequest(
       });
 
       // Log creation event
-      await tx.event.create({
+      await client.event.create({
         data: {
           businessId,
           reviewRequestId: request.id,
@@ -171,14 +256,27 @@ export async function createReviewRequest(
         },
       });
 
-      return request;
-    });
+      // Hold the credits it will spend; a request the balance can't cover is kept as failed
+      const credits = await reserveRequestCredits(businessId, request.id, client);
+      if (!credits.reserved) {
+        await client.reviewRequest.update({
+          where: { id: request.id },
+          data: { status: 'FAILED', errorMessage: getInsufficientCreditsMessage(channel, credits) },
+        });
+      }
 
-    // Queue for processing
-    await addJobToQueue('send-request', {
-      requestId: reviewRequest.id,
-      retryCount: 0,
-    });
+      return { request, credits };
+    };
+    const { request: reviewRequest, credits } = tx
+      ? await insert(tx)
+      : await prisma.$transaction(insert);
+    if (!credits.reserved) {
+      return { success: false, error: getInsufficientCreditsMessage(channel, credits) };
+    }
+
+    if (!tx) {
+      await queueReviewRequestSend(reviewRequest);
+    }
 
     loggers.business.reviewRequestCreated({
       requestId: reviewRequest.id,
@@ -208,7 +306,7 @@ export async function createReviewRequest(
 export async function createBulkReviewRequests(params: BulkCreateReviewRequestParams): Promise<
   Result<{
     successful: ReviewRequestSummary[];
-    failed: Array<{ customerId: string; error: string }>;
+    failed: FailedRecipient[];
   }>
 > {
   try {
@@ -222,12 +320,17 @@ export async function createBulkReviewRequests(params: BulkCreateReviewRequestPa
     });
 
     const results: ReviewRequestSummary[] = [];
-    const failures: Array<{ customerId: string; error: string }> = [];
+    const { unique, duplicates } = dedupeCustomerIds(customerIds);
+    const failures: FailedRecipient[] = duplicates.map(customerId => ({
+      customerId,
+      code: DUPLICATE_RECIPIENT_BLOCK.code,
+      error: DUPLICATE_RECIPIENT_BLOCK.message,
+    }));
 
     // Process customers in batches to avoid overwhelming the system
     const batchSize = 10;
-    for (let i = 0; i < customerIds.length; i += batchSize) {
-      const batch = customerIds.slice(i, i + batchSize);
+    for (let i = 0; i < unique.length; i += batchSize) {
+      const batch = unique.slice(i, i + batchSize);
 
       const batchPromises = batch.map(async customerId => {
         const result = await createReviewRequest({
@@ -243,7 +346,12 @@ export async function createBulkReviewRequests(params: BulkCreateReviewRequestPa
         if (result.success) {
           results.push(result.data);
         } else {
-          failures.push({ customerId, error: result.error });
+          const block = parseContactBlock(result.error);
+          failures.push(
+            block
+              ? { customerId, code: block.code, error: block.message }
+              : { customerId, error: result.error }
+          );
         }
       });
 
@@ -316,6 +424,7 @@ export async function getReviewRequestById(
         id: true,
         businessId: true,
         customerId: true,
+        campaignId: true,
         channel: true,
         status: true,
         trackingUuid: true,
@@ -354,6 +463,7 @@ export async function getReviewRequestByTrackingUuid(
         id: true,
         businessId: true,
         customerId: true,
+        campaignId: true,
         channel: true,
         status: true,
         trackingUuid: true,
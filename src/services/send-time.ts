@@ -0,0 +1,297 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { getLocalDayAndTime, getNextLocalTime, resolveSendTime } from '../lib/sending-window';
+import {
+  OPTIMAL_TIMING_BY_BUSINESS,
+  type BusinessType,
+  type CustomerBehaviorData,
+} from '../components/dashboard/customers/data/campaignSettings';
+import type { Result } from '../types/database';
+
+export interface SendTimeSample {
+  customerId: string;
+  sentAt: Date;
+  clickedAt: Date | null;
+}
+
+export interface SendSlotScore {
+  weekday: number; // 0 = Sunday
+  hour: number;
+  sent: number;
+  clicked: number;
+  clickRate: number; // Smoothed towards the business-wide rate
+}
+
+export interface SendTimeModel {
+  source: 'history' | 'business_type';
+  businessType: BusinessType;
+  timezone: string;
+  sampleSize: number;
+  clicks: number;
+  clickRate: number;
+  bestSlot: SendSlotScore | null; // null when falling back to the business type defaults
+  behavior: CustomerBehaviorData;
+  customerClickHours: Record<string, number>; // Local hour each customer usually clicks
+}
+
+export interface OptimalSendTime {
+  customerId: string;
+  sendAt: Date;
+  source: 'customer' | 'history' | 'business_type';
+  rationale: string;
+}
+
+const HISTORY_DAYS = 180;
+const MAX_SAMPLES = 5000;
+const MIN_HISTORY_SENDS = 30;
+const MIN_HISTORY_CLICKS = 5;
+// Weight of the business-wide click rate when scoring thin slots
+const SMOOTHING_SENDS = 10;
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Google Places types mapped to the business types with timing defaults
+const GOOGLE_TYPE_MAP: Array<[BusinessType, string[]]> = [
+  ['restaurant', ['restaurant', 'cafe', 'bar', 'bakery', 'meal_takeaway', 'meal_delivery', 'food']],
+  ['healthcare', ['doctor', 'dentist', 'hospital', 'physiotherapist', 'pharmacy', 'health']],
+  ['beauty', ['beauty_salon', 'hair_care', 'spa', 'nail_salon']],
+  ['automotive', ['car_repair', 'car_dealer', 'car_wash', 'gas_station']],
+  ['fitness', ['gym', 'fitness_center', 'yoga_studio']],
+  ['education', ['school', 'university', 'primary_school', 'secondary_school']],
+  ['home-services', ['plumber', 'electrician', 'roofing_contractor', 'painter', 'locksmith']],
+  ['professional-services', ['lawyer', 'accounting', 'insurance_agency', 'real_estate_agency']],
+  ['retail', ['store', 'clothing_store', 'shopping_mall', 'florist', 'book_store']],
+];
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`;
+const topThree = (values: string[]) => [...new Set(values)].slice(0, 3);
+
+/**
+ * Pick the timing business type from a business's Google Places types
+ */
+export function getBusinessTypeFromGoogleTypes(googleTypes: string[]): BusinessType {
+  for (const [businessType, types] of GOOGLE_TYPE_MAP) {
+    if (googleTypes.some(type => types.includes(type))) return businessType;
+  }
+  return 'other';
+}
+
+/**
+ * Score each local day/hour slot from a business's sent → clicked history
+ */
+export function buildSendTimeModel(
+  samples: SendTimeSample[],
+  options: { timezone: string; businessType: BusinessType }
+): SendTimeModel {
+  const { timezone, businessType } = options;
+  const slots = new Map<number, SendSlotScore>();
+  const clickHours = new Map<string, number[]>();
+  const responseByHour: Record<string, { sent: number; clicked: number }> = {};
+  let clicks = 0;
+
+  for (const sample of samples) {
+    const { weekday, minutes } = getLocalDayAndTime(sample.sentAt, timezone);
+    const hour = Math.floor(minutes / 60);
+    const slot = slots.get(weekday * 24 + hour) || {
+      weekday,
+      hour,
+      sent: 0,
+      clicked: 0,
+      clickRate: 0,
+    };
+    const byHour = (responseByHour[hour] ||= { sent: 0, clicked: 0 });
+
+    slot.sent++;
+    byHour.sent++;
+
+    if (sample.clickedAt) {
+      slot.clicked++;
+      byHour.clicked++;
+      clicks++;
+
+      const clickHour = Math.floor(getLocalDayAndTime(sample.clickedAt, timezone).minutes / 60);
+      clickHours.set(sample.customerId, [...(clickHours.get(sample.customerId) || []), clickHour]);
+    }
+
+    slots.set(weekday * 24 + hour, slot);
+  }
+
+  const clickRate = samples.length > 0 ? clicks / samples.length : 0;
+  const hasHistory = samples.length >= MIN_HISTORY_SENDS && clicks >= MIN_HISTORY_CLICKS;
+
+  const ranked = [...slots.values()]
+    .map(slot => ({
+      ...slot,
+      clickRate: (slot.clicked + SMOOTHING_SENDS * clickRate) / (slot.sent + SMOOTHING_SENDS),
+    }))
+    .sort((a, b) => b.clickRate - a.clickRate || b.sent - a.sent);
+
+  const aboveAverage = ranked.filter(slot => slot.clickRate > clickRate);
+  const bestSlot = hasHistory ? aboveAverage[0] || null : null;
+  const defaults = OPTIMAL_TIMING_BY_BUSINESS[businessType].customerBehaviorData!;
+
+  const customerClickHours: Record<string, number> = {};
+  for (const [customerId, hours] of clickHours) {
+    const counts = hours.reduce<Record<number, number>>((acc, hour) => {
+      acc[hour] = (acc[hour] || 0) + 1;
+      return acc;
+    }, {});
+    const [hour] = Object.entries(counts).sort(([, a], [, b]) => b - a)[0]!;
+    customerClickHours[customerId] = Number(hour);
+  }
+
+  return {
+    source: bestSlot ? 'history' : 'business_type',
+    businessType,
+    timezone,
+    sampleSize: samples.length,
+    clicks,
+    clickRate,
+    bestSlot,
+    behavior: bestSlot
+      ? {
+          bestDayOfWeek: topThree(aboveAverage.map(slot => DAY_NAMES[slot.weekday]!)),
+          bestTimeOfDay: topThree(aboveAverage.map(slot => formatHour(slot.hour))),
+          responseRateByHour: Object.fromEntries(
+            Object.entries(responseByHour).map(([hour, { sent, clicked }]) => [
+              hour,
+              clicked / sent,
+            ])
+          ),
+        }
+      : defaults,
+    customerClickHours,
+  };
+}
+
+/**
+ * Choose one recipient's send time from the model, before sending hours are applied
+ */
+export function pickSendTime(
+  model: SendTimeModel,
+  customer: { id: string; firstName?: string | null },
+  from: Date
+): OptimalSendTime {
+  const customerHour = hasEnoughHistory(model) ? model.customerClickHours[customer.id] : undefined;
+
+  if (customerHour !== undefined) {
+    return {
+      customerId: customer.id,
+      sendAt: getNextLocalTime(from, model.timezone, [0, 1, 2, 3, 4, 5, 6], customerHour * 60),
+      source: 'customer',
+      rationale: `${customer.firstName || 'This customer'} has clicked past requests around ${formatHour(customerHour)}`,
+    };
+  }
+
+  if (model.bestSlot) {
+    const { weekday, hour, sent, clickRate } = model.bestSlot;
+    return {
+      customerId: customer.id,
+      sendAt: getNextLocalTime(from, model.timezone, [weekday], hour * 60),
+      source: 'history',
+      rationale: `${capitalize(DAY_NAMES[weekday]!)}s at ${formatHour(hour)} have your best click rate (${formatPercent(clickRate)} from ${sent} sends, vs ${formatPercent(model.clickRate)} overall)`,
+    };
+  }
+
+  const { bestDayOfWeek, bestTimeOfDay } = model.behavior;
+  const [hours = '11', minutes = '00'] = (bestTimeOfDay[0] || '11:00').split(':');
+  const weekdays = bestDayOfWeek.map(day => DAY_NAMES.indexOf(day)).filter(day => day >= 0);
+
+  return {
+    customerId: customer.id,
+    sendAt: getNextLocalTime(from, model.timezone, weekdays, Number(hours) * 60 + Number(minutes)),
+    source: 'business_type',
+    rationale: `Not enough click history yet (${model.sampleSize} sends, ${model.clicks} clicks) - using the recommended ${bestDayOfWeek.map(capitalize).join('/')} ${bestTimeOfDay[0]} window for ${model.businessType.replace('-', ' ')} businesses`,
+  };
+}
+
+function hasEnoughHistory(model: SendTimeModel): boolean {
+  return model.sampleSize >= MIN_HISTORY_SENDS && model.clicks >= MIN_HISTORY_CLICKS;
+}
+
+/**
+ * Load a business's recent send history and build its send-time model
+ */
+export async function getSendTimeModel(business: {
+  id: string;
+  timezone: string;
+  googleTypes: string[];
+}): Promise<Result<SendTimeModel>> {
+  try {
+    const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+    const requests = await prisma.reviewRequest.findMany({
+      where: { businessId: business.id, isActive: true, sentAt: { gte: since } },
+      orderBy: { sentAt: 'desc' },
+      take: MAX_SAMPLES,
+      select: {
+        customerId: true,
+        sentAt: true,
+        clickedAt: true,
+        events: {
+          where: { type: 'REQUEST_CLICKED' },
+          orderBy: { createdAt: 'asc' },
+          take: 1,
+          select: { createdAt: true },
+        },
+      },
+    });
+
+    const samples: SendTimeSample[] = requests.map(request => ({
+      customerId: request.customerId,
+      sentAt: request.sentAt!,
+      // Older requests may only have the click recorded as an event
+      clickedAt: request.clickedAt ?? request.events[0]?.createdAt ?? null,
+    }));
+
+    return {
+      success: true,
+      data: buildSendTimeModel(samples, {
+        timezone: business.timezone,
+        businessType: getBusinessTypeFromGoogleTypes(business.googleTypes),
+      }),
+    };
+  } catch (error) {
+    logger.error('Failed to build send-time model', { businessId: business.id, error });
+    return { success: false, error: 'Failed to build send-time model' };
+  }
+}
+
+/**
+ * Pick an OPTIMAL send slot per recipient, moved into the business's sending hours
+ */
+export async function getOptimalSendTimes(
+  business: {
+    id: string;
+    timezone: string;
+    googleTypes: string[];
+    sendingHours?: Prisma.JsonValue | null;
+  },
+  customers: Array<{ id: string; firstName?: string | null }>,
+  options: { from?: Date; respectBusinessHours?: boolean } = {}
+): Promise<Result<{ model: SendTimeModel; sendTimes: OptimalSendTime[] }>> {
+  const modelResult = await getSendTimeModel(business);
+  if (!modelResult.success) {
+    return modelResult;
+  }
+
+  const from = options.from ?? new Date();
+  const sendTimes = customers.map(customer => {
+    const picked = pickSendTime(modelResult.data, customer, from);
+    const { scheduledFor, rescheduleReason } = resolveSendTime(business, picked.sendAt, {
+      respectBusinessHours: options.respectBusinessHours,
+    });
+
+    return rescheduleReason
+      ? {
+          ...picked,
+          sendAt: scheduledFor ?? picked.sendAt,
+          rationale: `${picked.rationale}. ${rescheduleReason}`,
+        }
+      : picked;
+  });
+
+  return { success: true, data: { model: modelResult.data, sendTimes } };
+}
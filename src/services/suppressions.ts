@@ -1,8 +1,11 @@
-import type { RequestChannel, SuppressionReason } from '@prisma/client';
+import type { Prisma, PrismaClient, RequestChannel, SuppressionReason } from '@prisma/client';
 import { prisma } from '../lib/prisma';
 import { logger, loggers } from '../lib/logger';
+import { getContactForChannel } from '../lib/utils';
 import type { Result, CreateSuppressionInput } from '../types/database';
 
+type SuppressionClient = PrismaClient | Prisma.TransactionClient;
+
 export interface SuppressionCheckResult {
   isSuppressed: boolean;
   reason?: string;
@@ -26,13 +29,14 @@ export interface CreateSuppressionParams {
 export async function checkSuppressions(
   businessId: string,
   contact: string,
-  channel?: RequestChannel
+  channel?: RequestChannel,
+  client: SuppressionClient = prisma
 ): Promise<Result<SuppressionCheckResult>> {
   try {
     const normalizedContact = contact.toLowerCase().trim();
 
     // Check for exact channel match first, then global suppressions
-    const suppressions = await prisma.suppression.findMany({
+    const suppressions = await client.suppression.findMany({
       where: {
         businessId,
         contact: normalizedContact,
@@ -65,7 +69,7 @@ export async function checkSuppressions(
     // Check if suppression has expired
     if (suppression.expiresAt && suppression.expiresAt <= new Date()) {
       // Mark as inactive if expired
-      await prisma.suppression.update({
+      await client.suppression.update({
         where: { id: suppression.id },
         data: { isActive: false },
       });
@@ -217,6 +221,55 @@ export async function removeSuppression(
   }
 }
 
+/**
+ * Reactivate a contact that opted back in (e.g. SMS START). Only lifts
+ * opt-out suppressions; bounces, complaints, manual and GDPR entries stay.
+ */
+export async function reactivateSuppressedContact(
+  businessId: string,
+  contact: string,
+  channel: RequestChannel,
+  source: string
+): Promise<Result<{ count: number }>> {
+  try {
+    const normalizedContact = contact.toLowerCase().trim();
+
+    const result = await prisma.suppression.updateMany({
+      where: {
+        businessId,
+        contact: normalizedContact,
+        channel,
+        reason: { in: ['SMS_STOP', 'EMAIL_UNSUBSCRIBE'] },
+        isActive: true,
+      },
+      data: {
+        isActive: false,
+        notes: `Reactivated via ${source}`,
+        updatedAt: new Date(),
+      },
+    });
+
+    logger.info('Suppression reactivated', {
+      businessId,
+      contact: normalizedContact.slice(0, 5) + '***',
+      channel,
+      source,
+      count: result.count,
+    });
+
+    return { success: true, data: { count: result.count } };
+  } catch (error) {
+    logger.error('Failed to reactivate suppressed contact', {
+      businessId,
+      contact: contact.slice(0, 5) + '***',
+      channel,
+      source,
+      error,
+    });
+    return { success: false, error: 'Failed to reactivate contact' };
+  }
+}
+
 /**
  * Handle webhook-based suppressions (SMS STOP, email unsubscribe, etc.)
  */
@@ -226,7 +279,8 @@ export async function handleWebhookSuppression(
   channel: RequestChannel,
   reason: SuppressionReason,
   source: string,
-  metadata?: Record<string, unknown>
+  metadata?: Record<string, unknown>,
+  reviewRequestId?: string
 ): Promise<Result<void>> {
   try {
     const suppressionResult = await addSuppression({
@@ -275,6 +329,7 @@ export async function handleWebhookSuppression(
     await prisma.event.create({
       data: {
         businessId,
+        reviewRequestId,
         type: 'REQUEST_OPTED_OUT',
         source,
         description: `Contact opted out via ${source}`,
@@ -305,6 +360,85 @@ export async function handleWebhookSuppression(
   }
 }
 
+export interface UnsubscribeResult {
+  businessName: string;
+  channel: RequestChannel;
+  alreadyUnsubscribed: boolean;
+}
+
+/**
+ * Opt out the recipient of a review request, identified by its tracking UUID.
+ * Backs the /r/unsubscribe/{uuid} links and RFC 8058 one-click unsubscribe POSTs.
+ */
+export async function unsubscribeByTrackingUuid(
+  trackingUuid: string,
+  source: string,
+  metadata?: Record<string, unknown>
+): Promise<Result<UnsubscribeResult>> {
+  try {
+    const reviewRequest = await prisma.reviewRequest.findUnique({
+      where: { trackingUuid },
+      select: {
+        id: true,
+        businessId: true,
+        channel: true,
+        customer: { select: { email: true, phone: true } },
+        business: { select: { name: true } },
+      },
+    });
+
+    if (!reviewRequest) {
+      return { success: false, error: 'Review request not found' };
+    }
+
+    const { channel } = reviewRequest;
+    const contact = getContactForChannel(reviewRequest.customer, channel);
+
+    if (!contact) {
+      return { success: false, error: `Customer has no ${channel.toLowerCase()} contact` };
+    }
+
+    const existing = await checkSuppressions(reviewRequest.businessId, contact, channel);
+    const alreadyUnsubscribed = existing.success && existing.data.isSuppressed;
+
+    if (!alreadyUnsubscribed) {
+      const result = await handleWebhookSuppression(
+        reviewRequest.businessId,
+        contact,
+        channel,
+        channel === 'EMAIL' ? 'EMAIL_UNSUBSCRIBE' : 'SMS_STOP',
+        source,
+        { trackingUuid, ...metadata },
+        reviewRequest.id
+      );
+
+      if (!result.success) {
+        return result;
+      }
+    }
+
+    logger.info('Recipient unsubscribed via tracking link', {
+      businessId: reviewRequest.businessId,
+      requestId: reviewRequest.id,
+      channel,
+      source,
+      alreadyUnsubscribed,
+    });
+
+    return {
+      success: true,
+      data: {
+        businessName: reviewRequest.business.name,
+        channel,
+        alreadyUnsubscribed,
+      },
+    };
+  } catch (error) {
+    logger.error('Failed to unsubscribe by tracking UUID', { trackingUuid, source, error });
+    return { success: false, error: 'Failed to process unsubscribe' };
+  }
+}
+
 /**
  * Bulk check suppressions for multiple contacts
  */
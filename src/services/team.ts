@@ -0,0 +1,540 @@
+import { randomBytes } from 'crypto';
+import type { BusinessInvitation, BusinessRole, InvitationStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { canManageMember, ROLE_LABELS } from '../lib/permissions';
+import type { BusinessContext } from '../lib/auth-context';
+import { completeUserOnboarding, getOrCreateUser, linkUserToBusiness } from './users';
+import { sendMessage } from './providers';
+import type { Result } from '../types/database';
+
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type TeamErrorCode = 'FORBIDDEN' | 'NOT_FOUND' | 'CONFLICT' | 'INVALID';
+
+const TEAM_ERROR_STATUS: Record<TeamErrorCode, number> = {
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  INVALID: 400,
+};
+
+export interface TeamMember {
+  userId: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  imageUrl: string | null;
+  role: BusinessRole;
+  joinedAt: Date;
+}
+
+export interface TeamInvitation {
+  id: string;
+  email: string;
+  role: BusinessRole;
+  status: InvitationStatus;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface Team {
+  members: TeamMember[];
+  invitations: TeamInvitation[];
+}
+
+export interface InvitationDetails extends TeamInvitation {
+  businessName: string;
+}
+
+export interface CreatedInvitation {
+  invitation: TeamInvitation;
+  inviteUrl: string;
+  emailSent: boolean;
+}
+
+export interface AcceptingUser {
+  clerkUserId: string;
+  email: string;
+  verifiedEmails: string[];
+  firstName?: string | null;
+  lastName?: string | null;
+  imageUrl?: string | null;
+}
+
+/**
+ * Split a `CODE: message` team error into its API code and HTTP status; uncoded errors are 500s
+ */
+export function parseTeamError(error: string): { code: string; status: number; message: string } {
+  const match = /^([A-Z_]+): (.*)$/s.exec(error);
+  const code = match?.[1] as TeamErrorCode | undefined;
+
+  if (!match || !code || !(code in TEAM_ERROR_STATUS)) {
+    return { code: 'INTERNAL_ERROR', status: 500, message: error };
+  }
+
+  return { code, status: TEAM_ERROR_STATUS[code], message: match[2] ?? error };
+}
+
+export function getInviteUrl(token: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  return `${baseUrl}/invite/${token}`;
+}
+
+// Pending invitations past their expiry are reported as EXPIRED without a write
+function toTeamInvitation(invitation: BusinessInvitation, now = new Date()): TeamInvitation {
+  const expired = invitation.status === 'PENDING' && invitation.expiresAt <= now;
+
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    status: expired ? 'EXPIRED' : invitation.status,
+    expiresAt: invitation.expiresAt,
+    createdAt: invitation.createdAt,
+  };
+}
+
+async function countOwners(businessId: string): Promise<number> {
+  return prisma.businessMember.count({ where: { businessId, role: 'OWNER' } });
+}
+
+/**
+ * Members of a business, owners first, plus its outstanding invitations
+ */
+export async function listTeam(businessId: string): Promise<Result<Team>> {
+  try {
+    const [members, invitations] = await Promise.all([
+      prisma.businessMember.findMany({
+        where: { businessId },
+        include: {
+          user: {
+            select: { id: true, email: true, firstName: true, lastName: true, imageUrl: true },
+          },
+        },
+        orderBy: [{ role: 'asc' }, { createdAt: 'asc' }],
+      }),
+      prisma.businessInvitation.findMany({
+        where: { businessId, status: 'PENDING' },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        members: members.map(member => ({
+          userId: member.user.id,
+          email: member.user.email,
+          firstName: member.user.firstName,
+          lastName: member.user.lastName,
+          imageUrl: member.user.imageUrl,
+          role: member.role,
+          joinedAt: member.createdAt,
+        })),
+        invitations: invitations.map(invitation => toTeamInvitation(invitation)),
+      },
+    };
+  } catch (error) {
+    logger.error('Failed to list team', {
+      businessId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to load team' };
+  }
+}
+
+/**
+ * Invite someone by email. Re-inviting an address with a pending invitation issues a fresh
+ * link and expiry rather than a second invitation.
+ */
+export async function createInvitation(
+  context: BusinessContext,
+  params: { email: string; role: BusinessRole }
+): Promise<Result<CreatedInvitation>> {
+  const email = params.email.trim().toLowerCase();
+
+  try {
+    if (!canManageMember(context.role, null, params.role)) {
+      return { success: false, error: `FORBIDDEN: You cannot invite ${ROLE_LABELS[params.role]}s` };
+    }
+
+    const existingMember = await prisma.businessMember.findFirst({
+      where: {
+        businessId: context.businessId,
+        user: { email: { equals: email, mode: 'insensitive' } },
+      },
+      select: { id: true },
+    });
+    if (existingMember) {
+      return { success: false, error: `CONFLICT: ${email} is already on this team` };
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_MS);
+    const pending = await prisma.businessInvitation.findFirst({
+      where: { businessId: context.businessId, email, status: 'PENDING' },
+      select: { id: true },
+    });
+
+    const invitation = pending
+      ? await prisma.businessInvitation.update({
+          where: { id: pending.id },
+          data: { token, role: params.role, expiresAt, invitedById: context.userId },
+        })
+      : await prisma.businessInvitation.create({
+          data: {
+            businessId: context.businessId,
+            email,
+            role: params.role,
+            token,
+            expiresAt,
+            invitedById: context.userId,
+          },
+        });
+
+    const inviteUrl = getInviteUrl(token);
+    const emailSent = await sendInvitationEmail(context, invitation, inviteUrl);
+
+    logger.info('Team invitation created', {
+      businessId: context.businessId,
+      invitationId: invitation.id,
+      role: invitation.role,
+      emailSent,
+    });
+
+    return {
+      success: true,
+      data: { invitation: toTeamInvitation(invitation), inviteUrl, emailSent },
+    };
+  } catch (error) {
+    logger.error('Failed to create invitation', {
+      businessId: context.businessId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to create invitation' };
+  }
+}
+
+async function sendInvitationEmail(
+  context: BusinessContext,
+  invitation: BusinessInvitation,
+  inviteUrl: string
+): Promise<boolean> {
+  const [business, inviter] = await Promise.all([
+    prisma.business.findUnique({ where: { id: context.businessId }, select: { name: true } }),
+    prisma.user.findUnique({
+      where: { id: context.userId },
+      select: { firstName: true, lastName: true, email: true },
+    }),
+  ]);
+
+  const businessName = business?.name || 'your team';
+  const inviterName =
+    [inviter?.firstName, inviter?.lastName].filter(Boolean).join(' ') ||
+    inviter?.email ||
+    'A teammate';
+  const roleLabel = (ROLE_LABELS[invitation.role] ?? invitation.role).toLowerCase();
+  const text = [
+    `${inviterName} has invited you to join ${businessName} as a ${roleLabel}.`,
+    `Accept the invitation: ${inviteUrl}`,
+    `This link expires on ${invitation.expiresAt.toDateString()}.`,
+  ].join('\n\n');
+
+  const result = await sendMessage({
+    channel: 'EMAIL',
+    to: invitation.email,
+    subject: `You're invited to join ${businessName}`,
+    html: `<p>${escapeHtml(inviterName)} has invited you to join <strong>${escapeHtml(
+      businessName
+    )}</strong> as a ${roleLabel}.</p><p><a href="${escapeHtml(
+      inviteUrl
+    )}">Accept the invitation</a></p><p>This link expires on ${invitation.expiresAt.toDateString()}.</p>`,
+    text,
+    businessId: context.businessId,
+  });
+
+  if (!result.success) {
+    logger.warn('Invitation email failed', { invitationId: invitation.id, error: result.error });
+  }
+  return result.success;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Withdraw a pending invitation so its link stops working
+ */
+export async function revokeInvitation(
+  context: BusinessContext,
+  invitationId: string
+): Promise<Result<TeamInvitation>> {
+  try {
+    const invitation = await prisma.businessInvitation.findFirst({
+      where: { id: invitationId, businessId: context.businessId },
+    });
+    if (!invitation) {
+      return { success: false, error: 'NOT_FOUND: Invitation not found' };
+    }
+    if (!canManageMember(context.role, null, invitation.role)) {
+      return { success: false, error: 'FORBIDDEN: You cannot revoke this invitation' };
+    }
+    if (invitation.status !== 'PENDING') {
+      return {
+        success: false,
+        error: `CONFLICT: Invitation is already ${invitation.status.toLowerCase()}`,
+      };
+    }
+
+    const revoked = await prisma.businessInvitation.update({
+      where: { id: invitation.id },
+      data: { status: 'REVOKED' },
+    });
+
+    return { success: true, data: toTeamInvitation(revoked) };
+  } catch (error) {
+    logger.error('Failed to revoke invitation', {
+      invitationId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to revoke invitation' };
+  }
+}
+
+/**
+ * Public view of an invitation for the accept page
+ */
+export async function getInvitationByToken(token: string): Promise<Result<InvitationDetails>> {
+  try {
+    const invitation = await prisma.businessInvitation.findUnique({
+      where: { token },
+      include: { business: { select: { name: true } } },
+    });
+    if (!invitation) {
+      return { success: false, error: 'NOT_FOUND: Invitation not found' };
+    }
+
+    return {
+      success: true,
+      data: { ...toTeamInvitation(invitation), businessName: invitation.business.name },
+    };
+  } catch (error) {
+    logger.error('Failed to load invitation', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to load invitation' };
+  }
+}
+
+/**
+ * Join the inviting business as the signed-in Clerk user. The invitation must be pending,
+ * unexpired and addressed to one of the user's verified emails.
+ */
+export async function acceptInvitation(
+  token: string,
+  acceptingUser: AcceptingUser
+): Promise<Result<{ businessId: string; role: BusinessRole }>> {
+  try {
+    const invitation = await prisma.businessInvitation.findUnique({
+      where: { token },
+      include: { business: { select: { isActive: true } } },
+    });
+    if (!invitation || !invitation.business.isActive) {
+      return { success: false, error: 'NOT_FOUND: Invitation not found' };
+    }
+
+    const status = toTeamInvitation(invitation).status;
+    if (status === 'EXPIRED' && invitation.status === 'PENDING') {
+      await prisma.businessInvitation.update({
+        where: { id: invitation.id },
+        data: { status: 'EXPIRED' },
+      });
+    }
+    if (status !== 'PENDING') {
+      return { success: false, error: `INVALID: This invitation has been ${status.toLowerCase()}` };
+    }
+
+    const emails = acceptingUser.verifiedEmails.map(email => email.toLowerCase());
+    if (!emails.includes(invitation.email.toLowerCase())) {
+      return {
+        success: false,
+        error: `FORBIDDEN: This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`,
+      };
+    }
+
+    const user = await getOrCreateUser({
+      clerkUserId: acceptingUser.clerkUserId,
+      email: acceptingUser.email,
+      firstName: acceptingUser.firstName,
+      lastName: acceptingUser.lastName,
+      imageUrl: acceptingUser.imageUrl,
+    });
+
+    // Keep access to the business the user already works in: accounts linked before teams
+    // existed have no member row for it yet
+    if (user.businessId && user.businessId !== invitation.businessId) {
+      const current = await prisma.business.findUnique({
+        where: { id: user.businessId },
+        select: { clerkUserId: true },
+      });
+      await prisma.businessMember.upsert({
+        where: { businessId_userId: { businessId: user.businessId, userId: user.id } },
+        create: {
+          businessId: user.businessId,
+          userId: user.id,
+          role: current?.clerkUserId === acceptingUser.clerkUserId ? 'OWNER' : 'MEMBER',
+        },
+        update: {},
+      });
+    }
+
+    // Existing members keep their role rather than being changed by an older invitation
+    const [membership] = await prisma.$transaction([
+      prisma.businessMember.upsert({
+        where: { businessId_userId: { businessId: invitation.businessId, userId: user.id } },
+        create: {
+          businessId: invitation.businessId,
+          userId: user.id,
+          role: invitation.role,
+          invitedById: invitation.invitedById,
+        },
+        update: {},
+      }),
+      prisma.businessInvitation.update({
+        where: { id: invitation.id },
+        data: { status: 'ACCEPTED', acceptedById: user.id, acceptedAt: new Date() },
+      }),
+    ]);
+
+    // The joined business becomes the user's default; agency users switch between the rest
+    await linkUserToBusiness(acceptingUser.clerkUserId, invitation.businessId);
+    // Invitees join an already set-up business, so skip the onboarding wizard
+    await completeUserOnboarding(acceptingUser.clerkUserId);
+
+    logger.info('Team invitation accepted', {
+      businessId: invitation.businessId,
+      invitationId: invitation.id,
+      userId: user.id,
+    });
+
+    return { success: true, data: { businessId: invitation.businessId, role: membership.role } };
+  } catch (error) {
+    logger.error('Failed to accept invitation', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to accept invitation' };
+  }
+}
+
+/**
+ * Change a teammate's role. A business always keeps at least one owner.
+ */
+export async function updateMemberRole(
+  context: BusinessContext,
+  userId: string,
+  role: BusinessRole
+): Promise<Result<TeamMember>> {
+  try {
+    const member = await prisma.businessMember.findUnique({
+      where: { businessId_userId: { businessId: context.businessId, userId } },
+    });
+    if (!member) {
+      return { success: false, error: 'NOT_FOUND: Team member not found' };
+    }
+    if (!canManageMember(context.role, member.role, role)) {
+      return { success: false, error: "FORBIDDEN: You cannot change this member's role" };
+    }
+    if (
+      member.role === 'OWNER' &&
+      role !== 'OWNER' &&
+      (await countOwners(context.businessId)) <= 1
+    ) {
+      return { success: false, error: 'CONFLICT: A business needs at least one owner' };
+    }
+
+    const updated = await prisma.businessMember.update({
+      where: { id: member.id },
+      data: { role },
+      include: { user: true },
+    });
+
+    return {
+      success: true,
+      data: {
+        userId: updated.user.id,
+        email: updated.user.email,
+        firstName: updated.user.firstName,
+        lastName: updated.user.lastName,
+        imageUrl: updated.user.imageUrl,
+        role: updated.role,
+        joinedAt: updated.createdAt,
+      },
+    };
+  } catch (error) {
+    logger.error('Failed to update member role', {
+      businessId: context.businessId,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to update member role' };
+  }
+}
+
+/**
+ * Remove a teammate, or leave the team when `userId` is the caller. Removed users lose
+ * access to the business immediately.
+ */
+export async function removeMember(
+  context: BusinessContext,
+  userId: string
+): Promise<Result<{ userId: string }>> {
+  try {
+    const member = await prisma.businessMember.findUnique({
+      where: { businessId_userId: { businessId: context.businessId, userId } },
+    });
+    if (!member) {
+      return { success: false, error: 'NOT_FOUND: Team member not found' };
+    }
+
+    const leaving = userId === context.userId;
+    if (!leaving && !canManageMember(context.role, member.role)) {
+      return { success: false, error: 'FORBIDDEN: You cannot remove this member' };
+    }
+    if (member.role === 'OWNER' && (await countOwners(context.businessId)) <= 1) {
+      return { success: false, error: 'CONFLICT: A business needs at least one owner' };
+    }
+
+    // Users in other businesses fall back to the next one; everyone else is left unlinked
+    const nextMembership = await prisma.businessMember.findFirst({
+      where: { userId, businessId: { not: context.businessId } },
+      orderBy: { createdAt: 'asc' },
+      select: { businessId: true },
+    });
+
+    await prisma.$transaction([
+      prisma.businessMember.delete({ where: { id: member.id } }),
+      prisma.user.updateMany({
+        where: { id: userId, businessId: context.businessId },
+        data: { businessId: nextMembership?.businessId ?? null },
+      }),
+    ]);
+
+    logger.info('Team member removed', { businessId: context.businessId, userId, leaving });
+
+    return { success: true, data: { userId } };
+  } catch (error) {
+    logger.error('Failed to remove team member', {
+      businessId: context.businessId,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to remove team member' };
+  }
+}
@@ -0,0 +1,402 @@
+import type { MessageTemplate, Prisma, PrismaClient } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { extractVariablesFromTemplate } from '../components/dashboard/customers/data/personalizationVariables';
+import type { Result } from '../types/database';
+
+/**
+ * Template versions. Templates are edited in place, but every change to their wording adds
+ * an immutable MessageTemplateVersion and review requests record the version they were
+ * created from, so we can always show exactly what a customer received.
+ */
+
+export type TemplateVersionClient = PrismaClient | Prisma.TransactionClient;
+
+export interface TemplateSnapshot {
+  name: string;
+  subject: string | null;
+  content: string;
+}
+
+export interface TemplateVersionSummary extends TemplateSnapshot {
+  id: string;
+  version: number;
+  changeNote: string | null;
+  createdAt: Date;
+  createdBy: { id: string; name: string } | null;
+  requestCount: number;
+  isCurrent: boolean;
+}
+
+export interface TemplateDiffRow {
+  type: 'unchanged' | 'added' | 'removed' | 'changed';
+  before: string | null;
+  after: string | null;
+}
+
+export interface TemplateVersionDiff {
+  from: TemplateVersionSummary;
+  to: TemplateVersionSummary;
+  name: TemplateDiffRow[];
+  subject: TemplateDiffRow[];
+  content: TemplateDiffRow[];
+}
+
+const TEMPLATE_VERSION_ERROR_STATUS: Record<string, number> = {
+  TEMPLATE_NOT_FOUND: 404,
+  VERSION_NOT_FOUND: 404,
+  INVALID: 400,
+};
+
+type VersionedTemplate = Pick<
+  MessageTemplate,
+  'id' | 'name' | 'subject' | 'content' | 'currentVersion'
+>;
+
+/**
+ * Split a 'CODE: message' error from this module into an API error code and HTTP status
+ */
+export function parseTemplateVersionError(error: string): {
+  code: string;
+  status: number;
+  message: string;
+} {
+  const match = /^([A-Z_]+): (.*)$/s.exec(error);
+  const code = match?.[1];
+  const status = code ? TEMPLATE_VERSION_ERROR_STATUS[code] : undefined;
+
+  if (!match || !code || !status) {
+    return { code: 'INTERNAL_ERROR', status: 500, message: error };
+  }
+
+  return { code, status, message: match[2] ?? error };
+}
+
+/**
+ * The snapshot a template update would produce, or null when its wording is unchanged
+ */
+export function getVersionedChanges(
+  current: TemplateSnapshot,
+  changes: { name?: unknown; subject?: unknown; content?: unknown }
+): TemplateSnapshot | null {
+  const next: TemplateSnapshot = {
+    name: typeof changes.name === 'string' ? changes.name : current.name,
+    subject:
+      typeof changes.subject === 'string' || changes.subject === null
+        ? changes.subject
+        : current.subject,
+    content: typeof changes.content === 'string' ? changes.content : current.content,
+  };
+
+  const changed =
+    next.name !== current.name ||
+    (next.subject ?? null) !== (current.subject ?? null) ||
+    next.content !== current.content;
+
+  return changed ? next : null;
+}
+
+/**
+ * Version row data for a snapshot, with the variables it uses
+ */
+export function versionData(snapshot: TemplateSnapshot) {
+  return {
+    name: snapshot.name,
+    subject: snapshot.subject,
+    content: snapshot.content,
+    variables: [
+      ...new Set([
+        ...extractVariablesFromTemplate(snapshot.content),
+        ...(snapshot.subject ? extractVariablesFromTemplate(snapshot.subject) : []),
+      ]),
+    ],
+  };
+}
+
+/**
+ * Id of the version a template is currently on. Templates created before versioning get
+ * their current wording recorded as that version the first time it is needed.
+ */
+export async function ensureCurrentTemplateVersion(
+  template: VersionedTemplate,
+  client: TemplateVersionClient = prisma
+): Promise<string> {
+  const version = await client.messageTemplateVersion.upsert({
+    where: { templateId_version: { templateId: template.id, version: template.currentVersion } },
+    create: {
+      templateId: template.id,
+      version: template.currentVersion,
+      ...versionData(template),
+    },
+    update: {},
+    select: { id: true },
+  });
+
+  return version.id;
+}
+
+/**
+ * Current version id for a template id, or null if the template doesn't exist
+ */
+export async function getCurrentTemplateVersionId(
+  templateId: string | null | undefined,
+  client: TemplateVersionClient = prisma
+): Promise<string | null> {
+  if (!templateId) {
+    return null;
+  }
+
+  const template = await client.messageTemplate.findUnique({
+    where: { id: templateId },
+    select: { id: true, name: true, subject: true, content: true, currentVersion: true },
+  });
+
+  return template ? ensureCurrentTemplateVersion(template, client) : null;
+}
+
+/**
+ * Update data that moves a template to a new version, when its wording changes
+ */
+export async function buildVersionedUpdate(
+  template: VersionedTemplate,
+  data: Prisma.MessageTemplateUpdateInput,
+  author: { createdById?: string; changeNote?: string },
+  client: TemplateVersionClient = prisma
+): Promise<Prisma.MessageTemplateUpdateInput> {
+  const next = getVersionedChanges(template, data);
+  if (!next) {
+    return data;
+  }
+
+  // Keep the wording being replaced, in case it was never recorded
+  await ensureCurrentTemplateVersion(template, client);
+
+  const version = template.currentVersion + 1;
+  return {
+    ...data,
+    variables: versionData(next).variables,
+    currentVersion: version,
+    versions: {
+      create: {
+        version,
+        ...versionData(next),
+        changeNote: author.changeNote,
+        createdBy: author.createdById ? { connect: { id: author.createdById } } : undefined,
+      },
+    },
+  };
+}
+
+/**
+ * Line-by-line diff of two texts as side-by-side rows. Neighbouring removals and additions
+ * are paired into "changed" rows.
+ */
+export function diffTemplateText(before: string, after: string): TemplateDiffRow[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Longest common subsequence table, built from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] =
+        a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const rows: TemplateDiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      rows.push({ type: 'changed', before: removed[k]!, after: added[k]! });
+    }
+    removed
+      .slice(paired)
+      .forEach(line => rows.push({ type: 'removed', before: line, after: null }));
+    added.slice(paired).forEach(line => rows.push({ type: 'added', before: null, after: line }));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ type: 'unchanged', before: a[i]!, after: b[j]! });
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i]![j + 1]! >= lcs[i + 1]![j]!)) {
+      added.push(b[j++]!);
+    } else {
+      removed.push(a[i++]!);
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+// Templates a business can see: its own plus system templates
+async function findAccessibleTemplate(businessId: string, templateId: string) {
+  return prisma.messageTemplate.findFirst({
+    where: {
+      id: templateId,
+      OR: [{ businessId }, { templateType: 'system', businessId: null }],
+    },
+  });
+}
+
+/**
+ * Every version of a template, newest first, with how many requests used each
+ */
+export async function listTemplateVersions(
+  businessId: string,
+  templateId: string
+): Promise<Result<TemplateVersionSummary[]>> {
+  try {
+    const template = await findAccessibleTemplate(businessId, templateId);
+    if (!template) {
+      return { success: false, error: 'TEMPLATE_NOT_FOUND: Template not found' };
+    }
+
+    await ensureCurrentTemplateVersion(template);
+
+    const versions = await prisma.messageTemplateVersion.findMany({
+      where: { templateId },
+      include: {
+        createdBy: { select: { id: true, firstName: true, lastName: true, email: true } },
+        _count: { select: { reviewRequests: true } },
+      },
+      orderBy: { version: 'desc' },
+    });
+
+    return {
+      success: true,
+      data: versions.map(version => ({
+        id: version.id,
+        version: version.version,
+        name: version.name,
+        subject: version.subject,
+        content: version.content,
+        changeNote: version.changeNote,
+        createdAt: version.createdAt,
+        createdBy: version.createdBy
+          ? {
+              id: version.createdBy.id,
+              name:
+                [version.createdBy.firstName, version.createdBy.lastName]
+                  .filter(Boolean)
+                  .join(' ') || version.createdBy.email,
+            }
+          : null,
+        requestCount: version._count.reviewRequests,
+        isCurrent: version.version === template.currentVersion,
+      })),
+    };
+  } catch (error) {
+    logger.error('Failed to list template versions', {
+      businessId,
+      templateId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to load template history' };
+  }
+}
+
+/**
+ * Side-by-side diff between two versions of a template
+ */
+export async function getTemplateVersionDiff(
+  businessId: string,
+  templateId: string,
+  fromVersion: number,
+  toVersion: number
+): Promise<Result<TemplateVersionDiff>> {
+  const versions = await listTemplateVersions(businessId, templateId);
+  if (!versions.success) {
+    return versions;
+  }
+
+  const from = versions.data.find(version => version.version === fromVersion);
+  const to = versions.data.find(version => version.version === toVersion);
+  if (!from || !to) {
+    return { success: false, error: 'VERSION_NOT_FOUND: Template version not found' };
+  }
+
+  return {
+    success: true,
+    data: {
+      from,
+      to,
+      name: diffTemplateText(from.name, to.name),
+      subject: diffTemplateText(from.subject ?? '', to.subject ?? ''),
+      content: diffTemplateText(from.content, to.content),
+    },
+  };
+}
+
+/**
+ * Restore an earlier version's wording. History is never rewritten: the restored wording
+ * becomes a new version.
+ */
+export async function rollbackTemplate(
+  context: { businessId: string; userId: string },
+  templateId: string,
+  version: number
+): Promise<Result<MessageTemplate>> {
+  try {
+    const template = await prisma.messageTemplate.findFirst({
+      where: { id: templateId, businessId: context.businessId, templateType: 'business' },
+    });
+    if (!template) {
+      return {
+        success: false,
+        error: 'TEMPLATE_NOT_FOUND: Template not found or cannot be modified',
+      };
+    }
+
+    const target = await prisma.messageTemplateVersion.findUnique({
+      where: { templateId_version: { templateId, version } },
+    });
+    if (!target) {
+      return { success: false, error: 'VERSION_NOT_FOUND: Template version not found' };
+    }
+    if (version === template.currentVersion) {
+      return { success: false, error: `INVALID: Version ${version} is already current` };
+    }
+
+    const updated = await prisma.$transaction(async tx =>
+      tx.messageTemplate.update({
+        where: { id: templateId },
+        data: await buildVersionedUpdate(
+          template,
+          { name: target.name, subject: target.subject, content: target.content },
+          { createdById: context.userId, changeNote: `Restored version ${version}` },
+          tx
+        ),
+      })
+    );
+
+    logger.info('Template rolled back', {
+      businessId: context.businessId,
+      templateId,
+      restoredVersion: version,
+      newVersion: updated.currentVersion,
+    });
+
+    return { success: true, data: updated };
+  } catch (error) {
+    logger.error('Failed to roll back template', {
+      businessId: context.businessId,
+      templateId,
+      version,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to restore template version' };
+  }
+}
@@ -1,4 +1,6 @@
 // Template management service for frontend integration
+import { calculateSmsSegments, type SmsEncoding } from '@/lib/sms-segments';
+import type { TemplateExperimentSummary } from '@/services/campaigns';
 
 export interface MessageTemplate {
   id: string;
@@ -12,6 +14,7 @@ export interface MessageTemplate {
   templateType: 'system' | 'business';
   businessId?: string;
   usageCount: number;
+  currentVersion: number;
   createdAt: string;
   updatedAt: string;
   lastUsedAt?: string;
@@ -68,6 +71,14 @@ export interface TemplatePreview {
     characterCount?: number;
     segments?: number;
     isOverLimit?: boolean;
+    encoding?: SmsEncoding;
+    unicodeCharacters?: string[];
+    remainingInSegment?: number;
+    gsmSafe?: {
+      content: string;
+      replacements: number;
+      remainingUnicodeCharacters: string[];
+    };
     contentLength?: number;
     subjectLength?: number;
     totalLength?: number;
@@ -90,6 +101,34 @@ export interface UpdateTemplateData {
   category?: TemplateCategory;
   subject?: string;
   content?: string;
+  changeNote?: string;
+}
+
+export interface TemplateVersion {
+  id: string;
+  version: number;
+  name: string;
+  subject: string | null;
+  content: string;
+  changeNote: string | null;
+  createdAt: string;
+  createdBy: { id: string; name: string } | null;
+  requestCount: number;
+  isCurrent: boolean;
+}
+
+export interface TemplateDiffRow {
+  type: 'unchanged' | 'added' | 'removed' | 'changed';
+  before: string | null;
+  after: string | null;
+}
+
+export interface TemplateVersionDiff {
+  from: TemplateVersion;
+  to: TemplateVersion;
+  name: TemplateDiffRow[];
+  subject: TemplateDiffRow[];
+  content: TemplateDiffRow[];
 }
 
 export interface ApiResponse<T> {
@@ -233,6 +272,57 @@ class TemplateService {
     return response.data;
   }
 
+  // Version history, newest first
+  async getVersions(id: string): Promise<TemplateVersion[]> {
+    const response = await this.fetchApi<TemplateVersion[]>(`/api/templates/${id}/versions`);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error?.message || 'Failed to fetch template history');
+    }
+
+    return response.data;
+  }
+
+  // Side-by-side diff between two versions
+  async getVersionDiff(id: string, from: number, to: number): Promise<TemplateVersionDiff> {
+    const response = await this.fetchApi<TemplateVersionDiff>(
+      `/api/templates/${id}/versions/diff?from=${from}&to=${to}`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error?.message || 'Failed to compare template versions');
+    }
+
+    return response.data;
+  }
+
+  // A/B experiments the template took part in
+  async getExperiments(id: string): Promise<TemplateExperimentSummary[]> {
+    const response = await this.fetchApi<TemplateExperimentSummary[]>(
+      `/api/templates/${id}/experiments`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error?.message || 'Failed to fetch template experiments');
+    }
+
+    return response.data;
+  }
+
+  // Restore an earlier version; it becomes the newest version
+  async rollback(id: string, version: number): Promise<MessageTemplate> {
+    const response = await this.fetchApi<MessageTemplate>(`/api/templates/${id}/rollback`, {
+      method: 'POST',
+      body: JSON.stringify({ version }),
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error?.message || 'Failed to restore template version');
+    }
+
+    return response.data;
+  }
+
   // Preview template with sample data
   async previewTemplate(
     content: string,
@@ -267,6 +357,7 @@ class TemplateService {
       SMS: {
         characterLimit: number;
         maxRecommendedLength: number;
+        unicodeCharacterLimit: number;
       };
       EMAIL: {
         subjectLimit: number;
@@ -400,14 +491,17 @@ class TemplateService {
     characterCount: number;
     segments: number;
     isOverLimit: boolean;
+    encoding: SmsEncoding;
+    unicodeCharacters: string[];
   } {
-    const characterCount = content.length;
-    const segments = Math.ceil(characterCount / 160);
+    const sms = calculateSmsSegments(content);
 
     return {
-      characterCount,
-      segments,
-      isOverLimit: characterCount > 160,
+      characterCount: sms.characterCount,
+      segments: sms.segmentCount,
+      isOverLimit: sms.segmentCount > 1,
+      encoding: sms.encoding,
+      unicodeCharacters: sms.unicodeCharacters,
     };
   }
 }
@@ -1,8 +1,11 @@
 import twilio from 'twilio';
+import type { RequestStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
 import { logger, loggers } from '../lib/logger';
 import { getRequiredEnvVar } from '../lib/utils';
+import { handleWebhookSuppression, reactivateSuppressedContact } from './suppressions';
 import type { Result } from '../types/database';
-import type { TwilioSMSRequest, TwilioSMSResponse } from '../types/external';
+import type { TwilioSMSRequest, TwilioSMSResponse, TwilioWebhookPayload } from '../types/external';
 
 // Twilio client instance
 let twilioClient: twilio.Twilio | null = null;
@@ -148,12 +151,61 @@ function getTwilioErrorMessage(errorCode: string): string {
   return errorMap[errorCode] || `SMS delivery failed (Error ${errorCode})`;
 }
 
+// Twilio's standard opt-out / opt-in / help keywords (case-insensitive, whole message)
+const STOP_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPTOUT'];
+const START_KEYWORDS = ['START', 'UNSTOP', 'YES'];
+const HELP_KEYWORDS = ['HELP', 'INFO'];
+
+export type SmsKeyword = 'STOP' | 'START' | 'HELP';
+
+/**
+ * Detect an opt-out/opt-in/help keyword in an inbound SMS body
+ */
+export function parseSmsKeyword(body: string | undefined): SmsKeyword | null {
+  const word = (body || '')
+    .trim()
+    .toUpperCase()
+    .replace(/[^A-Z]/g, '');
+
+  if (STOP_KEYWORDS.includes(word)) return 'STOP';
+  if (START_KEYWORDS.includes(word)) return 'START';
+  if (HELP_KEYWORDS.includes(word)) return 'HELP';
+  return null;
+}
+
 /**
- * Handle Twilio webhook payload
+ * Map a Twilio MessageStatus onto a ReviewRequest status.
+ * Returns null for intermediate states that don't change the request.
+ */
+export function mapTwilioStatus(
+  status: TwilioWebhookPayload['MessageStatus']
+): Extract<RequestStatus, 'SENT' | 'DELIVERED' | 'FAILED'> | null {
+  switch (status) {
+    case 'sent':
+      return 'SENT';
+    case 'delivered':
+      return 'DELIVERED';
+    case 'undelivered':
+    case 'failed':
+      return 'FAILED';
+    default:
+      return null;
+  }
+}
+
+// Statuses a callback may move a request out of; later states (clicked, opted out, ...) are kept
+const UPDATABLE_STATUSES: Record<'SENT' | 'DELIVERED' | 'FAILED', RequestStatus[]> = {
+  SENT: ['QUEUED'],
+  DELIVERED: ['QUEUED', 'SENT', 'FAILED'],
+  FAILED: ['QUEUED', 'SENT'],
+};
+
+/**
+ * Handle Twilio status callback payload
  */
 export async function handleTwilioWebhook(
-  payload: any
-): Promise<Result<{ messageId: string; status: string }>> {
+  payload: TwilioWebhookPayload
+): Promise<Result<{ messageId: string; status: string; requestId?: string }>> {
   try {
     const {
       MessageSid: messageId,
@@ -177,22 +229,200 @@ export async function handleTwilioWebhook(
       errorMessage,
     });
 
-    // Validate webhook authenticity (optional - implement if needed)
-    // const isValid = validateTwilioSignature(payload, signature, url);
-    // if (!isValid) {
-    //   return { success: false, error: 'Invalid webhook signature' };
-    // }
+    const reviewRequest = await prisma.reviewRequest.findFirst({
+      where: { externalId: messageId, channel: 'SMS' },
+      select: { id: true, businessId: true, status: true },
+    });
+
+    if (!reviewRequest) {
+      logger.warn('Review request not found for Twilio status callback', { messageId, status });
+      return { success: true, data: { messageId, status: status || 'unknown' } };
+    }
+
+    const now = new Date();
+    const nextStatus = mapTwilioStatus(status);
+    const shouldUpdateStatus =
+      nextStatus !== null && UPDATABLE_STATUSES[nextStatus].includes(reviewRequest.status);
+
+    await prisma.$transaction(async tx => {
+      await tx.reviewRequest.update({
+        where: { id: reviewRequest.id },
+        data: {
+          deliveryStatus: {
+            provider: 'twilio',
+            status,
+            errorCode: errorCode || null,
+            errorMessage: errorMessage || null,
+            updatedAt: now.toISOString(),
+          },
+          ...(shouldUpdateStatus && nextStatus === 'SENT' && { status: 'SENT' }),
+          ...(shouldUpdateStatus &&
+            nextStatus === 'DELIVERED' && { status: 'DELIVERED', deliveredAt: now }),
+          ...(shouldUpdateStatus &&
+            nextStatus === 'FAILED' && {
+              status: 'FAILED',
+              errorMessage: errorCode
+                ? getTwilioErrorMessage(errorCode)
+                : errorMessage || `SMS ${status}`,
+            }),
+        },
+      });
+
+      if (shouldUpdateStatus && (nextStatus === 'DELIVERED' || nextStatus === 'FAILED')) {
+        await tx.event.create({
+          data: {
+            businessId: reviewRequest.businessId,
+            reviewRequestId: reviewRequest.id,
+            type: nextStatus === 'DELIVERED' ? 'REQUEST_DELIVERED' : 'REQUEST_FAILED',
+            source: 'twilio_webhook',
+            description:
+              nextStatus === 'DELIVERED'
+                ? 'SMS delivered successfully'
+                : `SMS ${status}: ${errorCode ? getTwilioErrorMessage(errorCode) : 'Unknown reason'}`,
+            metadata: {
+              messageSid: messageId,
+              twilioStatus: status,
+              errorCode,
+              errorMessage,
+            },
+          },
+        });
+      }
+    });
 
     return {
       success: true,
-      data: { messageId, status },
+      data: { messageId, status: status || 'unknown', requestId: reviewRequest.id },
     };
   } catch (error) {
-    logger.error('Failed to handle Twilio webhook', { payload, error });
+    logger.error('Failed to handle Twilio webhook', { messageSid: payload?.MessageSid, error });
     return { success: false, error: 'Failed to process webhook' };
   }
 }
 
+/**
+ * Handle an inbound SMS, turning STOP/START/HELP keywords into suppression changes for
+ * every business that has texted the sender from the number the reply came in on
+ */
+export async function handleTwilioInboundMessage(
+  payload: TwilioWebhookPayload
+): Promise<Result<{ keyword: SmsKeyword | null; businessIds: string[] }>> {
+  try {
+    const { MessageSid: messageId, From: from, To: to, Body: body } = payload;
+    const keyword = parseSmsKeyword(body);
+
+    loggers.external.webhookReceived({ source: 'twilio', type: keyword || 'inbound_message' });
+
+    if (!from) {
+      return { success: false, error: 'From is required' };
+    }
+
+    // Every request is sent from TWILIO_PHONE_NUMBER, so replies to any other number
+    // belong to no business here
+    const ownNumber = process.env.TWILIO_PHONE_NUMBER;
+    if (
+      !to ||
+      !ownNumber ||
+      formatPhoneNumberForTwilio(to) !== formatPhoneNumberForTwilio(ownNumber)
+    ) {
+      logger.warn('Ignoring inbound SMS to an unrecognised number', {
+        messageId,
+        to: to?.slice(0, 5) + '***',
+      });
+      return { success: true, data: { keyword, businessIds: [] } };
+    }
+
+    // Customer phones are stored as entered, so compare digits in the query and the full
+    // E.164 number here, only for customers the business has sent an SMS to
+    const sender = formatPhoneNumberForTwilio(from);
+    const nationalDigits = sender.replace(/\D/g, '').slice(-10);
+    const candidates = await prisma.$queryRaw<Array<{ businessId: string; phone: string }>>`
+      SELECT DISTINCT c.business_id AS "businessId", c.phone
+      FROM customers c
+      WHERE c.is_active
+        AND c.phone IS NOT NULL
+        AND regexp_replace(c.phone, '[^0-9]', '', 'g') LIKE ${`%${nationalDigits}`}
+        AND EXISTS (
+          SELECT 1 FROM review_requests r
+          WHERE r.customer_id = c.id AND r.channel = 'SMS' AND r.sent_at IS NOT NULL
+        )
+    `;
+
+    const customers = candidates.filter(
+      customer => formatPhoneNumberForTwilio(customer.phone) === sender
+    );
+
+    const businessIds = [...new Set(customers.map(customer => customer.businessId))];
+
+    const failedBusinessIds: string[] = [];
+    for (const customer of customers) {
+      const contact = customer.phone;
+
+      let result: Result<unknown> | null = null;
+      if (keyword === 'STOP') {
+        result = await handleWebhookSuppression(
+          customer.businessId,
+          contact,
+          'SMS',
+          'SMS_STOP',
+          'twilio',
+          { messageSid: messageId, keyword: body?.trim() }
+        );
+      } else if (keyword === 'START') {
+        result = await reactivateSuppressedContact(customer.businessId, contact, 'SMS', 'twilio');
+      }
+      if (result && !result.success) {
+        failedBusinessIds.push(customer.businessId);
+      }
+    }
+
+    // Failing makes Twilio retry the message; suppressions are upserted, so a retry is safe
+    if (failedBusinessIds.length > 0) {
+      logger.error('Failed to apply SMS keyword for every business', {
+        messageId,
+        keyword,
+        failedBusinessIds,
+      });
+      return { success: false, error: `Failed to apply ${keyword} keyword` };
+    }
+
+    // Record non-opt-out traffic (HELP and free text) so it is visible per business
+    if (keyword !== 'STOP') {
+      for (const businessId of businessIds) {
+        await prisma.event.create({
+          data: {
+            businessId,
+            type: 'WEBHOOK_RECEIVED',
+            source: 'twilio',
+            description:
+              keyword === 'START'
+                ? 'Customer opted back in to SMS via START'
+                : keyword === 'HELP'
+                  ? 'Customer requested SMS help'
+                  : 'Inbound SMS received',
+            metadata: { messageSid: messageId, keyword, body },
+          },
+        });
+      }
+    }
+
+    logger.info('Twilio inbound message processed', {
+      messageId,
+      from: from.slice(0, 5) + '***',
+      keyword,
+      matchedBusinesses: businessIds.length,
+    });
+
+    return { success: true, data: { keyword, businessIds } };
+  } catch (error) {
+    logger.error('Failed to handle Twilio inbound message', {
+      messageSid: payload?.MessageSid,
+      error,
+    });
+    return { success: false, error: 'Failed to process inbound message' };
+  }
+}
+
 /**
  * Get SMS delivery status from Twilio
  */
@@ -220,10 +450,14 @@ export async function getSMSStatus(
 /**
  * Validate Twilio webhook signature (for security)
  */
-export function validateTwilioSignature(payload: string, signature: string, url: string): boolean {
+export function validateTwilioSignature(
+  params: Record<string, string>,
+  signature: string,
+  url: string
+): boolean {
   try {
     const authToken = getRequiredEnvVar('TWILIO_AUTH_TOKEN');
-    return twilio.validateRequest(authToken, payload, url, signature);
+    return twilio.validateRequest(authToken, signature, url, params);
   } catch (error) {
     logger.error('Failed to validate Twilio signature', { error });
     return false;
@@ -0,0 +1,514 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import type { Event, WebhookDelivery, WebhookEndpoint } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { assertPublicUrl } from '../lib/public-url';
+import {
+  API_REVIEW_REQUEST_SELECT,
+  toApiReviewRequest,
+  type ApiReviewRequest,
+} from '../lib/public-api';
+import type {
+  CreateWebhookEndpointInput,
+  UpdateWebhookEndpointInput,
+  WebhookDeliveryQuery,
+} from '../lib/validators/webhook';
+import { addJobToQueue } from './job-queue';
+import type { Result } from '../types/database';
+import type { DeliverWebhookJobData, DispatchWebhooksJobData } from '../types/external';
+
+/** How often new events are fanned out to endpoints */
+export const WEBHOOK_SWEEP_INTERVAL_MS = 15 * 1000;
+
+/** Events written inside a transaction can commit after later ones, so recent events wait */
+const EVENT_SETTLE_MS = 5 * 1000;
+
+/** Most events one endpoint takes per sweep; the rest go in the next one */
+const SWEEP_BATCH_SIZE = 200;
+
+/** With the queue's 5s exponential backoff, retries span roughly ten minutes */
+export const WEBHOOK_DELIVERY_ATTEMPTS = 8;
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+/** Characters of an endpoint's response kept in the delivery log */
+const RESPONSE_BODY_LIMIT = 1000;
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-ReviewRunner-Signature';
+
+const WEBHOOK_ERROR_STATUS: Record<string, number> = {
+  WEBHOOK_ENDPOINT_NOT_FOUND: 404,
+  WEBHOOK_DELIVERY_NOT_FOUND: 404,
+  WEBHOOK_ENDPOINT_DISABLED: 409,
+};
+
+/** An endpoint as listed; the signing secret is only returned by getWebhookEndpoint */
+export type WebhookEndpointSummary = Omit<WebhookEndpoint, 'secret' | 'eventCursor'>;
+
+export type WebhookEndpointWithSecret = Omit<WebhookEndpoint, 'eventCursor'>;
+
+/** The JSON body POSTed to an endpoint */
+export interface WebhookPayload {
+  id: string; // The event's id; the same event is never delivered to an endpoint twice
+  type: Event['type'];
+  createdAt: Date;
+  businessId: string;
+  data: {
+    description: string;
+    reviewRequest: ApiReviewRequest | null; // As it is when the delivery is made
+  };
+}
+
+/**
+ * Split a 'CODE: message' error from this module into an API error code and HTTP status
+ */
+export function parseWebhookError(error: string): {
+  code: string;
+  status: number;
+  message: string;
+} {
+  const match = /^([A-Z_]+): (.*)$/s.exec(error);
+  const code = match?.[1];
+  const status = code ? WEBHOOK_ERROR_STATUS[code] : undefined;
+
+  if (!match || !code || !status) {
+    return { code: 'INTERNAL_ERROR', status: 500, message: error };
+  }
+
+  return { code, status, message: match[2] ?? error };
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Signature header for a delivery: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">`.
+ * Receivers recompute it with their secret and reject old timestamps to stop replays.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+export function buildWebhookPayload(
+  event: Pick<Event, 'id' | 'type' | 'createdAt' | 'businessId' | 'description'>,
+  reviewRequest: ApiReviewRequest | null
+): WebhookPayload {
+  return {
+    id: event.id,
+    type: event.type,
+    createdAt: event.createdAt,
+    businessId: event.businessId,
+    data: { description: event.description, reviewRequest },
+  };
+}
+
+function toEndpointSummary({
+  secret: _secret,
+  eventCursor: _eventCursor,
+  ...endpoint
+}: WebhookEndpoint): WebhookEndpointSummary {
+  return endpoint;
+}
+
+function toEndpointWithSecret({
+  eventCursor: _eventCursor,
+  ...endpoint
+}: WebhookEndpoint): WebhookEndpointWithSecret {
+  return endpoint;
+}
+
+// ==========================================
+// ENDPOINTS
+// ==========================================
+
+export async function listWebhookEndpoints(
+  businessId: string
+): Promise<Result<WebhookEndpointSummary[]>> {
+  try {
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { businessId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return { success: true, data: endpoints.map(toEndpointSummary) };
+  } catch (error) {
+    logger.error('Failed to list webhook endpoints', { businessId, error });
+    return { success: false, error: 'Failed to load webhook endpoints' };
+  }
+}
+
+export async function getWebhookEndpoint(
+  businessId: string,
+  endpointId: string
+): Promise<Result<WebhookEndpointWithSecret>> {
+  try {
+    const endpoint = await prisma.webhookEndpoint.findFirst({
+      where: { id: endpointId, businessId },
+    });
+    if (!endpoint) {
+      return { success: false, error: 'WEBHOOK_ENDPOINT_NOT_FOUND: Webhook endpoint not found' };
+    }
+
+    return { success: true, data: toEndpointWithSecret(endpoint) };
+  } catch (error) {
+    logger.error('Failed to load webhook endpoint', { businessId, endpointId, error });
+    return { success: false, error: 'Failed to load webhook endpoint' };
+  }
+}
+
+/**
+ * Register an endpoint. It receives events recorded from now on, never older ones.
+ */
+export async function createWebhookEndpoint(
+  businessId: string,
+  input: CreateWebhookEndpointInput
+): Promise<Result<WebhookEndpointWithSecret>> {
+  try {
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: { businessId, ...input, secret: generateWebhookSecret() },
+    });
+
+    logger.info('Webhook endpoint created', {
+      businessId,
+      endpointId: endpoint.id,
+      eventTypes: input.eventTypes,
+    });
+
+    return { success: true, data: toEndpointWithSecret(endpoint) };
+  } catch (error) {
+    logger.error('Failed to create webhook endpoint', { businessId, error });
+    return { success: false, error: 'Failed to create webhook endpoint' };
+  }
+}
+
+/**
+ * Change an endpoint. Re-enabling it skips the events recorded while it was disabled.
+ */
+export async function updateWebhookEndpoint(
+  businessId: string,
+  endpointId: string,
+  input: UpdateWebhookEndpointInput
+): Promise<Result<WebhookEndpointSummary>> {
+  try {
+    const existing = await prisma.webhookEndpoint.findFirst({
+      where: { id: endpointId, businessId },
+    });
+    if (!existing) {
+      return { success: false, error: 'WEBHOOK_ENDPOINT_NOT_FOUND: Webhook endpoint not found' };
+    }
+
+    const endpoint = await prisma.webhookEndpoint.update({
+      where: { id: endpointId },
+      data: {
+        ...input,
+        ...(input.isActive && !existing.isActive ? { eventCursor: new Date() } : {}),
+      },
+    });
+
+    logger.info('Webhook endpoint updated', { businessId, endpointId });
+    return { success: true, data: toEndpointSummary(endpoint) };
+  } catch (error) {
+    logger.error('Failed to update webhook endpoint', { businessId, endpointId, error });
+    return { success: false, error: 'Failed to update webhook endpoint' };
+  }
+}
+
+/**
+ * Remove an endpoint and its delivery log
+ */
+export async function deleteWebhookEndpoint(
+  businessId: string,
+  endpointId: string
+): Promise<Result<void>> {
+  try {
+    const { count } = await prisma.webhookEndpoint.deleteMany({
+      where: { id: endpointId, businessId },
+    });
+    if (count === 0) {
+      return { success: false, error: 'WEBHOOK_ENDPOINT_NOT_FOUND: Webhook endpoint not found' };
+    }
+
+    logger.info('Webhook endpoint deleted', { businessId, endpointId });
+    return { success: true, data: undefined };
+  } catch (error) {
+    logger.error('Failed to delete webhook endpoint', { businessId, endpointId, error });
+    return { success: false, error: 'Failed to delete webhook endpoint' };
+  }
+}
+
+// ==========================================
+// DELIVERIES
+// ==========================================
+
+/**
+ * An endpoint's delivery log, newest first
+ */
+export async function listWebhookDeliveries(
+  businessId: string,
+  endpointId: string,
+  query: WebhookDeliveryQuery
+): Promise<Result<WebhookDelivery[]>> {
+  try {
+    const endpoint = await prisma.webhookEndpoint.findFirst({
+      where: { id: endpointId, businessId },
+      select: { id: true },
+    });
+    if (!endpoint) {
+      return { success: false, error: 'WEBHOOK_ENDPOINT_NOT_FOUND: Webhook endpoint not found' };
+    }
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { endpointId, ...(query.status ? { status: query.status } : {}) },
+      orderBy: { createdAt: 'desc' },
+      take: query.limit,
+    });
+
+    return { success: true, data: deliveries };
+  } catch (error) {
+    logger.error('Failed to list webhook deliveries', { businessId, endpointId, error });
+    return { success: false, error: 'Failed to load webhook deliveries' };
+  }
+}
+
+async function queueWebhookDelivery(deliveryId: string, jobId = `deliver-webhook:${deliveryId}`) {
+  await addJobToQueue<DeliverWebhookJobData>(
+    'deliver-webhook',
+    { deliveryId },
+    { attempts: WEBHOOK_DELIVERY_ATTEMPTS, jobId }
+  );
+}
+
+/**
+ * Send a delivery again, with a fresh round of retries, whatever happened to it before
+ */
+export async function redeliverWebhook(
+  businessId: string,
+  endpointId: string,
+  deliveryId: string
+): Promise<Result<WebhookDelivery>> {
+  try {
+    const existing = await prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, endpointId, endpoint: { businessId } },
+      include: { endpoint: { select: { isActive: true } } },
+    });
+    if (!existing) {
+      return { success: false, error: 'WEBHOOK_DELIVERY_NOT_FOUND: Webhook delivery not found' };
+    }
+    if (!existing.endpoint.isActive) {
+      return {
+        success: false,
+        error: 'WEBHOOK_ENDPOINT_DISABLED: Enable the endpoint before redelivering',
+      };
+    }
+
+    const delivery = await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'PENDING', nextAttemptAt: new Date() },
+    });
+    await queueWebhookDelivery(deliveryId, `deliver-webhook:${deliveryId}:${Date.now()}`);
+
+    logger.info('Webhook redelivery queued', { businessId, endpointId, deliveryId });
+    return { success: true, data: delivery };
+  } catch (error) {
+    logger.error('Failed to redeliver webhook', { businessId, deliveryId, error });
+    return { success: false, error: 'Failed to redeliver webhook' };
+  }
+}
+
+/**
+ * POST one delivery to its endpoint and log the outcome. `retryDelayMs` is when the queue
+ * will try again, or null on the last attempt, after which a failed delivery is FAILED.
+ */
+export async function deliverWebhook(
+  deliveryId: string,
+  retryDelayMs: number | null
+): Promise<Result<{ delivered: boolean; skipped?: boolean }>> {
+  try {
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { endpoint: true, event: true },
+    });
+    if (!delivery || delivery.status !== 'PENDING') {
+      return { success: true, data: { delivered: false, skipped: true } };
+    }
+
+    if (!delivery.endpoint.isActive) {
+      await prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: { status: 'FAILED', errorMessage: 'Endpoint disabled', nextAttemptAt: null },
+      });
+      return { success: true, data: { delivered: false, skipped: true } };
+    }
+
+    const { event, endpoint } = delivery;
+    const reviewRequest = event.reviewRequestId
+      ? await prisma.reviewRequest.findUnique({
+          where: { id: event.reviewRequestId },
+          select: API_REVIEW_REQUEST_SELECT,
+        })
+      : null;
+    const body = JSON.stringify(
+      buildWebhookPayload(event, reviewRequest ? toApiReviewRequest(reviewRequest) : null)
+    );
+
+    const startedAt = Date.now();
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let errorMessage: string | null = null;
+
+    try {
+      // The host may have been re-pointed at a private address since the endpoint was saved
+      await assertPublicUrl(endpoint.url);
+
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'ReviewRunner-Webhooks/1.0',
+          'X-ReviewRunner-Event': event.type,
+          'X-ReviewRunner-Delivery': delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            endpoint.secret,
+            body,
+            Math.floor(startedAt / 1000)
+          ),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, RESPONSE_BODY_LIMIT);
+      if (!response.ok) {
+        errorMessage = `Endpoint responded ${response.status}`;
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : String(error);
+    }
+
+    const delivered = errorMessage === null;
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        attempts: { increment: 1 },
+        status: delivered ? 'SUCCEEDED' : retryDelayMs === null ? 'FAILED' : 'PENDING',
+        responseStatus,
+        responseBody,
+        errorMessage,
+        durationMs: Date.now() - startedAt,
+        deliveredAt: delivered ? new Date() : null,
+        nextAttemptAt:
+          delivered || retryDelayMs === null ? null : new Date(Date.now() + retryDelayMs),
+      },
+    });
+
+    if (!delivered) {
+      logger.warn('Webhook delivery failed', {
+        deliveryId,
+        endpointId: endpoint.id,
+        responseStatus,
+        error: errorMessage,
+        willRetry: retryDelayMs !== null,
+      });
+    }
+
+    return { success: true, data: { delivered } };
+  } catch (error) {
+    logger.error('Failed to deliver webhook', {
+      deliveryId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to deliver webhook' };
+  }
+}
+
+// ==========================================
+// FAN-OUT
+// ==========================================
+
+/**
+ * Queue the next sweep. Job ids are bucketed by sweep slot, so every dispatcher process
+ * shares one chain.
+ */
+export async function scheduleWebhookDispatch(delay = WEBHOOK_SWEEP_INTERVAL_MS): Promise<void> {
+  const slot = Math.floor((Date.now() + delay) / WEBHOOK_SWEEP_INTERVAL_MS);
+
+  await addJobToQueue<DispatchWebhooksJobData>(
+    'dispatch-webhooks',
+    { slot },
+    { delay, jobId: `dispatch-webhooks:${slot}` }
+  );
+}
+
+/**
+ * Turn events recorded since each active endpoint's cursor into deliveries and queue them.
+ * Events are read from the Event table, so every place that records one is covered.
+ */
+export async function dispatchWebhookEvents(
+  now: Date = new Date()
+): Promise<Result<{ endpoints: number; queued: number }>> {
+  try {
+    const settledBefore = new Date(now.getTime() - EVENT_SETTLE_MS);
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { isActive: true, business: { isActive: true } },
+      select: { id: true, businessId: true, eventTypes: true, eventCursor: true },
+    });
+
+    let queued = 0;
+    for (const endpoint of endpoints) {
+      const events = await prisma.event.findMany({
+        where: {
+          businessId: endpoint.businessId,
+          type: { in: endpoint.eventTypes },
+          createdAt: { gte: endpoint.eventCursor, lte: settledBefore },
+        },
+        select: { id: true, type: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+        take: SWEEP_BATCH_SIZE,
+      });
+      const lastEvent = events.at(-1);
+      if (!lastEvent) {
+        continue;
+      }
+
+      // The cursor is inclusive, so events at the cursor itself may already have a delivery
+      const existing = await prisma.webhookDelivery.findMany({
+        where: { endpointId: endpoint.id, eventId: { in: events.map(event => event.id) } },
+        select: { eventId: true },
+      });
+      const delivered = new Set(existing.map(delivery => delivery.eventId));
+      const deliveries = events
+        .filter(event => !delivered.has(event.id))
+        .map(event => ({
+          id: randomUUID(),
+          endpointId: endpoint.id,
+          eventId: event.id,
+          eventType: event.type,
+        }));
+
+      await prisma.$transaction([
+        prisma.webhookDelivery.createMany({ data: deliveries, skipDuplicates: true }),
+        prisma.webhookEndpoint.update({
+          where: { id: endpoint.id },
+          data: { eventCursor: lastEvent.createdAt },
+        }),
+      ]);
+
+      // A delivery another dispatcher created first is skipped by deliverWebhook
+      for (const delivery of deliveries) {
+        await queueWebhookDelivery(delivery.id);
+      }
+      queued += deliveries.length;
+    }
+
+    return { success: true, data: { endpoints: endpoints.length, queued } };
+  } catch (error) {
+    logger.error('Failed to dispatch webhook events', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, error: 'Failed to dispatch webhook events' };
+  }
+}
@@ -1,5 +1,7 @@
 import type {
   Business,
+  Campaign,
+  CampaignStatus,
   Customer,
   ReviewRequest,
   Event,
@@ -9,10 +11,13 @@ import type {
   EventType,
   SuppressionReason,
 } from '@prisma/client';
+import type { ExperimentSettings } from '../lib/experiments';
 
 // Re-export Prisma types
 export type {
   Business,
+  Campaign,
+  CampaignStatus,
   Customer,
   ReviewRequest,
   Event,
@@ -88,6 +93,34 @@ export interface CreateReviewRequestInput {
   scheduledFor?: Date;
 }
 
+export interface CreateCampaignInput {
+  name: string;
+  description?: string;
+  channel: RequestChannel;
+  templateId?: string;
+  /** Review destination every request sends to; null rotates across active destinations */
+  destinationId?: string | null;
+  subject?: string;
+  messageContent?: string;
+  schedulingType: 'IMMEDIATE' | 'SCHEDULED' | 'OPTIMAL';
+  scheduledFor?: Date;
+  followUpEnabled?: boolean;
+  followUpSettings?: Record<string, unknown>;
+  settings?: Record<string, unknown>;
+  customerIds: string[];
+  /** Two or more variants turn the campaign into an A/B experiment */
+  variants?: CampaignVariantInput[];
+  experimentSettings?: Partial<ExperimentSettings>;
+}
+
+export interface CampaignVariantInput {
+  templateId?: string;
+  subject?: string;
+  messageContent?: string;
+}
+
+export type UpdateCampaignInput = Partial<CreateCampaignInput>;
+
 export interface CreateEventInput {
   businessId: string;
   reviewRequestId?: string;
@@ -143,6 +176,10 @@ export interface UpdateReviewRequestInput {
   externalId?: string;
   errorMessage?: string;
   retryCount?: number;
+  scheduledFor?: Date;
+  rescheduleReason?: string | null;
+  claimedAt?: Date | null;
+  claimedBy?: string | null;
   metadata?: Record<string, unknown>;
 }
 
@@ -20,7 +20,16 @@ export interface TwilioSMSResponse {
 
 export interface TwilioWebhookPayload {
   MessageSid: string;
-  MessageStatus: 'queued' | 'sent' | 'delivered' | 'undelivered' | 'failed';
+  MessageStatus?:
+    | 'accepted'
+    | 'queued'
+    | 'sending'
+    | 'sent'
+    | 'delivered'
+    | 'undelivered'
+    | 'failed'
+    | 'received';
+  SmsStatus?: string;
   To: string;
   From: string;
   Body?: string;
@@ -147,14 +156,36 @@ export interface SendRequestJobData {
 }
 
 export interface SendFollowupJobData {
-  requestId: string;
-  followupType: 'first' | 'second' | 'final';
+  requestId: string; // The original request the sequence belongs to
+  stepIndex: number;
 }
 
 export interface MonitorReviewsJobData {
   businessId: string;
 }
 
+export interface EvaluateExperimentJobData {
+  campaignId: string;
+}
+
+export interface DispatchWebhooksJobData {
+  slot: number; // Sweep interval the job was scheduled for; keeps one sweep chain running
+}
+
+export interface DeliverWebhookJobData {
+  deliveryId: string;
+}
+
+export interface RunAutomationsJobData {
+  businessId: string;
+  customerId: string;
+  triggers: Array<{ type: 'CUSTOMER_CREATED' } | { type: 'CUSTOMER_TAGGED'; tags: string[] }>;
+}
+
+export interface RollupAnalyticsJobData {
+  slot: number; // Rollup interval the job was scheduled for; keeps one rollup chain running
+}
+
 export interface ProcessWebhookJobData {
   source: 'twilio' | 'sendgrid';
   payload: TwilioWebhookPayload | SendGridWebhookEvent[];
@@ -165,6 +196,11 @@ export type JobData =
   | SendRequestJobData
   | SendFollowupJobData
   | MonitorReviewsJobData
+  | EvaluateExperimentJobData
+  | DispatchWebhooksJobData
+  | DeliverWebhookJobData
+  | RunAutomationsJobData
+  | RollupAnalyticsJobData
   | ProcessWebhookJobData;
 
 // Webhook Verification Types